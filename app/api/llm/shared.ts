@@ -0,0 +1,100 @@
+import { z } from 'zod'
+import { ChatAnthropic } from '@langchain/anthropic'
+
+// Request schema shared by the JSON and streaming endpoints
+export const RequestSchema = z.object({
+  prompt: z.string().min(1, "Prompt is required"),
+  mainTheme: z.string().optional().default(''),
+  // 'map' additionally asks for a mind map tree
+  format: z.enum(['text', 'map']).optional().default('text')
+})
+
+// Mind map tree: root, up to two levels of children and cross relations referencing labels
+export const MindMapSchema = z.object({
+  root: z.string().describe("Central topic, a few words"),
+  children: z.array(z.object({
+    label: z.string().describe("Main branch, a few words"),
+    children: z.array(z.string()).describe("Sub-topics of this branch, a few words each")
+  })).describe("3-6 main branches with 0-4 sub-topics each"),
+  relations: z.array(z.object({
+    from: z.string().describe("Label of a node in the map"),
+    to: z.string().describe("Label of another node in the map")
+  })).describe("Notable links between nodes in different branches (may be empty)")
+})
+
+// Initialize Claude configuration for LangChain
+export function initializeClaude() {
+  const apiKey = process.env.ANTHROPIC_API_KEY
+  const model = process.env.LLM_MODEL || 'claude-3-5-haiku-20241022'
+
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY is not set')
+  }
+
+  return new ChatAnthropic({
+    anthropicApiKey: apiKey,
+    modelName: model,
+    maxTokens: 6000,
+    temperature: 0.5,
+  })
+}
+
+/**
+ * Build the system prompt; each endpoint supplies its own output format section
+ */
+export function buildSystemPrompt(mainTheme: string, outputFormat: string): string {
+  return `
+# Your Role
+You are an AI assistant supporting brainstorming in a whiteboard application.
+Please answer user questions concisely and clearly.
+
+# Main Theme
+${mainTheme}
+
+# Response Guidelines
+- Respond in detail within 3000 characters
+- Organize clearly in markdown format (use headings, bullet points, bold text, etc.)
+- Include specific examples in explanations
+- Provide diagrams or structured information as needed
+- Suggest next steps or related research topics
+
+# Output Format
+${outputFormat}
+`
+}
+
+/**
+ * Generate mock mind map
+ */
+export function getMockMindMap(prompt: string): z.infer<typeof MindMapSchema> {
+  return {
+    root: prompt.slice(0, 40),
+    children: [
+      { label: 'Current situation', children: ['Background', 'Constraints'] },
+      { label: 'Desired outcome', children: ['Goals', 'Success criteria'] },
+      { label: 'Next steps', children: ['Quick wins', 'Open questions'] }
+    ],
+    relations: [{ from: 'Constraints', to: 'Quick wins' }]
+  }
+}
+
+/**
+ * Generate mock response
+ */
+export function getMockResponse(prompt: string): string {
+  // Simple mock response based on prompt keywords
+  const lowerPrompt = prompt.toLowerCase()
+
+  // Japanese keyword mock responses
+  if (lowerPrompt.includes('アイデア') || lowerPrompt.includes('企画')) {
+    return '1) Understanding user needs 2) Defining core features 3) Creating a simple prototype'
+  }
+  if (lowerPrompt.includes('問題') || lowerPrompt.includes('課題')) {
+    return 'Key points for organization: 1) Root cause 2) Immediate countermeasures 3) Long-term solutions'
+  }
+  if (lowerPrompt.includes('整理') || lowerPrompt.includes('まとめ')) {
+    return 'Organizing into 3 key points: 1) Background & current situation 2) Issues & problems 3) Next actions'
+  }
+
+  return 'Points to consider: 1) Current situation 2) Desired outcome 3) Specific next steps'
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { HumanMessage, SystemMessage } from '@langchain/core/messages'
+import { RequestSchema, initializeClaude, buildSystemPrompt, getMockResponse } from '../shared'
+import {
+  STREAM_META_DELIMITER,
+  createAnswerStreamSplitter,
+  encodeSSE,
+  parseStreamMeta,
+  type LLMStreamEvent
+} from '@/lib/llm-stream'
+
+/**
+ * Streaming variant of /api/llm.
+ * Sends the markdown answer as `token` events, then a final `done` event with the summary.
+ */
+export async function POST(req: NextRequest) {
+  let prompt: string
+  let mainTheme: string
+  try {
+    ({ prompt, mainTheme } = RequestSchema.parse(await req.json()))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request format', details: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const encoder = new TextEncoder()
+  // Set once the stream is closed or the client cancelled it; the controller throws after that
+  let closed = false
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: LLMStreamEvent) => {
+        if (!closed) controller.enqueue(encoder.encode(encodeSSE(event)))
+      }
+      const splitter = createAnswerStreamSplitter()
+
+      try {
+        const chunks = process.env.MOCK_LLM === '1'
+          ? streamMock(prompt, req.signal)
+          : streamClaude(prompt, mainTheme, req.signal)
+
+        for await (const chunk of chunks) {
+          const visible = splitter.push(chunk)
+          if (visible) send({ type: 'token', text: visible })
+        }
+
+        const { rest, answer, meta } = splitter.finish()
+        if (rest) send({ type: 'token', text: rest })
+
+        // Same shape as the non-streaming endpoint: next study proposal appended to both
+        const { summary, nextStudy } = parseStreamMeta(meta, answer)
+        send({
+          type: 'done',
+          text: nextStudy ? `${answer}\n\n${nextStudy}` : answer,
+          summary: nextStudy ? `${summary}\n\n${nextStudy}` : summary
+        })
+      } catch (error) {
+        // Client pressed stop: nothing left to report
+        if (!req.signal.aborted) {
+          console.error('LLM stream error:', error)
+          send({ type: 'error', error: 'Service is temporarily unavailable. Please try again later.' })
+        }
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  })
+}
+
+/**
+ * Stream raw text chunks from Claude
+ */
+async function* streamClaude(prompt: string, mainTheme: string, signal: AbortSignal): AsyncGenerator<string> {
+  const claude = initializeClaude()
+
+  const systemPrompt = buildSystemPrompt(mainTheme, `Write the markdown answer first.
+After the answer, output a line containing only ${STREAM_META_DELIMITER} followed by a JSON object:
+{"summary": "Concise summary within 300 characters", "nextStudy": "Next research proposal within 500 characters"}
+Do not write anything after the JSON object.`)
+
+  const stream = await claude.stream(
+    [new SystemMessage(systemPrompt), new HumanMessage(prompt)],
+    { signal }
+  )
+
+  for await (const chunk of stream) {
+    if (typeof chunk.content === 'string') {
+      yield chunk.content
+    } else {
+      yield chunk.content
+        .map(part => (part.type === 'text' && 'text' in part ? String(part.text) : ''))
+        .join('')
+    }
+  }
+}
+
+/**
+ * Mock mode: stream the mock response word by word
+ */
+async function* streamMock(prompt: string, signal: AbortSignal): AsyncGenerator<string> {
+  const text = getMockResponse(prompt)
+
+  for (const word of text.split(/(?<= )/)) {
+    if (signal.aborted) return
+    await new Promise(resolve => setTimeout(resolve, 30))
+    yield word
+  }
+
+  yield `\n${STREAM_META_DELIMITER}\n${JSON.stringify({ summary: text.slice(0, 100) + '...', nextStudy: '' })}`
+}
@@ -5,6 +5,10 @@ import { Toolbar } from '@/canvas/tools/Toolbar'
 import { LeftChatPanel } from '@/canvas/tools/LeftChatPanel'
 import { CanvasStage } from '@/canvas/CanvasStage'
 import { ShortcutsModal } from '@/components/ShortcutsModal'
+import { BoardSwitcher } from '@/components/BoardSwitcher'
+import { ExportMenu } from '@/components/ExportMenu'
+import { HistoryPanel } from '@/components/HistoryPanel'
+import { FramesPanel } from '@/components/FramesPanel'
 import { useBoardStore } from '@/store/boardStore'
 import { useGlobalZoomControl } from '@/hooks/useGlobalZoomControl'
 import { shouldAllowNativeKeyboard } from '@/lib/keyboard-utils'
@@ -55,12 +59,12 @@ export default function Home() {
   // Enable global zoom control
   useGlobalZoomControl(isClient)
 
-  // Restore data from localStorage on app startup (client-side only)
+  // Restore the last opened board on app startup (client-side only)
   useEffect(() => {
     if (!isClient) return
 
     // Restore board data and viewport
-    loadFromStorage()
+    void loadFromStorage()
   }, [isClient, loadFromStorage])
 
   // Keyboard shortcut to open shortcuts modal (?)
@@ -147,6 +151,23 @@ export default function Home() {
         </div>
       )}
 
+      {/* Frames, history, export menu and board switcher */}
+      {isClient && (
+        <div style={{
+          position: 'fixed',
+          top: '16px',
+          right: '16px',
+          zIndex: 1000,
+          display: 'flex',
+          gap: '8px'
+        }}>
+          <FramesPanel viewportSize={canvasSize} />
+          <HistoryPanel />
+          <ExportMenu viewportSize={canvasSize} />
+          <BoardSwitcher />
+        </div>
+      )}
+
       {/* Keyboard Shortcuts Modal */}
       {isClient && (
         <ShortcutsModal
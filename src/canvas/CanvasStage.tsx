@@ -5,33 +5,44 @@ import { StickyNote } from './shapes/StickyNote'
 import { RectShape } from './shapes/RectShape'
 import { TextBox } from './shapes/TextBox'
 import { ImageShape } from './shapes/ImageShape'
+import { FrameShape } from './shapes/FrameShape'
 import { Connector } from './edges/Connector'
 import { StickyNoteEditor } from './StickyNoteEditor'
 import { ConnectionPreview } from './shapes/ConnectionPreview'
 import { ColorPicker } from './tools/ColorPicker'
 import { ContextMenu } from './tools/ContextMenu'
 import { SelectionToolbar } from './tools/SelectionToolbar'
+import { ConnectorToolbar } from './tools/ConnectorToolbar'
 import { ResizePreview } from './shapes/ResizePreview'
+import { SelectionTransformer } from './shapes/SelectionTransformer'
 import { 
   useSortedElements,
+  useElements,
   useConnectors,
   useSelectedTool,
   useSelectedElements,
+  useSelectedConnectors,
   useViewport as useViewportSelector,
   useStoreActions,
   useConnectionMode,
   useConnectorDrag,
   useHoveredElementId,
-  useCursorPosition
+  useCursorPosition,
+  useTransformScalesText
 } from '@/store/selectors'
 import { useCanvasEvents } from './hooks/useCanvasEvents'
 import { useViewport } from './hooks/useViewport'
 import { useCanvasPerformanceMonitor } from '@/hooks/usePerformanceMonitor'
 import { useThrottle } from '@/hooks/useThrottle'
 import { isWithinHoverBuffer } from '@/lib/interaction-utils'
+import { frameClipBox } from '@/lib/frames'
+import { rotateWithElement } from '@/lib/rotation'
+import type { LayoutKind } from '@/lib/auto-layout'
+import type { ConnectorStyle } from '@/lib/connector-style'
+import type { CanvasElement, ConnectorAnchorMode, ConnectorRouting } from '@/types'
 
 // Dynamic import of Konva components
-let Stage: any, Layer: any, RectK: any
+let Stage: any, Layer: any, RectK: any, GroupK: any, TextK: any
 
 if (typeof window !== 'undefined') {
   try {
@@ -39,6 +50,8 @@ if (typeof window !== 'undefined') {
     Stage = konva.Stage
     Layer = konva.Layer
     RectK = konva.Rect
+    GroupK = konva.Group
+    TextK = konva.Text
   } catch (e) {
   }
 }
@@ -52,9 +65,11 @@ type CanvasStageProps = {
 export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width, height }) {
   // Use optimized selectors to prevent unnecessary re-renders
   const elements = useSortedElements()
+  const allElements = useElements()
   const connectors = useConnectors()
   const selectedTool = useSelectedTool()
   const selectedElements = useSelectedElements()
+  const selectedConnectors = useSelectedConnectors()
   const viewport = useViewportSelector()
   const connectionMode = useConnectionMode()
   const connectorDrag = useConnectorDrag()
@@ -67,9 +82,17 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
     updateVerticalAlignment,
     updateElementColor,
     updateFontSize,
+    applyLayout,
+    arrangeSelected,
     deleteConnector,
     setHoveredElementId,
+    toggleLockSelected,
+    setTransformScalesText,
+    updateConnectorStyle,
+    setConnectorRouting,
+    setConnectorAnchorMode,
   } = useStoreActions()
+  const transformScalesText = useTransformScalesText()
 
   // Get required functionality from custom hooks
   const {
@@ -83,6 +106,7 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
     handleSelectionMouseUp,
     handleElementUpdate,
     handleElementDoubleClick,
+    handleConnectorDoubleClick,
     handleContextMenu,
     handleEditorFinish,
     handleEditorTextChange,
@@ -92,6 +116,7 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
     handleContextMenuColorChange,
     handleContextMenuBringToFront,
     handleContextMenuSendToBack,
+    handleContextMenuToggleLock,
     handleDragOver,
     handleDrop,
     handleConnectionPointClick,
@@ -103,6 +128,17 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
 
   const { handleWheel, handleTouchStart, handleTouchMove, handleTouchEnd } = useViewport()
 
+  // Children of clipping frames are drawn through the frame's bounds
+  const withFrameClip = (element: CanvasElement, node: React.ReactNode) => {
+    const clip = frameClipBox(allElements, element)
+    if (!clip) return node
+    return (
+      <GroupK key={element.id} clipX={clip.x} clipY={clip.y} clipWidth={clip.width} clipHeight={clip.height}>
+        {node}
+      </GroupK>
+    )
+  }
+
   // Performance monitoring for development
   useCanvasPerformanceMonitor(elements.length, viewport)
   
@@ -121,6 +157,31 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
     return { x: screenX, y: screenY }
   }, [selectedElements, viewport.zoom, viewport.panX, viewport.panY])
 
+  // Connector toolbar sits above the selected connectors, or below them when the element toolbar is shown too
+  const connectorToolbarPosition = useMemo(() => {
+    if (selectedConnectors.length === 0) return { x: 0, y: 0 }
+    const xs = selectedConnectors.flatMap(c => c.points.filter((_, i) => i % 2 === 0))
+    const ys = selectedConnectors.flatMap(c => c.points.filter((_, i) => i % 2 === 1))
+    const centerX = (Math.min(...xs) + Math.max(...xs)) / 2
+    const screenX = centerX * viewport.zoom + viewport.panX
+    if (selectedElements.length > 0) {
+      return { x: screenX, y: Math.max(...ys) * viewport.zoom + viewport.panY + 80 }
+    }
+    return { x: screenX, y: Math.min(...ys) * viewport.zoom + viewport.panY - 10 }
+  }, [selectedConnectors, selectedElements.length, viewport.zoom, viewport.panX, viewport.panY])
+
+  const handleConnectorStyleChange = useCallback((style: Partial<ConnectorStyle>) => {
+    updateConnectorStyle(selectedConnectors.map(c => c.id), style)
+  }, [selectedConnectors, updateConnectorStyle])
+
+  const handleConnectorRoutingChange = useCallback((routing: ConnectorRouting) => {
+    setConnectorRouting(selectedConnectors.map(c => c.id), routing)
+  }, [selectedConnectors, setConnectorRouting])
+
+  const handleConnectorAnchorModeChange = useCallback((mode: ConnectorAnchorMode) => {
+    setConnectorAnchorMode(selectedConnectors.map(c => c.id), mode)
+  }, [selectedConnectors, setConnectorAnchorMode])
+
   // Memoized callback functions to prevent recreation on every render
   const handleTextAlignmentChange = useCallback((align: any) => {
     const selectedIds = selectedElements.map(el => el.id)
@@ -142,6 +203,10 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
     updateFontSize(selectedIds, fontSize)
   }, [selectedElements, updateFontSize])
 
+  const handleLayout = useCallback((kind: LayoutKind) => {
+    applyLayout(kind, { animate: true })
+  }, [applyLayout])
+
   // Mouse movement handler for hover detection (throttled for performance)
   const handleMouseMoveRaw = useCallback((e: any) => {
     const stage = e.target.getStage()
@@ -276,7 +341,7 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
         <Layer>
           {elements.map((element) => {
               if (element.type === 'sticky') {
-                return (
+                return withFrameClip(element,
                   <StickyNote
                     key={element.id}
                     id={element.id}
@@ -290,6 +355,8 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
                     textAlign={element.textAlign}
                     verticalAlign={element.verticalAlign}
                     onUpdate={handleElementUpdate}
+                    locked={element.locked}
+                    rotation={element.rotation}
                     onDoubleClick={handleElementDoubleClick}
                     onContextMenu={handleContextMenu}
                     zoom={viewport.zoom}
@@ -299,7 +366,7 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
                   />
                 )
               } else if (element.type === 'rect') {
-                return (
+                return withFrameClip(element,
                   <RectShape
                     key={element.id}
                     id={element.id}
@@ -312,6 +379,8 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
                     strokeWidth={element.strokeWidth}
                     radius={element.radius}
                     onUpdate={handleElementUpdate}
+                    locked={element.locked}
+                    rotation={element.rotation}
                     onContextMenu={handleContextMenu}
                     showConnectionPoints={element.id === hoveredElementId}
                     onConnectionPointClick={handleConnectionPointClick}
@@ -320,7 +389,7 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
                   />
                 )
               } else if (element.type === 'text') {
-                return (
+                return withFrameClip(element,
                   <TextBox
                     key={element.id}
                     id={element.id}
@@ -335,13 +404,34 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
                     textAlign={element.textAlign}
                     verticalAlign={element.verticalAlign}
                     onUpdate={handleElementUpdate}
+                    locked={element.locked}
+                    rotation={element.rotation}
                     onDoubleClick={handleElementDoubleClick}
                     showConnectionPoints={element.id === hoveredElementId}
                     onConnectionPointClick={handleConnectionPointClick}
                   />
                 )
+              } else if (element.type === 'frame') {
+                return withFrameClip(element,
+                  <FrameShape
+                    key={element.id}
+                    id={element.id}
+                    x={element.x}
+                    y={element.y}
+                    width={element.width}
+                    height={element.height}
+                    title={element.title}
+                    onUpdate={handleElementUpdate}
+                    locked={element.locked}
+                    onContextMenu={handleContextMenu}
+                    showConnectionPoints={element.id === hoveredElementId}
+                    onConnectionPointClick={handleConnectionPointClick}
+                    zoom={viewport.zoom}
+                    zIndex={element.zIndex}
+                  />
+                )
               } else if (element.type === 'image') {
-                return (
+                return withFrameClip(element,
                   <ImageShape
                     key={element.id}
                     id={element.id}
@@ -353,6 +443,8 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
                     originalWidth={element.originalWidth}
                     originalHeight={element.originalHeight}
                     onUpdate={handleElementUpdate}
+                    locked={element.locked}
+                    rotation={element.rotation}
                     onDoubleClick={handleElementDoubleClick}
                     onContextMenu={handleContextMenu}
                     zoom={viewport.zoom}
@@ -365,6 +457,18 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
               return null
             })}
 
+          {/* Lock badges */}
+          {elements.filter(element => element.locked).map(element => (
+            <TextK
+              key={`lock-${element.id}`}
+              {...rotateWithElement(element, { x: element.x + element.width - 16 / viewport.zoom, y: element.y + 4 / viewport.zoom })}
+              rotation={element.rotation ?? 0}
+              text="🔒"
+              fontSize={11 / viewport.zoom}
+              listening={false}
+            />
+          ))}
+
           {/* Connectors */}
           {connectors.map((connector) => (
             <Connector
@@ -372,8 +476,19 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
               id={connector.id}
               fromId={connector.fromId}
               toId={connector.toId}
+              fromAnchor={connector.fromAnchor}
+              toAnchor={connector.toAnchor}
               points={connector.points}
+              stroke={connector.stroke}
+              strokeWidth={connector.strokeWidth}
+              dash={connector.dash}
+              startMarker={connector.startMarker}
+              endMarker={connector.endMarker}
+              label={connector.label}
+              labelPosition={connector.labelPosition}
+              routing={connector.routing}
               onDelete={deleteConnector}
+              onEditLabel={handleConnectorDoubleClick}
             />
           ))}
 
@@ -384,6 +499,9 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
             fromAnchor={connectionMode.fromAnchor}
             elements={elements}
           />
+
+          {/* Shared transform box for multi-selections */}
+          {selectedTool === 'select' && <SelectionTransformer zoom={viewport.zoom} />}
         </Layer>
 
         {connectorDrag.isActive && (
@@ -433,6 +551,8 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
         onChangeColor={handleContextMenuColorChange}
         onBringToFront={handleContextMenuBringToFront}
         onSendToBack={handleContextMenuSendToBack}
+        isLocked={contextMenuState.isLocked}
+        onToggleLock={handleContextMenuToggleLock}
       />
 
       {/* Color Picker for rectangles - rendered outside Konva */}
@@ -457,9 +577,24 @@ export const CanvasStage = memo<CanvasStageProps>(function CanvasStage({ width,
         onVerticalAlignChange={handleVerticalAlignmentChange}
         onColorChange={handleColorChange2}
         onFontSizeChange={handleFontSizeChange}
+        onLayout={handleLayout}
+        onArrange={arrangeSelected}
+        onToggleLock={toggleLockSelected}
+        scalesText={transformScalesText}
+        onToggleScaleText={() => setTransformScalesText(!transformScalesText)}
         viewport={viewport}
       />
 
+      {/* Connector Toolbar - rendered outside Konva */}
+      <ConnectorToolbar
+        isVisible={selectedTool === 'select' && selectedConnectors.length > 0}
+        position={connectorToolbarPosition}
+        selectedConnectors={selectedConnectors}
+        onStyleChange={handleConnectorStyleChange}
+        onRoutingChange={handleConnectorRoutingChange}
+        onAnchorModeChange={handleConnectorAnchorModeChange}
+      />
+
       {/* Resize Preview - rendered outside Konva */}
       <ResizePreview />
     </div>
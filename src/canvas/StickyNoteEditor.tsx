@@ -17,7 +17,7 @@ type StickyNoteEditorProps = {
   onTextChange: (text: string) => void
   onFinish: () => void
   // Which element type is being edited (sticky/text/etc.)
-  elementType?: 'sticky' | 'text' | 'rect'
+  elementType?: 'sticky' | 'text' | 'rect' | 'connector'
   // Auto-sizing support
   elementId?: string
   element?: any
@@ -141,9 +141,9 @@ export function StickyNoteEditor({
         fontSize: TYPOGRAPHY_TOKENS.fontSize.base,
         fontFamily: TYPOGRAPHY_TOKENS.fontFamily.primary,
         fontWeight: TYPOGRAPHY_TOKENS.fontWeight.normal,
-        // White background only during TextBox editing, otherwise use element color
-        backgroundColor: elementType === 'text' ? '#FFFFFF' : color,
-        color: elementType === 'text' ? getOptimalTextColor('#FFFFFF') : getOptimalTextColor(color),
+        // White background only during TextBox / connector label editing, otherwise use element color
+        backgroundColor: elementType === 'text' || elementType === 'connector' ? '#FFFFFF' : color,
+        color: elementType === 'text' || elementType === 'connector' ? getOptimalTextColor('#FFFFFF') : getOptimalTextColor(color),
         resize: 'none',
         outline: 'none',
         zIndex: 10000,
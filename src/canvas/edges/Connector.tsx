@@ -3,16 +3,22 @@
 import React, { useRef, useState } from 'react'
 import { useBoardStore } from '@/store/boardStore'
 import { Z_INDEX } from '@/lib/z-index-constants'
+import { connectorStyle, dashPattern, insetPoints, markerInset, markerPose, markerShape } from '@/lib/connector-style'
+import { LABEL_COLOR, LABEL_FONT_SIZE, LABEL_HALO_WIDTH, LABEL_LINE_HEIGHT, estimateLabelSize, labelPlacement, nearestPathFraction } from '@/lib/connector-label'
+import { connectorGeometry, insertBend, moveBend, moveElbowEnd, moveElbowSegment, toPointList, withEndPoint } from '@/lib/connector-routing'
+import { TYPOGRAPHY_TOKENS } from '@/design-system/typography'
+import type { AnchorPosition, ConnectorDash, ConnectorMarker, ConnectorRouting } from '@/types'
 
 // Konvaコンポーネントの動的インポート
-let Line: any, Arrow: any, Circle: any
+let Line: any, Circle: any, Group: any, Text: any
 
 if (typeof window !== 'undefined') {
   try {
     const konva = require('react-konva')
     Line = konva.Line
-    Arrow = konva.Arrow
     Circle = konva.Circle
+    Group = konva.Group
+    Text = konva.Text
   } catch (e) {
   }
 }
@@ -21,23 +27,55 @@ type ConnectorProps = {
   id: string
   fromId: string
   toId: string
-  points: number[] // [x1, y1, x2, y2]
+  fromAnchor?: AnchorPosition
+  toAnchor?: AnchorPosition
+  points: number[] // [x1, y1, ...折れ点, xn, yn]
+  routing?: ConnectorRouting
+  stroke?: string
+  strokeWidth?: number
+  dash?: ConnectorDash
+  startMarker?: ConnectorMarker
+  endMarker?: ConnectorMarker
+  label?: string
+  labelPosition?: number
   onDelete?: (id: string) => void
+  // ダブルクリックでラベル編集（point はクリック位置のキャンバス座標）
+  onEditLabel?: (id: string, stage: any, point: { x: number; y: number }) => void
 }
 
+// 選択中は線の下に青いハイライトを敷く（線の色はそのまま見せる）
+const SELECTION_COLOR = '#0D99FF'
+
 export function Connector({
   id,
   fromId,
   toId,
+  fromAnchor,
+  toAnchor,
   points,
-  onDelete: _onDelete
+  routing,
+  label,
+  labelPosition,
+  onDelete: _onDelete,
+  onEditLabel,
+  ...styleProps
 }: ConnectorProps) {
-  // 線の色とスタイル（選択状態なし）
-  const strokeColor = '#666'
-  const strokeWidth = 2
+  // 線の色とスタイル（未指定はデフォルト）
+  const style = connectorStyle(styleProps)
+  const strokeColor = style.stroke
+  const strokeWidth = style.strokeWidth
+  const dash = dashPattern(style.dash, strokeWidth)
 
   const { updateConnectorPoints, attachConnectorEnd, detachConnectorEnd, elements, selectConnector, selectedConnectorIds, viewport, setConnectorHoverTarget } = useBoardStore()
   const isSelected = selectedConnectorIds.includes(id)
+  // 実際に描く線（曲線はベジェ制御点と、ラベル・マーカー用の折れ線近似）
+  const geometry = connectorGeometry({ fromId, toId, fromAnchor, toAnchor, points, routing }, elements)
+  const path = geometry.path
+  // 端点の移動（手で整えた直角ルートは隣の折れ点も動かして直角を保つ）
+  const moveEnd = (which: 'start' | 'end', point: { x: number; y: number }) =>
+    routing === 'elbow' ? moveElbowEnd(points, which, point) : withEndPoint(points, which, point)
+  const translate = (base: number[], dx: number, dy: number) =>
+    base.map((value, i) => value + (i % 2 === 0 ? dx : dy))
   const [isDraggingEnd, setIsDraggingEnd] = useState<null | 'start' | 'end'>(null)
   const startPosRef = useRef<{ x: number; y: number } | null>(null)
   const dragStartPointsRef = useRef<number[] | null>(null)
@@ -46,11 +84,15 @@ export function Connector({
 
   // HTMLフォールバック用のアンカー描画
   const renderHTML = () => {
-    const [x1, y1, x2, y2] = points
-    const left = Math.min(x1, x2)
-    const top = Math.min(y1, y2)
-    const w = Math.abs(x2 - x1)
-    const h = Math.abs(y2 - y1)
+    const [x1, y1] = points
+    const [x2, y2] = points.slice(-2)
+    const xs = path.filter((_, i) => i % 2 === 0)
+    const ys = path.filter((_, i) => i % 2 === 1)
+    const left = Math.min(...xs)
+    const top = Math.min(...ys)
+    const w = Math.max(...xs) - left
+    const h = Math.max(...ys) - top
+    const labelAt = labelPlacement({ points: path, labelPosition })
 
     const handleDown = (which: 'start' | 'end') => (e: React.MouseEvent) => {
       e.stopPropagation()
@@ -61,11 +103,8 @@ export function Connector({
         ev.preventDefault()
         const dx = ev.clientX - (startPosRef.current?.x || 0)
         const dy = ev.clientY - (startPosRef.current?.y || 0)
-        if (which === 'start') {
-          updateConnectorPoints(id, [x1 + dx, y1 + dy, x2, y2])
-        } else {
-          updateConnectorPoints(id, [x1, y1, x2 + dx, y2 + dy])
-        }
+        const [bx, by] = which === 'start' ? [x1, y1] : [x2, y2]
+        updateConnectorPoints(id, moveEnd(which, { x: bx + dx, y: by + dy }))
       }
       const handleUp = () => {
         document.removeEventListener('mousemove', handleMove)
@@ -88,9 +127,7 @@ export function Connector({
         const scale = viewport?.zoom || 1
         const dx = (ev.clientX - start.x) / scale
         const dy = (ev.clientY - start.y) / scale
-        const base = dragStartPointsRef.current || points
-        const [sx1, sy1, sx2, sy2] = base
-        updateConnectorPoints(id, [sx1 + dx, sy1 + dy, sx2 + dx, sy2 + dy])
+        updateConnectorPoints(id, translate(dragStartPointsRef.current || points, dx, dy))
       }
       const handleUp = () => {
         document.removeEventListener('mousemove', handleMove)
@@ -107,15 +144,22 @@ export function Connector({
         style={{ position: 'absolute', left, top, width: w + 4, height: h + 4, pointerEvents: 'none', zIndex: 0 }}
       >
         <svg width="100%" height="100%" style={{ position: 'absolute', left: 0, top: 0, pointerEvents: 'none' }}>
-          <line
-            x1={x1 - left + 2}
-            y1={y1 - top + 2}
-            x2={x2 - left + 2}
-            y2={y2 - top + 2}
-            stroke={isSelected ? '#0D99FF' : strokeColor}
+          <polyline
+            points={toPointList(path).map(p => `${p.x - left + 2},${p.y - top + 2}`).join(' ')}
+            fill="none"
+            stroke={isSelected ? SELECTION_COLOR : strokeColor}
             strokeWidth={isSelected ? strokeWidth + 1 : strokeWidth}
+            strokeDasharray={dash.length > 0 ? dash.join(' ') : undefined}
           />
         </svg>
+        {label && (
+          <div
+            data-testid="connector-label"
+            style={{ position: 'absolute', left: labelAt.x - left, top: labelAt.y - top, transform: 'translate(-50%, -50%)', fontSize: LABEL_FONT_SIZE, color: LABEL_COLOR, whiteSpace: 'pre', pointerEvents: 'none' }}
+          >
+            {label}
+          </div>
+        )}
         {/* クリックで選択 */}
         <div
           style={{ position: 'absolute', inset: 0, pointerEvents: 'auto', background: 'transparent' }}
@@ -137,7 +181,8 @@ export function Connector({
   // テスト環境用のフォールバック
   if (!Line) return renderHTML()
 
-  const [x1, y1, x2, y2] = points
+  const [x1, y1] = points
+  const [x2, y2] = points.slice(-2)
 
   const getElementAnchors = (el: any) => {
     return [
@@ -174,19 +219,19 @@ export function Connector({
       const scale = viewport?.zoom || 1
       const dx = (ev.clientX - start.x) / scale
       const dy = (ev.clientY - start.y) / scale
-      let nx1 = x1, ny1 = y1, nx2 = x2, ny2 = y2
-      if (which === 'start') { nx1 = x1 + dx; ny1 = y1 + dy } else { nx2 = x2 + dx; ny2 = y2 + dy }
+      const [bx, by] = which === 'start' ? [x1, y1] : [x2, y2]
+      let next = { x: bx + dx, y: by + dy }
       // スナップ判定（ドラッグ中）
-      const target = findSnapTarget(which === 'start' ? nx1 : nx2, which === 'start' ? ny1 : ny2)
+      const target = findSnapTarget(next.x, next.y)
       if (target) {
         snapTargetRef.current = target
         setConnectorHoverTarget({ elementId: target.elementId, anchor: target.anchor })
-        if (which === 'start') { nx1 = target.x; ny1 = target.y } else { nx2 = target.x; ny2 = target.y }
+        next = { x: target.x, y: target.y }
       } else {
         snapTargetRef.current = null
         setConnectorHoverTarget(null)
       }
-      updateConnectorPoints(id, [nx1, ny1, nx2, ny2])
+      updateConnectorPoints(id, moveEnd(which, next))
     }
     const handleUp = () => {
       document.removeEventListener('mousemove', handleMove)
@@ -209,6 +254,78 @@ export function Connector({
     document.addEventListener('mouseup', handleUp)
   }
 
+  // ポインター位置をキャンバス座標に変換
+  const toCanvasPoint = (e: any) => {
+    const stage = e.target?.getStage?.()
+    const pointer = stage?.getPointerPosition?.()
+    if (!stage || !pointer) return null
+    const transform = stage.getAbsoluteTransform().copy()
+    transform.invert()
+    return transform.point(pointer) as { x: number; y: number }
+  }
+
+  const handleDoubleClick = (e: any) => {
+    e.cancelBubble = true
+    const point = toCanvasPoint(e)
+    if (point) onEditLabel?.(id, e.target.getStage(), point)
+  }
+
+  // ラベルは線に沿ってだけ動かす（少し動いてから履歴を開始し、ダブルクリックでは記録しない）
+  const handleLabelMouseDown = (e: any) => {
+    e.cancelBubble = true
+    selectConnector(id)
+    const start = { x: e.evt.clientX, y: e.evt.clientY }
+    const origin = labelPlacement({ points: path, labelPosition })
+    let isDragging = false
+    const handleMove = (ev: MouseEvent) => {
+      const scale = viewport?.zoom || 1
+      const dx = (ev.clientX - start.x) / scale
+      const dy = (ev.clientY - start.y) / scale
+      if (!isDragging) {
+        if (Math.hypot(dx, dy) * scale < 3) return
+        isDragging = true
+        useBoardStore.getState().beginConnectorLabelDrag(id)
+      }
+      useBoardStore.getState().moveConnectorLabel(id, nearestPathFraction(path, { x: origin.x + dx, y: origin.y + dy }))
+    }
+    const handleUp = () => {
+      document.removeEventListener('mousemove', handleMove)
+      document.removeEventListener('mouseup', handleUp)
+    }
+    document.addEventListener('mousemove', handleMove)
+    document.addEventListener('mouseup', handleUp)
+  }
+
+  const renderLabel = () => {
+    if (!label || !Text) return null
+    const placement = labelPlacement({ points: path, labelPosition })
+    const size = estimateLabelSize(label)
+    return (
+      <Text
+        {...placement}
+        text={label}
+        fontSize={LABEL_FONT_SIZE}
+        fontFamily={TYPOGRAPHY_TOKENS.fontFamily.primary}
+        lineHeight={LABEL_LINE_HEIGHT}
+        fill={isSelected ? SELECTION_COLOR : LABEL_COLOR}
+        // 白いフチで線の上でも読めるようにする
+        stroke="#FFFFFF"
+        strokeWidth={LABEL_HALO_WIDTH}
+        fillAfterStrokeEnabled={true}
+        lineJoin="round"
+        align="center"
+        wrap="none"
+        width={size.width}
+        offsetX={size.width / 2}
+        offsetY={size.height / 2}
+        onMouseDown={handleLabelMouseDown}
+        onDblClick={handleDoubleClick}
+        onMouseEnter={(e: any) => { e.target.getStage().container().style.cursor = 'move' }}
+        onMouseLeave={(e: any) => { e.target.getStage().container().style.cursor = 'default' }}
+      />
+    )
+  }
+
   // 線全体ドラッグ（両端未接続時のみ）
   const handleWholeMouseDownKonva = (e: any) => {
     e.evt?.stopPropagation?.()
@@ -239,8 +356,7 @@ export function Connector({
       const scale = viewport?.zoom || 1
       const dx = (ev.clientX - start.x) / scale
       const dy = (ev.clientY - start.y) / scale
-      const [sx1, sy1, sx2, sy2] = base
-      updateConnectorPoints(id, [sx1 + dx, sy1 + dy, sx2 + dx, sy2 + dy])
+      updateConnectorPoints(id, translate(base, dx, dy))
     }
     const handleUp = () => {
       document.removeEventListener('mousemove', handleMove)
@@ -256,17 +372,128 @@ export function Connector({
     document.addEventListener('mouseup', handleUp)
   }
 
+  // 折れ点ハンドルのドラッグ（少し動いてから履歴を開始し、クリックやダブルクリックでは記録しない）
+  const handleBendMouseDown = (reshape: (base: number[], point: { x: number; y: number }) => number[], origin: { x: number; y: number }) => (e: any) => {
+    e.cancelBubble = true
+    const start = { x: e.evt.clientX, y: e.evt.clientY }
+    const base = points
+    let isDragging = false
+    const handleMove = (ev: MouseEvent) => {
+      const scale = viewport?.zoom || 1
+      const dx = (ev.clientX - start.x) / scale
+      const dy = (ev.clientY - start.y) / scale
+      if (!isDragging) {
+        if (Math.hypot(dx, dy) * scale < 3) return
+        isDragging = true
+        useBoardStore.getState().beginConnectorBendDrag(id)
+      }
+      updateConnectorPoints(id, reshape(base, { x: origin.x + dx, y: origin.y + dy }))
+    }
+    const handleUp = () => {
+      document.removeEventListener('mousemove', handleMove)
+      document.removeEventListener('mouseup', handleUp)
+    }
+    document.addEventListener('mousemove', handleMove)
+    document.addEventListener('mouseup', handleUp)
+  }
+
+  // 単独選択時の折れ点ハンドル
+  // 直線・曲線: 折れ点をドラッグで移動／ダブルクリックで削除、区間中央をドラッグで折れ点を追加
+  // 直角: 区間中央をドラッグでその区間を平行移動
+  const renderBendHandles = () => {
+    if (!isSelected || selectedConnectorIds.length !== 1 || !Circle) return null
+    const list = toPointList(points)
+    const setCursor = (cursor: string) => (e: any) => { e.target.getStage().container().style.cursor = cursor }
+    const segments = list.slice(0, -1).map((p, s) => {
+      const q = list[s + 1]
+      if (p.x === q.x && p.y === q.y) return null
+      const mid = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 }
+      const reshape = routing === 'elbow'
+        ? (base: number[], point: { x: number; y: number }) => moveElbowSegment(base, s, point)
+        : (base: number[], point: { x: number; y: number }) => insertBend(base, s, point)
+      const cursor = routing !== 'elbow' ? 'crosshair' : p.y === q.y ? 'ns-resize' : 'ew-resize'
+      return (
+        <Circle
+          key={`segment-${s}`}
+          {...mid}
+          radius={5}
+          fill="#FFFFFF"
+          stroke={SELECTION_COLOR}
+          strokeWidth={1}
+          opacity={0.7}
+          zIndex={Z_INDEX.CONNECTOR_ANCHORS}
+          onMouseDown={handleBendMouseDown(reshape, mid)}
+          onMouseEnter={setCursor(cursor)}
+          onMouseLeave={setCursor('default')}
+        />
+      )
+    })
+    const bends = routing === 'elbow' ? [] : list.slice(1, -1).map((p, b) => (
+      <Circle
+        key={`bend-${b}`}
+        {...p}
+        radius={6}
+        fill="#FFFFFF"
+        stroke={SELECTION_COLOR}
+        strokeWidth={2}
+        zIndex={Z_INDEX.CONNECTOR_ANCHORS}
+        onMouseDown={handleBendMouseDown((base, point) => moveBend(base, b + 1, point), p)}
+        onDblClick={(e: any) => {
+          e.cancelBubble = true
+          useBoardStore.getState().removeConnectorBend(id, b + 1)
+        }}
+        onMouseEnter={setCursor('move')}
+        onMouseLeave={setCursor('default')}
+      />
+    ))
+    return <>{segments}{bends}</>
+  }
+
+  // 端点マーカー（線と同じ色、ヒット判定なし）
+  const renderMarker = (end: 'start' | 'end') => {
+    const shape = markerShape(end === 'start' ? style.startMarker : style.endMarker, strokeWidth)
+    if (!shape || !Group) return null
+    return (
+      <Group {...markerPose(path, end)} listening={false}>
+        {shape.kind === 'circle' ? (
+          <Circle x={shape.x} y={shape.y} radius={shape.radius} fill={strokeColor} />
+        ) : (
+          <Line
+            points={shape.points}
+            closed={shape.closed}
+            fill={shape.filled ? strokeColor : undefined}
+            stroke={strokeColor}
+            strokeWidth={shape.filled ? 1 : strokeWidth}
+            lineCap="round"
+            lineJoin="round"
+          />
+        )}
+      </Group>
+    )
+  }
+
   return (
     <>
-      <Arrow
+      {isSelected && (
+        <Line
+          points={geometry.bezier ?? points}
+          bezier={!!geometry.bezier}
+          stroke={SELECTION_COLOR}
+          strokeWidth={strokeWidth + 6}
+          opacity={0.35}
+          lineCap="round"
+          listening={false}
+        />
+      )}
+      <Line
         id={id}
-        points={points}
-        stroke={isSelected ? '#0D99FF' : strokeColor}
-        strokeWidth={isSelected ? strokeWidth + 1 : strokeWidth}
-        fill={isSelected ? '#0D99FF' : strokeColor}
-        // 矢印先端を小さくしてリサイズハンドルとの被りを最小化
-        pointerLength={6}
-        pointerWidth={4}
+        // マーカーの下に線がはみ出さないよう端を縮める
+        points={insetPoints(geometry.bezier ?? points, markerInset(style.startMarker, strokeWidth), markerInset(style.endMarker, strokeWidth))}
+        bezier={!!geometry.bezier}
+        lineJoin="round"
+        stroke={strokeColor}
+        strokeWidth={strokeWidth}
+        dash={dash}
         shadowEnabled={false}
         shadowOpacity={0.3}
         listening={true}
@@ -286,7 +513,12 @@ export function Connector({
           if (isSelected && !fromId && !toId) e.target.getStage().container().style.cursor = 'move'
         }}
         onMouseLeave={(e: any) => { e.target.getStage().container().style.cursor = 'default' }}
+        onDblClick={handleDoubleClick}
       />
+      {renderMarker('start')}
+      {renderMarker('end')}
+      {renderLabel()}
+      {renderBendHandles()}
       {/* ドラッグ可能な端点アンカー（Circle自体がイベントを受ける） */}
       {isSelected && Circle && (
         <Circle
@@ -2,8 +2,23 @@ import { useRef, useState, useEffect, useCallback } from 'react'
 import { useBoardStore } from '@/store/boardStore'
 import { screenToCanvas } from '@/lib/coordinates'
 import { setCursor, resetCursor, getPanCursor, getPanDraggingCursor, getConnectionCursor, getConnectionActiveCursor, getConnectionTargetCursor, getConnectionCancelCursor } from '@/lib/cursor-utils'
-import { shouldAllowNativeKeyboard } from '@/lib/keyboard-utils'
-import type { AnchorPosition, Tool } from '@/types'
+import { shouldAllowNativeKeyboard, isInputElement } from '@/lib/keyboard-utils'
+import { getClipboardOutline, isOutlineFile, readOutlineFile } from '@/lib/clipboard-utils'
+import { isElementIntersectingRect, isPointInElement, rotateWithElement } from '@/lib/rotation'
+import { labelPlacement, nearestPathFraction } from '@/lib/connector-label'
+import { connectorGeometry } from '@/lib/connector-routing'
+import type { AnchorPosition, CanvasElement, Tool } from '@/types'
+
+// Arrow key -> nudge direction
+const NUDGE_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 }
+}
+
+// Screen size of the editor opened on a connector label
+const LABEL_EDITOR_SIZE = { width: 180, height: 64 }
 
 export function useCanvasEvents() {
   const {
@@ -17,8 +32,11 @@ export function useCanvasEvents() {
     connectionMode,
     addSticky,
     addRect,
+    addFrame,
     addText,
     addImage,
+    addMindMap,
+    addOutline,
     updateElement,
     deleteElement,
     deleteConnector,
@@ -49,7 +67,7 @@ export function useCanvasEvents() {
     text: string
     element: any
     originalElement: any
-    elementType?: 'sticky' | 'text' | 'rect'
+    elementType?: 'sticky' | 'text' | 'rect' | 'connector'
   }>({
     isVisible: false,
     elementId: null,
@@ -88,12 +106,14 @@ export function useCanvasEvents() {
   const [contextMenuState, setContextMenuState] = useState<{
     isVisible: boolean
     elementId: string | null
-    elementType: 'rect' | 'sticky' | 'text' | null
+    elementType: CanvasElement['type'] | null
+    isLocked: boolean
     position: { x: number; y: number }
   }>({
     isVisible: false,
     elementId: null,
     elementType: null,
+    isLocked: false,
     position: { x: 0, y: 0 }
   })
 
@@ -103,12 +123,10 @@ export function useCanvasEvents() {
   }, [viewport])
 
   // 点がいずれかの要素と重なるかをチェック（統一化）
+  // ロックされた要素は背景扱い（その上からもマーキー選択を開始できる）
   const isPointOverElement = useCallback((canvasX: number, canvasY: number): boolean => {
-    return elements.some(element => 
-      canvasX >= element.x && 
-      canvasX <= element.x + element.width &&
-      canvasY >= element.y && 
-      canvasY <= element.y + element.height
+    return elements.some(element =>
+      !element.locked && isPointInElement({ x: canvasX, y: canvasY }, element)
     )
   }, [elements])
 
@@ -133,10 +151,10 @@ export function useCanvasEvents() {
 
   // 近接アンカー探索（ライン開始前でも使用）
   const getElementAnchors = (el: any) => [
-    { anchor: 'top' as const, x: el.x + el.width / 2, y: el.y },
-    { anchor: 'right' as const, x: el.x + el.width, y: el.y + el.height / 2 },
-    { anchor: 'bottom' as const, x: el.x + el.width / 2, y: el.y + el.height },
-    { anchor: 'left' as const, x: el.x, y: el.y + el.height / 2 }
+    { anchor: 'top' as const, ...rotateWithElement(el, { x: el.x + el.width / 2, y: el.y }) },
+    { anchor: 'right' as const, ...rotateWithElement(el, { x: el.x + el.width, y: el.y + el.height / 2 }) },
+    { anchor: 'bottom' as const, ...rotateWithElement(el, { x: el.x + el.width / 2, y: el.y + el.height }) },
+    { anchor: 'left' as const, ...rotateWithElement(el, { x: el.x, y: el.y + el.height / 2 }) }
   ]
 
   // Enhanced findSnapTarget with extended hover areas
@@ -198,31 +216,24 @@ export function useCanvasEvents() {
     return null
   }
 
-  // 交差判定（少しでも重なれば選択）
+  // 交差判定（少しでも重なれば選択、回転した要素は回転後の形で判定）
   const isElementIntersectRect = (
-    el: { x: number; y: number; width: number; height: number },
+    el: { x: number; y: number; width: number; height: number; rotation?: number },
     rect: { x: number; y: number; width: number; height: number }
-  ) => {
-    const elRight = el.x + el.width
-    const elBottom = el.y + el.height
-    const rectRight = rect.x + rect.width
-    const rectBottom = rect.y + rect.height
-    // 四辺が全て離れていない => 交差
-    const noOverlap = elRight < rect.x || rectRight < el.x || elBottom < rect.y || rectBottom < el.y
-    return !noOverlap
-  }
+  ) => isElementIntersectingRect(el, rect)
 
   // コネクタの交差判定（線分が矩形と交差、もしくは端点が矩形内）
   const isConnectorIntersectRect = (
     c: { points: number[] },
     rect: { x: number; y: number; width: number; height: number }
   ) => {
-    const [x1, y1, x2, y2] = c.points
     const rectRight = rect.x + rect.width
     const rectBottom = rect.y + rect.height
-    // 端点が矩形内
+    // 頂点が矩形内
     const pointInRect = (x: number, y: number) => x >= rect.x && x <= rectRight && y >= rect.y && y <= rectBottom
-    if (pointInRect(x1, y1) || pointInRect(x2, y2)) return true
+    for (let i = 0; i + 1 < c.points.length; i += 2) {
+      if (pointInRect(c.points[i], c.points[i + 1])) return true
+    }
 
     // 線分と矩形各辺の交差
     const segments = [
@@ -239,8 +250,12 @@ export function useCanvasEvents() {
       return ccw(ax, ay, cx, cy, dx, dy) !== ccw(bx, by, cx, cy, dx, dy) && ccw(ax, ay, bx, by, cx, cy) !== ccw(ax, ay, bx, by, dx, dy)
     }
 
-    for (const [rx1, ry1, rx2, ry2] of segments) {
-      if (intersect(x1, y1, x2, y2, rx1, ry1, rx2, ry2)) return true
+    // 折れ線の各区間について判定
+    for (let i = 0; i + 3 < c.points.length; i += 2) {
+      const [x1, y1, x2, y2] = c.points.slice(i, i + 4)
+      for (const [rx1, ry1, rx2, ry2] of segments) {
+        if (intersect(x1, y1, x2, y2, rx1, ry1, rx2, ry2)) return true
+      }
     }
     return false
   }
@@ -275,7 +290,9 @@ export function useCanvasEvents() {
     if (selectedTool !== 'select') return
     const targetClassName = e.target?.getClassName?.() || e.target?.constructor?.name || ''
     const isBackgroundClick = targetClassName === 'Stage' || (e.target === e.target?.getStage?.())
-    if (!isBackgroundClick) return
+    const elementNode = e.target?.findAncestor?.((node: any) => node.id().startsWith('element-'), true)
+    const isLockedTarget = !!elementNode && !!useBoardStore.getState().getElementById(elementNode.id().slice('element-'.length))?.locked
+    if (!isBackgroundClick && !isLockedTarget) return
     if (e?.evt && e.evt.button !== 0) return
     const pos = e.target.getStage().getPointerPosition?.()
     if (!pos) return
@@ -418,8 +435,14 @@ export function useCanvasEvents() {
       // Selection rectangle processing
       if (selectionRect.isActive) {
         const rect = selectionRect
-        const pickedShapeIds = elements.filter((el) => isElementIntersectRect(el, rect)).map((el) => el.id)
-        const pickedConnectorIds = connectors.filter((c) => isConnectorIntersectRect(c, rect)).map((c: any) => c.id)
+        // Locked elements are only picked up with Alt held
+        const includeLocked = !!(e?.evt && e.evt.altKey)
+        const pickedShapeIds = elements
+          .filter((el) => (includeLocked || !el.locked) && isElementIntersectRect(el, rect))
+          .map((el) => el.id)
+        const pickedConnectorIds = connectors
+          .filter((c) => isConnectorIntersectRect({ points: connectorGeometry(c, elements).path }, rect))
+          .map((c: any) => c.id)
         const store: any = useBoardStore.getState()
 
         // Shift key for additive selection
@@ -489,6 +512,20 @@ export function useCanvasEvents() {
         return
       }
 
+      // Ctrl/Cmd+Shift+L: Lock / unlock selection
+      if ((e.key === 'l' || e.key === 'L') && (e.ctrlKey || e.metaKey) && e.shiftKey) {
+        e.preventDefault()
+        useBoardStore.getState().toggleLockSelected()
+        return
+      }
+
+      // F key: Frame tool
+      if ((e.key === 'f' || e.key === 'F') && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        e.preventDefault()
+        useBoardStore.getState().selectTool('frame')
+        return
+      }
+
       if (e.key === 'z' && (e.ctrlKey || e.metaKey)) {
         e.preventDefault()
 
@@ -517,27 +554,63 @@ export function useCanvasEvents() {
         return
       }
 
-      // Paste: Ctrl/Cmd + V
+      // Paste: Ctrl/Cmd + V is handled by the paste event below, which can read the system clipboard
       if (e.key === 'v' && (e.ctrlKey || e.metaKey)) {
+        return
+      }
+
+      // Group: Ctrl/Cmd + G, Ungroup: Ctrl/Cmd + Shift + G
+      if (e.key.toLowerCase() === 'g' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault()
+        const { groupSelected, ungroupSelected } = useBoardStore.getState()
+        if (e.shiftKey) {
+          ungroupSelected()
+        } else {
+          groupSelected()
+        }
+        return
+      }
+
+      // Select all: Ctrl/Cmd + A
+      if (e.key.toLowerCase() === 'a' && (e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey) {
+        e.preventDefault()
+        useBoardStore.getState().selectAll()
+        return
+      }
+
+      // Duplicate: Ctrl/Cmd + D
+      if (e.key.toLowerCase() === 'd' && (e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey) {
+        e.preventDefault()
+        useBoardStore.getState().duplicateSelected()
+        return
+      }
+
+      // Arrow keys: nudge the selection by 1px (Shift: 10px)
+      const nudge = NUDGE_DIRECTIONS[e.key]
+      if (nudge && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        const { selectedIds, selectedConnectorIds, nudgeSelected } = useBoardStore.getState()
+        if (selectedIds.length === 0 && selectedConnectorIds.length === 0) return
         e.preventDefault()
-        console.log('[Clipboard] Paste triggered, clipboard:', useBoardStore.getState().clipboard)
-        paste()
-        console.log('[Clipboard] Elements after paste:', useBoardStore.getState().elements.length)
+        const step = e.shiftKey ? 10 : 1
+        nudgeSelected(nudge.x * step, nudge.y * step)
         return
       }
 
       if (e.key === 'Delete' || e.key === 'Backspace') {
         e.preventDefault()
-        const { selectedIds, selectedConnectorIds, deleteElements, deleteConnector, clearSelection } = useBoardStore.getState()
+        const { selectedIds, selectedConnectorIds, deleteElements, deleteConnector, clearSelection, transaction } = useBoardStore.getState()
         if (selectedIds && selectedIds.length > 0) {
           deleteElements(selectedIds)
           clearSelection()
           return
         }
         if (selectedConnectorIds && selectedConnectorIds.length > 0) {
-          for (const cid of selectedConnectorIds) {
-            deleteConnector(cid)
-          }
+          // One undo step for all selected connectors
+          transaction(selectedConnectorIds.length > 1 ? `Delete ${selectedConnectorIds.length} connectors` : 'Delete connector', () => {
+            for (const cid of selectedConnectorIds) {
+              deleteConnector(cid)
+            }
+          })
           clearSelection()
         }
         return
@@ -560,16 +633,35 @@ export function useCanvasEvents() {
       }
     }
 
+    // Outline text on the system clipboard becomes connected stickies, anything else pastes copied elements
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isInputElement(e.target as Element)) {
+        return
+      }
+
+      e.preventDefault()
+      const outline = getClipboardOutline(e.clipboardData)
+      if (outline) {
+        const origin = useBoardStore.getState().cursorPosition ?? transformScreenToCanvas(100, 100)
+        addOutline(outline, origin)
+        return
+      }
+
+      paste()
+    }
+
     // イベントリスナーを追加
     document.addEventListener('keydown', handleKeyDown)
     document.addEventListener('keyup', handleKeyUp)
+    document.addEventListener('paste', handlePaste)
 
     // クリーンアップ
     return () => {
       document.removeEventListener('keydown', handleKeyDown)
       document.removeEventListener('keyup', handleKeyUp)
+      document.removeEventListener('paste', handlePaste)
     }
-  }, [connectors, editorState.isVisible, elements, deleteElement, deleteConnector, updateElement, undo, redo, copySelected, cutSelected, paste, bringToFront, sendToBack, isSpacebarPanning, previousTool])
+  }, [connectors, editorState.isVisible, elements, deleteElement, deleteConnector, updateElement, undo, redo, copySelected, cutSelected, paste, addOutline, transformScreenToCanvas, bringToFront, sendToBack, isSpacebarPanning, previousTool])
 
   const handleStageClick = (e: any) => {
     // ダブルクリック後200ms以内のクリックは無視
@@ -598,7 +690,12 @@ export function useCanvasEvents() {
                           targetClassName === 'Rect' ||
                           targetClassName === 'Text'
 
-    if (isBackgroundClick && !isElementClick) {
+    // Inside a frame the creation tools place elements into it
+    const clickedNode = e.target?.findAncestor?.((node: any) => node.id().startsWith('element-'), true)
+    const clickedElement = clickedNode ? useBoardStore.getState().getElementById(clickedNode.id().slice('element-'.length)) : undefined
+    const isFrameBodyClick = selectedTool !== 'select' && clickedElement?.type === 'frame'
+
+    if ((isBackgroundClick && !isElementClick) || isFrameBodyClick) {
       // 選択ツールの場合は選択を解除
       if (selectedTool === 'select') {
         clearSelection()
@@ -620,6 +717,14 @@ export function useCanvasEvents() {
         // 矩形作成後は自動で選択ツールに戻る（Figmaライク）
         const { selectTool } = useBoardStore.getState()
         selectTool('select')
+      } else if (selectedTool === 'frame') {
+        const pos = e.target.getStage().getPointerPosition()
+        const canvasPos = transformScreenToCanvas(pos.x, pos.y)
+        const id = addFrame({ x: canvasPos.x, y: canvasPos.y })
+
+        const { selectTool, selectShape } = useBoardStore.getState()
+        selectShape(id)
+        selectTool('select')
       } else if (selectedTool === 'text') {
         // テキストツールが選択されている場合はテキストを作成
         const pos = e.target.getStage().getPointerPosition()
@@ -710,6 +815,9 @@ export function useCanvasEvents() {
     if (element.type === 'rect') {
       return
     }
+    if (useBoardStore.getState().getElementById(elementId)?.locked) {
+      return
+    }
 
     // 現在のビューポート状態を取得
     const { viewport } = useBoardStore.getState()
@@ -774,9 +882,39 @@ export function useCanvasEvents() {
     }
   }
 
+  // コネクタのラベル編集（付箋と同じエディタを線上のラベル位置に開く）
+  const handleConnectorDoubleClick = (connectorId: string, stage: any, point: { x: number; y: number }) => {
+    const { viewport, connectors } = useBoardStore.getState()
+    const connector = connectors.find(c => c.id === connectorId)
+    if (!connector || !stage) return
+
+    // 新しいラベルはダブルクリックした位置に置く
+    const { path } = connectorGeometry(connector, useBoardStore.getState().elements)
+    const labelPosition = connector.label ? connector.labelPosition : nearestPathFraction(path, point)
+    const at = labelPlacement({ points: path, labelPosition })
+    const stageBox = stage.container().getBoundingClientRect()
+    const width = LABEL_EDITOR_SIZE.width
+    const height = LABEL_EDITOR_SIZE.height
+
+    setEditorState({
+      isVisible: true,
+      elementId: connectorId,
+      position: {
+        x: stageBox.left + at.x * viewport.zoom + viewport.panX - width / 2,
+        y: stageBox.top + at.y * viewport.zoom + viewport.panY - height / 2
+      },
+      text: connector.label ?? '',
+      element: { text: connector.label ?? '', width, height, labelPosition },
+      originalElement: connector,
+      elementType: 'connector'
+    })
+  }
+
   const handleEditorFinish = () => {
     const elementId = editorState.elementId
-    if (elementId && editorState.text !== editorState.element?.text) {
+    if (elementId && editorState.elementType === 'connector') {
+      useBoardStore.getState().updateConnectorLabel(elementId, editorState.text, editorState.element?.labelPosition)
+    } else if (elementId && editorState.text !== editorState.element?.text) {
       updateElement(elementId, { text: editorState.text })
       
       // Trigger auto-resize after text is updated with longer delay for large text
@@ -831,6 +969,7 @@ export function useCanvasEvents() {
       isVisible: true,
       elementId,
       elementType: element.type || null,
+      isLocked: !!useBoardStore.getState().getElementById(elementId)?.locked,
       position
     })
   }
@@ -840,6 +979,7 @@ export function useCanvasEvents() {
       isVisible: false,
       elementId: null,
       elementType: null,
+      isLocked: false,
       position: { x: 0, y: 0 }
     })
   }
@@ -872,6 +1012,16 @@ export function useCanvasEvents() {
     }
   }
 
+  // Right-clicking a selected element locks/unlocks the whole selection
+  const handleContextMenuToggleLock = () => {
+    const { elementId, isLocked } = contextMenuState
+    if (elementId) {
+      const { selectedIds, setLocked } = useBoardStore.getState()
+      setLocked(selectedIds.includes(elementId) ? selectedIds : [elementId], !isLocked)
+      handleContextMenuClose()
+    }
+  }
+
   // ドラッグオーバー処理（ドロップを許可）
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault()
@@ -879,8 +1029,12 @@ export function useCanvasEvents() {
     // 画像ファイルまたは付箋データの場合にドロップを許可
     const hasImageFiles = Array.from(e.dataTransfer.items).some(item => item.type.startsWith('image/'))
     const hasStickyData = e.dataTransfer.types.includes('application/sticky-note')
+    const hasMindMapData = e.dataTransfer.types.includes('application/mind-map')
+    // Outline text or Markdown/text files (file types may be empty until drop, e.g. .md on some systems)
+    const hasOutlineData = e.dataTransfer.types.includes('text/plain') ||
+      Array.from(e.dataTransfer.items).some(item => item.kind === 'file' && (item.type === '' || item.type.startsWith('text/')))
     
-    if (hasImageFiles || hasStickyData) {
+    if (hasImageFiles || hasStickyData || hasMindMapData || hasOutlineData) {
       e.dataTransfer.dropEffect = 'copy'
     } else {
       e.dataTransfer.dropEffect = 'none'
@@ -928,9 +1082,27 @@ export function useCanvasEvents() {
         return
       }
 
+      const outlineFile = files.find(isOutlineFile)
+      if (outlineFile) {
+        const outline = await readOutlineFile(outlineFile)
+        if (outline) addOutline(outline, canvasPos)
+        return
+      }
+
+      // 2. マインドマップ（ドロップ位置を中心に配置）
+      const mindMapData = e.dataTransfer.getData('application/mind-map')
+      if (mindMapData) {
+        const { map } = JSON.parse(mindMapData)
+        addMindMap(map, canvasPos)
+        return
+      }
+
       const stickyData = e.dataTransfer.getData('application/sticky-note')
 
       if (!stickyData) {
+        // 3. アウトラインのテキスト（ドロップ位置を左上に配置）
+        const outline = getClipboardOutline(e.dataTransfer)
+        if (outline) addOutline(outline, canvasPos)
         return
       }
 
@@ -1012,6 +1184,9 @@ export function useCanvasEvents() {
           } catch {}
         }
 
+        // Leave an entered group, selecting it as a whole
+        useBoardStore.getState().exitGroup()
+
         // Always return to select mode after canceling operations
         if (selectedTool !== 'select') {
           selectTool('select')
@@ -1042,6 +1217,7 @@ export function useCanvasEvents() {
     handleSelectionMouseUp,
     handleElementUpdate,
     handleElementDoubleClick,
+    handleConnectorDoubleClick,
     handleContextMenu,
     handleEditorFinish,
     handleEditorTextChange,
@@ -1051,6 +1227,7 @@ export function useCanvasEvents() {
     handleContextMenuColorChange,
     handleContextMenuBringToFront,
     handleContextMenuSendToBack,
+    handleContextMenuToggleLock,
     handleDragOver,
     handleDrop,
     handleConnectionPointClick,
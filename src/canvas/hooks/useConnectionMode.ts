@@ -1,5 +1,6 @@
 import { useEffect, useCallback } from 'react'
 import { useBoardStore } from '@/store/boardStore'
+import { rotateWithElement } from '@/lib/rotation'
 import type { AnchorPosition } from '@/types'
 
 /**
@@ -37,10 +38,10 @@ export function useConnectionMode() {
     let bestDist = Infinity
     
     const getElementAnchors = (el: any) => [
-      { anchor: 'top' as const, x: el.x + el.width / 2, y: el.y },
-      { anchor: 'right' as const, x: el.x + el.width, y: el.y + el.height / 2 },
-      { anchor: 'bottom' as const, x: el.x + el.width / 2, y: el.y + el.height },
-      { anchor: 'left' as const, x: el.x, y: el.y + el.height / 2 }
+      { anchor: 'top' as const, ...rotateWithElement(el, { x: el.x + el.width / 2, y: el.y }) },
+      { anchor: 'right' as const, ...rotateWithElement(el, { x: el.x + el.width, y: el.y + el.height / 2 }) },
+      { anchor: 'bottom' as const, ...rotateWithElement(el, { x: el.x + el.width / 2, y: el.y + el.height }) },
+      { anchor: 'left' as const, ...rotateWithElement(el, { x: el.x, y: el.y + el.height / 2 }) }
     ]
     
     for (const el of elements) {
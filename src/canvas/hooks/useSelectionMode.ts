@@ -1,6 +1,8 @@
 import { useState, useRef, useCallback } from 'react'
 import { useBoardStore } from '@/store/boardStore'
 import { screenToCanvas } from '@/lib/coordinates'
+import { isElementIntersectingRect } from '@/lib/rotation'
+import { connectorGeometry } from '@/lib/connector-routing'
 
 interface SelectionRect {
   isActive: boolean
@@ -42,37 +44,25 @@ export function useSelectionMode() {
   
   // Check if element intersects with selection rectangle
   const isElementIntersectRect = useCallback((
-    el: { x: number; y: number; width: number; height: number },
+    el: { x: number; y: number; width: number; height: number; rotation?: number },
     rect: { x: number; y: number; width: number; height: number }
-  ) => {
-    const elRight = el.x + el.width
-    const elBottom = el.y + el.height
-    const rectRight = rect.x + rect.width
-    const rectBottom = rect.y + rect.height
-    
-    // Check if rectangles don't overlap (then invert result)
-    const noOverlap = elRight < rect.x || 
-                     rectRight < el.x || 
-                     elBottom < rect.y || 
-                     rectBottom < el.y
-    
-    return !noOverlap
-  }, [])
+  ) => isElementIntersectingRect(el, rect), [])
   
   // Check if connector intersects with selection rectangle
   const isConnectorIntersectRect = useCallback((
     c: { points: number[] },
     rect: { x: number; y: number; width: number; height: number }
   ) => {
-    const [x1, y1, x2, y2] = c.points
     const rectRight = rect.x + rect.width
     const rectBottom = rect.y + rect.height
     
-    // Check if endpoints are inside rectangle
+    // Check if any vertex is inside rectangle
     const pointInRect = (x: number, y: number) => 
       x >= rect.x && x <= rectRight && y >= rect.y && y <= rectBottom
     
-    if (pointInRect(x1, y1) || pointInRect(x2, y2)) return true
+    for (let i = 0; i + 1 < c.points.length; i += 2) {
+      if (pointInRect(c.points[i], c.points[i + 1])) return true
+    }
     
     // Check line-rectangle intersection
     const segments = [
@@ -94,8 +84,12 @@ export function useSelectionMode() {
              ccw(ax, ay, bx, by, cx, cy) !== ccw(ax, ay, bx, by, dx, dy)
     }
     
-    for (const [rx1, ry1, rx2, ry2] of segments) {
-      if (intersect(x1, y1, x2, y2, rx1, ry1, rx2, ry2)) return true
+    // Check every segment of the path against the edges
+    for (let i = 0; i + 3 < c.points.length; i += 2) {
+      const [x1, y1, x2, y2] = c.points.slice(i, i + 4)
+      for (const [rx1, ry1, rx2, ry2] of segments) {
+        if (intersect(x1, y1, x2, y2, rx1, ry1, rx2, ry2)) return true
+      }
     }
     
     return false
@@ -159,7 +153,7 @@ export function useSelectionMode() {
       .map((el) => el.id)
     
     const pickedConnectorIds = connectors
-      .filter((c) => isConnectorIntersectRect(c, rect))
+      .filter((c) => isConnectorIntersectRect({ points: connectorGeometry(c, elements).path }, rect))
       .map((c) => c.id)
     
     // Handle Shift key for additive selection
@@ -8,6 +8,7 @@ import { Z_INDEX, getConnectionPointZIndex } from '@/lib/z-index-constants'
 import { calculateInteractionRadius, stopEventPropagation, getInteractionProps, INTERACTION_CONFIG } from '@/lib/interaction-utils'
 import { getConnectionColors, createConnectionState } from '@/lib/connection-colors'
 import { shouldShowConnectionPoints, getZoomAwareThresholds, DEFAULT_PROXIMITY_THRESHOLDS } from '@/lib/proximity-utils'
+import { rotateWithElement } from '@/lib/rotation'
 
 let Circle: any, Text: any, Group: any
 if (typeof window !== 'undefined') {
@@ -20,7 +21,7 @@ if (typeof window !== 'undefined') {
 }
 
 type Props = {
-  element: { id: string; x: number; y: number; width: number; height: number }
+  element: { id: string; x: number; y: number; width: number; height: number; rotation?: number }
   visible: boolean
   onClick?: (elementId: string, anchor: AnchorPosition) => void
   // Optional proximity override for testing/special cases
@@ -31,10 +32,10 @@ const anchors: AnchorPosition[] = ['top', 'right', 'bottom', 'left']
 
 function getAnchorXY(el: any, a: AnchorPosition) {
   switch (a) {
-    case 'top': return { x: el.x + el.width / 2, y: el.y }
-    case 'right': return { x: el.x + el.width, y: el.y + el.height / 2 }
-    case 'bottom': return { x: el.x + el.width / 2, y: el.y + el.height }
-    case 'left': return { x: el.x, y: el.y + el.height / 2 }
+    case 'top': return rotateWithElement(el, { x: el.x + el.width / 2, y: el.y })
+    case 'right': return rotateWithElement(el, { x: el.x + el.width, y: el.y + el.height / 2 })
+    case 'bottom': return rotateWithElement(el, { x: el.x + el.width / 2, y: el.y + el.height })
+    case 'left': return rotateWithElement(el, { x: el.x, y: el.y + el.height / 2 })
   }
 }
 
@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react'
 import { useBoardStore } from '@/store/boardStore'
 import { screenToCanvas } from '@/lib/coordinates'
+import { rotateWithElement } from '@/lib/rotation'
 import type { AnchorPosition } from '@/types'
 
 import { Line, Circle } from 'react-konva'
@@ -15,18 +16,18 @@ type ConnectionPreviewProps = {
   mousePosition?: { x: number; y: number }
 }
 
-function getAnchorPoint(element: { x: number; y: number; width: number; height: number }, anchor: AnchorPosition) {
+function getAnchorPoint(element: { x: number; y: number; width: number; height: number; rotation?: number }, anchor: AnchorPosition) {
   const { x, y, width, height } = element
 
   switch (anchor) {
     case 'top':
-      return { x: x + width / 2, y: y }
+      return rotateWithElement(element, { x: x + width / 2, y: y })
     case 'right':
-      return { x: x + width, y: y + height / 2 }
+      return rotateWithElement(element, { x: x + width, y: y + height / 2 })
     case 'bottom':
-      return { x: x + width / 2, y: y + height }
+      return rotateWithElement(element, { x: x + width / 2, y: y + height })
     case 'left':
-      return { x: x, y: y + height / 2 }
+      return rotateWithElement(element, { x: x, y: y + height / 2 })
   }
 }
 
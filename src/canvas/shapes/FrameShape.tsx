@@ -0,0 +1,56 @@
+'use client'
+
+import React, { memo } from 'react'
+import { RectShape } from './RectShape'
+import { useBoardStore } from '@/store/boardStore'
+import { FRAME_FILL, FRAME_STROKE, FRAME_TITLE_COLOR, FRAME_TITLE_FONT_SIZE, FRAME_TITLE_OFFSET } from '@/lib/frames'
+
+import { Text } from 'react-konva'
+
+type FrameShapeProps = {
+  id: string
+  x: number
+  y: number
+  width: number
+  height: number
+  title: string
+  onUpdate: (id: string, updates: any) => void
+  onContextMenu?: (elementId: string, element: any, position: { x: number; y: number }) => void
+  showConnectionPoints?: boolean
+  onConnectionPointClick?: (elementId: string, anchor: any) => void
+  zoom?: number
+  zIndex?: number
+  locked?: boolean
+}
+
+// Frame body behaves like a rectangle (drag, resize); the title above it is a click target too
+export const FrameShape = memo(function FrameShape({ id, x, y, width, height, title, zoom = 1, ...rest }: FrameShapeProps) {
+  return (
+    <>
+      <Text
+        x={x}
+        y={y - FRAME_TITLE_OFFSET / zoom}
+        text={title}
+        fontSize={FRAME_TITLE_FONT_SIZE / zoom}
+        fill={FRAME_TITLE_COLOR}
+        onMouseDown={(e: any) => {
+          if (e?.evt?.button !== 0) return
+          useBoardStore.getState().selectShape(id)
+        }}
+      />
+      <RectShape
+        id={id}
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        fill={FRAME_FILL}
+        stroke={FRAME_STROKE}
+        strokeWidth={1}
+        zoom={zoom}
+        rotatable={false}
+        {...rest}
+      />
+    </>
+  )
+})
@@ -1,10 +1,13 @@
 'use client'
 
 import React, { useRef, useState, useEffect } from 'react'
-import { KonvaResizeHandle, getKonvaResizeHandlePositions } from './ResizeHandle'
+import { KonvaResizeHandle, RESIZE_DIRECTIONS, getKonvaResizeHandlePositions, type ResizeDirection } from './ResizeHandle'
 import { ConnectionPoints } from './ConnectionPoints'
+import { RotationHandle } from './RotationHandle'
 import { useBoardStore } from '@/store/boardStore'
 import { handleSnapDragMove, handleSnapDragEnd } from '@/lib/snapUtils'
+import { resizeBox } from '@/lib/resize'
+import { rotateResize } from '@/lib/rotation'
 
 import { Image, Group } from 'react-konva'
 
@@ -26,6 +29,8 @@ type ImageShapeProps = {
   isLineMode?: boolean
   // ビューポート関連
   zoom?: number
+  locked?: boolean
+  rotation?: number
   zIndex?: number
 }
 
@@ -45,6 +50,8 @@ export function ImageShape({
   onConnectionPointClick,
   isLineMode = false,
   zoom = 1,
+  locked = false,
+  rotation = 0,
   zIndex = 0
 }: ImageShapeProps) {
   // 状態アクセスを1か所に集約
@@ -53,6 +60,7 @@ export function ImageShape({
   const selectedIds: string[] = store.selectedIds ?? store.selection ?? []
   const editingTextId = store.editingTextId
   const isSelected = selectedIds.includes(id)
+  const isMultiSelection = selectedIds.length + (store.selectedConnectorIds?.length ?? 0) > 1
   const isEditing = mode === 'editingText' && editingTextId === id
   const connectorDrag = store.connectorDrag
 
@@ -61,7 +69,7 @@ export function ImageShape({
     if (typeof store.setSelection === 'function') return store.setSelection([elementId])
   }
   const updateConnectorsSafe = () => {
-    if (typeof store.updateConnectors === 'function') return store.updateConnectors()
+    if (typeof store.updateConnectors === 'function') return store.updateConnectors([id])
   }
 
   const groupRef = useRef<any>()
@@ -103,77 +111,22 @@ export function ImageShape({
   const [isHovered, setIsHovered] = useState(false)
   const [isResizing, setIsResizing] = useState(false)
 
-  const resizeWithAspect = (
-    direction: 'nw' | 'ne' | 'sw' | 'se',
+  // Corners and edges share one path: Shift locks the aspect ratio (of the original image), Alt resizes from the center
+  const resizeFrom = (
+    direction: ResizeDirection,
     dx: number,
     dy: number,
-    minW: number,
-    minH: number
+    keepAspect = false,
+    fromCenter = false
   ) => {
-    const aspect = originalWidth / originalHeight
-    let wFromDx = direction === 'se' || direction === 'ne' ? width + dx : width - dx
-    wFromDx = Math.max(minW, wFromDx)
-    let hFromDx = Math.round(wFromDx / aspect)
-    hFromDx = Math.max(minH, hFromDx)
-    wFromDx = Math.round(hFromDx * aspect)
-
-    let hFromDy = direction === 'se' || direction === 'sw' ? height + dy : height - dy
-    hFromDy = Math.max(minH, hFromDy)
-    let wFromDy = Math.round(hFromDy * aspect)
-    wFromDy = Math.max(minW, wFromDy)
-    hFromDy = Math.round(wFromDy / aspect)
-
-    const useHorizontal = Math.abs(dx) > Math.abs(dy)
-    let newW = useHorizontal ? wFromDx : wFromDy
-    let newH = useHorizontal ? hFromDx : hFromDy
-
-    let newX = x
-    let newY = y
-    if (direction === 'nw') {
-      newX = x + (width - newW)
-      newY = y + (height - newH)
-    } else if (direction === 'ne') {
-      newY = y + (height - newH)
-    } else if (direction === 'sw') {
-      newX = x + (width - newW)
-    }
-
-    onUpdate(id, { x: newX, y: newY, width: newW, height: newH })
-  }
-
-  // 自由リサイズ: 四隅ハンドル用（縦横独立）
-  const resizeFree = (
-    direction: 'nw' | 'ne' | 'sw' | 'se',
-    dx: number,
-    dy: number,
-    minW: number,
-    minH: number
-  ) => {
-    let newW = width
-    let newH = height
-    let newX = x
-    let newY = y
-
-    // 各方向に応じて縦横独立でリサイズ
-    if (direction === 'nw') {
-      newW = Math.max(minW, width - dx)
-      newH = Math.max(minH, height - dy)
-      newX = x + (width - newW)
-      newY = y + (height - newH)
-    } else if (direction === 'ne') {
-      newW = Math.max(minW, width + dx)
-      newH = Math.max(minH, height - dy)
-      newY = y + (height - newH)
-    } else if (direction === 'sw') {
-      newW = Math.max(minW, width - dx)
-      newH = Math.max(minH, height + dy)
-      newX = x + (width - newW)
-    } else if (direction === 'se') {
-      newW = Math.max(minW, width + dx)
-      newH = Math.max(minH, height + dy)
-    }
-
-    onUpdate(id, { x: newX, y: newY, width: newW, height: newH })
+    const next = resizeBox({ x, y, width, height }, direction, dx, dy, {
+      keepAspect,
+      fromCenter,
+      minWidth: 20,
+      minHeight: 10,
+      aspect: originalWidth / originalHeight
+    })
+    onUpdate(id, rotateResize({ x, y, rotation }, next))
   }
 
   const triggerContextMenu = (clientX: number, clientY: number) => {
@@ -185,15 +138,17 @@ export function ImageShape({
   }
 
 
-  const konvaResizeHandles = getKonvaResizeHandlePositions({ x, y, width, height })
+  const konvaResizeHandles = getKonvaResizeHandlePositions({ x, y, width, height, rotation })
 
   return (
     <>
       <Group
         ref={groupRef}
         id={`element-${id}`}
+        name="object"
         x={x}
         y={y}
+        rotation={rotation}
         onMouseDown={(e: any) => {
           if (e?.evt?.button !== 0) return
           // 既に複数選択に含まれている場合は選択状態を維持してそのままドラッグへ
@@ -221,7 +176,7 @@ export function ImageShape({
         onMouseMove={(e: any) => {
           if (!isPointerDownRef.current) return
           if (e?.evt?.shiftKey) return
-          if (isEditing) return
+          if (isEditing || locked) return
           if (!groupRef.current) return
           const start = pointerDownPosRef.current
           if (!start) return
@@ -246,7 +201,7 @@ export function ImageShape({
             dragInitialPositionsRef.current = {}
             for (const sid of selected) {
               const el = state.elements.find((e: any) => e.id === sid)
-              if (el) dragInitialPositionsRef.current[sid] = { x: el.x, y: el.y }
+              if (el && !el.locked) dragInitialPositionsRef.current[sid] = { x: el.x, y: el.y }
             }
             const selfEl = state.elements.find((e: any) => e.id === id)
             if (selfEl) draggedInitialPosRef.current = { x: selfEl.x, y: selfEl.y }
@@ -271,7 +226,7 @@ export function ImageShape({
               const newPos = { x: startPos.x + dx, y: startPos.y + dy }
               state.updateElement(sid, newPos, true, true)
             }
-            state.updateConnectors()
+            state.updateConnectors(dragSelectionIdsRef.current)
           } else {
             const newPosition = { x: e.target.x(), y: e.target.y() }
             state.updateElement(id, newPosition, false, true)
@@ -281,6 +236,8 @@ export function ImageShape({
           dragSelectionIdsRef.current = null
           dragInitialPositionsRef.current = {}
           draggedInitialPosRef.current = null
+          // Elements dropped into a frame become part of it
+          state.endElementDrag?.()
         }}
         onDragMove={(e: any) => {
           // スナッピング処理を先に実行
@@ -297,7 +254,7 @@ export function ImageShape({
               const newPos = { x: startPos.x + dx, y: startPos.y + dy }
               state.updateElement(sid, newPos, true, true)
             }
-            state.updateConnectors()
+            state.updateConnectors(dragSelectionIdsRef.current)
           } else {
             const newPosition = { x: e.target.x(), y: e.target.y() }
             state.updateElement(id, newPosition, true, true)
@@ -318,6 +275,8 @@ export function ImageShape({
             try { groupRef.current.stopDrag?.() } catch {}
             groupRef.current.draggable(false)
           }
+          // Double click on a grouped element enters the group instead
+          if (useBoardStore.getState().enterGroup(id)) return
           if (onDoubleClick) {
             const element = { id, x, y, width, height, src, originalWidth, originalHeight, type: 'image' }
             onDoubleClick(id, element, { x: e.evt.clientX, y: e.evt.clientY })
@@ -347,145 +306,33 @@ export function ImageShape({
       </Group>
 
       {/* 選択状態かつ編集中でない場合のみリサイズハンドルを表示 */}
-      {isSelected && !isEditing && (
+      {isSelected && !isEditing && !locked && !isMultiSelection && (
         <>
-          <KonvaResizeHandle
-            elementId={id}
-            direction="nw"
-            x={konvaResizeHandles.nw.x}
-            y={konvaResizeHandles.nw.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('nw', deltaX, deltaY, 20, 10)
-              } else {
-                resizeFree('nw', deltaX, deltaY, 20, 10)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="ne"
-            x={konvaResizeHandles.ne.x}
-            y={konvaResizeHandles.ne.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('ne', deltaX, deltaY, 20, 10)
-              } else {
-                resizeFree('ne', deltaX, deltaY, 20, 10)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="sw"
-            x={konvaResizeHandles.sw.x}
-            y={konvaResizeHandles.sw.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('sw', deltaX, deltaY, 20, 10)
-              } else {
-                resizeFree('sw', deltaX, deltaY, 20, 10)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="se"
-            x={konvaResizeHandles.se.x}
-            y={konvaResizeHandles.se.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('se', deltaX, deltaY, 20, 10)
-              } else {
-                resizeFree('se', deltaX, deltaY, 20, 10)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          {/* 辺ハンドル: 片方向リサイズ */}
-          <KonvaResizeHandle
-            elementId={id}
-            direction="n"
-            x={konvaResizeHandles.n.x}
-            y={konvaResizeHandles.n.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY) => {
-              setIsResizing(true)
-              const minH = 10
-              const h = Math.max(minH, height - deltaY)
-              const appliedDeltaY = height - h
-              onUpdate(id, { y: y + appliedDeltaY, height: h })
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="e"
-            x={konvaResizeHandles.e.x}
-            y={konvaResizeHandles.e.y}
-            isVisible={true}
-            onResize={(_, __, deltaX) => {
-              setIsResizing(true)
-              const minW = 20
-              const w = Math.max(minW, width + deltaX)
-              onUpdate(id, { width: w })
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="s"
-            x={konvaResizeHandles.s.x}
-            y={konvaResizeHandles.s.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY) => {
-              setIsResizing(true)
-              const minH = 10
-              const h = Math.max(minH, height + deltaY)
-              onUpdate(id, { height: h })
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="w"
-            x={konvaResizeHandles.w.x}
-            y={konvaResizeHandles.w.y}
-            isVisible={true}
-            onResize={(_, __, deltaX) => {
-              setIsResizing(true)
-              const minW = 20
-              const w = Math.max(minW, width - deltaX)
-              const appliedDeltaX = width - w
-              onUpdate(id, { x: x + appliedDeltaX, width: w })
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
+          {RESIZE_DIRECTIONS.map(direction => (
+            <KonvaResizeHandle
+              key={direction}
+              elementId={id}
+              direction={direction}
+              x={konvaResizeHandles[direction].x}
+              y={konvaResizeHandles[direction].y}
+              length={direction === 'n' || direction === 's' ? width : height}
+              isVisible={true}
+              onResize={(_, __, deltaX, deltaY, isShiftPressed, isAltPressed) => {
+                setIsResizing(true)
+                resizeFrom(direction, deltaX, deltaY, isShiftPressed, isAltPressed)
+              }}
+              onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
+              zoom={zoom}
+              rotation={rotation}
+            />
+          ))}
+          <RotationHandle elementId={id} x={x} y={y} width={width} height={height} rotation={rotation} zoom={zoom} />
         </>
       )}
 
       {/* 接続ポイント（線モード中、またはコネクタ端点ドラッグ中に表示） */}
       <ConnectionPoints
-        element={{ id, x, y, width, height }}
+        element={{ id, x, y, width, height, rotation }}
         visible={!!showConnectionPoints}
         onClick={onConnectionPointClick}
       />
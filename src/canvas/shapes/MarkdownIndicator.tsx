@@ -9,6 +9,7 @@ type MarkdownIndicatorProps = {
   height: number
   zoom?: number
   visible?: boolean
+  rotation?: number
 }
 
 import { Text, Rect, Group } from 'react-konva'
@@ -19,7 +20,8 @@ export const MarkdownIndicator: React.FC<MarkdownIndicatorProps> = ({
   width,
   height,
   zoom = 1,
-  visible = true
+  visible = true,
+  rotation = 0
 }) => {
   if (!visible) return null
 
@@ -29,8 +31,9 @@ export const MarkdownIndicator: React.FC<MarkdownIndicatorProps> = ({
   const indicatorY = y + height - indicatorSize - 4
 
 
+  // Turns with the note around its top-left corner
   return (
-    <Group>
+    <Group x={x} y={y} offsetX={x} offsetY={y} rotation={rotation}>
       {/* Background */}
       <Rect
         x={indicatorX}
@@ -1,10 +1,13 @@
 'use client'
 
 import React, { useRef, useState, useEffect, memo } from 'react'
-import { KonvaResizeHandle, getKonvaResizeHandlePositions } from './ResizeHandle'
+import { KonvaResizeHandle, RESIZE_DIRECTIONS, getKonvaResizeHandlePositions, type ResizeDirection } from './ResizeHandle'
 import { ConnectionPoints } from './ConnectionPoints'
+import { RotationHandle } from './RotationHandle'
 import { useBoardStore } from '@/store/boardStore'
 import { handleSnapDragMove, handleSnapDragEnd } from '@/lib/snapUtils'
+import { resizeBox } from '@/lib/resize'
+import { rotateResize } from '@/lib/rotation'
 
 import { Rect, Group } from 'react-konva'
 
@@ -27,6 +30,10 @@ type RectShapeProps = {
   isLineMode?: boolean
   // ビューポート関連
   zoom?: number
+  locked?: boolean
+  rotation?: number
+  // Frames reuse this shape but stay axis-aligned
+  rotatable?: boolean
   zIndex?: number
 }
 
@@ -45,7 +52,10 @@ function arePropsEqual(prevProps: RectShapeProps, nextProps: RectShapeProps) {
     prevProps.radius !== nextProps.radius ||
     prevProps.showConnectionPoints !== nextProps.showConnectionPoints ||
     prevProps.isLineMode !== nextProps.isLineMode ||
-    prevProps.zoom !== nextProps.zoom
+    prevProps.zoom !== nextProps.zoom ||
+    prevProps.locked !== nextProps.locked ||
+    prevProps.rotation !== nextProps.rotation ||
+    prevProps.rotatable !== nextProps.rotatable
   ) {
     return false
   }
@@ -70,7 +80,10 @@ export const RectShape = memo(function RectShape({
   showConnectionPoints = false,
   onConnectionPointClick,
   isLineMode = false,
-  zoom = 1
+  zoom = 1,
+  locked = false,
+  rotation = 0,
+  rotatable = true
 }: RectShapeProps) {
   // 状態アクセスを1か所に集約（モック互換）
   const store: any = useBoardStore()
@@ -78,6 +91,7 @@ export const RectShape = memo(function RectShape({
   const selectedIds: string[] = store.selectedIds ?? store.selection ?? []
   const editingTextId = store.editingTextId
   const isSelected = selectedIds.includes(id)
+  const isMultiSelection = selectedIds.length + (store.selectedConnectorIds?.length ?? 0) > 1
   const isEditing = mode === 'editingText' && editingTextId === id
 
   const selectShapeSafe = (elementId: string) => {
@@ -85,7 +99,7 @@ export const RectShape = memo(function RectShape({
     if (typeof store.setSelection === 'function') return store.setSelection([elementId])
   }
   const updateConnectorsSafe = () => {
-    if (typeof store.updateConnectors === 'function') return store.updateConnectors()
+    if (typeof store.updateConnectors === 'function') return store.updateConnectors([id])
   }
 
   const groupRef = useRef<any>()
@@ -109,77 +123,21 @@ export const RectShape = memo(function RectShape({
   }, [])
   const [isHovered, setIsHovered] = useState(false)
 
-  const resizeWithAspect = (
-    direction: 'nw' | 'ne' | 'sw' | 'se',
+  // Corners and edges share one path: Shift locks the aspect ratio, Alt resizes from the center
+  const resizeFrom = (
+    direction: ResizeDirection,
     dx: number,
     dy: number,
-    minW: number,
-    minH: number
+    keepAspect = false,
+    fromCenter = false
   ) => {
-    const aspect = width / height
-    let wFromDx = direction === 'se' || direction === 'ne' ? width + dx : width - dx
-    wFromDx = Math.max(minW, wFromDx)
-    let hFromDx = Math.round(wFromDx / aspect)
-    hFromDx = Math.max(minH, hFromDx)
-    wFromDx = Math.round(hFromDx * aspect)
-
-    let hFromDy = direction === 'se' || direction === 'sw' ? height + dy : height - dy
-    hFromDy = Math.max(minH, hFromDy)
-    let wFromDy = Math.round(hFromDy * aspect)
-    wFromDy = Math.max(minW, wFromDy)
-    hFromDy = Math.round(wFromDy / aspect)
-
-    const useHorizontal = Math.abs(dx) > Math.abs(dy)
-    let newW = useHorizontal ? wFromDx : wFromDy
-    let newH = useHorizontal ? hFromDx : hFromDy
-
-    let newX = x
-    let newY = y
-    if (direction === 'nw') {
-      newX = x + (width - newW)
-      newY = y + (height - newH)
-    } else if (direction === 'ne') {
-      newY = y + (height - newH)
-    } else if (direction === 'sw') {
-      newX = x + (width - newW)
-    }
-
-    onUpdate(id, { x: newX, y: newY, width: newW, height: newH })
-  }
-
-  // 自由リサイズ: 四隅ハンドル用（縦横独立）
-  const resizeFree = (
-    direction: 'nw' | 'ne' | 'sw' | 'se',
-    dx: number,
-    dy: number,
-    minW: number,
-    minH: number
-  ) => {
-    let newW = width
-    let newH = height
-    let newX = x
-    let newY = y
-
-    // 各方向に応じて縦横独立でリサイズ
-    if (direction === 'nw') {
-      newW = Math.max(minW, width - dx)
-      newH = Math.max(minH, height - dy)
-      newX = x + (width - newW)
-      newY = y + (height - newH)
-    } else if (direction === 'ne') {
-      newW = Math.max(minW, width + dx)
-      newH = Math.max(minH, height - dy)
-      newY = y + (height - newH)
-    } else if (direction === 'sw') {
-      newW = Math.max(minW, width - dx)
-      newH = Math.max(minH, height + dy)
-      newX = x + (width - newW)
-    } else if (direction === 'se') {
-      newW = Math.max(minW, width + dx)
-      newH = Math.max(minH, height + dy)
-    }
-
-    onUpdate(id, { x: newX, y: newY, width: newW, height: newH })
+    const next = resizeBox({ x, y, width, height }, direction, dx, dy, {
+      keepAspect,
+      fromCenter,
+      minWidth: 20,
+      minHeight: 10
+    })
+    onUpdate(id, rotateResize({ x, y, rotation }, next))
   }
 
   const triggerContextMenu = (clientX: number, clientY: number) => {
@@ -191,7 +149,7 @@ export const RectShape = memo(function RectShape({
   }
 
 
-  const konvaResizeHandles = getKonvaResizeHandlePositions({ x, y, width, height })
+  const konvaResizeHandles = getKonvaResizeHandlePositions({ x, y, width, height, rotation })
 
 
   return (
@@ -199,8 +157,10 @@ export const RectShape = memo(function RectShape({
       <Group
         ref={groupRef}
         id={`element-${id}`}
+        name="object"
         x={x}
         y={y}
+        rotation={rotation}
         onMouseDown={(e: any) => {
           if (e?.evt?.button !== 0) return
           // 既に複数選択に含まれている場合は選択状態を維持してそのままドラッグへ
@@ -228,7 +188,7 @@ export const RectShape = memo(function RectShape({
         onMouseMove={(e: any) => {
           if (!isPointerDownRef.current) return
           if (e?.evt?.shiftKey) return
-          if (isEditing) return
+          if (isEditing || locked) return
           if (!groupRef.current) return
           const start = pointerDownPosRef.current
           if (!start) return
@@ -255,7 +215,7 @@ export const RectShape = memo(function RectShape({
             dragInitialPositionsRef.current = {}
             for (const sid of selected) {
               const el = state.elements.find((e: any) => e.id === sid)
-              if (el) dragInitialPositionsRef.current[sid] = { x: el.x, y: el.y }
+              if (el && !el.locked) dragInitialPositionsRef.current[sid] = { x: el.x, y: el.y }
             }
             const selfEl = state.elements.find((e: any) => e.id === id)
             if (selfEl) draggedInitialPosRef.current = { x: selfEl.x, y: selfEl.y }
@@ -280,7 +240,7 @@ export const RectShape = memo(function RectShape({
               const newPos = { x: startPos.x + dx, y: startPos.y + dy }
               state.updateElement(sid, newPos, true, true)
             }
-            state.updateConnectors()
+            state.updateConnectors(dragSelectionIdsRef.current)
           } else {
             const newPosition = { x: e.target.x(), y: e.target.y() }
             state.updateElement(id, newPosition, false, true)
@@ -290,6 +250,8 @@ export const RectShape = memo(function RectShape({
           dragSelectionIdsRef.current = null
           dragInitialPositionsRef.current = {}
           draggedInitialPosRef.current = null
+          // Elements dropped into a frame become part of it
+          state.endElementDrag?.()
         }}
         onDragMove={(e: any) => {
           // スナッピング処理を先に実行
@@ -306,7 +268,7 @@ export const RectShape = memo(function RectShape({
               const newPos = { x: startPos.x + dx, y: startPos.y + dy }
               state.updateElement(sid, newPos, true, true)
             }
-            state.updateConnectors()
+            state.updateConnectors(dragSelectionIdsRef.current)
           } else {
             const newPosition = { x: e.target.x(), y: e.target.y() }
             state.updateElement(id, newPosition, true, true)
@@ -332,6 +294,8 @@ export const RectShape = memo(function RectShape({
             }
             groupRef.current.draggable(false)
           }
+          // Double click on a grouped element enters the group instead
+          if (useBoardStore.getState().enterGroup(id)) return
           if (onDoubleClick) {
             const element = { id, x, y, width, height, fill, stroke, strokeWidth, radius, type: 'rect' }
             onDoubleClick(id, element, { x: e.evt.clientX, y: e.evt.clientY })
@@ -359,78 +323,34 @@ export const RectShape = memo(function RectShape({
       </Group>
 
       {/* 選択状態かつ編集中でない場合のみリサイズハンドルを表示 */}
-      {isSelected && !isEditing && (
+      {isSelected && !isEditing && !locked && !isMultiSelection && (
         <>
-          <KonvaResizeHandle
-            elementId={id}
-            direction="nw"
-            x={konvaResizeHandles.nw.x}
-            y={konvaResizeHandles.nw.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              if (isShiftPressed) {
-                resizeWithAspect('nw', deltaX, deltaY, 20, 10)
-              } else {
-                resizeFree('nw', deltaX, deltaY, 20, 10)
-              }
-            }}
-            onResizeEnd={() => { updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="ne"
-            x={konvaResizeHandles.ne.x}
-            y={konvaResizeHandles.ne.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              if (isShiftPressed) {
-                resizeWithAspect('ne', deltaX, deltaY, 20, 10)
-              } else {
-                resizeFree('ne', deltaX, deltaY, 20, 10)
-              }
-            }}
-            onResizeEnd={() => { updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="sw"
-            x={konvaResizeHandles.sw.x}
-            y={konvaResizeHandles.sw.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              if (isShiftPressed) {
-                resizeWithAspect('sw', deltaX, deltaY, 20, 10)
-              } else {
-                resizeFree('sw', deltaX, deltaY, 20, 10)
-              }
-            }}
-            onResizeEnd={() => { updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="se"
-            x={konvaResizeHandles.se.x}
-            y={konvaResizeHandles.se.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              if (isShiftPressed) {
-                resizeWithAspect('se', deltaX, deltaY, 20, 10)
-              } else {
-                resizeFree('se', deltaX, deltaY, 20, 10)
-              }
-            }}
-            onResizeEnd={() => { updateConnectorsSafe() }}
-            zoom={zoom}
-          />
+          {RESIZE_DIRECTIONS.map(direction => (
+            <KonvaResizeHandle
+              key={direction}
+              elementId={id}
+              direction={direction}
+              x={konvaResizeHandles[direction].x}
+              y={konvaResizeHandles[direction].y}
+              length={direction === 'n' || direction === 's' ? width : height}
+              isVisible={true}
+              onResize={(_, __, deltaX, deltaY, isShiftPressed, isAltPressed) => {
+                resizeFrom(direction, deltaX, deltaY, isShiftPressed, isAltPressed)
+              }}
+              onResizeEnd={() => { updateConnectorsSafe() }}
+              zoom={zoom}
+              rotation={rotation}
+            />
+          ))}
+          {rotatable && (
+            <RotationHandle elementId={id} x={x} y={y} width={width} height={height} rotation={rotation} zoom={zoom} />
+          )}
         </>
       )}
 
       {/* 接続ポイント（線モード中、またはコネクタ端点ドラッグ中に表示） */}
       <ConnectionPoints
-        element={{ id, x, y, width, height }}
+        element={{ id, x, y, width, height, rotation }}
         visible={!!showConnectionPoints}
         onClick={onConnectionPointClick}
       />
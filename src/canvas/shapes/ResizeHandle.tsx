@@ -1,7 +1,9 @@
 'use client'
 
 import React from 'react'
+import { useBoardStore } from '@/store/boardStore'
 import { getCursorForDirection, setCursor, resetCursor } from '@/lib/cursor-utils'
+import { rotateWithElement, toElementAxes } from '@/lib/rotation'
 import type { CornerDirection, EdgeDirection } from '@/types'
 
 // Combined type for backwards compatibility
@@ -13,11 +15,19 @@ interface ResizeHandleProps {
   x: number
   y: number
   isVisible: boolean
-  onResize: (elementId: string, direction: ResizeDirection, deltaX: number, deltaY: number, isShiftPressed?: boolean) => void
+  // Shift locks the aspect ratio, Alt resizes from the center
+  onResize: (elementId: string, direction: ResizeDirection, deltaX: number, deltaY: number, isShiftPressed?: boolean, isAltPressed?: boolean) => void
   onResizeEnd?: () => void
   zoom?: number
+  // Rotation of the element (degrees); deltas are reported in the element's own axes
+  rotation?: number
+  // Length of the side (canvas px); edge handles (n/e/s/w) cover it between the corners
+  length?: number
 }
 
+// Handles in drawing order, clockwise from the top-left corner
+export const RESIZE_DIRECTIONS: ResizeDirection[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w']
+
 // リサイズハンドル用のKonva動的インポート
 let Rect: any, Group: any
 
@@ -30,13 +40,11 @@ if (typeof window !== 'undefined') {
   }
 }
 
-export function KonvaResizeHandle({ elementId, direction, x, y, isVisible, onResize, onResizeEnd, zoom = 1 }: ResizeHandleProps) {
+export function KonvaResizeHandle({ elementId, direction, x, y, isVisible, onResize, onResizeEnd, zoom = 1, rotation = 0, length = 0 }: ResizeHandleProps) {
   if (!isVisible || !Rect) return null
 
-  // Only show handles for corner anchors (resize-only)
   const cornerDirections: CornerDirection[] = ['nw', 'ne', 'sw', 'se']
   const isCornerAnchor = cornerDirections.includes(direction as CornerDirection)
-  if (!isCornerAnchor) return null
 
   // ズームに応じてハンドルサイズを調整（正方形のサイズ：最小8px、最大14px）
   const handleSize = Math.max(8, Math.min(14, 10 / zoom))
@@ -146,9 +154,8 @@ export function KonvaResizeHandle({ elementId, direction, x, y, isVisible, onRes
           const totalDeltaY = e.clientY - startClientY
           // 累積変化量をキャンバス座標系に変換してリサイズ
           const scale = zoom || 1
-          const canvasDeltaX = totalDeltaX / scale
-          const canvasDeltaY = totalDeltaY / scale
-          onResize(elementId, direction, canvasDeltaX, canvasDeltaY, e.shiftKey)
+          const delta = toElementAxes({ x: totalDeltaX / scale, y: totalDeltaY / scale }, rotation)
+          onResize(elementId, direction, delta.x, delta.y, e.shiftKey, e.altKey)
         }
 
         document.addEventListener('mousemove', handleResize)
@@ -157,9 +164,10 @@ export function KonvaResizeHandle({ elementId, direction, x, y, isVisible, onRes
 
         // 最初のリサイズ処理も実行
         const scale = zoom || 1
-        const canvasDeltaX = totalDeltaX / scale
-        const canvasDeltaY = totalDeltaY / scale
-        onResize(elementId, direction, canvasDeltaX, canvasDeltaY, e.shiftKey)
+        const delta = toElementAxes({ x: totalDeltaX / scale, y: totalDeltaY / scale }, rotation)
+        // サイズ表示（ResizePreview）の対象
+        useBoardStore.getState().setResizingId(elementId)
+        onResize(elementId, direction, delta.x, delta.y, e.shiftKey, e.altKey)
       }
     }
 
@@ -167,8 +175,9 @@ export function KonvaResizeHandle({ elementId, direction, x, y, isVisible, onRes
       forceCleanup()
 
       // リサイズ完了コールバック
-      if (hasStartedResizing && onResizeEnd) {
-        onResizeEnd()
+      if (hasStartedResizing) {
+        useBoardStore.getState().setResizingId(null)
+        onResizeEnd?.()
       }
     }
 
@@ -185,6 +194,56 @@ export function KonvaResizeHandle({ elementId, direction, x, y, isVisible, onRes
     cleanupFunctionsRef.current.push(cleanupDragIntent, cleanupMouseUp)
   }
 
+  const hoverProps = {
+    onMouseDown: handleMouseDown,
+    onMouseEnter: () => {
+      setIsHovered(true)
+      setCursor(getCursorForDirection(direction))
+    },
+    onMouseLeave: () => {
+      setIsHovered(false)
+      resetCursor()
+    }
+  }
+
+  // 辺ハンドル: 角のハンドルの間を細い帯で覆う。中央は接続ポイントのために空けておく
+  if (!isCornerAnchor) {
+    const horizontal = direction === 'n' || direction === 's'
+    // Without a known side length the strip is one handle wide
+    const half = length > 0 ? Math.max(0, length / 2 - hitAreaSize / 2) : hitAreaSize / 2
+    const gap = half > hitAreaSize ? hitAreaSize / 2 : 0
+    const thickness = handleSize
+    // Segments along the side in the handle's own axis (0 = middle of the side)
+    const segments = gap > 0 ? [[-half, -gap], [gap, half]] : [[-half, half]]
+    const pill = { long: handleSize * 1.6, short: handleSize * 0.6 }
+    return (
+      <Group x={x} y={y} rotation={rotation}>
+        {segments.map(([from, to]) => (
+          <Rect
+            key={from}
+            x={horizontal ? from : -thickness / 2}
+            y={horizontal ? -thickness / 2 : from}
+            width={horizontal ? to - from : thickness}
+            height={horizontal ? thickness : to - from}
+            fill="transparent"
+            {...hoverProps}
+          />
+        ))}
+        <Rect
+          x={-(horizontal ? pill.long : pill.short) / 2}
+          y={-(horizontal ? pill.short : pill.long) / 2}
+          width={horizontal ? pill.long : pill.short}
+          height={horizontal ? pill.short : pill.long}
+          cornerRadius={pill.short / 2}
+          fill={isActive ? '#1F2937' : isHovered ? '#4B5563' : '#6B7280'}
+          stroke="#fff"
+          strokeWidth={1}
+          listening={false}
+        />
+      </Group>
+    )
+  }
+
   return (
     <Group>
       {/* 大きなクリック判定エリア（透明） - 高いz-index相当の優先度 */}
@@ -236,22 +295,22 @@ export function KonvaResizeHandle({ elementId, direction, x, y, isVisible, onRes
   )
 }
 
-// リサイズハンドル位置計算（後方互換性のため全位置を返す）
-export function getKonvaResizeHandlePositions(element: { x: number; y: number; width: number; height: number }) {
+// リサイズハンドル位置計算（四隅と各辺の中央、回転した要素では回転後の位置）
+export function getKonvaResizeHandlePositions(element: { x: number; y: number; width: number; height: number; rotation?: number }) {
   const { x, y, width, height } = element
+  const at = (px: number, py: number) => rotateWithElement(element, { x: px, y: py })
 
-  // 後方互換性のため全位置を返すが、実際の表示はコーナーのみ
   return {
-    // Corner anchors (actually used)
-    nw: { x: x, y: y },
-    ne: { x: x + width, y: y },
-    sw: { x: x, y: y + height },
-    se: { x: x + width, y: y + height },
-    // Edge anchors (for backwards compatibility only)
-    n: { x: x + width / 2, y: y },
-    e: { x: x + width, y: y + height / 2 },
-    s: { x: x + width / 2, y: y + height },
-    w: { x: x, y: y + height / 2 }
+    // Corner anchors
+    nw: at(x, y),
+    ne: at(x + width, y),
+    sw: at(x, y + height),
+    se: at(x + width, y + height),
+    // Edge anchors (middle of each side)
+    n: at(x + width / 2, y),
+    e: at(x + width, y + height / 2),
+    s: at(x + width / 2, y + height),
+    w: at(x, y + height / 2)
   }
 }
 
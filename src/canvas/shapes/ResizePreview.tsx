@@ -2,8 +2,58 @@
 
 import React from 'react'
 import { useBoardStore } from '@/store/boardStore'
+import { rotatedBounds } from '@/lib/rotation'
+import { SELECTION_BOX_ID, selectionBounds } from '@/lib/selection-transform'
 
+// Live "W × H" readout under whatever is being resized (the resize itself is applied in real time)
 export function ResizePreview() {
-  // プレビューシステムを無効化 - リアルタイムリサイズに変更
-  return null
-}
\ No newline at end of file
+  const resizingId = useBoardStore(state => state.resizingId)
+  const elements = useBoardStore(state => state.elements)
+  const connectors = useBoardStore(state => state.connectors)
+  const selectedIds = useBoardStore(state => state.selectedIds)
+  const selectedConnectorIds = useBoardStore(state => state.selectedConnectorIds)
+  const viewport = useBoardStore(state => state.viewport)
+
+  if (!resizingId) return null
+
+  let size: { width: number; height: number } | null = null
+  let bounds: { x: number; y: number; width: number; height: number } | null = null
+  if (resizingId === SELECTION_BOX_ID) {
+    bounds = selectionBounds(
+      elements.filter(e => selectedIds.includes(e.id) && !e.locked),
+      connectors.filter(c => selectedConnectorIds.includes(c.id))
+    )
+    size = bounds
+  } else {
+    const element = elements.find(e => e.id === resizingId)
+    if (element) {
+      // The element's own size, placed under its (possibly rotated) outline
+      size = element
+      bounds = rotatedBounds(element)
+    }
+  }
+  if (!size || !bounds) return null
+
+  return (
+    <div
+      data-testid="resize-preview"
+      style={{
+        position: 'fixed',
+        left: (bounds.x + bounds.width / 2) * viewport.zoom + viewport.panX,
+        top: (bounds.y + bounds.height) * viewport.zoom + viewport.panY + 8,
+        transform: 'translateX(-50%)',
+        zIndex: 1001,
+        padding: '2px 6px',
+        borderRadius: '4px',
+        backgroundColor: '#0D99FF',
+        color: '#FFFFFF',
+        fontSize: '11px',
+        fontVariantNumeric: 'tabular-nums',
+        whiteSpace: 'nowrap',
+        pointerEvents: 'none'
+      }}
+    >
+      {Math.round(size.width)} × {Math.round(size.height)}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import React from 'react'
+import { useBoardStore } from '@/store/boardStore'
+import { setCursor, resetCursor } from '@/lib/cursor-utils'
+import { ROTATION_HANDLE_OFFSET, rotateWithElement, rotationFromPointer } from '@/lib/rotation'
+
+type RotationHandleProps = {
+  elementId: string
+  x: number
+  y: number
+  width: number
+  height: number
+  rotation?: number
+  zoom?: number
+}
+
+// 回転ハンドル用のKonva動的インポート
+let Circle: any, Line: any, Group: any
+
+if (typeof window !== 'undefined') {
+  try {
+    const konva = require('react-konva')
+    Circle = konva.Circle
+    Line = konva.Line
+    Group = konva.Group
+  } catch (e) {
+  }
+}
+
+// Round handle above the top edge; drag to rotate around the center, Shift snaps to 15°
+export function RotationHandle({ elementId, x, y, width, height, rotation = 0, zoom = 1 }: RotationHandleProps) {
+  const [isHovered, setIsHovered] = React.useState(false)
+  const [isActive, setIsActive] = React.useState(false)
+  const cleanupRef = React.useRef<(() => void) | null>(null)
+
+  React.useEffect(() => () => cleanupRef.current?.(), [])
+
+  if (!Circle) return null
+
+  const element = { x, y, width, height, rotation }
+  const top = rotateWithElement(element, { x: x + width / 2, y })
+  const handle = rotateWithElement(element, { x: x + width / 2, y: y - ROTATION_HANDLE_OFFSET / zoom })
+  const radius = Math.max(4, Math.min(7, 5 / zoom))
+
+  const handleMouseDown = (e: any) => {
+    if (e?.evt?.button !== 0) return
+    e.evt?.stopPropagation?.()
+    e.evt?.preventDefault?.()
+    e.cancelBubble = true
+
+    const stage = e.target?.getStage?.()
+    if (!stage) return
+    cleanupRef.current?.()
+
+    let hasRotated = false
+    const handleMove = (ev: MouseEvent) => {
+      const state = useBoardStore.getState()
+      const current = state.getElementById(elementId)
+      if (!current) return
+      stage.setPointersPositions(ev)
+      const pointer = stage.getRelativePointerPosition()
+      if (!pointer) return
+      // The first step records the undo entry, the rest of the drag joins it
+      state.rotateElement(elementId, rotationFromPointer(current, pointer, ev.shiftKey), hasRotated)
+      hasRotated = true
+    }
+    const handleUp = () => cleanupRef.current?.()
+
+    document.addEventListener('mousemove', handleMove)
+    document.addEventListener('mouseup', handleUp)
+    setIsActive(true)
+    cleanupRef.current = () => {
+      document.removeEventListener('mousemove', handleMove)
+      document.removeEventListener('mouseup', handleUp)
+      cleanupRef.current = null
+      setIsActive(false)
+    }
+  }
+
+  return (
+    <Group>
+      <Line
+        points={[top.x, top.y, handle.x, handle.y]}
+        stroke="#6B7280"
+        strokeWidth={1 / zoom}
+        listening={false}
+      />
+      <Circle
+        x={handle.x}
+        y={handle.y}
+        radius={radius}
+        fill={isActive ? '#1F2937' : isHovered ? '#4B5563' : '#FFFFFF'}
+        stroke="#6B7280"
+        strokeWidth={1.5 / zoom}
+        hitStrokeWidth={12 / zoom}
+        onMouseDown={handleMouseDown}
+        onMouseEnter={() => {
+          setIsHovered(true)
+          setCursor('grab')
+        }}
+        onMouseLeave={() => {
+          setIsHovered(false)
+          resetCursor()
+        }}
+      />
+    </Group>
+  )
+}
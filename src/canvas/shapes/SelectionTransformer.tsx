@@ -0,0 +1,119 @@
+'use client'
+
+import React from 'react'
+import { useBoardStore } from '@/store/boardStore'
+import { setCursor, resetCursor } from '@/lib/cursor-utils'
+import { resizeBox } from '@/lib/resize'
+import { MIN_TRANSFORM_SIZE, SELECTION_BOX_ID, selectionBounds } from '@/lib/selection-transform'
+import { KonvaResizeHandle, RESIZE_DIRECTIONS, getKonvaResizeHandlePositions, type ResizeDirection } from './ResizeHandle'
+
+type SelectionTransformerProps = {
+  zoom?: number
+}
+
+type Box = { x: number; y: number; width: number; height: number }
+
+// 選択ボックス用のKonva動的インポート
+let Rect: any, Group: any
+
+if (typeof window !== 'undefined') {
+  try {
+    const konva = require('react-konva')
+    Rect = konva.Rect
+    Group = konva.Group
+  } catch (e) {
+  }
+}
+
+// One box around a multi-selection: drag its outline to move everything, its handles to scale
+// (Shift keeps proportions, Alt scales around the center)
+export function SelectionTransformer({ zoom = 1 }: SelectionTransformerProps) {
+  const elements = useBoardStore(state => state.elements)
+  const connectors = useBoardStore(state => state.connectors)
+  const selectedIds = useBoardStore(state => state.selectedIds)
+  const selectedConnectorIds = useBoardStore(state => state.selectedConnectorIds)
+  // Box at the start of the current drag; handles report cumulative deltas from there
+  const startBoxRef = React.useRef<Box | null>(null)
+
+  const box = React.useMemo(() => {
+    if (selectedIds.length + selectedConnectorIds.length < 2) return null
+    return selectionBounds(
+      elements.filter(e => selectedIds.includes(e.id) && !e.locked),
+      connectors.filter(c => selectedConnectorIds.includes(c.id))
+    )
+  }, [elements, connectors, selectedIds, selectedConnectorIds])
+
+  if (!box || !Rect) return null
+
+  const handles = getKonvaResizeHandlePositions(box)
+
+  const handleResize = (direction: ResizeDirection, deltaX: number, deltaY: number, keepAspect = false, fromCenter = false) => {
+    const state = useBoardStore.getState()
+    if (!startBoxRef.current) {
+      startBoxRef.current = box
+      state.beginSelectionTransform('resize')
+    }
+    state.updateSelectionTransform(resizeBox(startBoxRef.current, direction, deltaX, deltaY, {
+      keepAspect,
+      fromCenter,
+      minWidth: MIN_TRANSFORM_SIZE,
+      minHeight: MIN_TRANSFORM_SIZE
+    }))
+  }
+
+  const finishTransform = () => {
+    startBoxRef.current = null
+    useBoardStore.getState().endSelectionTransform()
+  }
+
+  return (
+    <Group>
+      {/* 枠線のみ当たり判定を持つ（内側のクリックは各要素に届く） */}
+      <Rect
+        x={box.x}
+        y={box.y}
+        width={box.width}
+        height={box.height}
+        stroke="#0D99FF"
+        strokeWidth={1 / zoom}
+        dash={[4 / zoom, 4 / zoom]}
+        fillEnabled={false}
+        hitStrokeWidth={10 / zoom}
+        draggable
+        onMouseDown={(e: any) => {
+          e.cancelBubble = true
+        }}
+        onDragStart={(e: any) => {
+          e.cancelBubble = true
+          startBoxRef.current = box
+          useBoardStore.getState().beginSelectionTransform('move')
+        }}
+        onDragMove={(e: any) => {
+          e.cancelBubble = true
+          if (!startBoxRef.current) return
+          useBoardStore.getState().updateSelectionTransform({ ...startBoxRef.current, x: e.target.x(), y: e.target.y() })
+        }}
+        onDragEnd={(e: any) => {
+          e.cancelBubble = true
+          finishTransform()
+        }}
+        onMouseEnter={() => setCursor('move')}
+        onMouseLeave={() => resetCursor()}
+      />
+      {RESIZE_DIRECTIONS.map(direction => (
+        <KonvaResizeHandle
+          key={direction}
+          elementId={SELECTION_BOX_ID}
+          direction={direction}
+          x={handles[direction].x}
+          y={handles[direction].y}
+          isVisible={true}
+          length={direction === 'n' || direction === 's' ? box.width : box.height}
+          onResize={(_, dir, deltaX, deltaY, isShiftPressed, isAltPressed) => handleResize(dir, deltaX, deltaY, isShiftPressed, isAltPressed)}
+          onResizeEnd={finishTransform}
+          zoom={zoom}
+        />
+      ))}
+    </Group>
+  )
+}
@@ -1,13 +1,16 @@
 'use client'
 
 import React, { useRef, useState, useEffect, memo, useCallback } from 'react'
-import { KonvaResizeHandle, getKonvaResizeHandlePositions } from './ResizeHandle'
+import { KonvaResizeHandle, RESIZE_DIRECTIONS, getKonvaResizeHandlePositions, type ResizeDirection } from './ResizeHandle'
 import { ConnectionPoints } from './ConnectionPoints'
+import { RotationHandle } from './RotationHandle'
 import { MarkdownRenderer, containsMarkdown } from './MarkdownRenderer'
 import { MarkdownIndicator } from './MarkdownIndicator'
 import { useBoardStore } from '@/store/boardStore'
-import { useIsElementSelected, useMode, useEditingTextId, useConnectorDrag } from '@/store/selectors'
+import { useIsElementSelected, useIsMultiSelection, useMode, useEditingTextId, useConnectorDrag } from '@/store/selectors'
 import { handleSnapDragMove, handleSnapDragEnd } from '@/lib/snapUtils'
+import { resizeBox } from '@/lib/resize'
+import { rotateResize } from '@/lib/rotation'
 import { TYPOGRAPHY_TOKENS, getOptimalTextColor, TEXT_SPACING, getResponsiveFontSize } from '@/design-system/typography'
 import type { TextAlignment, VerticalAlignment } from '@/types'
 
@@ -30,6 +33,8 @@ type StickyNoteProps = {
   onContextMenu?: (elementId: string, element: any, position: { x: number; y: number }) => void
   // Viewport related
   zoom?: number
+  locked?: boolean
+  rotation?: number
   zIndex?: number
   // Line mode related
   showConnectionPoints?: boolean
@@ -53,6 +58,8 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
   onDoubleClick,
   onContextMenu,
   zoom = 1,
+  locked = false,
+  rotation = 0,
   zIndex = 0,
   showConnectionPoints = false,
   onConnectionPointClick,
@@ -73,6 +80,7 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
 
   // Use optimized selectors for performance
   const isSelected = useIsElementSelected(id)
+  const isMultiSelection = useIsMultiSelection()
   const mode = useMode()
   const editingTextId = useEditingTextId()
   const connectorDrag = useConnectorDrag()
@@ -89,8 +97,8 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
   }, [store])
   
   const updateConnectors = useCallback(() => {
-    store.updateConnectors()
-  }, [store])
+    store.updateConnectors([id])
+  }, [store, id])
 
   const groupRef = useRef<any>()
   const isPointerDownRef = useRef(false)
@@ -100,94 +108,21 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
   const dragInitialPositionsRef = useRef<Record<string, { x: number; y: number }>>({})
   const draggedInitialPosRef = useRef<{ x: number; y: number } | null>(null)
 
-  // Corner handles: Resize with aspect ratio locked
-  const resizeWithAspect = (
-    direction: 'nw' | 'ne' | 'sw' | 'se',
+  // Corners and edges share one path: Shift locks the aspect ratio, Alt resizes from the center
+  const resizeFrom = (
+    direction: ResizeDirection,
     dx: number,
     dy: number,
-    minW: number,
-    minH: number
+    keepAspect = false,
+    fromCenter = false
   ) => {
-    const aspect = width / height
-    // Candidate A: Calculate from horizontal direction
-    let wFromDx = width
-    let hFromDx = height
-    if (direction === 'se' || direction === 'ne') {
-      wFromDx = width + dx
-    } else {
-      // Includes west: dx > 0 shrinks width
-      wFromDx = width - dx
-    }
-    wFromDx = Math.max(minW, wFromDx)
-    hFromDx = Math.max(minH, Math.round(wFromDx / aspect))
-    wFromDx = Math.round(hFromDx * aspect)
-
-    // Candidate B: Calculate from vertical direction
-    let hFromDy = height
-    let wFromDy = width
-    if (direction === 'se' || direction === 'sw') {
-      hFromDy = height + dy
-    } else {
-      // Includes north: dy > 0 shrinks height
-      hFromDy = height - dy
-    }
-    hFromDy = Math.max(minH, hFromDy)
-    wFromDy = Math.max(minW, Math.round(hFromDy * aspect))
-    hFromDy = Math.round(wFromDy / aspect)
-
-    // Determine which operation has greater magnitude
-    const useHorizontal = Math.abs(dx) > Math.abs(dy)
-    let newW = useHorizontal ? wFromDx : wFromDy
-    let newH = useHorizontal ? hFromDx : hFromDy
-
-    // Final position adjustment (anchor point is diagonal opposite)
-    let newX = x
-    let newY = y
-    if (direction === 'nw') {
-      newX = x + (width - newW)
-      newY = y + (height - newH)
-    } else if (direction === 'ne') {
-      newY = y + (height - newH)
-    } else if (direction === 'sw') {
-      newX = x + (width - newW)
-    }
-
-    onUpdate(id, { x: newX, y: newY, width: newW, height: newH })
-  }
-
-  // Free resize: For corner handles (independent vertical/horizontal)
-  const resizeFree = (
-    direction: 'nw' | 'ne' | 'sw' | 'se',
-    dx: number,
-    dy: number,
-    minW: number,
-    minH: number
-  ) => {
-    let newW = width
-    let newH = height
-    let newX = x
-    let newY = y
-
-    // Resize independently in each direction
-    if (direction === 'nw') {
-      newW = Math.max(minW, width - dx)
-      newH = Math.max(minH, height - dy)
-      newX = x + (width - newW)
-      newY = y + (height - newH)
-    } else if (direction === 'ne') {
-      newW = Math.max(minW, width + dx)
-      newH = Math.max(minH, height - dy)
-      newY = y + (height - newH)
-    } else if (direction === 'sw') {
-      newW = Math.max(minW, width - dx)
-      newH = Math.max(minH, height + dy)
-      newX = x + (width - newW)
-    } else if (direction === 'se') {
-      newW = Math.max(minW, width + dx)
-      newH = Math.max(minH, height + dy)
-    }
-
-    onUpdate(id, { x: newX, y: newY, width: newW, height: newH })
+    const next = resizeBox({ x, y, width, height }, direction, dx, dy, {
+      keepAspect,
+      fromCenter,
+      minWidth: 100,
+      minHeight: 50
+    })
+    onUpdate(id, rotateResize({ x, y, rotation }, next))
   }
 
   useEffect(() => {
@@ -212,7 +147,7 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
   }
 
 
-  const konvaResizeHandles = getKonvaResizeHandlePositions({ x, y, width, height })
+  const konvaResizeHandles = getKonvaResizeHandlePositions({ x, y, width, height, rotation })
 
 
   return (
@@ -223,6 +158,7 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
         name="object" // スナップ用のクラス名
         x={x}
         y={y}
+        rotation={rotation}
         onMouseDown={(e: any) => {
           if (e?.evt?.button !== 0) return
           try {
@@ -249,7 +185,7 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
         onMouseMove={(e: any) => {
           if (!isPointerDownRef.current) return
           if (e?.evt?.shiftKey) return
-          if (isEditing) return
+          if (isEditing || locked) return
           if (!groupRef.current) return
           const start = pointerDownPosRef.current
           if (!start) return
@@ -273,7 +209,7 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
             dragInitialPositionsRef.current = {}
             for (const sid of selected) {
               const el = state.elements.find((e: any) => e.id === sid)
-              if (el) dragInitialPositionsRef.current[sid] = { x: el.x, y: el.y }
+              if (el && !el.locked) dragInitialPositionsRef.current[sid] = { x: el.x, y: el.y }
             }
             const selfEl = state.elements.find((e: any) => e.id === id)
             if (selfEl) draggedInitialPosRef.current = { x: selfEl.x, y: selfEl.y }
@@ -298,11 +234,11 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
               const newPos = { x: startPos.x + dx, y: startPos.y + dy }
               state.updateElement(sid, newPos, true, true)
             }
-            state.updateConnectors()
+            state.updateConnectors(dragSelectionIdsRef.current)
           } else {
             const newPosition = { x: e.target.x(), y: e.target.y() }
             state.updateElement(id, newPosition, true, true)
-            state.updateConnectors()
+            state.updateConnectors([id])
           }
         }}
         onDragEnd={(e: any) => {
@@ -320,16 +256,18 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
               const newPos = { x: startPos.x + dx, y: startPos.y + dy }
               state.updateElement(sid, newPos, false, true)
             }
-            state.updateConnectors()
+            state.updateConnectors(dragSelectionIdsRef.current)
           } else {
             const newPosition = { x: e.target.x(), y: e.target.y() }
             state.updateElement(id, newPosition, false, true)
-            state.updateConnectors()
+            state.updateConnectors([id])
           }
           if (groupRef.current) groupRef.current.draggable(false)
           dragSelectionIdsRef.current = null
           dragInitialPositionsRef.current = {}
           draggedInitialPosRef.current = null
+          // Elements dropped into a frame become part of it
+          state.endElementDrag?.()
         }}
         onClick={(e: any) => {
           e.evt?.stopPropagation?.()
@@ -352,6 +290,8 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
           }
           isPointerDownRef.current = false
           pointerDownPosRef.current = null
+          // Double click on a grouped element enters the group instead
+          if (useBoardStore.getState().enterGroup(id)) return
           startEditingText(id)
 
           // Also call legacy edit handler (for compatibility)
@@ -433,83 +373,34 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
       {/* Connection points (displayed during line mode or connector endpoint dragging) */}
       {/* Rendered before resize handles to keep z-index lower */}
       <ConnectionPoints
-        element={{ id, x, y, width, height }}
+        element={{ id, x, y, width, height, rotation }}
         visible={!!showConnectionPoints}
         onClick={onConnectionPointClick}
       />
 
       {/* Show resize handles only when selected and not editing */}
       {/* Rendered after connection points with higher z-index to prioritize event handling */}
-      {isSelected && !isEditing && (
+      {isSelected && !isEditing && !locked && !isMultiSelection && (
         <>
-          <KonvaResizeHandle
-            elementId={id}
-            direction="nw"
-            x={konvaResizeHandles.nw.x}
-            y={konvaResizeHandles.nw.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('nw', deltaX, deltaY, 100, 50)
-              } else {
-                resizeFree('nw', deltaX, deltaY, 100, 50)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectors() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="ne"
-            x={konvaResizeHandles.ne.x}
-            y={konvaResizeHandles.ne.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('ne', deltaX, deltaY, 100, 50)
-              } else {
-                resizeFree('ne', deltaX, deltaY, 100, 50)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectors() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="sw"
-            x={konvaResizeHandles.sw.x}
-            y={konvaResizeHandles.sw.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('sw', deltaX, deltaY, 100, 50)
-              } else {
-                resizeFree('sw', deltaX, deltaY, 100, 50)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectors() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="se"
-            x={konvaResizeHandles.se.x}
-            y={konvaResizeHandles.se.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('se', deltaX, deltaY, 100, 50)
-              } else {
-                resizeFree('se', deltaX, deltaY, 100, 50)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectors() }}
-            zoom={zoom}
-          />
+          {RESIZE_DIRECTIONS.map(direction => (
+            <KonvaResizeHandle
+              key={direction}
+              elementId={id}
+              direction={direction}
+              x={konvaResizeHandles[direction].x}
+              y={konvaResizeHandles[direction].y}
+              length={direction === 'n' || direction === 's' ? width : height}
+              isVisible={true}
+              onResize={(_, __, deltaX, deltaY, isShiftPressed, isAltPressed) => {
+                setIsResizing(true)
+                resizeFrom(direction, deltaX, deltaY, isShiftPressed, isAltPressed)
+              }}
+              onResizeEnd={() => { setIsResizing(false); updateConnectors() }}
+              zoom={zoom}
+              rotation={rotation}
+            />
+          ))}
+          <RotationHandle elementId={id} x={x} y={y} width={width} height={height} rotation={rotation} zoom={zoom} />
         </>
       )}
 
@@ -522,6 +413,7 @@ export const StickyNote = memo<StickyNoteProps>(function StickyNote({
           height={height}
           zoom={zoom}
           visible={true}
+          rotation={rotation}
         />
       )}
     </>
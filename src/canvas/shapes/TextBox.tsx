@@ -1,10 +1,13 @@
 'use client'
 
 import React, { useRef, useState, useEffect, useCallback, memo } from 'react'
-import { KonvaResizeHandle, getKonvaResizeHandlePositions } from './ResizeHandle'
+import { KonvaResizeHandle, RESIZE_DIRECTIONS, getKonvaResizeHandlePositions, type ResizeDirection } from './ResizeHandle'
 import { ConnectionPoints } from './ConnectionPoints'
+import { RotationHandle } from './RotationHandle'
 import { useBoardStore } from '@/store/boardStore'
 import { handleSnapDragMove, handleSnapDragEnd } from '@/lib/snapUtils'
+import { resizeBox } from '@/lib/resize'
+import { rotateResize } from '@/lib/rotation'
 import { shouldAllowNativeKeyboard } from '@/lib/keyboard-utils'
 import type { TextAlignment, VerticalAlignment } from '@/types'
 
@@ -42,6 +45,8 @@ type TextBoxProps = {
   isLineMode?: boolean
   // Viewport related
   zoom?: number
+  locked?: boolean
+  rotation?: number
   zIndex?: number
 }
 
@@ -63,6 +68,8 @@ function arePropsEqual(prevProps: TextBoxProps, nextProps: TextBoxProps) {
     prevProps.showConnectionPoints !== nextProps.showConnectionPoints ||
     prevProps.isLineMode !== nextProps.isLineMode ||
     prevProps.zoom !== nextProps.zoom ||
+    prevProps.locked !== nextProps.locked ||
+    prevProps.rotation !== nextProps.rotation ||
     prevProps.zIndex !== nextProps.zIndex
   ) {
     return false
@@ -89,6 +96,8 @@ export const TextBox = memo(function TextBox({
   onConnectionPointClick,
   isLineMode = false,
   zoom = 1,
+  locked = false,
+  rotation = 0,
   zIndex = 1
 }: TextBoxProps) {
   // Consolidate state access in one place (mock compatible)
@@ -97,6 +106,7 @@ export const TextBox = memo(function TextBox({
   const selectedIds: string[] = store.selectedIds ?? store.selection ?? []
   const editingTextId = store.editingTextId
   const isSelected = selectedIds.includes(id)
+  const isMultiSelection = selectedIds.length + (store.selectedConnectorIds?.length ?? 0) > 1
   const isEditing = mode === 'editingText' && editingTextId === id
   const connectorDrag = store.connectorDrag
 
@@ -108,7 +118,7 @@ export const TextBox = memo(function TextBox({
     if (typeof store.startEditingText === 'function') return store.startEditingText(elementId)
   }
   const updateConnectorsSafe = () => {
-    if (typeof store.updateConnectors === 'function') return store.updateConnectors()
+    if (typeof store.updateConnectors === 'function') return store.updateConnectors([id])
   }
 
   const groupRef = useRef<any>()
@@ -177,90 +187,35 @@ export const TextBox = memo(function TextBox({
     return () => document.removeEventListener('keydown', handleKeyDown)
   }, [isSelected, isEditing, fontSize, id, onUpdate])
 
-  // Resize with locked aspect ratio (unified)
-  const resizeWithAspect = useCallback((
-    direction: 'nw' | 'ne' | 'sw' | 'se',
+  // Corners and edges share one path: Shift locks the aspect ratio, Alt resizes from the center
+  const resizeFrom = useCallback((
+    direction: ResizeDirection,
     dx: number,
     dy: number,
-    minW: number,
-    minH: number
+    keepAspect = false,
+    fromCenter = false
   ) => {
-    const aspect = width / height
-    let wFromDx = direction === 'se' || direction === 'ne' ? width + dx : width - dx
-    wFromDx = Math.max(minW, wFromDx)
-    let hFromDx = Math.round(wFromDx / aspect)
-    hFromDx = Math.max(minH, hFromDx)
-    wFromDx = Math.round(hFromDx * aspect)
+    const next = resizeBox({ x, y, width, height }, direction, dx, dy, {
+      keepAspect,
+      fromCenter,
+      minWidth: 100,
+      minHeight: 30
+    })
+    onUpdate(id, rotateResize({ x, y, rotation }, next))
+  }, [width, height, x, y, rotation, id, onUpdate])
 
-    let hFromDy = direction === 'se' || direction === 'sw' ? height + dy : height - dy
-    hFromDy = Math.max(minH, hFromDy)
-    let wFromDy = Math.round(hFromDy * aspect)
-    wFromDy = Math.max(minW, wFromDy)
-    hFromDy = Math.round(wFromDy / aspect)
 
-    const useHorizontal = Math.abs(dx) > Math.abs(dy)
-    let newW = useHorizontal ? wFromDx : wFromDy
-    let newH = useHorizontal ? hFromDx : hFromDy
-
-    let newX = x
-    let newY = y
-    if (direction === 'nw') {
-      newX = x + (width - newW)
-      newY = y + (height - newH)
-    } else if (direction === 'ne') {
-      newY = y + (height - newH)
-    } else if (direction === 'sw') {
-      newX = x + (width - newW)
-    }
-
-    onUpdate(id, { x: newX, y: newY, width: newW, height: newH })
-  }, [width, height, x, y, id, onUpdate])
-
-  // Free resize (unified)
-  const resizeFree = useCallback((
-    direction: 'nw' | 'ne' | 'sw' | 'se',
-    dx: number,
-    dy: number,
-    minW: number,
-    minH: number
-  ) => {
-    let newW = width
-    let newH = height
-    let newX = x
-    let newY = y
-
-    // Resize independently in each direction
-    if (direction === 'nw') {
-      newW = Math.max(minW, width - dx)
-      newH = Math.max(minH, height - dy)
-      newX = x + (width - newW)
-      newY = y + (height - newH)
-    } else if (direction === 'ne') {
-      newW = Math.max(minW, width + dx)
-      newH = Math.max(minH, height - dy)
-      newY = y + (height - newH)
-    } else if (direction === 'sw') {
-      newW = Math.max(minW, width - dx)
-      newH = Math.max(minH, height + dy)
-      newX = x + (width - newW)
-    } else if (direction === 'se') {
-      newW = Math.max(minW, width + dx)
-      newH = Math.max(minH, height + dy)
-    }
-
-    onUpdate(id, { x: newX, y: newY, width: newW, height: newH })
-  }, [width, height, x, y, id, onUpdate])
-
-
-  const konvaResizeHandles = getKonvaResizeHandlePositions({ x, y, width, height })
+  const konvaResizeHandles = getKonvaResizeHandlePositions({ x, y, width, height, rotation })
 
   return (
     <>
       <Group
         ref={groupRef}
         id={`element-${id}`}
+        name="object"
         x={x}
         y={y}
+        rotation={rotation}
         zIndex={zIndex}
         onMouseDown={(e: any) => {
           if (e?.evt?.button !== 0) return
@@ -288,7 +243,7 @@ export const TextBox = memo(function TextBox({
         onMouseMove={(e: any) => {
           if (!isPointerDownRef.current) return
           if (e?.evt?.shiftKey) return
-          if (isEditing) return
+          if (isEditing || locked) return
           if (!groupRef.current) return
           const start = pointerDownPosRef.current
           if (!start) return
@@ -312,7 +267,7 @@ export const TextBox = memo(function TextBox({
             dragInitialPositionsRef.current = {}
             for (const sid of selected) {
               const el = state.elements.find((e: any) => e.id === sid)
-              if (el) dragInitialPositionsRef.current[sid] = { x: el.x, y: el.y }
+              if (el && !el.locked) dragInitialPositionsRef.current[sid] = { x: el.x, y: el.y }
             }
             const selfEl = state.elements.find((e: any) => e.id === id)
             if (selfEl) draggedInitialPosRef.current = { x: selfEl.x, y: selfEl.y }
@@ -337,16 +292,18 @@ export const TextBox = memo(function TextBox({
               const newPos = { x: startPos.x + dx, y: startPos.y + dy }
               state.updateElement(sid, newPos, false, true)
             }
-            state.updateConnectors()
+            state.updateConnectors(dragSelectionIdsRef.current)
           } else {
             const newPosition = { x: e.target.x(), y: e.target.y() }
             state.updateElement(id, newPosition, false, true)
-            state.updateConnectors()
+            state.updateConnectors([id])
           }
           if (groupRef.current) groupRef.current.draggable(false)
           dragSelectionIdsRef.current = null
           dragInitialPositionsRef.current = {}
           draggedInitialPosRef.current = null
+          // Elements dropped into a frame become part of it
+          state.endElementDrag?.()
         }}
         onDragMove={(e: any) => {
           // Execute snapping process first
@@ -363,11 +320,11 @@ export const TextBox = memo(function TextBox({
               const newPos = { x: startPos.x + dx, y: startPos.y + dy }
               state.updateElement(sid, newPos, true, true)
             }
-            state.updateConnectors()
+            state.updateConnectors(dragSelectionIdsRef.current)
           } else {
             const newPosition = { x: e.target.x(), y: e.target.y() }
             state.updateElement(id, newPosition, true, true)
-            state.updateConnectors()
+            state.updateConnectors([id])
           }
         }}
         onClick={(e: any) => {
@@ -391,6 +348,8 @@ export const TextBox = memo(function TextBox({
           }
           isPointerDownRef.current = false
           pointerDownPosRef.current = null
+          // Double click on a grouped element enters the group instead
+          if (useBoardStore.getState().enterGroup(id)) return
           startEditingTextSafe(id)
 
           // Also call legacy edit handler (for compatibility)
@@ -419,82 +378,33 @@ export const TextBox = memo(function TextBox({
       </Group>
 
       {/* Show resize handles only when selected and not editing */}
-      {isSelected && !isEditing && (
+      {isSelected && !isEditing && !locked && !isMultiSelection && (
         <>
-          <KonvaResizeHandle
-            elementId={id}
-            direction="nw"
-            x={konvaResizeHandles.nw.x}
-            y={konvaResizeHandles.nw.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('nw', deltaX, deltaY, 100, 30)
-              } else {
-                resizeFree('nw', deltaX, deltaY, 100, 30)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="ne"
-            x={konvaResizeHandles.ne.x}
-            y={konvaResizeHandles.ne.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('ne', deltaX, deltaY, 100, 30)
-              } else {
-                resizeFree('ne', deltaX, deltaY, 100, 30)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="sw"
-            x={konvaResizeHandles.sw.x}
-            y={konvaResizeHandles.sw.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('sw', deltaX, deltaY, 100, 30)
-              } else {
-                resizeFree('sw', deltaX, deltaY, 100, 30)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
-          <KonvaResizeHandle
-            elementId={id}
-            direction="se"
-            x={konvaResizeHandles.se.x}
-            y={konvaResizeHandles.se.y}
-            isVisible={true}
-            onResize={(_, __, deltaX, deltaY, isShiftPressed) => {
-              setIsResizing(true)
-              if (isShiftPressed) {
-                resizeWithAspect('se', deltaX, deltaY, 100, 30)
-              } else {
-                resizeFree('se', deltaX, deltaY, 100, 30)
-              }
-            }}
-            onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
-            zoom={zoom}
-          />
+          {RESIZE_DIRECTIONS.map(direction => (
+            <KonvaResizeHandle
+              key={direction}
+              elementId={id}
+              direction={direction}
+              x={konvaResizeHandles[direction].x}
+              y={konvaResizeHandles[direction].y}
+              length={direction === 'n' || direction === 's' ? width : height}
+              isVisible={true}
+              onResize={(_, __, deltaX, deltaY, isShiftPressed, isAltPressed) => {
+                setIsResizing(true)
+                resizeFrom(direction, deltaX, deltaY, isShiftPressed, isAltPressed)
+              }}
+              onResizeEnd={() => { setIsResizing(false); updateConnectorsSafe() }}
+              zoom={zoom}
+              rotation={rotation}
+            />
+          ))}
+          <RotationHandle elementId={id} x={x} y={y} width={width} height={height} rotation={rotation} zoom={zoom} />
         </>
       )}
 
       {/* Connection points (displayed during line mode or connector endpoint dragging) */}
       <ConnectionPoints
-        element={{ id, x, y, width, height }}
+        element={{ id, x, y, width, height, rotation }}
         visible={!!showConnectionPoints}
         onClick={onConnectionPointClick}
       />
@@ -0,0 +1,333 @@
+'use client'
+
+import React, { useState, useRef, useEffect } from 'react'
+import type { Connector, ConnectorAnchorMode, ConnectorDash, ConnectorMarker, ConnectorRouting } from '@/types'
+import {
+  CONNECTOR_DASHES,
+  CONNECTOR_MARKERS,
+  connectorStyle,
+  dashPattern,
+  markerShape,
+  type ConnectorStyle
+} from '@/lib/connector-style'
+import { CONNECTOR_ROUTINGS } from '@/lib/connector-routing'
+
+type ConnectorToolbarProps = {
+  isVisible: boolean
+  position: { x: number; y: number }
+  selectedConnectors: Connector[]
+  onStyleChange: (style: Partial<ConnectorStyle>) => void
+  onRoutingChange: (routing: ConnectorRouting) => void
+  onAnchorModeChange: (mode: ConnectorAnchorMode) => void
+}
+
+const CONNECTOR_COLORS = [
+  '#666666', // Default gray
+  '#000000',
+  '#E53935', // Red
+  '#FB8C00', // Orange
+  '#FDD835', // Yellow
+  '#43A047', // Green
+  '#1E88E5', // Blue
+  '#8E24AA', // Purple
+]
+
+const STROKE_WIDTHS = [1, 2, 4, 6]
+
+const DASH_TITLES: Record<ConnectorDash, string> = {
+  solid: 'Solid line',
+  dashed: 'Dashed line',
+  dotted: 'Dotted line',
+}
+
+const ROUTING_TITLES: Record<ConnectorRouting, string> = {
+  straight: 'Straight',
+  elbow: 'Elbow',
+  curved: 'Curved',
+}
+
+const MARKER_TITLES: Record<ConnectorMarker, string> = {
+  none: 'None',
+  arrow: 'Arrow',
+  'open-arrow': 'Open arrow',
+  circle: 'Circle',
+  diamond: 'Diamond',
+  bar: 'Bar',
+}
+
+// Preview of a line end, drawn with the same shapes as the canvas
+const MarkerIcon = ({ marker, end }: { marker: ConnectorMarker; end: 'start' | 'end' }) => {
+  const shape = markerShape(marker, 2)
+  // The marker points right (end) or left (start)
+  const transform = end === 'end' ? 'translate(20 8)' : 'translate(4 8) rotate(180)'
+  return (
+    <svg width="24" height="16" viewBox="0 0 24 16">
+      <line x1={end === 'end' ? 2 : 4} y1="8" x2={end === 'end' ? 20 : 22} y2="8" stroke="currentColor" strokeWidth="2" />
+      {shape && (
+        <g transform={transform}>
+          {shape.kind === 'circle' ? (
+            <circle cx={shape.x} cy={shape.y} r={shape.radius} fill="currentColor" />
+          ) : (
+            React.createElement(shape.closed ? 'polygon' : 'polyline', {
+              points: shape.points.join(' '),
+              fill: shape.filled ? 'currentColor' : 'none',
+              stroke: 'currentColor',
+              strokeWidth: shape.filled ? 1 : 2,
+              strokeLinecap: 'round',
+              strokeLinejoin: 'round'
+            })
+          )}
+        </g>
+      )}
+    </svg>
+  )
+}
+
+const DashIcon = ({ dash }: { dash: ConnectorDash }) => (
+  <svg width="16" height="16" viewBox="0 0 16 16">
+    <line x1="1" y1="8" x2="15" y2="8" stroke="currentColor" strokeWidth="2" strokeDasharray={dashPattern(dash, 2).join(' ') || undefined} />
+  </svg>
+)
+
+const RoutingIcon = ({ routing }: { routing: ConnectorRouting }) => {
+  const path = routing === 'elbow' ? 'M2 13 H8 V3 H14' : routing === 'curved' ? 'M2 13 C10 13 6 3 14 3' : 'M2 13 L14 3'
+  return (
+    <svg width="16" height="16" viewBox="0 0 16 16">
+      <path d={path} fill="none" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" />
+    </svg>
+  )
+}
+
+// Two boxes with the line jumping to the facing side
+const AutoAnchorIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16">
+    <rect x="1" y="1" width="5" height="5" fill="none" stroke="currentColor" strokeWidth="1.5" />
+    <rect x="10" y="10" width="5" height="5" fill="none" stroke="currentColor" strokeWidth="1.5" />
+    <path d="M6 3.5 H12.5 V10" fill="none" stroke="currentColor" strokeWidth="1.5" />
+  </svg>
+)
+
+const WidthIcon = ({ width }: { width: number }) => (
+  <svg width="16" height="16" viewBox="0 0 16 16">
+    <line x1="2" y1="8" x2="14" y2="8" stroke="currentColor" strokeWidth={width} />
+  </svg>
+)
+
+export function ConnectorToolbar({
+  isVisible,
+  position,
+  selectedConnectors,
+  onStyleChange,
+  onRoutingChange,
+  onAnchorModeChange
+}: ConnectorToolbarProps) {
+  const [openDropdown, setOpenDropdown] = useState<null | 'color' | 'start' | 'end'>(null)
+  const toolbarRef = useRef<HTMLDivElement>(null)
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    if (!openDropdown) return
+    const handleClickOutside = (event: MouseEvent) => {
+      if (toolbarRef.current && !toolbarRef.current.contains(event.target as Node)) {
+        setOpenDropdown(null)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [openDropdown])
+
+  if (!isVisible || selectedConnectors.length === 0) return null
+
+  // Current state from the first selected connector
+  const current = connectorStyle(selectedConnectors[0])
+  const currentRouting = selectedConnectors[0].routing ?? 'straight'
+  const isAutoAnchored = selectedConnectors[0].anchorMode === 'auto'
+
+  const apply = (style: Partial<ConnectorStyle>) => {
+    onStyleChange(style)
+    setOpenDropdown(null)
+  }
+
+  const getButtonStyle = (isActive: boolean) => ({
+    width: '28px',
+    height: '28px',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    transition: 'all 0.2s',
+    backgroundColor: isActive ? '#E3F2FD' : 'transparent',
+    color: isActive ? '#1976D2' : '#666666',
+  })
+
+  const dropdownStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: '32px',
+    left: 0,
+    zIndex: 1002,
+    backgroundColor: '#FFFFFF',
+    borderRadius: '8px',
+    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+    border: '1px solid #E0E0E0',
+    padding: '8px',
+  }
+
+  const separator = (
+    <div style={{ width: '1px', height: '20px', backgroundColor: '#E0E0E0', margin: '0 4px' }} />
+  )
+
+  const renderMarkerPicker = (end: 'start' | 'end') => {
+    const value = end === 'start' ? current.startMarker : current.endMarker
+    const key = end === 'start' ? 'startMarker' : 'endMarker'
+    return (
+      <div style={{ position: 'relative' }}>
+        <button
+          data-testid={`connector-${end}-marker`}
+          onClick={() => setOpenDropdown(openDropdown === end ? null : end)}
+          style={{ ...getButtonStyle(openDropdown === end), width: '36px' }}
+          title={end === 'start' ? 'Start marker' : 'End marker'}
+        >
+          <MarkerIcon marker={value} end={end} />
+        </button>
+        {openDropdown === end && (
+          <div data-testid={`connector-${end}-marker-dropdown`} style={{ ...dropdownStyle, display: 'flex', flexDirection: 'column', gap: '2px' }}>
+            {CONNECTOR_MARKERS.map(marker => (
+              <button
+                key={marker}
+                data-testid={`connector-${end}-marker-option-${marker}`}
+                onClick={() => apply({ [key]: marker })}
+                style={{ ...getButtonStyle(marker === value), width: '36px' }}
+                title={MARKER_TITLES[marker]}
+              >
+                <MarkerIcon marker={marker} end={end} />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      ref={toolbarRef}
+      data-testid="connector-toolbar"
+      style={{
+        position: 'fixed',
+        left: position.x,
+        top: position.y - 70, // Position 70px above
+        zIndex: 1001,
+        backgroundColor: '#FFFFFF',
+        borderRadius: '8px',
+        boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+        border: '1px solid #E0E0E0',
+        padding: '8px',
+        display: 'flex',
+        gap: '4px',
+        alignItems: 'center'
+      }}
+    >
+      {/* Line color */}
+      <div style={{ position: 'relative' }}>
+        <button
+          data-testid="connector-color"
+          onClick={() => setOpenDropdown(openDropdown === 'color' ? null : 'color')}
+          style={getButtonStyle(openDropdown === 'color')}
+          title="Line color"
+        >
+          <div style={{ width: '16px', height: '16px', borderRadius: '50%', backgroundColor: current.stroke, border: '1px solid #CCCCCC' }} />
+        </button>
+        {openDropdown === 'color' && (
+          <div
+            data-testid="connector-color-dropdown"
+            style={{ ...dropdownStyle, display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '6px', width: '132px' }}
+          >
+            {CONNECTOR_COLORS.map(color => (
+              <button
+                key={color}
+                data-testid={`connector-color-option-${color}`}
+                onClick={() => apply({ stroke: color })}
+                style={{
+                  width: '24px',
+                  height: '24px',
+                  borderRadius: '4px',
+                  border: current.stroke.toLowerCase() === color.toLowerCase() ? '2px solid #2196F3' : '1px solid #CCCCCC',
+                  backgroundColor: color,
+                  cursor: 'pointer'
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {separator}
+
+      {/* Line width */}
+      <div style={{ display: 'flex', gap: '2px' }}>
+        {STROKE_WIDTHS.map(width => (
+          <button
+            key={width}
+            data-testid={`connector-width-${width}`}
+            onClick={() => apply({ strokeWidth: width })}
+            style={getButtonStyle(current.strokeWidth === width)}
+            title={`${width}px`}
+          >
+            <WidthIcon width={width} />
+          </button>
+        ))}
+      </div>
+
+      {separator}
+
+      {/* Dash pattern */}
+      <div style={{ display: 'flex', gap: '2px' }}>
+        {CONNECTOR_DASHES.map(dash => (
+          <button
+            key={dash}
+            data-testid={`connector-dash-${dash}`}
+            onClick={() => apply({ dash })}
+            style={getButtonStyle(current.dash === dash)}
+            title={DASH_TITLES[dash]}
+          >
+            <DashIcon dash={dash} />
+          </button>
+        ))}
+      </div>
+
+      {separator}
+
+      {/* Routing (choosing the current one again resets a reshaped route) */}
+      <div style={{ display: 'flex', gap: '2px' }}>
+        {CONNECTOR_ROUTINGS.map(routing => (
+          <button
+            key={routing}
+            data-testid={`connector-routing-${routing}`}
+            onClick={() => onRoutingChange(routing)}
+            style={getButtonStyle(currentRouting === routing)}
+            title={ROUTING_TITLES[routing]}
+          >
+            <RoutingIcon routing={routing} />
+          </button>
+        ))}
+        <button
+          data-testid="connector-anchor-auto"
+          aria-pressed={isAutoAnchored}
+          onClick={() => onAnchorModeChange(isAutoAnchored ? 'fixed' : 'auto')}
+          style={getButtonStyle(isAutoAnchored)}
+          title={isAutoAnchored ? 'Sides follow the elements (click to fix them)' : 'Fixed sides (click to follow the elements)'}
+        >
+          <AutoAnchorIcon />
+        </button>
+      </div>
+
+      {separator}
+
+      {/* Line ends */}
+      {renderMarkerPicker('start')}
+      {renderMarkerPicker('end')}
+    </div>
+  )
+}
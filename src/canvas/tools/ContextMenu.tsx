@@ -1,6 +1,7 @@
 'use client'
 
 import React, { memo, useCallback, useMemo } from 'react'
+import type { CanvasElement } from '@/types'
 
 type ContextMenuProps = {
   isVisible: boolean
@@ -9,7 +10,9 @@ type ContextMenuProps = {
   onChangeColor: () => void
   onBringToFront: () => void
   onSendToBack: () => void
-  elementType: 'rect' | 'sticky' | 'text' | null
+  isLocked?: boolean
+  onToggleLock?: () => void
+  elementType: CanvasElement['type'] | null
 }
 
 // Performance optimized ContextMenu with React.memo
@@ -20,6 +23,8 @@ export const ContextMenu = memo<ContextMenuProps>(function ContextMenu({
   onChangeColor, 
   onBringToFront, 
   onSendToBack,
+  isLocked = false,
+  onToggleLock,
   elementType
 }) {
   // Memoize menu items to prevent recreation on every render
@@ -42,8 +47,17 @@ export const ContextMenu = memo<ContextMenuProps>(function ContextMenu({
       })
     }
 
+    if (elementType && onToggleLock) {
+      items.push({
+        label: isLocked ? 'Unlock' : 'Lock',
+        icon: isLocked ? '🔓' : '🔒',
+        shortcut: '⇧⌘L',
+        action: onToggleLock
+      })
+    }
+
     return items
-  }, [elementType, onBringToFront, onSendToBack])
+  }, [elementType, onBringToFront, onSendToBack, isLocked, onToggleLock])
 
   // Callback to handle menu item clicks
   const handleItemClick = useCallback((action: () => void) => {
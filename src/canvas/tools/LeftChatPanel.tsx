@@ -1,12 +1,14 @@
 'use client'
 
 import React, { useState, useRef, useEffect } from 'react'
-import { callLLMWithContext, validatePrompt, LLMAPIError, type LLMState } from '@/lib/llm'
+import { streamLLMWithContext, generateMindMapWithContext, validatePrompt, isAbortError, LLMAPIError, type LLMState } from '@/lib/llm'
 import { SpinnerLoader } from '@/components/SpinnerLoader'
 import { handleTextareaPaste } from '@/lib/clipboard-utils'
 import { createModuleLogger } from '@/lib/logger'
 import { useBoardStore } from '@/store/boardStore'
+import { getSelectedTextElements } from '@/lib/board-context'
 import { marked } from 'marked'
+import type { MindMap } from '@/types'
 
 const logger = createModuleLogger('LeftChatPanel')
 
@@ -24,6 +26,19 @@ type LeftChatPanelProps = {
   onToggleCollapse?: () => void
 }
 
+// User-facing message for a failed LLM request
+function describeLLMError(error: unknown): string {
+  if (error instanceof LLMAPIError) {
+    if (error.status === 400) {
+      return 'There is a problem with the input'
+    } else if (error.status >= 500) {
+      return 'A server error occurred'
+    }
+    return error.message
+  }
+  return 'An error occurred'
+}
+
 // Configure marked settings
 marked.setOptions({
   breaks: true, // Convert line breaks to <br>
@@ -37,9 +52,14 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
     error: null,
     lastResponse: null
   })
+  // Generated mind map waiting to be placed on the canvas
+  const [pendingMindMap, setPendingMindMap] = useState<MindMap | null>(null)
+  // Assistant answer while it is streaming in (null when no request is running)
+  const [streamingText, setStreamingText] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   // Use chat functionality from boardStore
-  const { chatHistory, addChatMessage, getChatContext, mainTheme, setMainTheme, updateMainTheme, removeMainTheme } = useBoardStore()
+  const { chatHistory, addChatMessage, addMindMap, getChatContext, getSelectionContext, setMessagesContextInclusion, elements, selectedIds, mainTheme, setMainTheme, updateMainTheme, removeMainTheme } = useBoardStore()
 
   // Chat history (convert boardStore's chatHistory to local format for backward compatibility)
   const messages = chatHistory.map(msg => ({
@@ -47,52 +67,17 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
     type: msg.role,
     content: msg.content,
     timestamp: msg.timestamp,
-    isSelected: false
+    isSelected: !msg.excludedFromContext
   }))
-  // Initialize with all messages included in context by default
-  const [selectedMessageIds, setSelectedMessageIds] = useState<Set<string>>(() => {
-    return new Set(chatHistory.map(msg => msg.id))
-  })
 
-  // Track explicitly excluded message IDs
-  const [excludedMessageIds, setExcludedMessageIds] = useState<Set<string>>(new Set())
+  // Messages are included in context by default; explicit exclusions are saved with the board
+  const selectedMessageIds = new Set(messages.filter(msg => msg.isSelected).map(msg => msg.id))
 
-  // Track previous message ID list
-  const prevMessageIdsRef = useRef<Set<string>>(new Set(chatHistory.map(msg => msg.id)))
-
-  // Automatically add only new messages to context when chatHistory changes
-  useEffect(() => {
-    const currentMessageIds = new Set(chatHistory.map(msg => msg.id))
-    const prevMessageIds = prevMessageIdsRef.current
-
-    // Identify new messages
-    const newMessageIds: string[] = []
-    currentMessageIds.forEach(id => {
-      if (!prevMessageIds.has(id)) {
-        newMessageIds.push(id)
-      }
-    })
-
-    // Process only if there are new messages
-    if (newMessageIds.length > 0) {
-      setSelectedMessageIds(currentSelection => {
-        const newSelection = new Set(currentSelection)
-        const currentExcluded = new Set(excludedMessageIds)
-
-        // Auto-add only new messages that are not in excluded history
-        newMessageIds.forEach(id => {
-          if (!currentExcluded.has(id)) {
-            newSelection.add(id)
-          }
-        })
-
-        return newSelection
-      })
-    }
-
-    // Save current message ID list
-    prevMessageIdsRef.current = currentMessageIds
-  }, [chatHistory, excludedMessageIds])
+  // "Ask about selection": send the selected notes (and their connectors) as context
+  const [askAboutSelection, setAskAboutSelection] = useState(false)
+  const [includeGroups, setIncludeGroups] = useState(false)
+  const selectedNoteCount = getSelectedTextElements(elements, selectedIds).length
+  const isAskingAboutSelection = askAboutSelection && selectedNoteCount > 0
 
   // UI state
   const [isComposing, setIsComposing] = useState(false)
@@ -135,7 +120,12 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
 
   useEffect(() => {
     scrollToBottom()
-  }, [messages])
+  }, [messages.length, streamingText])
+
+  // Cancel a running request when the panel unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
 
   // Resize handling
   useEffect(() => {
@@ -184,6 +174,11 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
 
     setLLMState({ isLoading: true, error: null, lastResponse: null })
 
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    let partialText = ''
+    setStreamingText('')
+
     try {
       // ユーザーメッセージをチャット履歴に追加
       addChatMessage({
@@ -197,12 +192,18 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
         setMainTheme(prompt.trim())
       }
 
-      // Get context from boardStore
-      const context = getChatContext()
+      // Get context from boardStore (selected board content first, then past conversation)
+      const context = (isAskingAboutSelection ? getSelectionContext({ includeGroups }) : '') + getChatContext()
 
-      const response = await callLLMWithContext({
+      const response = await streamLLMWithContext({
         prompt: prompt.trim()
-      }, context, mainTheme?.content)
+      }, context, mainTheme?.content, {
+        signal: abortController.signal,
+        onToken: (_token, text) => {
+          partialText = text
+          setStreamingText(text)
+        }
+      })
 
       // Add assistant response to chat history (with summary)
       addChatMessage({
@@ -223,27 +224,94 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
       setPrompt('')
 
     } catch (error) {
-      logger.error('LLM error', error)
-
-      let errorMessage = 'An error occurred'
-      if (error instanceof LLMAPIError) {
-        if (error.status === 400) {
-          errorMessage = 'There is a problem with the input'
-        } else if (error.status >= 500) {
-          errorMessage = 'A server error occurred'
-        } else {
-          errorMessage = error.message
+      // Stopped by the user: keep what has arrived so far (no summary)
+      if (isAbortError(error)) {
+        if (partialText.trim()) {
+          addChatMessage({
+            role: 'assistant',
+            content: partialText,
+            timestamp: Date.now()
+          })
         }
+        setLLMState({ isLoading: false, error: null, lastResponse: null })
+        setPrompt('')
+        return
       }
 
+      logger.error('LLM error', error)
+
       setLLMState({
         isLoading: false,
-        error: errorMessage,
+        error: describeLLMError(error),
         lastResponse: null
       })
+    } finally {
+      abortControllerRef.current = null
+      setStreamingText(null)
     }
   }
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  // Ask for a mind map of the prompt; the result is dragged (or placed) onto the canvas
+  const handleGenerateMap = async () => {
+    const validation = validatePrompt(prompt)
+    if (!validation.isValid) {
+      setLLMState(prev => ({ ...prev, error: validation.error || null }))
+      return
+    }
+
+    setLLMState({ isLoading: true, error: null, lastResponse: null })
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    try {
+      addChatMessage({
+        role: 'user',
+        content: prompt.trim(),
+        timestamp: Date.now()
+      })
+
+      const context = (isAskingAboutSelection ? getSelectionContext({ includeGroups }) : '') + getChatContext()
+      const response = await generateMindMapWithContext({ prompt: prompt.trim() }, context, mainTheme?.content, abortController.signal)
+
+      addChatMessage({
+        role: 'assistant',
+        content: response.text,
+        summary: response.summary,
+        timestamp: Date.now()
+      })
+
+      setPendingMindMap(response.map)
+      setLLMState({ isLoading: false, error: null, lastResponse: response })
+      setPrompt('')
+    } catch (error) {
+      // Stopped by the user: nothing to place
+      if (isAbortError(error)) {
+        setLLMState({ isLoading: false, error: null, lastResponse: null })
+        return
+      }
+      logger.error('Mind map generation error', error)
+      setLLMState({ isLoading: false, error: describeLLMError(error), lastResponse: null })
+    } finally {
+      abortControllerRef.current = null
+    }
+  }
+
+  // Place the pending mind map at the center of the visible canvas
+  const placePendingMindMapAtCenter = () => {
+    if (!pendingMindMap) return
+    const { viewport } = useBoardStore.getState()
+    addMindMap(pendingMindMap, {
+      x: (window.innerWidth / 2 - viewport.panX) / viewport.zoom,
+      y: (window.innerHeight / 2 - viewport.panY) / viewport.zoom
+    })
+    setPendingMindMap(null)
+  }
+
 
   // Create preview sticky note from message
   const createPreviewFromMessage = (message: ChatMessage) => {
@@ -257,23 +325,7 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
 
   // Add/remove message from context
   const toggleMessageContext = (messageId: string) => {
-    setSelectedMessageIds(prev => {
-      const newSet = new Set(prev)
-      if (newSet.has(messageId)) {
-        // When excluding from context, add to excluded history
-        newSet.delete(messageId)
-        setExcludedMessageIds(prevExcluded => new Set(prevExcluded).add(messageId))
-      } else {
-        // When adding to context, remove from excluded history
-        newSet.add(messageId)
-        setExcludedMessageIds(prevExcluded => {
-          const newExcluded = new Set(prevExcluded)
-          newExcluded.delete(messageId)
-          return newExcluded
-        })
-      }
-      return newSet
-    })
+    setMessagesContextInclusion([messageId], !selectedMessageIds.has(messageId))
   }
 
   // Handle preview sticky note drag
@@ -710,17 +762,8 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
               type="checkbox"
               checked={messages.length > 0 && selectedMessageIds.size === messages.length}
               onChange={(e) => {
-                if (e.target.checked) {
-                  // Add all messages to context
-                  setSelectedMessageIds(new Set(messages.map(msg => msg.id)))
-                  // Clear excluded history
-                  setExcludedMessageIds(new Set())
-                } else {
-                  // Exclude all messages from context
-                  setSelectedMessageIds(new Set())
-                  // Add all messages to excluded history
-                  setExcludedMessageIds(new Set(messages.map(msg => msg.id)))
-                }
+                // Add all messages to context, or exclude all of them
+                setMessagesContextInclusion(messages.map(msg => msg.id), e.target.checked)
               }}
               style={{
                 width: '16px',
@@ -1022,6 +1065,43 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
                   )}
                 </div>
               ))}
+
+              {/* Assistant answer in progress */}
+              {streamingText !== null && (
+                <div
+                  data-testid="left-chat-streaming"
+                  style={{
+                    padding: '4px 0',
+                    paddingLeft: '24px'
+                  }}
+                >
+                  <div style={{
+                    fontSize: '14px',
+                    fontWeight: '600',
+                    color: '#FFFFFF',
+                    marginBottom: '8px'
+                  }}>
+                    AI Assistant
+                  </div>
+                  {streamingText ? (
+                    <div
+                      style={{
+                        fontSize: '14px',
+                        lineHeight: '1.6',
+                        color: '#CCCCCC',
+                        whiteSpace: 'normal',
+                        wordBreak: 'break-word'
+                      }}
+                      className="markdown-content"
+                      dangerouslySetInnerHTML={{
+                        __html: marked(streamingText)
+                      }}
+                    />
+                  ) : (
+                    <SpinnerLoader size={14} color="#888888" />
+                  )}
+                </div>
+              )}
             </div>
           )}
           <div ref={messagesEndRef} />
@@ -1035,6 +1115,43 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
           flexShrink: 0 // Prevent input area from shrinking
         }}>
 
+          {/* Ask about selection */}
+          {selectedNoteCount > 0 && (
+            <div
+              data-testid="left-chat-selection-context"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '12px',
+                marginBottom: '8px',
+                fontSize: '12px',
+                color: '#CCCCCC'
+              }}
+            >
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+                <input
+                  data-testid="left-chat-ask-selection"
+                  type="checkbox"
+                  checked={askAboutSelection}
+                  onChange={(e) => setAskAboutSelection(e.target.checked)}
+                  style={{ accentColor: '#0D99FF' }}
+                />
+                🎯 Ask about selection ({selectedNoteCount} {selectedNoteCount === 1 ? 'note' : 'notes'})
+              </label>
+              {askAboutSelection && (
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer', color: '#888888' }}>
+                  <input
+                    type="checkbox"
+                    checked={includeGroups}
+                    onChange={(e) => setIncludeGroups(e.target.checked)}
+                    style={{ accentColor: '#0D99FF' }}
+                  />
+                  Include groups
+                </label>
+              )}
+            </div>
+          )}
+
           {/* Input form */}
           <form onSubmit={handleSubmit} style={{
             display: 'flex',
@@ -1050,7 +1167,9 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
               placeholder={
-                mainTheme
+                isAskingAboutSelection
+                  ? 'Ask about the selected notes...'
+                  : mainTheme
                   ? `Ask about "${mainTheme.content.substring(0, 20)}${mainTheme.content.length > 20 ? '...' : ''}"...`
                   : "Enter your message..."
               }
@@ -1086,30 +1205,80 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
               onCompositionEnd={() => setIsComposing(false)}
             />
 
-            <button
-              data-testid="left-chat-submit"
-              type="submit"
-              disabled={llmState.isLoading || !prompt.trim()}
-              style={{
-                width: '32px',
-                height: '32px',
-                backgroundColor: llmState.isLoading || !prompt.trim() ? '#404040' : '#FFFFFF',
-                color: llmState.isLoading || !prompt.trim() ? '#888888' : '#000000',
-                border: 'none',
-                borderRadius: '6px',
-                fontSize: '14px',
-                cursor: llmState.isLoading || !prompt.trim() ? 'not-allowed' : 'pointer',
-                transition: 'all 0.2s',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                flexShrink: 0
-              }}
-            >
-              {llmState.isLoading ? (
-                <SpinnerLoader size={14} color="#888888" />
-              ) : '↑'}
-            </button>
+            {!llmState.isLoading && (
+              <button
+                data-testid="left-chat-generate-map"
+                type="button"
+                onClick={handleGenerateMap}
+                disabled={!prompt.trim()}
+                style={{
+                  width: '32px',
+                  height: '32px',
+                  backgroundColor: 'transparent',
+                  color: !prompt.trim() ? '#666666' : '#CCCCCC',
+                  border: '1px solid rgba(255, 255, 255, 0.2)',
+                  borderRadius: '6px',
+                  fontSize: '14px',
+                  cursor: !prompt.trim() ? 'not-allowed' : 'pointer',
+                  transition: 'all 0.2s',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  flexShrink: 0
+                }}
+                title="Generate mind map"
+              >
+                🗺️
+              </button>
+            )}
+            {llmState.isLoading ? (
+              <button
+                data-testid="left-chat-stop"
+                type="button"
+                onClick={handleStop}
+                style={{
+                  width: '32px',
+                  height: '32px',
+                  backgroundColor: '#FFFFFF',
+                  color: '#000000',
+                  border: 'none',
+                  borderRadius: '6px',
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                  transition: 'all 0.2s',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  flexShrink: 0
+                }}
+                title="Stop generating"
+              >
+                ■
+              </button>
+            ) : (
+              <button
+                data-testid="left-chat-submit"
+                type="submit"
+                disabled={!prompt.trim()}
+                style={{
+                  width: '32px',
+                  height: '32px',
+                  backgroundColor: !prompt.trim() ? '#404040' : '#FFFFFF',
+                  color: !prompt.trim() ? '#888888' : '#000000',
+                  border: 'none',
+                  borderRadius: '6px',
+                  fontSize: '14px',
+                  cursor: !prompt.trim() ? 'not-allowed' : 'pointer',
+                  transition: 'all 0.2s',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  flexShrink: 0
+                }}
+              >
+                ↑
+              </button>
+            )}
           </form>
 
           {/* Error display */}
@@ -1211,6 +1380,91 @@ export function LeftChatPanel({ isCollapsed = false, onToggleCollapse }: LeftCha
         </div>
       )}
 
+      {/* Generated mind map (overlay) */}
+      {pendingMindMap && (
+        <div style={{
+          position: 'absolute',
+          bottom: '140px', // Above input area
+          left: '16px',
+          right: '16px',
+          zIndex: 10
+        }}>
+          <div
+            data-testid="left-chat-mind-map"
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData('application/mind-map', JSON.stringify({ map: pendingMindMap, source: 'left-chat-panel' }))
+              e.dataTransfer.effectAllowed = 'copy'
+            }}
+            onDragEnd={(e) => {
+              if (e.dataTransfer.dropEffect === 'copy') {
+                setPendingMindMap(null)
+              }
+            }}
+            style={{
+              padding: '12px',
+              backgroundColor: '#E3F2FD',
+              border: '2px solid #90CAF9',
+              borderRadius: '8px',
+              color: '#333333',
+              fontSize: '13px',
+              cursor: 'grab',
+              fontFamily: 'system-ui, -apple-system, sans-serif',
+              boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15)'
+            }}
+          >
+            <div style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: '8px',
+              marginBottom: '8px'
+            }}>
+              <div style={{ fontSize: '12px', color: '#666666' }}>
+                🗺️ Drag to place the mind map on canvas
+              </div>
+              <button
+                onClick={() => setPendingMindMap(null)}
+                style={{
+                  background: 'rgba(255, 255, 255, 0.8)',
+                  border: 'none',
+                  borderRadius: '50%',
+                  width: '18px',
+                  height: '18px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  cursor: 'pointer',
+                  fontSize: '12px',
+                  color: '#666666'
+                }}
+                title="Discard"
+              >
+                ×
+              </button>
+            </div>
+            <div style={{ fontWeight: 600, marginBottom: '4px' }}>{pendingMindMap.root}</div>
+            <div style={{ color: '#555555', marginBottom: '8px' }}>
+              {pendingMindMap.children.map(branch => branch.label).join(' · ')}
+            </div>
+            <button
+              onClick={placePendingMindMapAtCenter}
+              style={{
+                background: '#0D99FF',
+                border: 'none',
+                borderRadius: '4px',
+                color: '#FFFFFF',
+                cursor: 'pointer',
+                fontSize: '12px',
+                padding: '4px 10px'
+              }}
+            >
+              Place at center
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Resize handle */}
       <div
         style={{
@@ -3,6 +3,8 @@
 import React, { useState, useRef, useEffect } from 'react'
 import type { CanvasElement, TextAlignment, VerticalAlignment } from '@/types'
 import { FontSizeSelector, FontSizeTrigger } from './FontSizeSelector'
+import type { LayoutKind } from '@/lib/auto-layout'
+import type { AlignEdge, AlignReference, ArrangeCommand } from '@/lib/arrange'
 
 type SelectionToolbarProps = {
   isVisible: boolean
@@ -12,6 +14,12 @@ type SelectionToolbarProps = {
   onVerticalAlignChange: (align: VerticalAlignment) => void
   onColorChange: (color: string) => void
   onFontSizeChange?: (fontSize: number) => void
+  onLayout?: (kind: LayoutKind) => void
+  onArrange?: (command: ArrangeCommand) => void
+  onToggleLock?: () => void
+  // Whether scaling the selection box also scales text font sizes
+  scalesText?: boolean
+  onToggleScaleText?: () => void
   viewport: { zoom: number; panX: number; panY: number }
 }
 
@@ -33,6 +41,32 @@ const PREDEFINED_COLORS = [
   'transparent', // Transparent (no background)
 ]
 
+const LAYOUT_OPTIONS: { kind: LayoutKind; label: string }[] = [
+  { kind: 'tree-down', label: '↓ Tree (top-down)' },
+  { kind: 'tree-right', label: '→ Tree (left-right)' },
+  { kind: 'force', label: '✳ Force-directed' },
+  { kind: 'grid', label: '▦ Grid' },
+  { kind: 'circle', label: '◯ Circle' },
+]
+
+const ALIGN_OPTIONS: { edge: AlignEdge; label: string }[] = [
+  { edge: 'left', label: '⇤' },
+  { edge: 'center', label: '⇹' },
+  { edge: 'right', label: '⇥' },
+  { edge: 'top', label: '⤒' },
+  { edge: 'middle', label: '⇕' },
+  { edge: 'bottom', label: '⤓' },
+]
+
+const ALIGN_TITLES: Record<AlignEdge, string> = {
+  left: 'Align left edges',
+  center: 'Align horizontal centers',
+  right: 'Align right edges',
+  top: 'Align top edges',
+  middle: 'Align vertical centers',
+  bottom: 'Align bottom edges',
+}
+
 // Icon components (reused from TextAlignmentPanel)
 const AlignLeftIcon = () => (
   <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
@@ -95,6 +129,38 @@ const AlignBottomIcon = () => (
   </svg>
 )
 
+const LayoutIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+    <rect x="6" y="1" width="4" height="3" rx="0.5" />
+    <rect x="1" y="12" width="4" height="3" rx="0.5" />
+    <rect x="11" y="12" width="4" height="3" rx="0.5" />
+    <path d="M8 4v4M3 12V8h10v4" stroke="currentColor" strokeWidth="1" fill="none" />
+  </svg>
+)
+
+const ArrangeIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+    <rect x="2" y="1" width="1" height="14" />
+    <rect x="4" y="3" width="9" height="3" rx="0.5" />
+    <rect x="4" y="9" width="5" height="3" rx="0.5" />
+  </svg>
+)
+
+const ScaleTextIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+    <path d="M1 4h6v1.5H4.8V13H3.2V5.5H1z" />
+    <path d="M8 8h6v1.3h-2.3V14h-1.4V9.3H8z" />
+    <path d="M11 2h3v3" stroke="currentColor" strokeWidth="1.2" fill="none" />
+  </svg>
+)
+
+const LockIcon = ({ open }: { open: boolean }) => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+    <rect x="3" y="7" width="10" height="7" rx="1" fill="currentColor" stroke="none" />
+    <path d={open ? 'M5 7V5a3 3 0 0 1 5.8-1' : 'M5 7V5a3 3 0 0 1 6 0v2'} />
+  </svg>
+)
+
 const ColorDropdownIcon = () => (
   <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
     <circle cx="8" cy="8" r="6" fill="none" stroke="currentColor" strokeWidth="1.5" />
@@ -114,9 +180,19 @@ export function SelectionToolbar({
   onVerticalAlignChange,
   onColorChange,
   onFontSizeChange,
+  onLayout,
+  onArrange,
+  onToggleLock,
+  scalesText = false,
+  onToggleScaleText,
   viewport
 }: SelectionToolbarProps) {
   const [isColorDropdownOpen, setIsColorDropdownOpen] = useState(false)
+  const [isLayoutDropdownOpen, setIsLayoutDropdownOpen] = useState(false)
+  const layoutDropdownRef = useRef<HTMLDivElement>(null)
+  const [isArrangeDropdownOpen, setIsArrangeDropdownOpen] = useState(false)
+  const [alignReference, setAlignReference] = useState<AlignReference>('selection')
+  const arrangeDropdownRef = useRef<HTMLDivElement>(null)
   const [isFontSizeDropdownOpen, setIsFontSizeDropdownOpen] = useState(false)
   const colorDropdownRef = useRef<HTMLDivElement>(null)
   const fontSizeDropdownRef = useRef<HTMLDivElement>(null)
@@ -131,6 +207,12 @@ export function SelectionToolbar({
     el => el.type === 'sticky' || el.type === 'rect'
   )
 
+  // Layout needs at least two elements to arrange
+  const canLayout = !!onLayout && selectedElements.length >= 2
+  const canArrange = !!onArrange && selectedElements.length >= 2
+  // Distributing only makes sense between at least two outer elements and one in between
+  const canDistribute = selectedElements.length >= 3
+
   // Check if selected elements support font size changes (text elements only)
   const hasTextBoxElements = selectedElements.some(
     el => el.type === 'text'
@@ -168,12 +250,20 @@ export function SelectionToolbar({
   
   const currentFontSize = (firstTextBoxElement as any)?.fontSize || 16
 
+  const isAllLocked = selectedElements.every(el => el.locked)
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (colorDropdownRef.current && !colorDropdownRef.current.contains(event.target as Node)) {
         setIsColorDropdownOpen(false)
       }
+      if (layoutDropdownRef.current && !layoutDropdownRef.current.contains(event.target as Node)) {
+        setIsLayoutDropdownOpen(false)
+      }
+      if (arrangeDropdownRef.current && !arrangeDropdownRef.current.contains(event.target as Node)) {
+        setIsArrangeDropdownOpen(false)
+      }
       if (fontSizeDropdownRef.current && !fontSizeDropdownRef.current.contains(event.target as Node)) {
         // Check if click is inside FontSizeSelector before closing
         const fontSizeSelector = document.querySelector('[data-testid="font-size-selector"]')
@@ -183,11 +273,11 @@ export function SelectionToolbar({
       }
     }
 
-    if (isColorDropdownOpen || isFontSizeDropdownOpen) {
+    if (isColorDropdownOpen || isFontSizeDropdownOpen || isLayoutDropdownOpen || isArrangeDropdownOpen) {
       document.addEventListener('mousedown', handleClickOutside)
       return () => document.removeEventListener('mousedown', handleClickOutside)
     }
-  }, [isColorDropdownOpen, isFontSizeDropdownOpen])
+  }, [isColorDropdownOpen, isFontSizeDropdownOpen, isLayoutDropdownOpen, isArrangeDropdownOpen])
 
   if (!isVisible || selectedElements.length === 0) return null
 
@@ -386,6 +476,228 @@ export function SelectionToolbar({
             />
           </div>
 
+          {/* Scale font sizes along with the selection box (multi-selection only) */}
+          {onToggleScaleText && selectedElements.length >= 2 && (
+            <button
+              data-testid="selection-scale-text"
+              onClick={onToggleScaleText}
+              style={getButtonStyle(scalesText)}
+              title={scalesText ? 'Scale text with selection: on' : 'Scale text with selection: off'}
+            >
+              <ScaleTextIcon />
+            </button>
+          )}
+
+          {hasColorableElements && (
+            <div style={{
+              width: '1px',
+              height: '20px',
+              backgroundColor: '#E0E0E0',
+              margin: '0 4px'
+            }} />
+          )}
+        </>
+      )}
+
+      {/* Layout / Arrange Section */}
+      {(canLayout || canArrange) && (
+        <>
+          {(hasTextElements || hasTextBoxElements) && !hasColorableElements && (
+            <div style={{
+              width: '1px',
+              height: '20px',
+              backgroundColor: '#E0E0E0',
+              margin: '0 4px'
+            }} />
+          )}
+          {canLayout && (
+            <div style={{ position: 'relative' }} ref={layoutDropdownRef}>
+              <button
+                data-testid="selection-layout"
+                onClick={() => setIsLayoutDropdownOpen(!isLayoutDropdownOpen)}
+                style={getButtonStyle(isLayoutDropdownOpen)}
+                onMouseEnter={(e) => {
+                  if (!isLayoutDropdownOpen) {
+                    e.currentTarget.style.backgroundColor = '#F5F5F5'
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  if (!isLayoutDropdownOpen) {
+                    e.currentTarget.style.backgroundColor = 'transparent'
+                  }
+                }}
+                title="Auto Layout"
+              >
+                <LayoutIcon />
+              </button>
+
+              {isLayoutDropdownOpen && (
+                <div
+                  data-testid="selection-layout-dropdown"
+                  style={{
+                    position: 'absolute',
+                    top: '32px',
+                    left: '-60px',
+                    zIndex: 1002,
+                    backgroundColor: '#FFFFFF',
+                    borderRadius: '8px',
+                    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+                    border: '1px solid #E0E0E0',
+                    padding: '4px',
+                    width: '170px'
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {LAYOUT_OPTIONS.map(option => (
+                    <button
+                      key={option.kind}
+                      data-testid={`selection-layout-${option.kind}`}
+                      onClick={() => {
+                        onLayout?.(option.kind)
+                        setIsLayoutDropdownOpen(false)
+                      }}
+                      style={{
+                        display: 'block',
+                        width: '100%',
+                        padding: '6px 8px',
+                        border: 'none',
+                        borderRadius: '4px',
+                        background: 'none',
+                        color: '#333333',
+                        fontSize: '13px',
+                        textAlign: 'left',
+                        cursor: 'pointer'
+                      }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.backgroundColor = '#F5F5F5'
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.backgroundColor = 'transparent'
+                      }}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {canArrange && (
+            <div style={{ position: 'relative' }} ref={arrangeDropdownRef}>
+              <button
+                data-testid="selection-arrange"
+                onClick={() => setIsArrangeDropdownOpen(!isArrangeDropdownOpen)}
+                style={getButtonStyle(isArrangeDropdownOpen)}
+                onMouseEnter={(e) => {
+                  if (!isArrangeDropdownOpen) {
+                    e.currentTarget.style.backgroundColor = '#F5F5F5'
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  if (!isArrangeDropdownOpen) {
+                    e.currentTarget.style.backgroundColor = 'transparent'
+                  }
+                }}
+                title="Align & Distribute"
+              >
+                <ArrangeIcon />
+              </button>
+
+              {isArrangeDropdownOpen && (
+                <div
+                  data-testid="selection-arrange-dropdown"
+                  style={{
+                    position: 'absolute',
+                    top: '32px',
+                    left: '-80px',
+                    zIndex: 1002,
+                    backgroundColor: '#FFFFFF',
+                    borderRadius: '8px',
+                    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+                    border: '1px solid #E0E0E0',
+                    padding: '8px',
+                    width: '188px',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '6px',
+                    fontSize: '12px',
+                    color: '#333333'
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(6, 1fr)', gap: '2px' }}>
+                    {ALIGN_OPTIONS.map(option => (
+                      <button
+                        key={option.edge}
+                        data-testid={`selection-arrange-align-${option.edge}`}
+                        onClick={() => onArrange?.({ kind: 'align', edge: option.edge, relativeTo: alignReference })}
+                        style={{ ...getButtonStyle(false), fontSize: '14px' }}
+                        title={ALIGN_TITLES[option.edge]}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div style={{ display: 'flex', gap: '2px' }}>
+                    {(['selection', 'first'] as AlignReference[]).map(reference => (
+                      <button
+                        key={reference}
+                        data-testid={`selection-arrange-relative-${reference}`}
+                        onClick={() => setAlignReference(reference)}
+                        style={{ ...getButtonStyle(alignReference === reference), width: 'auto', flex: 1, fontSize: '11px' }}
+                      >
+                        {reference === 'selection' ? 'To selection' : 'To first selected'}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div style={{ height: '1px', backgroundColor: '#E0E0E0' }} />
+
+                  {([
+                    { testId: 'distribute-horizontal', label: '↔ Distribute horizontally', command: { kind: 'distribute', axis: 'horizontal' } },
+                    { testId: 'distribute-vertical', label: '↕ Distribute vertically', command: { kind: 'distribute', axis: 'vertical' } },
+                    { testId: 'tidy', label: '▦ Tidy up', command: { kind: 'tidy' } },
+                  ] as { testId: string; label: string; command: ArrangeCommand }[]).map(item => {
+                    const disabled = item.command.kind === 'distribute' && !canDistribute
+                    return (
+                      <button
+                        key={item.testId}
+                        data-testid={`selection-arrange-${item.testId}`}
+                        disabled={disabled}
+                        onClick={() => {
+                          onArrange?.(item.command)
+                          setIsArrangeDropdownOpen(false)
+                        }}
+                        style={{
+                          display: 'block',
+                          width: '100%',
+                          padding: '6px 8px',
+                          border: 'none',
+                          borderRadius: '4px',
+                          background: 'none',
+                          color: disabled ? '#BBBBBB' : '#333333',
+                          fontSize: '13px',
+                          textAlign: 'left',
+                          cursor: disabled ? 'not-allowed' : 'pointer'
+                        }}
+                        onMouseEnter={(e) => {
+                          if (!disabled) e.currentTarget.style.backgroundColor = '#F5F5F5'
+                        }}
+                        onMouseLeave={(e) => {
+                          e.currentTarget.style.backgroundColor = 'transparent'
+                        }}
+                      >
+                        {item.label}
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
           {hasColorableElements && (
             <div style={{
               width: '1px',
@@ -494,6 +806,18 @@ export function SelectionToolbar({
           )}
         </div>
       )}
+
+      {/* Lock */}
+      {onToggleLock && (
+        <button
+          data-testid="selection-lock"
+          onClick={onToggleLock}
+          style={getButtonStyle(isAllLocked)}
+          title={isAllLocked ? 'Unlock (Ctrl/Cmd+Shift+L)' : 'Lock (Ctrl/Cmd+Shift+L)'}
+        >
+          <LockIcon open={!isAllLocked} />
+        </button>
+      )}
       </div>
       
       {/* Font Size Dropdown */}
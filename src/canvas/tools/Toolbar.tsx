@@ -9,6 +9,7 @@ import { CiLocationArrow1, CiImageOn } from 'react-icons/ci'
 import { FaLongArrowAltRight, FaHandPaper, FaKeyboard } from 'react-icons/fa'
 import { IoText, IoSquareOutline } from 'react-icons/io5'
 import { RiStickyNoteAddLine } from 'react-icons/ri'
+import { TbFrame } from 'react-icons/tb'
 
 const logger = createModuleLogger('Toolbar')
 
@@ -18,6 +19,7 @@ const TOOLS = [
   { id: 'sticky' as Tool, name: 'Add Sticky Note', icon: RiStickyNoteAddLine },
   { id: 'text' as Tool, name: 'Add Text', icon: IoText },
   { id: 'rect' as Tool, name: 'Add Rectangle', icon: IoSquareOutline },
+  { id: 'frame' as Tool, name: 'Add Frame (F key)', icon: TbFrame },
   { id: 'line' as Tool, name: 'Draw Line', icon: FaLongArrowAltRight },
   { id: 'image' as Tool, name: 'Add Image', icon: CiImageOn }
 ]
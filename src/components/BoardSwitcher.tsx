@@ -0,0 +1,249 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { useBoardStore } from '@/store/boardStore'
+import { createModuleLogger } from '@/lib/logger'
+
+const logger = createModuleLogger('BoardSwitcher')
+
+const itemButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  color: '#888888',
+  cursor: 'pointer',
+  fontSize: '12px',
+  padding: '2px 6px',
+  borderRadius: '4px'
+}
+
+// Board list dropdown: open recent, create, rename, duplicate, delete
+export function BoardSwitcher() {
+  const boards = useBoardStore(state => state.boards)
+  const currentBoardId = useBoardStore(state => state.currentBoardId)
+  const loadError = useBoardStore(state => state.boardLoadError)
+  const { openBoard, createBoard, renameBoard, duplicateBoard, deleteBoard } = useBoardStore.getState()
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameText, setRenameText] = useState('')
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const currentBoard = boards.find(b => b.id === currentBoardId)
+  const failedBoard = loadError && boards.find(b => b.id === loadError.boardId)
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+        setRenamingId(null)
+      }
+    }
+
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [isOpen])
+
+  const run = (action: () => Promise<unknown>) => {
+    action().catch(error => logger.error('Board action failed', error))
+  }
+
+  const commitRename = () => {
+    if (renamingId && renameText.trim()) {
+      run(() => renameBoard(renamingId, renameText))
+    }
+    setRenamingId(null)
+  }
+
+  const handleDelete = (boardId: string, name: string) => {
+    if (window.confirm(`Delete board "${name}"? This cannot be undone.`)) {
+      run(() => deleteBoard(boardId))
+    }
+  }
+
+  return (
+    <div ref={containerRef} data-testid="board-switcher" style={{ position: 'relative' }}>
+      <button
+        data-testid="board-switcher-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          backgroundColor: '#2C2C2C',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '8px',
+          color: '#FFFFFF',
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontFamily: 'system-ui, -apple-system, sans-serif',
+          padding: '8px 12px',
+          maxWidth: '240px',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)'
+        }}
+        title="Switch board"
+      >
+        🗂️ {currentBoard?.name ?? (loadError ? 'No board open' : 'Loading...')} ▾
+      </button>
+
+      {loadError && !isOpen && (
+        <div
+          data-testid="board-load-error"
+          role="alert"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 6px)',
+            right: 0,
+            width: '300px',
+            backgroundColor: '#2C2C2C',
+            border: '1px solid rgba(255, 107, 107, 0.4)',
+            borderRadius: '8px',
+            color: '#FF6B6B',
+            fontSize: '12px',
+            fontFamily: 'system-ui, -apple-system, sans-serif',
+            padding: '8px 10px'
+          }}
+        >
+          Could not open &quot;{failedBoard?.name ?? 'board'}&quot;: {loadError.message}. Its stored data was left unchanged.
+        </div>
+      )}
+
+      {isOpen && (
+        <div
+          data-testid="board-list"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 6px)',
+            right: 0,
+            width: '300px',
+            maxHeight: '400px',
+            overflowY: 'auto',
+            backgroundColor: '#2C2C2C',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: '8px',
+            boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+            padding: '6px',
+            fontFamily: 'system-ui, -apple-system, sans-serif'
+          }}
+        >
+          <div style={{ color: '#888888', fontSize: '11px', padding: '4px 8px' }}>Recent boards</div>
+
+          {boards.map(board => (
+            <div
+              key={board.id}
+              data-testid="board-list-item"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                padding: '6px 8px',
+                borderRadius: '6px',
+                backgroundColor: board.id === currentBoardId ? 'rgba(13, 153, 255, 0.2)' : 'transparent'
+              }}
+            >
+              {renamingId === board.id ? (
+                <input
+                  value={renameText}
+                  onChange={(e) => setRenameText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault()
+                      commitRename()
+                    } else if (e.key === 'Escape') {
+                      setRenamingId(null)
+                    }
+                  }}
+                  onBlur={commitRename}
+                  autoFocus
+                  style={{
+                    flex: 1,
+                    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                    border: '1px solid rgba(255, 255, 255, 0.3)',
+                    borderRadius: '4px',
+                    padding: '4px 8px',
+                    fontSize: '13px',
+                    color: '#FFFFFF',
+                    outline: 'none'
+                  }}
+                />
+              ) : (
+                <button
+                  onClick={() => {
+                    setIsOpen(false)
+                    run(() => openBoard(board.id))
+                  }}
+                  style={{
+                    flex: 1,
+                    background: 'none',
+                    border: 'none',
+                    color: '#FFFFFF',
+                    cursor: 'pointer',
+                    fontSize: '13px',
+                    textAlign: 'left',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    padding: 0
+                  }}
+                  title={`Last opened ${new Date(board.lastOpenedAt).toLocaleString()}`}
+                >
+                  {board.name}
+                </button>
+              )}
+              <button
+                style={itemButtonStyle}
+                title="Rename"
+                onClick={() => {
+                  setRenamingId(board.id)
+                  setRenameText(board.name)
+                }}
+              >
+                ✏️
+              </button>
+              <button
+                style={itemButtonStyle}
+                title="Duplicate"
+                onClick={() => {
+                  setIsOpen(false)
+                  run(() => duplicateBoard(board.id))
+                }}
+              >
+                ⧉
+              </button>
+              <button
+                style={itemButtonStyle}
+                title="Delete"
+                onClick={() => handleDelete(board.id, board.name)}
+              >
+                🗑️
+              </button>
+            </div>
+          ))}
+
+          <button
+            data-testid="board-create"
+            onClick={() => {
+              setIsOpen(false)
+              run(() => createBoard())
+            }}
+            style={{
+              width: '100%',
+              marginTop: '6px',
+              padding: '8px',
+              background: 'none',
+              border: '1px dashed rgba(255, 255, 255, 0.2)',
+              borderRadius: '6px',
+              color: '#CCCCCC',
+              cursor: 'pointer',
+              fontSize: '13px'
+            }}
+          >
+            + New board
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { useBoardStore } from '@/store/boardStore'
+import { createModuleLogger } from '@/lib/logger'
+import {
+  buildExportScene,
+  downloadBlob,
+  exportSceneAsPDF,
+  exportSceneAsPNG,
+  exportSceneAsSVG,
+  exportScenesAsPDF,
+  frameScenes,
+  type ExportScope
+} from '@/lib/board-export'
+
+const logger = createModuleLogger('ExportMenu')
+
+type ExportFormat = 'png' | 'svg' | 'pdf' | 'md' | 'json'
+
+const SCOPE_OPTIONS: { scope: ExportScope; label: string }[] = [
+  { scope: 'board', label: 'Whole board' },
+  { scope: 'viewport', label: 'Current view' },
+  { scope: 'selection', label: 'Selection' },
+  { scope: 'frames', label: 'Frames' }
+]
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'png', label: 'PNG' },
+  { format: 'svg', label: 'SVG' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' }
+]
+
+const PNG_SCALES = [1, 2, 3]
+
+// Document formats always contain the whole board
+const isDocumentFormat = (format: ExportFormat) => format === 'md' || format === 'json'
+
+const labelStyle: React.CSSProperties = { color: '#888888', fontSize: '11px', padding: '4px 2px' }
+
+const optionButtonStyle = (active: boolean, disabled = false): React.CSSProperties => ({
+  flex: 1,
+  backgroundColor: active ? 'rgba(13, 153, 255, 0.2)' : 'rgba(255, 255, 255, 0.05)',
+  border: `1px solid ${active ? '#0D99FF' : 'rgba(255, 255, 255, 0.1)'}`,
+  borderRadius: '6px',
+  color: disabled ? '#555555' : '#FFFFFF',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontSize: '12px',
+  padding: '6px 4px'
+})
+
+// File name from the board name, e.g. "My board-selection.png"
+const exportFileName = (boardName: string | undefined, scope: ExportScope, format: ExportFormat) => {
+  const base = (boardName ?? 'board').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'board'
+  return `${base}${scope === 'board' ? '' : `-${scope}`}.${format}`
+}
+
+type ExportMenuProps = {
+  // Stage size in screen pixels, used for the "Current view" scope
+  viewportSize: { width: number; height: number }
+}
+
+// Export dropdown: scope (board / view / selection) and format (PNG / SVG / PDF / Markdown / JSON)
+export function ExportMenu({ viewportSize }: ExportMenuProps) {
+  const hasSelection = useBoardStore(state => state.selectedIds.length > 0)
+  const hasFrames = useBoardStore(state => state.elements.some(e => e.type === 'frame'))
+  const boardName = useBoardStore(state => state.boards.find(b => b.id === state.currentBoardId)?.name)
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [scope, setScope] = useState<ExportScope>('board')
+  const [format, setFormat] = useState<ExportFormat>('png')
+  const [scale, setScale] = useState(2)
+  const [transparent, setTransparent] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [isOpen])
+
+  // Fall back to the whole board when the selection (or the frames) go away
+  useEffect(() => {
+    if (!hasSelection && scope === 'selection') setScope('board')
+    if (!hasFrames && scope === 'frames') setScope('board')
+  }, [hasSelection, hasFrames, scope])
+
+  const handleExport = async () => {
+    const state = useBoardStore.getState()
+    setError(null)
+
+    if (isDocumentFormat(format)) {
+      const blob = format === 'md'
+        ? new Blob([state.exportAsMarkdown()], { type: 'text/markdown' })
+        : new Blob([state.exportAsJSON()], { type: 'application/json' })
+      downloadBlob(blob, exportFileName(boardName, 'board', format))
+      setIsOpen(false)
+      return
+    }
+
+    const source = {
+      elements: state.elements,
+      connectors: state.connectors,
+      selectedIds: state.selectedIds,
+      viewport: state.viewport
+    }
+    const scene = buildExportScene(source, scope, viewportSize)
+    if (!scene) {
+      setError('Nothing to export')
+      return
+    }
+
+    setIsExporting(true)
+    try {
+      const blob = format === 'png'
+        ? await exportSceneAsPNG(scene, { scale, transparent })
+        : format === 'svg'
+          ? exportSceneAsSVG(scene, { transparent })
+          : scope === 'frames'
+            ? await exportScenesAsPDF(frameScenes(source))
+            : await exportSceneAsPDF(scene)
+      downloadBlob(blob, exportFileName(boardName, scope, format))
+      setIsOpen(false)
+    } catch (e) {
+      logger.error('Export failed', e)
+      setError(e instanceof Error ? e.message : 'Export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div ref={containerRef} data-testid="export-menu" style={{ position: 'relative' }}>
+      <button
+        data-testid="export-menu-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          backgroundColor: '#2C2C2C',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '8px',
+          color: '#FFFFFF',
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontFamily: 'system-ui, -apple-system, sans-serif',
+          padding: '8px 12px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)'
+        }}
+        title="Export board"
+      >
+        ⬇️ Export
+      </button>
+
+      {isOpen && (
+        <div
+          data-testid="export-menu-panel"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 6px)',
+            right: 0,
+            width: '300px',
+            backgroundColor: '#2C2C2C',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: '8px',
+            boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+            padding: '8px',
+            fontFamily: 'system-ui, -apple-system, sans-serif',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '6px'
+          }}
+        >
+          <div style={labelStyle}>Format</div>
+          <div style={{ display: 'flex', gap: '4px' }}>
+            {FORMAT_OPTIONS.map(option => (
+              <button
+                key={option.format}
+                data-testid={`export-format-${option.format}`}
+                onClick={() => setFormat(option.format)}
+                style={optionButtonStyle(format === option.format)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {!isDocumentFormat(format) && (
+            <>
+              <div style={labelStyle}>Area</div>
+              <div style={{ display: 'flex', gap: '4px' }}>
+                {SCOPE_OPTIONS.map(option => {
+                  const disabled = (option.scope === 'selection' && !hasSelection) ||
+                    (option.scope === 'frames' && !hasFrames)
+                  return (
+                    <button
+                      key={option.scope}
+                      data-testid={`export-scope-${option.scope}`}
+                      disabled={disabled}
+                      onClick={() => setScope(option.scope)}
+                      style={optionButtonStyle(scope === option.scope, disabled)}
+                    >
+                      {option.label}
+                    </button>
+                  )
+                })}
+              </div>
+              {scope === 'frames' && (
+                <div style={{ ...labelStyle, color: '#CCCCCC' }}>
+                  {format === 'pdf' ? 'One page per frame' : 'First frame only (choose PDF for all frames)'}
+                </div>
+              )}
+            </>
+          )}
+
+          {format === 'png' && (
+            <>
+              <div style={labelStyle}>Scale</div>
+              <div style={{ display: 'flex', gap: '4px' }}>
+                {PNG_SCALES.map(value => (
+                  <button
+                    key={value}
+                    data-testid={`export-scale-${value}`}
+                    onClick={() => setScale(value)}
+                    style={optionButtonStyle(scale === value)}
+                  >
+                    {value}x
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          {(format === 'png' || format === 'svg') && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#CCCCCC', fontSize: '12px', padding: '4px 2px' }}>
+              <input
+                type="checkbox"
+                data-testid="export-transparent"
+                checked={transparent}
+                onChange={(e) => setTransparent(e.target.checked)}
+              />
+              Transparent background
+            </label>
+          )}
+
+          {error && (
+            <div data-testid="export-error" style={{ color: '#FF6B6B', fontSize: '12px', padding: '2px' }}>{error}</div>
+          )}
+
+          <button
+            data-testid="export-submit"
+            disabled={isExporting}
+            onClick={() => void handleExport()}
+            style={{
+              backgroundColor: '#0D99FF',
+              border: 'none',
+              borderRadius: '6px',
+              color: '#FFFFFF',
+              cursor: isExporting ? 'wait' : 'pointer',
+              fontSize: '13px',
+              padding: '8px',
+              marginTop: '4px'
+            }}
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
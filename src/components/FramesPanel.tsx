@@ -0,0 +1,238 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { useBoardStore } from '@/store/boardStore'
+import { fitViewportToBox, sortFrames } from '@/lib/frames'
+import type { FrameElement } from '@/types'
+
+type FramesPanelProps = {
+  // Canvas size in screen pixels, used to fit a frame into view
+  viewportSize: { width: number; height: number }
+}
+
+// Frame list: jump to a frame, rename it, toggle clipping, or present the frames one by one
+export function FramesPanel({ viewportSize }: FramesPanelProps) {
+  const elements = useBoardStore(state => state.elements)
+  const setViewport = useBoardStore(state => state.setViewport)
+  const selectShape = useBoardStore(state => state.selectShape)
+  const updateElement = useBoardStore(state => state.updateElement)
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [presentIndex, setPresentIndex] = useState<number | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const frames = sortFrames(elements)
+
+  const showFrame = (frame: FrameElement) => {
+    setViewport(fitViewportToBox(frame, viewportSize))
+  }
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+        setRenamingId(null)
+      }
+    }
+
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [isOpen])
+
+  // Present mode: arrow keys step through the frames, Escape leaves
+  useEffect(() => {
+    if (presentIndex === null) return
+    const frame = frames[presentIndex]
+    if (!frame) {
+      setPresentIndex(null)
+      return
+    }
+    showFrame(frame)
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      let next: number | null = presentIndex
+      if (e.key === 'ArrowRight' || e.key === 'ArrowDown' || e.key === 'PageDown') {
+        next = Math.min(presentIndex + 1, frames.length - 1)
+      } else if (e.key === 'ArrowLeft' || e.key === 'ArrowUp' || e.key === 'PageUp') {
+        next = Math.max(presentIndex - 1, 0)
+      } else if (e.key === 'Escape') {
+        next = null
+      } else {
+        return
+      }
+      // Keep the canvas shortcuts (nudge, exit group) out of the way while presenting
+      e.preventDefault()
+      e.stopImmediatePropagation()
+      setPresentIndex(next)
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [presentIndex, frames.length])
+
+  const finishRename = (frame: FrameElement, title: string) => {
+    const trimmed = title.trim()
+    if (trimmed && trimmed !== frame.title) updateElement(frame.id, { title: trimmed })
+    setRenamingId(null)
+  }
+
+  const buttonStyle: React.CSSProperties = {
+    backgroundColor: '#2C2C2C',
+    border: '1px solid rgba(255, 255, 255, 0.1)',
+    borderRadius: '8px',
+    color: '#FFFFFF',
+    cursor: 'pointer',
+    fontSize: '13px',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+    padding: '8px 12px',
+    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)'
+  }
+
+  if (presentIndex !== null) {
+    return (
+      <div data-testid="frames-presenting" style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        <span style={{ ...buttonStyle, cursor: 'default' }}>
+          {presentIndex + 1} / {frames.length}
+        </span>
+        <button data-testid="frames-present-exit" onClick={() => setPresentIndex(null)} style={buttonStyle}>
+          Exit (Esc)
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div ref={containerRef} data-testid="frames-panel" style={{ position: 'relative' }}>
+      <button
+        data-testid="frames-panel-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        style={buttonStyle}
+        title="Frames"
+      >
+        ▣ Frames
+      </button>
+
+      {isOpen && (
+        <div
+          data-testid="frames-panel-list"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 6px)',
+            right: 0,
+            width: '260px',
+            backgroundColor: '#2C2C2C',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: '8px',
+            boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+            padding: '8px',
+            fontFamily: 'system-ui, -apple-system, sans-serif',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '6px'
+          }}
+        >
+          {frames.length === 0 && (
+            <div style={{ color: '#888888', fontSize: '12px', padding: '6px 8px' }}>
+              No frames yet (F key)
+            </div>
+          )}
+
+          <div style={{ maxHeight: '360px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '2px' }}>
+            {frames.map(frame => (
+              <div key={frame.id} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                {renamingId === frame.id ? (
+                  <input
+                    data-testid={`frame-rename-${frame.id}`}
+                    autoFocus
+                    defaultValue={frame.title}
+                    onBlur={(e) => finishRename(frame, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') finishRename(frame, e.currentTarget.value)
+                      if (e.key === 'Escape') setRenamingId(null)
+                    }}
+                    style={{
+                      flex: 1,
+                      backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                      border: '1px solid #0D99FF',
+                      borderRadius: '6px',
+                      color: '#FFFFFF',
+                      fontSize: '12px',
+                      padding: '5px 8px'
+                    }}
+                  />
+                ) : (
+                  <button
+                    data-testid={`frame-item-${frame.id}`}
+                    onClick={() => {
+                      showFrame(frame)
+                      selectShape(frame.id)
+                    }}
+                    onDoubleClick={() => setRenamingId(frame.id)}
+                    title="Click to go to the frame, double-click to rename"
+                    style={{
+                      flex: 1,
+                      backgroundColor: 'transparent',
+                      border: '1px solid transparent',
+                      borderRadius: '6px',
+                      color: '#FFFFFF',
+                      cursor: 'pointer',
+                      fontSize: '12px',
+                      padding: '6px 8px',
+                      textAlign: 'left',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap'
+                    }}
+                  >
+                    {frame.title}
+                  </button>
+                )}
+                <button
+                  data-testid={`frame-clip-${frame.id}`}
+                  onClick={() => updateElement(frame.id, { clip: !frame.clip })}
+                  title={frame.clip ? 'Show content outside the frame' : 'Clip content to the frame'}
+                  style={{
+                    backgroundColor: frame.clip ? 'rgba(13, 153, 255, 0.2)' : 'transparent',
+                    border: `1px solid ${frame.clip ? '#0D99FF' : 'rgba(255, 255, 255, 0.1)'}`,
+                    borderRadius: '6px',
+                    color: '#FFFFFF',
+                    cursor: 'pointer',
+                    fontSize: '11px',
+                    padding: '4px 6px'
+                  }}
+                >
+                  Clip
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            data-testid="frames-present"
+            disabled={frames.length === 0}
+            onClick={() => {
+              setIsOpen(false)
+              setPresentIndex(0)
+            }}
+            style={{
+              backgroundColor: '#0D99FF',
+              border: 'none',
+              borderRadius: '6px',
+              color: '#FFFFFF',
+              cursor: frames.length === 0 ? 'not-allowed' : 'pointer',
+              opacity: frames.length === 0 ? 0.5 : 1,
+              fontSize: '12px',
+              padding: '6px 8px'
+            }}
+          >
+            ▶ Present frames
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { useBoardStore } from '@/store/boardStore'
+import type { HistoryEntry } from '@/store/history'
+
+const HISTORY_LIMIT_OPTIONS = [100, 500, 1000]
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+// Undo history timeline: click a row to go back (or forward) to that point
+export function HistoryPanel() {
+  const history = useBoardStore(state => state.history)
+  const historyLimit = useBoardStore(state => state.historyLimit)
+  const jumpToHistory = useBoardStore(state => state.jumpToHistory)
+  const setHistoryLimit = useBoardStore(state => state.setHistoryLimit)
+
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [isOpen])
+
+  // Oldest first; undone entries follow the current position
+  const entries: HistoryEntry[] = [...history.past, ...[...history.future].reverse()]
+  const current = history.past.length
+
+  const renderRow = (position: number, label: string, timestamp?: number) => {
+    const isCurrent = position === current
+    const isUndone = position > current
+    return (
+      <button
+        key={position}
+        data-testid={`history-entry-${position}`}
+        onClick={() => jumpToHistory(position)}
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          gap: '8px',
+          width: '100%',
+          backgroundColor: isCurrent ? 'rgba(13, 153, 255, 0.2)' : 'transparent',
+          border: `1px solid ${isCurrent ? '#0D99FF' : 'transparent'}`,
+          borderRadius: '6px',
+          color: isUndone ? '#666666' : '#FFFFFF',
+          cursor: 'pointer',
+          fontSize: '12px',
+          padding: '6px 8px',
+          textAlign: 'left'
+        }}
+      >
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{label}</span>
+        {timestamp !== undefined && (
+          <span style={{ color: '#888888', flexShrink: 0 }}>{formatTime(timestamp)}</span>
+        )}
+      </button>
+    )
+  }
+
+  return (
+    <div ref={containerRef} data-testid="history-panel" style={{ position: 'relative' }}>
+      <button
+        data-testid="history-panel-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          backgroundColor: '#2C2C2C',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '8px',
+          color: '#FFFFFF',
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontFamily: 'system-ui, -apple-system, sans-serif',
+          padding: '8px 12px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)'
+        }}
+        title="Undo history"
+      >
+        🕘 History
+      </button>
+
+      {isOpen && (
+        <div
+          data-testid="history-panel-list"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 6px)',
+            right: 0,
+            width: '260px',
+            backgroundColor: '#2C2C2C',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: '8px',
+            boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+            padding: '8px',
+            fontFamily: 'system-ui, -apple-system, sans-serif',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '6px'
+          }}
+        >
+          <div style={{ maxHeight: '360px', overflowY: 'auto', display: 'flex', flexDirection: 'column-reverse', gap: '2px' }}>
+            {/* column-reverse keeps the newest entry on top */}
+            {renderRow(0, 'Start')}
+            {entries.map((entry, i) => renderRow(i + 1, entry.label, entry.timestamp))}
+          </div>
+
+          <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', color: '#888888', fontSize: '11px', padding: '4px 2px' }}>
+            Keep last
+            <select
+              data-testid="history-limit"
+              value={historyLimit}
+              onChange={(e) => setHistoryLimit(Number(e.target.value))}
+              style={{
+                backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                border: '1px solid rgba(255, 255, 255, 0.1)',
+                borderRadius: '6px',
+                color: '#FFFFFF',
+                fontSize: '12px',
+                padding: '2px 4px'
+              }}
+            >
+              {HISTORY_LIMIT_OPTIONS.map(limit => (
+                <option key={limit} value={limit}>{limit} steps</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
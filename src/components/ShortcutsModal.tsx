@@ -28,12 +28,43 @@ export function ShortcutsModal({ isOpen, onClose }: ShortcutsModalProps) {
         { keys: ['Ctrl/Cmd', 'C'], description: 'Copy elements' },
         { keys: ['Ctrl/Cmd', 'X'], description: 'Cut elements' },
         { keys: ['Ctrl/Cmd', 'V'], description: 'Paste at cursor position' },
+        { keys: ['Ctrl/Cmd', 'D'], description: 'Duplicate selection' },
+        { keys: ['Ctrl/Cmd', 'A'], description: 'Select all elements and connectors' },
+        { keys: ['↑ ↓ ← →'], description: 'Nudge selection by 1px' },
+        { keys: ['Shift', '↑ ↓ ← →'], description: 'Nudge selection by 10px' },
         { keys: ['Delete'], description: 'Delete selected elements' },
         { keys: ['Backspace'], description: 'Delete selected elements' },
         { keys: ['Enter'], description: 'Edit text element' },
+        { keys: ['Shift', 'Rotate'], description: 'Snap rotation to 15°' },
+        { keys: ['Shift', 'Resize'], description: 'Keep proportions while resizing' },
+        { keys: ['Alt', 'Resize'], description: 'Resize from the center' },
         { keys: ['Esc'], description: 'Cancel current operation' },
       ]
     },
+    {
+      category: 'Groups',
+      items: [
+        { keys: ['Ctrl/Cmd', 'G'], description: 'Group selection' },
+        { keys: ['Ctrl/Cmd', 'Shift', 'G'], description: 'Ungroup' },
+        { keys: ['Double Click'], description: 'Select inside a group' },
+        { keys: ['Esc'], description: 'Leave group' },
+      ]
+    },
+    {
+      category: 'Locking',
+      items: [
+        { keys: ['Ctrl/Cmd', 'Shift', 'L'], description: 'Lock / unlock selection' },
+        { keys: ['Alt', 'Drag'], description: 'Marquee-select locked elements too' },
+      ]
+    },
+    {
+      category: 'Frames',
+      items: [
+        { keys: ['F'], description: 'Frame tool' },
+        { keys: ['→', '←'], description: 'Next / previous frame while presenting' },
+        { keys: ['Esc'], description: 'Stop presenting' },
+      ]
+    },
     {
       category: 'History',
       items: [
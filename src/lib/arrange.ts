@@ -0,0 +1,131 @@
+/**
+ * Align, distribute and tidy-up commands for a multi-selection.
+ * Works on "units" (a single element or a whole group) and returns how far each unit moves.
+ */
+import { LAYOUT_GAP, type LayoutNode } from './auto-layout'
+import { rotatedBounds } from './rotation'
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+// Align to the box around the whole selection or to the first selected unit
+export type AlignReference = 'selection' | 'first'
+export type DistributeAxis = 'horizontal' | 'vertical'
+
+export type ArrangeCommand =
+  | { kind: 'align'; edge: AlignEdge; relativeTo?: AlignReference }
+  | { kind: 'distribute'; axis: DistributeAxis }
+  | { kind: 'tidy' }
+
+// Offset per unit id
+export type ArrangeOffsets = Map<string, { x: number; y: number }>
+
+type Box = { x: number; y: number; width: number; height: number }
+
+function boundsOf(boxes: Box[]): Box {
+  const minX = Math.min(...boxes.map(b => b.x))
+  const minY = Math.min(...boxes.map(b => b.y))
+  const maxX = Math.max(...boxes.map(b => b.x + b.width))
+  const maxY = Math.max(...boxes.map(b => b.y + b.height))
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+/**
+ * Box a unit occupies on the canvas (rotated members count with their turned outline)
+ */
+export function unitBounds(members: Array<Box & { rotation?: number }>): Box {
+  return boundsOf(members.map(rotatedBounds))
+}
+
+function alignOffsets(units: LayoutNode[], edge: AlignEdge, relativeTo: AlignReference): ArrangeOffsets {
+  const target = relativeTo === 'first' ? units[0] : boundsOf(units)
+  const offsets: ArrangeOffsets = new Map()
+  units.forEach(unit => {
+    switch (edge) {
+      case 'left':
+        offsets.set(unit.id, { x: target.x - unit.x, y: 0 })
+        break
+      case 'center':
+        offsets.set(unit.id, { x: target.x + target.width / 2 - (unit.x + unit.width / 2), y: 0 })
+        break
+      case 'right':
+        offsets.set(unit.id, { x: target.x + target.width - (unit.x + unit.width), y: 0 })
+        break
+      case 'top':
+        offsets.set(unit.id, { x: 0, y: target.y - unit.y })
+        break
+      case 'middle':
+        offsets.set(unit.id, { x: 0, y: target.y + target.height / 2 - (unit.y + unit.height / 2) })
+        break
+      case 'bottom':
+        offsets.set(unit.id, { x: 0, y: target.y + target.height - (unit.y + unit.height) })
+        break
+    }
+  })
+  return offsets
+}
+
+/**
+ * Equal gaps between neighbours; the outermost units stay where they are
+ */
+function distributeOffsets(units: LayoutNode[], axis: DistributeAxis): ArrangeOffsets {
+  const horizontal = axis === 'horizontal'
+  const start = (b: Box) => (horizontal ? b.x : b.y)
+  const size = (b: Box) => (horizontal ? b.width : b.height)
+  const ordered = [...units].sort((a, b) => start(a) - start(b) || start(a) + size(a) - (start(b) + size(b)))
+
+  const first = ordered[0]
+  const last = ordered[ordered.length - 1]
+  const span = start(last) + size(last) - start(first)
+  const gap = (span - ordered.reduce((sum, unit) => sum + size(unit), 0)) / (ordered.length - 1)
+
+  const offsets: ArrangeOffsets = new Map()
+  let cursor = start(first)
+  ordered.forEach(unit => {
+    const delta = cursor - start(unit)
+    offsets.set(unit.id, horizontal ? { x: delta, y: 0 } : { x: 0, y: delta })
+    cursor += size(unit) + gap
+  })
+  return offsets
+}
+
+/**
+ * Even grid of equal cells in reading order, starting at the selection's top-left corner
+ */
+function tidyOffsets(units: LayoutNode[], gap: number): ArrangeOffsets {
+  const columns = Math.ceil(Math.sqrt(units.length))
+  // Rows come from the vertical order, each row is then read left to right
+  const byY = [...units].sort((a, b) => a.y - b.y || a.x - b.x)
+  const ordered: LayoutNode[] = []
+  for (let i = 0; i < byY.length; i += columns) {
+    ordered.push(...byY.slice(i, i + columns).sort((a, b) => a.x - b.x))
+  }
+
+  const origin = boundsOf(units)
+  const cellWidth = Math.max(...units.map(u => u.width))
+  const cellHeight = Math.max(...units.map(u => u.height))
+
+  const offsets: ArrangeOffsets = new Map()
+  ordered.forEach((unit, i) => {
+    const column = i % columns
+    const row = Math.floor(i / columns)
+    offsets.set(unit.id, {
+      x: origin.x + column * (cellWidth + gap) - unit.x,
+      y: origin.y + row * (cellHeight + gap) - unit.y
+    })
+  })
+  return offsets
+}
+
+/**
+ * Offsets for an arrange command, or an empty map when there is too little to arrange
+ * (two units to align or tidy, three to distribute)
+ */
+export function computeArrangement(command: ArrangeCommand, units: LayoutNode[], gap: number = LAYOUT_GAP): ArrangeOffsets {
+  switch (command.kind) {
+    case 'align':
+      return units.length < 2 ? new Map() : alignOffsets(units, command.edge, command.relativeTo ?? 'selection')
+    case 'distribute':
+      return units.length < 3 ? new Map() : distributeOffsets(units, command.axis)
+    case 'tidy':
+      return units.length < 2 ? new Map() : tidyOffsets(units, gap)
+  }
+}
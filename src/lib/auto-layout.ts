@@ -0,0 +1,338 @@
+/**
+ * Automatic layout algorithms for a set of elements (tree, force-directed, grid, circle)
+ */
+
+export type LayoutKind = 'tree-down' | 'tree-right' | 'force' | 'grid' | 'circle'
+
+export type LayoutNode = {
+  id: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type LayoutEdge = {
+  from: string
+  to: string
+}
+
+// New top-left position per node id
+export type LayoutPositions = Map<string, { x: number; y: number }>
+
+export const LAYOUT_GAP = 40
+
+const FORCE_ITERATIONS = 200
+const OVERLAP_PASSES = 100
+
+type Box = { x: number; y: number; width: number; height: number }
+
+const centerOf = (box: Box) => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 })
+
+function boundsOf(boxes: Box[]): Box {
+  const minX = Math.min(...boxes.map(b => b.x))
+  const minY = Math.min(...boxes.map(b => b.y))
+  const maxX = Math.max(...boxes.map(b => b.x + b.width))
+  const maxY = Math.max(...boxes.map(b => b.y + b.height))
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+// Edges restricted to the laid-out nodes, without self loops and duplicates
+function normalizeEdges(nodes: LayoutNode[], edges: LayoutEdge[]): LayoutEdge[] {
+  const ids = new Set(nodes.map(n => n.id))
+  const seen = new Set<string>()
+  return edges.filter(edge => {
+    const key = `${edge.from}->${edge.to}`
+    if (edge.from === edge.to || !ids.has(edge.from) || !ids.has(edge.to) || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Tidy tree following connector direction (from → to means parent → child).
+ * Nodes without incoming edges are roots; cycles are broken at the first visit.
+ */
+function treeLayout(nodes: LayoutNode[], edges: LayoutEdge[], gap: number, horizontal: boolean): LayoutPositions {
+  // "cross" runs along siblings, "main" along depth
+  const crossSize = (n: LayoutNode) => (horizontal ? n.height : n.width)
+  const mainSize = (n: LayoutNode) => (horizontal ? n.width : n.height)
+  const crossPos = (n: LayoutNode) => (horizontal ? n.y : n.x)
+
+  const byId = new Map(nodes.map(n => [n.id, n]))
+  const outgoing = new Map<string, string[]>(nodes.map(n => [n.id, []]))
+  const indegree = new Map<string, number>(nodes.map(n => [n.id, 0]))
+  edges.forEach(edge => {
+    outgoing.get(edge.from)!.push(edge.to)
+    indegree.set(edge.to, indegree.get(edge.to)! + 1)
+  })
+
+  // Keep the current left-to-right (or top-to-bottom) order among siblings
+  const byCross = (a: string, b: string) => crossPos(byId.get(a)!) - crossPos(byId.get(b)!)
+  outgoing.forEach(children => children.sort(byCross))
+
+  const ordered = nodes.map(n => n.id).sort(byCross)
+  const candidates = [...ordered.filter(id => indegree.get(id) === 0), ...ordered]
+
+  // Spanning forest by DFS
+  const children = new Map<string, string[]>()
+  const depth = new Map<string, number>()
+  const roots: string[] = []
+  const visit = (id: string, level: number) => {
+    depth.set(id, level)
+    const kids = outgoing.get(id)!.filter(child => !depth.has(child))
+    kids.forEach(child => depth.set(child, level + 1))
+    children.set(id, kids)
+    kids.forEach(child => visit(child, level + 1))
+  }
+  candidates.forEach(id => {
+    if (!depth.has(id)) {
+      roots.push(id)
+      visit(id, 0)
+    }
+  })
+
+  // Width of each subtree along the cross axis
+  const span = new Map<string, number>()
+  const measure = (id: string): number => {
+    const kids = children.get(id)!
+    const kidsSpan = kids.reduce((sum, kid) => sum + measure(kid), 0) + gap * Math.max(kids.length - 1, 0)
+    const value = Math.max(crossSize(byId.get(id)!), kidsSpan)
+    span.set(id, value)
+    return value
+  }
+  roots.forEach(measure)
+
+  // Each depth gets a band as deep as its largest node
+  const levelSize: number[] = []
+  depth.forEach((level, id) => {
+    levelSize[level] = Math.max(levelSize[level] ?? 0, mainSize(byId.get(id)!))
+  })
+  const levelOffset: number[] = []
+  levelSize.reduce((offset, size, level) => {
+    levelOffset[level] = offset
+    return offset + size + gap * 2
+  }, 0)
+
+  const positions: LayoutPositions = new Map()
+  const place = (id: string, crossStart: number) => {
+    const node = byId.get(id)!
+    const level = depth.get(id)!
+    const cross = crossStart + (span.get(id)! - crossSize(node)) / 2
+    const main = levelOffset[level] + (levelSize[level] - mainSize(node)) / 2
+    positions.set(id, horizontal ? { x: main, y: cross } : { x: cross, y: main })
+
+    const kids = children.get(id)!
+    const kidsSpan = kids.reduce((sum, kid) => sum + span.get(kid)!, 0) + gap * Math.max(kids.length - 1, 0)
+    let start = crossStart + (span.get(id)! - kidsSpan) / 2
+    kids.forEach(kid => {
+      place(kid, start)
+      start += span.get(kid)! + gap
+    })
+  }
+
+  let crossStart = 0
+  roots.forEach(root => {
+    place(root, crossStart)
+    crossStart += span.get(root)! + gap
+  })
+
+  return positions
+}
+
+/**
+ * Push overlapping boxes apart along the axis of least penetration until none overlap
+ */
+export function resolveOverlaps(boxes: Box[], gap: number = LAYOUT_GAP): void {
+  for (let pass = 0; pass < OVERLAP_PASSES; pass++) {
+    let moved = false
+    for (let i = 0; i < boxes.length; i++) {
+      for (let j = i + 1; j < boxes.length; j++) {
+        const a = boxes[i]
+        const b = boxes[j]
+        const ca = centerOf(a)
+        const cb = centerOf(b)
+        const overlapX = (a.width + b.width) / 2 + gap - Math.abs(cb.x - ca.x)
+        const overlapY = (a.height + b.height) / 2 + gap - Math.abs(cb.y - ca.y)
+        if (overlapX <= 0 || overlapY <= 0) continue
+
+        moved = true
+        // Identical centers: split deterministically by index
+        if (overlapX < overlapY) {
+          const direction = cb.x > ca.x || (cb.x === ca.x && j > i) ? 1 : -1
+          a.x -= (direction * overlapX) / 2
+          b.x += (direction * overlapX) / 2
+        } else {
+          const direction = cb.y > ca.y || (cb.y === ca.y && j > i) ? 1 : -1
+          a.y -= (direction * overlapY) / 2
+          b.y += (direction * overlapY) / 2
+        }
+      }
+    }
+    if (!moved) return
+  }
+}
+
+/**
+ * Fruchterman–Reingold starting from the current positions, followed by overlap removal
+ */
+function forceLayout(nodes: LayoutNode[], edges: LayoutEdge[], gap: number): LayoutPositions {
+  const index = new Map(nodes.map((n, i) => [n.id, i]))
+  // Ideal distance between connected nodes
+  const k = nodes.reduce((sum, n) => sum + Math.hypot(n.width, n.height), 0) / nodes.length + gap
+
+  const points = nodes.map(n => centerOf(n))
+  // Spread nodes that sit on the same spot so repulsion has a direction
+  points.forEach((p, i) => {
+    if (points.some((q, j) => j < i && q.x === p.x && q.y === p.y)) {
+      p.x += Math.cos(i) * k * 0.1
+      p.y += Math.sin(i) * k * 0.1
+    }
+  })
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const displacement = points.map(() => ({ x: 0, y: 0 }))
+
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const dx = points[i].x - points[j].x
+        const dy = points[i].y - points[j].y
+        const distance = Math.max(Math.hypot(dx, dy), 0.01)
+        const force = (k * k) / distance
+        displacement[i].x += (dx / distance) * force
+        displacement[i].y += (dy / distance) * force
+        displacement[j].x -= (dx / distance) * force
+        displacement[j].y -= (dy / distance) * force
+      }
+    }
+
+    edges.forEach(edge => {
+      const i = index.get(edge.from)!
+      const j = index.get(edge.to)!
+      const dx = points[i].x - points[j].x
+      const dy = points[i].y - points[j].y
+      const distance = Math.max(Math.hypot(dx, dy), 0.01)
+      const force = (distance * distance) / k
+      displacement[i].x -= (dx / distance) * force
+      displacement[i].y -= (dy / distance) * force
+      displacement[j].x += (dx / distance) * force
+      displacement[j].y += (dy / distance) * force
+    })
+
+    // Cooling: large moves first, then settle
+    const temperature = k * (1 - iteration / FORCE_ITERATIONS)
+    points.forEach((p, i) => {
+      const d = displacement[i]
+      const length = Math.max(Math.hypot(d.x, d.y), 0.01)
+      p.x += (d.x / length) * Math.min(length, temperature)
+      p.y += (d.y / length) * Math.min(length, temperature)
+    })
+  }
+
+  const boxes = nodes.map((n, i) => ({
+    x: points[i].x - n.width / 2,
+    y: points[i].y - n.height / 2,
+    width: n.width,
+    height: n.height
+  }))
+  resolveOverlaps(boxes, gap)
+
+  return new Map(nodes.map((n, i) => [n.id, { x: boxes[i].x, y: boxes[i].y }]))
+}
+
+/**
+ * Near-square grid in reading order; columns and rows sized by their largest element
+ */
+function gridLayout(nodes: LayoutNode[], gap: number): LayoutPositions {
+  const ordered = [...nodes].sort((a, b) => a.y - b.y || a.x - b.x)
+  const columns = Math.ceil(Math.sqrt(ordered.length))
+  const rows = Math.ceil(ordered.length / columns)
+
+  const columnWidth = Array.from({ length: columns }, (_, c) =>
+    Math.max(...ordered.filter((_, i) => i % columns === c).map(n => n.width)))
+  const rowHeight = Array.from({ length: rows }, (_, r) =>
+    Math.max(...ordered.slice(r * columns, (r + 1) * columns).map(n => n.height)))
+
+  const positions: LayoutPositions = new Map()
+  ordered.forEach((node, i) => {
+    const column = i % columns
+    const row = Math.floor(i / columns)
+    positions.set(node.id, {
+      x: columnWidth.slice(0, column).reduce((sum, w) => sum + w + gap, 0),
+      y: rowHeight.slice(0, row).reduce((sum, h) => sum + h + gap, 0)
+    })
+  })
+  return positions
+}
+
+/**
+ * Evenly spaced ring keeping the current angular order around the centroid
+ */
+function circleLayout(nodes: LayoutNode[], gap: number): LayoutPositions {
+  const centers = nodes.map(n => centerOf(n))
+  const centroid = {
+    x: centers.reduce((sum, c) => sum + c.x, 0) / centers.length,
+    y: centers.reduce((sum, c) => sum + c.y, 0) / centers.length
+  }
+  const angleOf = (i: number) => Math.atan2(centers[i].y - centroid.y, centers[i].x - centroid.x)
+  const order = nodes.map((_, i) => i).sort((a, b) => angleOf(a) - angleOf(b))
+
+  // Neighbouring nodes must be at least one diagonal (plus gap) apart along the chord
+  const largest = Math.max(...nodes.map(n => Math.hypot(n.width, n.height)))
+  const radius = (largest + gap) / (2 * Math.sin(Math.PI / nodes.length))
+  const startAngle = angleOf(order[0])
+
+  const positions: LayoutPositions = new Map()
+  order.forEach((nodeIndex, slot) => {
+    const node = nodes[nodeIndex]
+    const angle = startAngle + (slot * 2 * Math.PI) / nodes.length
+    positions.set(node.id, {
+      x: radius * Math.cos(angle) - node.width / 2,
+      y: radius * Math.sin(angle) - node.height / 2
+    })
+  })
+  return positions
+}
+
+/**
+ * Compute new positions for the nodes. The result keeps the top-left corner of the
+ * original bounding box so the laid-out group stays where it was.
+ */
+export function computeLayout(
+  kind: LayoutKind,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[] = [],
+  gap: number = LAYOUT_GAP
+): LayoutPositions {
+  if (nodes.length < 2) return new Map()
+
+  const validEdges = normalizeEdges(nodes, edges)
+  let positions: LayoutPositions
+  switch (kind) {
+    case 'tree-down':
+      positions = treeLayout(nodes, validEdges, gap, false)
+      break
+    case 'tree-right':
+      positions = treeLayout(nodes, validEdges, gap, true)
+      break
+    case 'force':
+      positions = forceLayout(nodes, validEdges, gap)
+      break
+    case 'grid':
+      positions = gridLayout(nodes, gap)
+      break
+    case 'circle':
+      positions = circleLayout(nodes, gap)
+      break
+  }
+
+  const before = boundsOf(nodes)
+  const after = boundsOf(nodes.map(n => ({ ...n, ...positions.get(n.id)! })))
+  const dx = before.x - after.x
+  const dy = before.y - after.y
+  positions.forEach(position => {
+    position.x = Math.round(position.x + dx)
+    position.y = Math.round(position.y + dy)
+  })
+  return positions
+}
@@ -0,0 +1,82 @@
+/**
+ * Serialize board content into LLM prompt context
+ */
+import type { CanvasElement, Connector, ElementID, RectElement, StickyElement, TextElement } from '@/types'
+
+export type SelectionContextOptions = {
+  // Describe rectangles that visually group the selected notes
+  includeGroups?: boolean
+}
+
+type TextualElement = StickyElement | TextElement
+
+const isTextual = (element: CanvasElement): element is TextualElement =>
+  element.type === 'sticky' || element.type === 'text'
+
+const centerOf = (element: CanvasElement) => ({
+  x: element.x + element.width / 2,
+  y: element.y + element.height / 2
+})
+
+// Whether a note's center lies inside the rectangle
+const containsCenter = (rect: RectElement, element: CanvasElement) => {
+  const { x, y } = centerOf(element)
+  return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height
+}
+
+// Multi-line text collapsed to one line so each note stays a single list item
+const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+/**
+ * Selected sticky/text elements that have text to send, in reading order (top to bottom, left to right)
+ */
+export function getSelectedTextElements(elements: CanvasElement[], selectedIds: ElementID[]): TextualElement[] {
+  const selected = new Set(selectedIds)
+  return elements
+    .filter((e): e is TextualElement => selected.has(e.id) && isTextual(e) && oneLine(e.text) !== '')
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+}
+
+/**
+ * Describe the selected notes, the connectors between them and (optionally) their rectangle groups.
+ * Returns an empty string when nothing with text is selected.
+ */
+export function serializeSelectionContext(
+  elements: CanvasElement[],
+  connectors: Connector[],
+  selectedIds: ElementID[],
+  options: SelectionContextOptions = {}
+): string {
+  const notes = getSelectedTextElements(elements, selectedIds)
+  if (notes.length === 0) return ''
+
+  // Short stable labels keep the prompt compact and let relationships refer to notes
+  const labels = new Map(notes.map((note, index) => [note.id, `N${index + 1}`]))
+
+  const lines = ['Selected board content:', 'Notes:']
+  notes.forEach(note => {
+    lines.push(`- [${labels.get(note.id)}] (${note.type}) ${oneLine(note.text)}`)
+  })
+
+  const relationships = connectors
+    .filter(c => labels.has(c.fromId) && labels.has(c.toId))
+    .map(c => `- [${labels.get(c.fromId)}] → [${labels.get(c.toId)}]${c.label ? `: ${oneLine(c.label)}` : ''}`)
+  if (relationships.length > 0) {
+    lines.push('Relationships:', ...relationships)
+  }
+
+  if (options.includeGroups) {
+    const groups = elements
+      .filter((e): e is RectElement => e.type === 'rect')
+      .map(rect => notes.filter(note => containsCenter(rect, note)))
+      .filter(members => members.length > 0)
+    if (groups.length > 0) {
+      lines.push('Groups (notes enclosed by the same rectangle):')
+      groups.forEach((members, index) => {
+        lines.push(`- Group ${index + 1}: ${members.map(m => `[${labels.get(m.id)}]`).join(', ')}`)
+      })
+    }
+  }
+
+  return `${lines.join('\n')}\n\n`
+}
@@ -0,0 +1,772 @@
+/**
+ * Export the board (or part of it) as SVG, PNG or PDF.
+ * Everything is rendered from store data, not from a screenshot of the Konva stage.
+ */
+import type { CanvasElement, Connector, ElementID, Viewport } from '@/types'
+import { TYPOGRAPHY_TOKENS, TEXT_SPACING, TEXT_COLORS, getOptimalTextColor } from '@/design-system/typography'
+import { createImagesPdf, PX_TO_PT } from './pdf'
+import { rotatedBounds } from './rotation'
+import { DEFAULT_CONNECTOR_STYLE, connectorStyle, dashPattern, markerShape, type MarkerShape } from './connector-style'
+import { LABEL_COLOR, LABEL_FONT_SIZE, LABEL_HALO_WIDTH, LABEL_LINE_HEIGHT, labelPlacement } from './connector-label'
+import { connectorGeometry } from './connector-routing'
+import {
+  FRAME_FILL,
+  FRAME_STROKE,
+  FRAME_TITLE_COLOR,
+  FRAME_TITLE_FONT_SIZE,
+  FRAME_TITLE_OFFSET,
+  frameClipBox,
+  frameDescendants,
+  isFrame,
+  paintOrder,
+  sortFrames
+} from './frames'
+
+// 'frames' exports every frame on its own (one PDF page per frame)
+export type ExportScope = 'board' | 'viewport' | 'selection' | 'frames'
+
+export type ExportBounds = { x: number; y: number; width: number; height: number }
+
+// What to draw and which canvas area ends up in the file
+export type ExportScene = {
+  elements: CanvasElement[]
+  connectors: Connector[]
+  bounds: ExportBounds
+}
+
+export type ExportSource = {
+  elements: CanvasElement[]
+  connectors: Connector[]
+  selectedIds: ElementID[]
+  viewport: Viewport
+}
+
+// Width of `text` drawn with a CSS font shorthand
+export type TextMeasurer = (text: string, font: string) => number
+
+export const EXPORT_PADDING = 24
+export const EXPORT_BACKGROUND = '#FFFFFF'
+// Browsers refuse to allocate larger canvases
+const MAX_CANVAS_SIZE = 16384
+
+// Same look as the Konva shapes
+const STICKY_PADDING = parseInt(TEXT_SPACING.padding.md)
+const STICKY_FONT_SIZE = parseInt(TYPOGRAPHY_TOKENS.fontSize.base)
+const STICKY_LINE_HEIGHT = TYPOGRAPHY_TOKENS.lineHeight.normal
+const TEXT_BOX_PADDING = 4
+const TEXT_BOX_COLOR = '#333'
+const IMAGE_PLACEHOLDER = '#E0E0E0'
+
+/**
+ * Export error class
+ */
+export class BoardExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BoardExportError'
+  }
+}
+
+// ---- Scene ----
+
+function elementBounds(element: CanvasElement): ExportBounds {
+  const { x, y, width, height } = element
+  // Frame titles sit above the frame
+  if (isFrame(element)) return { x, y: y - FRAME_TITLE_OFFSET, width, height: height + FRAME_TITLE_OFFSET }
+  return rotatedBounds(element)
+}
+
+// Elements are needed for the direction curved connectors leave rotated elements in
+function connectorBounds(connector: Connector, elements: CanvasElement[]): ExportBounds {
+  const { path } = connectorGeometry(connector, elements)
+  const xs = path.filter((_, i) => i % 2 === 0)
+  const ys = path.filter((_, i) => i % 2 === 1)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+function unionBounds(list: ExportBounds[]): ExportBounds | null {
+  if (list.length === 0) return null
+  const x = Math.min(...list.map(b => b.x))
+  const y = Math.min(...list.map(b => b.y))
+  return {
+    x,
+    y,
+    width: Math.max(...list.map(b => b.x + b.width)) - x,
+    height: Math.max(...list.map(b => b.y + b.height)) - y
+  }
+}
+
+const intersects = (a: ExportBounds, b: ExportBounds) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height
+
+const byZIndex = <T extends { zIndex: number }>(items: T[]) => [...items].sort((a, b) => a.zIndex - b.zIndex)
+
+// Selected frames bring their contents along
+function withFrameContents(elements: CanvasElement[], ids: ElementID[]): Set<ElementID> {
+  const included = new Set(ids)
+  elements.forEach(e => {
+    if (isFrame(e) && included.has(e.id)) frameDescendants(elements, e.id).forEach(child => included.add(child.id))
+  })
+  return included
+}
+
+/**
+ * Pick the elements/connectors for a scope and the area to export.
+ * `viewportSize` (screen pixels of the stage) is required for the viewport scope.
+ * The frames scope gives the first frame here; `frameScenes` has all of them.
+ * Returns null when there is nothing to export.
+ */
+export function buildExportScene(
+  source: ExportSource,
+  scope: ExportScope,
+  viewportSize?: { width: number; height: number }
+): ExportScene | null {
+  if (scope === 'viewport') {
+    if (!viewportSize) return null
+    const { zoom, panX, panY } = source.viewport
+    const bounds = {
+      x: -panX / zoom,
+      y: -panY / zoom,
+      width: viewportSize.width / zoom,
+      height: viewportSize.height / zoom
+    }
+    return {
+      elements: paintOrder(source.elements.filter(e => intersects(elementBounds(e), bounds))),
+      connectors: byZIndex(source.connectors.filter(c => intersects(connectorBounds(c, source.elements), bounds))),
+      bounds
+    }
+  }
+
+  if (scope === 'frames') {
+    return frameScenes(source)[0] ?? null
+  }
+
+  const selected = withFrameContents(source.elements, source.selectedIds)
+  const elements = scope === 'selection' ? source.elements.filter(e => selected.has(e.id)) : source.elements
+  const ids = new Set(elements.map(e => e.id))
+  // Only connectors whose both ends are exported (free connectors belong to the whole board)
+  const connectors = scope === 'selection'
+    ? source.connectors.filter(c => ids.has(c.fromId) && ids.has(c.toId))
+    : source.connectors
+
+  const content = unionBounds([...elements.map(elementBounds), ...connectors.map(c => connectorBounds(c, source.elements))])
+  if (!content) return null
+
+  return {
+    elements: paintOrder(elements),
+    connectors: byZIndex(connectors),
+    bounds: {
+      x: content.x - EXPORT_PADDING,
+      y: content.y - EXPORT_PADDING,
+      width: content.width + EXPORT_PADDING * 2,
+      height: content.height + EXPORT_PADDING * 2
+    }
+  }
+}
+
+/**
+ * A frame and its contents, cut to the frame's rectangle
+ */
+export function buildFrameScene(source: ExportSource, frameId: ElementID): ExportScene | null {
+  const frame = source.elements.find(e => e.id === frameId)
+  if (!frame || !isFrame(frame)) return null
+
+  const ids = withFrameContents(source.elements, [frameId])
+  return {
+    elements: paintOrder(source.elements.filter(e => ids.has(e.id))),
+    connectors: byZIndex(source.connectors.filter(c => ids.has(c.fromId) && ids.has(c.toId))),
+    bounds: { x: frame.x, y: frame.y, width: frame.width, height: frame.height }
+  }
+}
+
+/**
+ * One scene per frame, in navigation order
+ */
+export function frameScenes(source: ExportSource): ExportScene[] {
+  return sortFrames(source.elements).map(frame => buildFrameScene(source, frame.id)!)
+}
+
+// ---- Text layout (shared by SVG and canvas output) ----
+
+// CJK characters wrap anywhere; other text wraps between words
+const WRAP_TOKEN = /[　-鿿가-힯＀-￯]|[^\s　-鿿가-힯＀-￯]+\s*|\s+/g
+
+/**
+ * Word-wrap text to a maximum width; words longer than a line are broken by character
+ */
+export function wrapText(text: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const lines: string[] = []
+
+  text.split('\n').forEach(paragraph => {
+    const tokens = paragraph.match(WRAP_TOKEN) ?? ['']
+    let line = ''
+
+    tokens.forEach(token => {
+      const candidate = line + token
+      if (line && measure(candidate.trimEnd()) > maxWidth) {
+        lines.push(line.trimEnd())
+        line = token.trimStart()
+      } else {
+        line = candidate
+      }
+
+      while (line.length > 1 && measure(line.trimEnd()) > maxWidth) {
+        let cut = line.length - 1
+        while (cut > 1 && measure(line.slice(0, cut)) > maxWidth) cut--
+        lines.push(line.slice(0, cut))
+        line = line.slice(cut)
+      }
+    })
+
+    lines.push(line.trimEnd())
+  })
+
+  return lines
+}
+
+/**
+ * Rough width estimate for environments without a canvas (full-width for CJK)
+ */
+export const estimateTextWidth: TextMeasurer = (text, font) => {
+  const fontSize = parseFloat(font) || STICKY_FONT_SIZE
+  return Array.from(text).reduce((width, char) =>
+    width + (/[　-鿿가-힯＀-￯]/.test(char) ? fontSize : fontSize * 0.55), 0)
+}
+
+function createCanvasMeasurer(): TextMeasurer | null {
+  if (typeof document === 'undefined') return null
+  try {
+    const context = document.createElement('canvas').getContext('2d')
+    if (!context) return null
+    return (text, font) => {
+      context.font = font
+      return context.measureText(text).width
+    }
+  } catch {
+    return null
+  }
+}
+
+type TextLayout = {
+  font: string
+  fontFamily: string
+  fontSize: number
+  color: string
+  align: 'left' | 'center' | 'right'
+  // Positions are local to the element; y is the vertical middle of each line
+  lines: { text: string; x: number; y: number }[]
+}
+
+function layoutElementText(element: CanvasElement, measure: TextMeasurer): TextLayout | null {
+  if (element.type !== 'sticky' && element.type !== 'text') return null
+  if (!element.text) return null
+
+  const isSticky = element.type === 'sticky'
+  const padding = isSticky ? STICKY_PADDING : TEXT_BOX_PADDING
+  const fontSize = isSticky ? STICKY_FONT_SIZE : element.fontSize
+  const fontFamily = isSticky ? TYPOGRAPHY_TOKENS.fontFamily.primary : element.fontFamily
+  const lineHeight = fontSize * (isSticky ? STICKY_LINE_HEIGHT : 1)
+  const color = isSticky
+    ? (element.color === 'transparent' ? TEXT_COLORS.light.primary : getOptimalTextColor(element.color))
+    : TEXT_BOX_COLOR
+  const align = element.textAlign ?? 'left'
+  const font = `${fontSize}px ${fontFamily}`
+
+  const innerWidth = Math.max(element.width - padding * 2, 1)
+  const maxLines = Math.max(1, Math.floor((element.height - padding * 2) / lineHeight))
+  const lines = wrapText(element.text, innerWidth, text => measure(text, font)).slice(0, maxLines)
+
+  const textHeight = lines.length * lineHeight
+  const top = element.verticalAlign === 'middle'
+    ? (element.height - textHeight) / 2
+    : element.verticalAlign === 'bottom'
+      ? element.height - padding - textHeight
+      : padding
+  const x = align === 'center' ? element.width / 2 : align === 'right' ? element.width - padding : padding
+
+  return {
+    font,
+    fontFamily,
+    fontSize,
+    color,
+    align,
+    lines: lines.map((text, i) => ({ text, x, y: top + i * lineHeight + lineHeight / 2 }))
+  }
+}
+
+// ---- SVG ----
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const num = (value: number) => Number(value.toFixed(2)).toString()
+
+const svgPaint = (color: string) => (color === 'transparent' ? 'none' : escapeXml(color))
+
+const SVG_ANCHOR = { left: 'start', center: 'middle', right: 'end' } as const
+
+function svgElement(element: CanvasElement, index: number, measure: TextMeasurer, frameClip: ExportBounds | null): string {
+  const transform = `translate(${num(element.x)} ${num(element.y)})${element.rotation ? ` rotate(${num(element.rotation)})` : ''}`
+  const size = `width="${num(element.width)}" height="${num(element.height)}"`
+  const parts: string[] = []
+
+  switch (element.type) {
+    case 'sticky':
+      parts.push(`<rect ${size} fill="${svgPaint(element.color)}"/>`)
+      break
+    case 'rect':
+      parts.push(`<rect ${size} rx="${num(element.radius ?? 0)}" fill="${svgPaint(element.fill)}" stroke="${svgPaint(element.stroke)}" stroke-width="${num(element.strokeWidth)}"/>`)
+      break
+    case 'frame':
+      parts.push(`<rect ${size} fill="${FRAME_FILL}" stroke="${FRAME_STROKE}" stroke-width="1"/>`)
+      parts.push(`<text y="${num(-FRAME_TITLE_OFFSET / 2)}" font-family="${escapeXml(TYPOGRAPHY_TOKENS.fontFamily.primary)}" font-size="${FRAME_TITLE_FONT_SIZE}" fill="${FRAME_TITLE_COLOR}" dominant-baseline="middle">${escapeXml(element.title)}</text>`)
+      break
+    case 'image':
+      parts.push(`<image ${size} href="${escapeXml(element.src)}" xlink:href="${escapeXml(element.src)}" preserveAspectRatio="none"/>`)
+      break
+  }
+
+  const text = layoutElementText(element, measure)
+  if (text) {
+    const clipId = `clip-${index}`
+    parts.push(`<clipPath id="${clipId}"><rect ${size}/></clipPath>`)
+    const tspans = text.lines
+      .map(line => `<tspan x="${num(line.x)}" y="${num(line.y)}">${escapeXml(line.text)}</tspan>`)
+      .join('')
+    parts.push(`<text clip-path="url(#${clipId})" font-family="${escapeXml(text.fontFamily)}" font-size="${num(text.fontSize)}" fill="${escapeXml(text.color)}" text-anchor="${SVG_ANCHOR[text.align]}" dominant-baseline="middle" xml:space="preserve">${tspans}</text>`)
+  }
+
+  const group = `<g transform="${transform}">${parts.join('')}</g>`
+  if (!frameClip) return group
+  const frameClipId = `frame-clip-${index}`
+  return `<clipPath id="${frameClipId}"><rect x="${num(frameClip.x)}" y="${num(frameClip.y)}" width="${num(frameClip.width)}" height="${num(frameClip.height)}"/></clipPath><g clip-path="url(#${frameClipId})">${group}</g>`
+}
+
+function svgMarkerShape(shape: MarkerShape, color: string, strokeWidth: number): string {
+  if (shape.kind === 'circle') {
+    return `<circle cx="${num(shape.x)}" cy="${num(shape.y)}" r="${num(shape.radius)}" fill="${color}"/>`
+  }
+  const points = []
+  for (let i = 0; i + 1 < shape.points.length; i += 2) {
+    points.push(`${num(shape.points[i])},${num(shape.points[i + 1])}`)
+  }
+  const paint = shape.filled
+    ? `fill="${color}" stroke="${color}" stroke-width="1"`
+    : `fill="none" stroke="${color}" stroke-width="${num(strokeWidth)}" stroke-linecap="round" stroke-linejoin="round"`
+  return `<${shape.closed ? 'polygon' : 'polyline'} points="${points.join(' ')}" ${paint}/>`
+}
+
+/**
+ * SVG markers shared by connectors with the same look.
+ * Start markers reuse the same definition, reversed by `orient="auto-start-reverse"`.
+ */
+function svgMarkerDefs(connectors: Connector[]): { defs: string[]; ids: Map<string, string> } {
+  const defs: string[] = []
+  const ids = new Map<string, string>()
+  connectors.forEach(connector => {
+    const style = connectorStyle(connector)
+    for (const marker of [style.startMarker, style.endMarker]) {
+      const shape = markerShape(marker, style.strokeWidth)
+      const key = `${marker}|${style.stroke}|${style.strokeWidth}`
+      if (!shape || ids.has(key)) continue
+      // The default arrow keeps the id older exports used
+      const isDefaultArrow = marker === 'arrow' && style.stroke === DEFAULT_CONNECTOR_STYLE.stroke && style.strokeWidth === DEFAULT_CONNECTOR_STYLE.strokeWidth
+      const id = isDefaultArrow ? 'arrowhead' : `marker-${ids.size}`
+      ids.set(key, id)
+      defs.push(
+        `<marker id="${id}" markerUnits="userSpaceOnUse" markerWidth="1" markerHeight="1" refX="0" refY="0" orient="auto-start-reverse" overflow="visible">`,
+        svgMarkerShape(shape, escapeXml(style.stroke), style.strokeWidth),
+        '</marker>'
+      )
+    }
+  })
+  return { defs, ids }
+}
+
+// Curves become a cubic path, everything else a polyline
+function svgConnectorShape(connector: Connector, elements: CanvasElement[]): { tag: string; geometry: string } {
+  const { bezier } = connectorGeometry(connector, elements)
+  if (bezier) {
+    const segments = []
+    for (let i = 2; i + 5 < bezier.length; i += 6) {
+      segments.push(`C${bezier.slice(i, i + 6).map(num).join(' ')}`)
+    }
+    return { tag: 'path', geometry: `d="M${num(bezier[0])} ${num(bezier[1])} ${segments.join(' ')}"` }
+  }
+  const points = []
+  for (let i = 0; i + 1 < connector.points.length; i += 2) {
+    points.push(`${num(connector.points[i])},${num(connector.points[i + 1])}`)
+  }
+  return { tag: 'polyline', geometry: `points="${points.join(' ')}"` }
+}
+
+function svgConnector(connector: Connector, elements: CanvasElement[], markerIds: Map<string, string>): string {
+  const style = connectorStyle(connector)
+  const shape = svgConnectorShape(connector, elements)
+  const dash = dashPattern(style.dash, style.strokeWidth)
+  const attributes = [
+    shape.geometry,
+    'fill="none"',
+    `stroke="${escapeXml(style.stroke)}"`,
+    `stroke-width="${num(style.strokeWidth)}"`,
+    dash.length > 0 ? `stroke-dasharray="${dash.map(num).join(' ')}"` : '',
+    ...(['start', 'end'] as const).map(end => {
+      const id = markerIds.get(`${end === 'start' ? style.startMarker : style.endMarker}|${style.stroke}|${style.strokeWidth}`)
+      return id ? `marker-${end}="url(#${id})"` : ''
+    })
+  ]
+  return `<${shape.tag} ${attributes.filter(Boolean).join(' ')}/>`
+}
+
+// Label lines centered on the label point; y of each line's middle
+function labelLines(label: string, y: number): { text: string; y: number }[] {
+  const lines = label.split('\n')
+  const lineHeight = LABEL_FONT_SIZE * LABEL_LINE_HEIGHT
+  return lines.map((text, i) => ({ text, y: y + (i - (lines.length - 1) / 2) * lineHeight }))
+}
+
+function svgConnectorLabel(connector: Connector, elements: CanvasElement[]): string {
+  if (!connector.label) return ''
+  const { path } = connectorGeometry(connector, elements)
+  const { x, y, rotation } = labelPlacement({ points: path, labelPosition: connector.labelPosition })
+  const tspans = labelLines(connector.label, y)
+    .map(line => `<tspan x="${num(x)}" y="${num(line.y)}">${escapeXml(line.text)}</tspan>`)
+    .join('')
+  return `<text transform="rotate(${num(rotation)} ${num(x)} ${num(y)})" font-family="${escapeXml(TYPOGRAPHY_TOKENS.fontFamily.primary)}" font-size="${LABEL_FONT_SIZE}" fill="${LABEL_COLOR}" stroke="#FFFFFF" stroke-width="${LABEL_HALO_WIDTH}" stroke-linejoin="round" paint-order="stroke" text-anchor="middle" dominant-baseline="middle" xml:space="preserve">${tspans}</text>`
+}
+
+/**
+ * Render the scene as a standalone SVG document.
+ * `background: null` keeps the background transparent.
+ */
+export function renderSceneToSVG(
+  scene: ExportScene,
+  options: { background?: string | null; measureText?: TextMeasurer } = {}
+): string {
+  const { bounds } = scene
+  const background = options.background === undefined ? EXPORT_BACKGROUND : options.background
+  const measure = options.measureText ?? createCanvasMeasurer() ?? estimateTextWidth
+  const markers = svgMarkerDefs(scene.connectors)
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${num(bounds.width)}" height="${num(bounds.height)}" viewBox="${num(bounds.x)} ${num(bounds.y)} ${num(bounds.width)} ${num(bounds.height)}">`,
+    '<defs>',
+    ...markers.defs,
+    '</defs>',
+    background ? `<rect x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.width)}" height="${num(bounds.height)}" fill="${escapeXml(background)}"/>` : '',
+    ...scene.elements.map((element, i) => svgElement(element, i, measure, frameClipBox(scene.elements, element))),
+    ...scene.connectors.map(connector => svgConnector(connector, scene.elements, markers.ids)),
+    // Labels go over every line
+    ...scene.connectors.map(connector => svgConnectorLabel(connector, scene.elements)),
+    '</svg>'
+  ].filter(Boolean).join('\n')
+}
+
+// ---- Canvas (PNG / PDF) ----
+
+function roundedRectPath(ctx: CanvasRenderingContext2D, width: number, height: number, radius: number) {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2))
+  ctx.beginPath()
+  ctx.moveTo(r, 0)
+  ctx.arcTo(width, 0, width, height, r)
+  ctx.arcTo(width, height, 0, height, r)
+  ctx.arcTo(0, height, 0, 0, r)
+  ctx.arcTo(0, 0, width, 0, r)
+  ctx.closePath()
+}
+
+function drawElement(
+  ctx: CanvasRenderingContext2D,
+  element: CanvasElement,
+  images: Map<string, CanvasImageSource>,
+  frameClip: ExportBounds | null
+) {
+  ctx.save()
+  if (frameClip) {
+    ctx.beginPath()
+    ctx.rect(frameClip.x, frameClip.y, frameClip.width, frameClip.height)
+    ctx.clip()
+  }
+  ctx.translate(element.x, element.y)
+  if (element.rotation) ctx.rotate((element.rotation * Math.PI) / 180)
+
+  switch (element.type) {
+    case 'sticky':
+      if (element.color !== 'transparent') {
+        ctx.fillStyle = element.color
+        ctx.fillRect(0, 0, element.width, element.height)
+      }
+      break
+    case 'rect':
+      roundedRectPath(ctx, element.width, element.height, element.radius ?? 0)
+      if (element.fill !== 'transparent') {
+        ctx.fillStyle = element.fill
+        ctx.fill()
+      }
+      if (element.strokeWidth > 0 && element.stroke !== 'transparent') {
+        ctx.strokeStyle = element.stroke
+        ctx.lineWidth = element.strokeWidth
+        ctx.stroke()
+      }
+      break
+    case 'frame':
+      ctx.fillStyle = FRAME_FILL
+      ctx.fillRect(0, 0, element.width, element.height)
+      ctx.strokeStyle = FRAME_STROKE
+      ctx.lineWidth = 1
+      ctx.strokeRect(0, 0, element.width, element.height)
+      ctx.font = `${FRAME_TITLE_FONT_SIZE}px ${TYPOGRAPHY_TOKENS.fontFamily.primary}`
+      ctx.fillStyle = FRAME_TITLE_COLOR
+      ctx.textAlign = 'left'
+      ctx.textBaseline = 'middle'
+      ctx.fillText(element.title, 0, -FRAME_TITLE_OFFSET / 2)
+      break
+    case 'image': {
+      const image = images.get(element.src)
+      if (image) {
+        ctx.drawImage(image, 0, 0, element.width, element.height)
+      } else {
+        ctx.fillStyle = IMAGE_PLACEHOLDER
+        ctx.fillRect(0, 0, element.width, element.height)
+      }
+      break
+    }
+  }
+
+  const text = layoutElementText(element, (value, font) => {
+    ctx.font = font
+    return ctx.measureText(value).width
+  })
+  if (text) {
+    ctx.beginPath()
+    ctx.rect(0, 0, element.width, element.height)
+    ctx.clip()
+    ctx.font = text.font
+    ctx.fillStyle = text.color
+    ctx.textAlign = text.align
+    ctx.textBaseline = 'middle'
+    text.lines.forEach(line => ctx.fillText(line.text, line.x, line.y))
+  }
+
+  ctx.restore()
+}
+
+function drawConnector(ctx: CanvasRenderingContext2D, connector: Connector, elements: CanvasElement[]) {
+  if (connector.points.length < 4) return
+  const { path, bezier } = connectorGeometry(connector, elements)
+  const points = path
+  const style = connectorStyle(connector)
+
+  ctx.save()
+  ctx.strokeStyle = style.stroke
+  ctx.fillStyle = style.stroke
+  ctx.lineWidth = style.strokeWidth
+  ctx.setLineDash(dashPattern(style.dash, style.strokeWidth))
+  ctx.beginPath()
+  ctx.moveTo(points[0], points[1])
+  if (bezier) {
+    for (let i = 2; i + 5 < bezier.length; i += 6) {
+      ctx.bezierCurveTo(bezier[i], bezier[i + 1], bezier[i + 2], bezier[i + 3], bezier[i + 4], bezier[i + 5])
+    }
+  } else {
+    for (let i = 2; i + 1 < points.length; i += 2) {
+      ctx.lineTo(points[i], points[i + 1])
+    }
+  }
+  ctx.stroke()
+  ctx.setLineDash([])
+
+  // Markers along the first / last segment
+  const n = points.length
+  const ends = [
+    { marker: style.startMarker, x: points[0], y: points[1], fromX: points[2], fromY: points[3] },
+    { marker: style.endMarker, x: points[n - 2], y: points[n - 1], fromX: points[n - 4], fromY: points[n - 3] }
+  ]
+  for (const end of ends) {
+    const shape = markerShape(end.marker, style.strokeWidth)
+    if (!shape) continue
+    ctx.save()
+    ctx.translate(end.x, end.y)
+    ctx.rotate(Math.atan2(end.y - end.fromY, end.x - end.fromX))
+    ctx.beginPath()
+    if (shape.kind === 'circle') {
+      ctx.arc(shape.x, shape.y, shape.radius, 0, Math.PI * 2)
+      ctx.fill()
+    } else {
+      ctx.moveTo(shape.points[0], shape.points[1])
+      for (let i = 2; i + 1 < shape.points.length; i += 2) {
+        ctx.lineTo(shape.points[i], shape.points[i + 1])
+      }
+      if (shape.closed) ctx.closePath()
+      if (shape.filled) {
+        ctx.fill()
+      } else {
+        ctx.lineCap = 'round'
+        ctx.lineJoin = 'round'
+        ctx.stroke()
+      }
+    }
+    ctx.restore()
+  }
+  ctx.restore()
+}
+
+function drawConnectorLabel(ctx: CanvasRenderingContext2D, connector: Connector, elements: CanvasElement[]) {
+  if (!connector.label) return
+  const { path } = connectorGeometry(connector, elements)
+  const { x, y, rotation } = labelPlacement({ points: path, labelPosition: connector.labelPosition })
+
+  ctx.save()
+  ctx.translate(x, y)
+  ctx.rotate((rotation * Math.PI) / 180)
+  ctx.font = `${LABEL_FONT_SIZE}px ${TYPOGRAPHY_TOKENS.fontFamily.primary}`
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.lineJoin = 'round'
+  ctx.lineWidth = LABEL_HALO_WIDTH
+  ctx.strokeStyle = '#FFFFFF'
+  ctx.fillStyle = LABEL_COLOR
+  labelLines(connector.label, 0).forEach(line => {
+    ctx.strokeText(line.text, 0, line.y)
+    ctx.fillText(line.text, 0, line.y)
+  })
+  ctx.restore()
+}
+
+/**
+ * Draw the scene onto a 2D context (browser canvas or the `canvas` package).
+ * The context is expected to be bounds × scale pixels large.
+ */
+export function drawScene(
+  ctx: CanvasRenderingContext2D,
+  scene: ExportScene,
+  options: { scale?: number; background?: string | null; images?: Map<string, CanvasImageSource> } = {}
+): void {
+  const { bounds } = scene
+  const scale = options.scale ?? 1
+  const background = options.background === undefined ? EXPORT_BACKGROUND : options.background
+  const images = options.images ?? new Map()
+
+  ctx.save()
+  ctx.scale(scale, scale)
+  ctx.translate(-bounds.x, -bounds.y)
+
+  if (background) {
+    ctx.fillStyle = background
+    ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height)
+  }
+
+  scene.elements.forEach(element => drawElement(ctx, element, images, frameClipBox(scene.elements, element)))
+  scene.connectors.forEach(connector => drawConnector(ctx, connector, scene.elements))
+  scene.connectors.forEach(connector => drawConnectorLabel(ctx, connector, scene.elements))
+
+  ctx.restore()
+}
+
+/**
+ * Preload the images used by the scene; images that fail to load are drawn as placeholders
+ */
+export async function loadSceneImages(
+  scene: ExportScene,
+  load: (src: string) => Promise<CanvasImageSource>
+): Promise<Map<string, CanvasImageSource>> {
+  const sources = Array.from(new Set(scene.elements.flatMap(e => (e.type === 'image' ? [e.src] : []))))
+  const images = new Map<string, CanvasImageSource>()
+
+  await Promise.all(sources.map(async src => {
+    try {
+      images.set(src, await load(src))
+    } catch {
+      // Placeholder instead
+    }
+  }))
+
+  return images
+}
+
+// Largest scale (up to the requested one) that keeps the canvas allocatable
+export function clampExportScale(bounds: ExportBounds, scale: number): number {
+  return Math.min(scale, MAX_CANVAS_SIZE / bounds.width, MAX_CANVAS_SIZE / bounds.height)
+}
+
+// ---- Browser helpers ----
+
+const loadBrowserImage = (src: string) => new Promise<CanvasImageSource>((resolve, reject) => {
+  const image = new Image()
+  image.onload = () => resolve(image)
+  image.onerror = () => reject(new BoardExportError(`Failed to load image ${src.slice(0, 50)}`))
+  image.src = src
+})
+
+async function renderSceneToCanvas(scene: ExportScene, scale: number, background: string | null): Promise<HTMLCanvasElement> {
+  const effectiveScale = clampExportScale(scene.bounds, scale)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.ceil(scene.bounds.width * effectiveScale)
+  canvas.height = Math.ceil(scene.bounds.height * effectiveScale)
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new BoardExportError('Canvas is not available')
+
+  const images = await loadSceneImages(scene, loadBrowserImage)
+  drawScene(ctx, scene, { scale: effectiveScale, background, images })
+  return canvas
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new BoardExportError(`Failed to encode ${type}`))), type, quality)
+  })
+
+export async function exportSceneAsPNG(
+  scene: ExportScene,
+  options: { scale?: number; transparent?: boolean } = {}
+): Promise<Blob> {
+  const canvas = await renderSceneToCanvas(scene, options.scale ?? 2, options.transparent ? null : EXPORT_BACKGROUND)
+  return canvasToBlob(canvas, 'image/png')
+}
+
+export function exportSceneAsSVG(scene: ExportScene, options: { transparent?: boolean } = {}): Blob {
+  const svg = renderSceneToSVG(scene, { background: options.transparent ? null : EXPORT_BACKGROUND })
+  return new Blob([svg], { type: 'image/svg+xml' })
+}
+
+export async function exportSceneAsPDF(scene: ExportScene, options: { scale?: number } = {}): Promise<Blob> {
+  return exportScenesAsPDF([scene], options)
+}
+
+/**
+ * PDF with one page per scene (e.g. one per frame)
+ */
+export async function exportScenesAsPDF(scenes: ExportScene[], options: { scale?: number } = {}): Promise<Blob> {
+  const pages = []
+  for (const scene of scenes) {
+    // JPEG has no alpha channel, so PDFs always get a background
+    const canvas = await renderSceneToCanvas(scene, options.scale ?? 2, EXPORT_BACKGROUND)
+    const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer())
+    pages.push({
+      jpeg,
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      pageWidth: scene.bounds.width * PX_TO_PT,
+      pageHeight: scene.bounds.height * PX_TO_PT
+    })
+  }
+  const pdf = createImagesPdf(pages)
+  return new Blob([pdf.buffer as ArrayBuffer], { type: 'application/pdf' })
+}
+
+/**
+ * Save a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -1,6 +1,9 @@
 /**
- * Utility functions for clipboard operations in text areas
+ * Utility functions for clipboard operations in text areas and on the canvas
  */
+import { isOutlineText, parseOutline, type OutlineNode } from './outline-import'
+
+const OUTLINE_FILE_EXTENSION = /\.(md|markdown|txt)$/i
 
 /**
  * Handle paste operation for textarea elements with cursor position restoration
@@ -24,4 +27,28 @@ export function handleTextareaPaste(
     const newCursorPosition = start + pastedText.length
     textarea.setSelectionRange(newCursorPosition, newCursorPosition)
   }, 0)
-}
\ No newline at end of file
+}
+
+/**
+ * Outline in pasted or dropped text (Markdown headings/bullets or indented lines).
+ * Returns null for text without a parent/child pair so ordinary paste keeps working.
+ */
+export function getClipboardOutline(data: DataTransfer | null): OutlineNode[] | null {
+  const text = data?.getData('text/plain') ?? ''
+  return isOutlineText(text) ? parseOutline(text) : null
+}
+
+/**
+ * Markdown or plain text files that can be imported as an outline
+ */
+export function isOutlineFile(file: File): boolean {
+  return file.type === 'text/markdown' || file.type === 'text/plain' || OUTLINE_FILE_EXTENSION.test(file.name)
+}
+
+/**
+ * Read a dropped outline file; a flat list is fine here since the drop was deliberate
+ */
+export async function readOutlineFile(file: File): Promise<OutlineNode[] | null> {
+  const roots = parseOutline(await file.text())
+  return roots.length > 0 ? roots : null
+}
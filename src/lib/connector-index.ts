@@ -0,0 +1,115 @@
+/**
+ * Board index kept in store state, so connector updates touch only what moved.
+ * - elements: element id → position in the elements array
+ * - connectors: element id → positions of the connectors attached to it
+ * - autoElbows: positions of the automatically routed elbows (they avoid every element, not only their own)
+ * - movedFrom: bounds of moved elements before the move, until the connectors around them are updated
+ * The store's history middleware brings it in line with every board change (updateBoardIndex).
+ */
+import type { Patch } from 'immer'
+import type { CanvasElement, Connector, ElementID } from '@/types'
+import { affectsElbowRoute, isAutoRouted } from './connector-routing'
+import { isFrame } from './frames'
+import { rotatedBounds } from './rotation'
+
+type Box = { x: number; y: number; width: number; height: number }
+
+export type BoardIndex = {
+  elements: Record<ElementID, number>
+  connectors: Record<ElementID, number[]>
+  autoElbows: number[]
+  movedFrom: Record<ElementID, Box>
+}
+
+type IndexedBoard = { elements: CanvasElement[]; connectors: Connector[]; boardIndex: BoardIndex }
+
+// Fields the index is built from; other field changes keep it valid
+const ELEMENT_KEYS = ['id']
+const CONNECTOR_KEYS = ['id', 'fromId', 'toId', 'routing', 'customRoute']
+const GEOMETRY_KEYS = ['x', 'y', 'width', 'height', 'rotation']
+
+function indexElements(elements: readonly CanvasElement[]): BoardIndex['elements'] {
+  const positions: BoardIndex['elements'] = {}
+  elements.forEach((element, i) => {
+    positions[element.id] = i
+  })
+  return positions
+}
+
+function indexConnectors(connectors: readonly Connector[]): Pick<BoardIndex, 'connectors' | 'autoElbows'> {
+  const byElement: BoardIndex['connectors'] = {}
+  const add = (id: ElementID, position: number) => {
+    if (!id) return
+    const list = byElement[id] ??= []
+    if (list[list.length - 1] !== position) list.push(position)
+  }
+  const autoElbows: number[] = []
+  connectors.forEach((connector, i) => {
+    add(connector.fromId, i)
+    add(connector.toId, i)
+    if (isAutoRouted(connector)) autoElbows.push(i)
+  })
+  return { connectors: byElement, autoElbows }
+}
+
+export function buildBoardIndex(elements: readonly CanvasElement[], connectors: readonly Connector[]): BoardIndex {
+  return { elements: indexElements(elements), ...indexConnectors(connectors), movedFrom: {} }
+}
+
+// Adds, removes and whole-item replacements, or edits of the given fields
+const touches = (patches: Patch[], key: string, fields: string[]) =>
+  patches.some(patch => patch.path[0] === key && (patch.path.length <= 2 || fields.includes(patch.path[2] as string)))
+
+/**
+ * Bring the index in line with a board change (mutates a draft).
+ * `patches` are the change's patches on elements / connectors, `previous` the state before it.
+ */
+export function updateBoardIndex(draft: IndexedBoard, patches: Patch[], previous: IndexedBoard): void {
+  const index = draft.boardIndex
+  if (touches(patches, 'connectors', CONNECTOR_KEYS)) {
+    Object.assign(index, indexConnectors(draft.connectors))
+  }
+
+  // Keep the bounds from before the first move since the last connector update
+  patches.forEach(({ path }) => {
+    if (path[0] !== 'elements' || path.length < 3 || !GEOMETRY_KEYS.includes(path[2] as string)) return
+    const before = previous.elements[path[1] as number]
+    if (before && before.id === draft.elements[path[1] as number]?.id && !index.movedFrom[before.id]) {
+      index.movedFrom[before.id] = rotatedBounds(before)
+    }
+  })
+
+  if (touches(patches, 'elements', ELEMENT_KEYS)) {
+    index.elements = indexElements(draft.elements)
+    Object.keys(index.movedFrom).forEach(id => {
+      if (index.elements[id] === undefined) delete index.movedFrom[id]
+    })
+  }
+}
+
+export function findIndexedElement(board: IndexedBoard, id: ElementID): CanvasElement | undefined {
+  return id ? board.elements[board.boardIndex.elements[id]] : undefined
+}
+
+/**
+ * Positions (in array order) of the connectors to update after `moved` elements moved:
+ * the ones attached to them, and automatic elbows whose route may avoid where they were or are now
+ */
+export function affectedConnectors(board: IndexedBoard, moved: CanvasElement[]): number[] {
+  const { connectors, boardIndex } = board
+  const positions = new Set<number>()
+  const boxes: Box[] = []
+  moved.forEach(element => {
+    boardIndex.connectors[element.id]?.forEach(position => positions.add(position))
+    // Frames are no obstacles
+    if (isFrame(element)) return
+    boxes.push(rotatedBounds(element))
+    if (boardIndex.movedFrom[element.id]) boxes.push(boardIndex.movedFrom[element.id])
+  })
+  boardIndex.autoElbows.forEach(position => {
+    if (!positions.has(position) && boxes.some(box => affectsElbowRoute(connectors[position].points, box))) {
+      positions.add(position)
+    }
+  })
+  return Array.from(positions).sort((a, b) => a - b)
+}
@@ -0,0 +1,96 @@
+/**
+ * Connector label geometry.
+ * A label sits at `labelPosition` (0 = start, 1 = end) measured along the whole path,
+ * turned with the segment under it but never upside down.
+ */
+type Point = { x: number; y: number }
+
+export const DEFAULT_LABEL_POSITION = 0.5
+export const LABEL_FONT_SIZE = 13
+export const LABEL_LINE_HEIGHT = 1.2
+export const LABEL_COLOR = '#333333'
+// White outline drawn behind the glyphs so the line doesn't run through the text
+export const LABEL_HALO_WIDTH = 4
+
+function segmentLengths(points: number[]): number[] {
+  const lengths: number[] = []
+  for (let i = 0; i + 3 < points.length; i += 2) {
+    lengths.push(Math.hypot(points[i + 2] - points[i], points[i + 3] - points[i + 1]))
+  }
+  return lengths
+}
+
+/**
+ * Point at a fraction of the path length, with the direction (degrees) of the segment it lies on
+ */
+export function pointAlongPath(points: number[], fraction: number): Point & { angle: number } {
+  const lengths = segmentLengths(points)
+  const total = lengths.reduce((sum, length) => sum + length, 0)
+  let remaining = Math.min(1, Math.max(0, fraction)) * total
+  for (let s = 0; s < lengths.length; s++) {
+    const i = s * 2
+    const isLast = s === lengths.length - 1
+    if (remaining <= lengths[s] || isLast) {
+      const t = lengths[s] > 0 ? Math.min(1, remaining / lengths[s]) : 0
+      return {
+        x: points[i] + (points[i + 2] - points[i]) * t,
+        y: points[i + 1] + (points[i + 3] - points[i + 1]) * t,
+        angle: (Math.atan2(points[i + 3] - points[i + 1], points[i + 2] - points[i]) * 180) / Math.PI
+      }
+    }
+    remaining -= lengths[s]
+  }
+  return { x: points[0] ?? 0, y: points[1] ?? 0, angle: 0 }
+}
+
+/**
+ * Fraction of the path length closest to a point (for dragging the label along the line)
+ */
+export function nearestPathFraction(points: number[], point: Point): number {
+  const lengths = segmentLengths(points)
+  const total = lengths.reduce((sum, length) => sum + length, 0)
+  if (total === 0) return DEFAULT_LABEL_POSITION
+
+  let best = { distance: Infinity, along: 0 }
+  let before = 0
+  lengths.forEach((length, s) => {
+    const i = s * 2
+    const dx = points[i + 2] - points[i]
+    const dy = points[i + 3] - points[i + 1]
+    const t = length > 0
+      ? Math.min(1, Math.max(0, ((point.x - points[i]) * dx + (point.y - points[i + 1]) * dy) / (length * length)))
+      : 0
+    const distance = Math.hypot(points[i] + dx * t - point.x, points[i + 1] + dy * t - point.y)
+    if (distance < best.distance) best = { distance, along: before + length * t }
+    before += length
+  })
+  return best.along / total
+}
+
+// Text follows the line but is flipped when the line points left, so it always reads left to right
+export function readableRotation(angle: number): number {
+  let rotation = ((angle % 360) + 360) % 360
+  if (rotation > 180) rotation -= 360
+  if (rotation > 90) rotation -= 180
+  if (rotation <= -90) rotation += 180
+  return rotation
+}
+
+/**
+ * Where a connector's label is drawn (center point and rotation in degrees)
+ */
+export function labelPlacement(connector: { points: number[]; labelPosition?: number }): Point & { rotation: number } {
+  const { x, y, angle } = pointAlongPath(connector.points, connector.labelPosition ?? DEFAULT_LABEL_POSITION)
+  return { x, y, rotation: readableRotation(angle) }
+}
+
+/**
+ * Rough size of the label text, for its hit area (CJK characters count full width)
+ */
+export function estimateLabelSize(label: string, fontSize = LABEL_FONT_SIZE, lineHeight = LABEL_LINE_HEIGHT): { width: number; height: number } {
+  const lines = label.split('\n')
+  const width = Math.max(...lines.map(line =>
+    Array.from(line).reduce((sum, char) => sum + (/[　-鿿가-힯＀-￯]/.test(char) ? fontSize : fontSize * 0.6), 0)
+  ))
+  return { width, height: lines.length * fontSize * lineHeight }
+}
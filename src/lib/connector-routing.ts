@@ -0,0 +1,416 @@
+/**
+ * Connector routing.
+ * `points` always holds the path the connector is drawn along: [x1, y1, ...bends, xn, yn].
+ * - straight: bend points are placed by the user; the line runs straight between them
+ * - elbow: right-angle segments, routed around obstacles unless the user reshaped the route
+ * - curved: a smooth Bézier curve through the bend points
+ */
+import type { AnchorPosition, ConnectorRouting } from '@/types'
+
+type Point = { x: number; y: number }
+type Box = { x: number; y: number; width: number; height: number }
+// Unit vector pointing away from the element an end is attached to
+export type Direction = { x: number; y: number }
+
+export const CONNECTOR_ROUTINGS: ConnectorRouting[] = ['straight', 'elbow', 'curved']
+
+// Straight run leaving / entering an anchor before the first turn
+const STUB_LENGTH = 20
+// Gap kept around obstacles (smaller than the stub so the stub end is always clear)
+const CLEARANCE = 12
+// Extra room around the endpoints where obstacles are considered
+const DETOUR_MARGIN = 200
+// A turn costs as much as this much extra length
+const BEND_COST = 40
+// Grid lines per axis before falling back to a plain elbow
+const MAX_GRID_LINES = 80
+const CURVE_SAMPLES = 16
+
+const ANCHOR_DIRECTIONS: Record<AnchorPosition, Direction> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 }
+}
+
+export function anchorDirection(anchor: AnchorPosition, rotation = 0): Direction {
+  const { x, y } = ANCHOR_DIRECTIONS[anchor]
+  if (!rotation) return { x, y }
+  const radians = (rotation * Math.PI) / 180
+  return { x: x * Math.cos(radians) - y * Math.sin(radians), y: x * Math.sin(radians) + y * Math.cos(radians) }
+}
+
+// Closest of the four axis directions
+function axisDirection(direction: Direction): Direction {
+  return Math.abs(direction.x) >= Math.abs(direction.y)
+    ? { x: Math.sign(direction.x) || 1, y: 0 }
+    : { x: 0, y: Math.sign(direction.y) || 1 }
+}
+
+export function toPointList(points: number[]): Point[] {
+  const list: Point[] = []
+  for (let i = 0; i + 1 < points.length; i += 2) list.push({ x: points[i], y: points[i + 1] })
+  return list
+}
+
+const flatten = (list: Point[]) => list.flatMap(p => [p.x, p.y])
+
+// Drop repeated points and the middle of three points on one horizontal / vertical line
+function simplifyOrthogonal(list: Point[]): Point[] {
+  const result: Point[] = []
+  list.forEach(point => {
+    const last = result[result.length - 1]
+    if (last && last.x === point.x && last.y === point.y) return
+    const before = result[result.length - 2]
+    if (before && last && ((before.x === last.x && last.x === point.x) || (before.y === last.y && last.y === point.y))) {
+      result[result.length - 1] = point
+      return
+    }
+    result.push(point)
+  })
+  return result
+}
+
+// Two-turn elbow between two points, leaving along `direction` (or the longer axis)
+function plainElbow(from: Point, to: Point, direction: Direction | null): Point[] {
+  const horizontal = direction ? direction.x !== 0 : Math.abs(to.x - from.x) >= Math.abs(to.y - from.y)
+  if (horizontal) {
+    const midX = (from.x + to.x) / 2
+    return [from, { x: midX, y: from.y }, { x: midX, y: to.y }, to]
+  }
+  const midY = (from.y + to.y) / 2
+  return [from, { x: from.x, y: midY }, { x: to.x, y: midY }, to]
+}
+
+const inflate = (box: Box, margin: number): Box =>
+  ({ x: box.x - margin, y: box.y - margin, width: box.width + margin * 2, height: box.height + margin * 2 })
+
+const strictlyInside = (box: Box, p: Point) =>
+  p.x > box.x && p.x < box.x + box.width && p.y > box.y && p.y < box.y + box.height
+
+const overlaps = (a: Box, b: Box) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y
+
+const sortedUnique = (values: number[]) => Array.from(new Set(values)).sort((a, b) => a - b)
+
+// Minimal binary heap of [cost, state] pairs
+function createQueue() {
+  const items: [number, number][] = []
+  return {
+    get size() { return items.length },
+    push(cost: number, state: number) {
+      items.push([cost, state])
+      let i = items.length - 1
+      while (i > 0) {
+        const parent = (i - 1) >> 1
+        if (items[parent][0] <= items[i][0]) break
+        ;[items[parent], items[i]] = [items[i], items[parent]]
+        i = parent
+      }
+    },
+    pop(): [number, number] {
+      const top = items[0]
+      const last = items.pop()!
+      if (items.length > 0) {
+        items[0] = last
+        let i = 0
+        for (;;) {
+          const left = i * 2 + 1
+          const right = left + 1
+          let smallest = i
+          if (left < items.length && items[left][0] < items[smallest][0]) smallest = left
+          if (right < items.length && items[right][0] < items[smallest][0]) smallest = right
+          if (smallest === i) break
+          ;[items[smallest], items[i]] = [items[i], items[smallest]]
+          i = smallest
+        }
+      }
+      return top
+    }
+  }
+}
+
+// Moves on the grid: right, down, left, up
+const MOVES = [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 0, y: -1 }]
+const moveIndex = (direction: Direction) => MOVES.findIndex(m => m.x === direction.x && m.y === direction.y)
+const turnCost = (from: number, to: number) => (from === to ? 0 : (from + 2) % 4 === to ? BEND_COST * 2 : BEND_COST)
+
+/**
+ * Shortest orthogonal path between two points over the grid formed by the obstacle edges,
+ * with a penalty per turn. Returns null when the grid is too large or there is no way through.
+ */
+function searchGrid(from: Point, fromMove: number, to: Point, toMove: number, boxes: Box[]): Point[] | null {
+  const xs = sortedUnique([from.x, to.x, (from.x + to.x) / 2, ...boxes.flatMap(b => [b.x, b.x + b.width])])
+  const ys = sortedUnique([from.y, to.y, (from.y + to.y) / 2, ...boxes.flatMap(b => [b.y, b.y + b.height])])
+  if (xs.length > MAX_GRID_LINES || ys.length > MAX_GRID_LINES) return null
+
+  const columns = xs.length
+  const node = (i: number, j: number) => j * columns + i
+  const free = (i: number, j: number) => !boxes.some(b => strictlyInside(b, { x: xs[i], y: ys[j] }))
+  // Segments between neighbouring grid lines are either fully inside an obstacle or fully outside
+  const passable = (i: number, j: number, ni: number, nj: number) =>
+    free(ni, nj) && !boxes.some(b => strictlyInside(b, { x: (xs[i] + xs[ni]) / 2, y: (ys[j] + ys[nj]) / 2 }))
+
+  const start = node(xs.indexOf(from.x), ys.indexOf(from.y))
+  const goal = node(xs.indexOf(to.x), ys.indexOf(to.y))
+  // State = node * 4 + direction of the last move
+  const best = new Map<number, number>()
+  const previous = new Map<number, number>()
+  const queue = createQueue()
+  for (let m = 0; m < 4; m++) {
+    const cost = fromMove < 0 ? 0 : turnCost(fromMove, m)
+    best.set(start * 4 + m, cost)
+    queue.push(cost, start * 4 + m)
+  }
+
+  let reached = -1
+  let reachedCost = Infinity
+  while (queue.size > 0) {
+    const [cost, state] = queue.pop()
+    if (cost > (best.get(state) ?? Infinity) || cost >= reachedCost) continue
+    const current = Math.floor(state / 4)
+    const lastMove = state % 4
+    if (current === goal) {
+      const total = cost + (toMove < 0 ? 0 : turnCost(lastMove, toMove))
+      if (total < reachedCost) {
+        reachedCost = total
+        reached = state
+      }
+      continue
+    }
+    const i = current % columns
+    const j = Math.floor(current / columns)
+    MOVES.forEach((move, m) => {
+      const ni = i + move.x
+      const nj = j + move.y
+      if (ni < 0 || nj < 0 || ni >= columns || nj >= ys.length || !passable(i, j, ni, nj)) return
+      const next = node(ni, nj) * 4 + m
+      const nextCost = cost + Math.abs(xs[ni] - xs[i]) + Math.abs(ys[nj] - ys[j]) + turnCost(lastMove, m)
+      if (nextCost < (best.get(next) ?? Infinity)) {
+        best.set(next, nextCost)
+        previous.set(next, state)
+        queue.push(nextCost, next)
+      }
+    })
+  }
+  if (reached < 0) return null
+
+  const path: Point[] = []
+  for (let state: number | undefined = reached; state !== undefined; state = previous.get(state)) {
+    const n = Math.floor(state / 4)
+    path.unshift({ x: xs[n % columns], y: ys[Math.floor(n / columns)] })
+  }
+  return path
+}
+
+// Elbow connectors re-route themselves until the user reshapes the route
+export function isAutoRouted(connector: { routing?: ConnectorRouting; customRoute?: boolean }): boolean {
+  return connector.routing === 'elbow' && !connector.customRoute
+}
+
+/**
+ * Right-angle route from `start` to `end` around the obstacle boxes.
+ * Attached ends leave along their anchor direction; free ends (null) may leave any way.
+ */
+export function elbowRoute(
+  start: Point,
+  startDirection: Direction | null,
+  end: Point,
+  endDirection: Direction | null,
+  obstacles: Box[] = []
+): number[] {
+  const startAxis = startDirection ? axisDirection(startDirection) : null
+  const endAxis = endDirection ? axisDirection(endDirection) : null
+  const from = startAxis ? { x: start.x + startAxis.x * STUB_LENGTH, y: start.y + startAxis.y * STUB_LENGTH } : start
+  const to = endAxis ? { x: end.x + endAxis.x * STUB_LENGTH, y: end.y + endAxis.y * STUB_LENGTH } : end
+
+  // Only obstacles around the endpoints matter; ones the stub ends sit in can't be avoided
+  const region = inflate({
+    x: Math.min(from.x, to.x),
+    y: Math.min(from.y, to.y),
+    width: Math.abs(to.x - from.x),
+    height: Math.abs(to.y - from.y)
+  }, DETOUR_MARGIN)
+  const boxes = obstacles
+    .map(box => inflate(box, CLEARANCE))
+    .filter(box => overlaps(box, region) && !strictlyInside(box, from) && !strictlyInside(box, to))
+
+  const path = searchGrid(
+    from,
+    startAxis ? moveIndex(startAxis) : -1,
+    to,
+    // The last segment runs into the element, against its anchor direction
+    endAxis ? moveIndex({ x: -endAxis.x, y: -endAxis.y }) : -1,
+    boxes
+  ) ?? plainElbow(from, to, startAxis)
+
+  return flatten(simplifyOrthogonal([start, ...path, end]))
+}
+
+/**
+ * Whether an obstacle at `box` can change the automatic route between the ends of `points`:
+ * it reaches into the area elbowRoute looks for obstacles in, whichever way the ends leave
+ */
+export function affectsElbowRoute(points: number[], box: Box): boolean {
+  const n = points.length
+  const ends = {
+    x: Math.min(points[0], points[n - 2]),
+    y: Math.min(points[1], points[n - 1]),
+    width: Math.abs(points[n - 2] - points[0]),
+    height: Math.abs(points[n - 1] - points[1])
+  }
+  return overlaps(inflate(box, CLEARANCE), inflate(ends, DETOUR_MARGIN + STUB_LENGTH))
+}
+
+/**
+ * Move one end of a hand-shaped elbow route; the neighbouring bend follows so every segment stays straight.
+ */
+export function moveElbowEnd(points: number[], end: 'start' | 'end', point: Point): number[] {
+  const list = toPointList(points)
+  if (list.length < 3) return withEndPoint(points, end, point)
+  const [index, neighbour] = end === 'start' ? [0, 1] : [list.length - 1, list.length - 2]
+  const horizontal = list[index].y === list[neighbour].y && list[index].x !== list[neighbour].x
+  list[index] = point
+  list[neighbour] = horizontal ? { x: list[neighbour].x, y: point.y } : { x: point.x, y: list[neighbour].y }
+  return flatten(list)
+}
+
+/**
+ * Slide an elbow segment sideways through `point`.
+ * The first / last segment gets a new bend so the ends stay where they are.
+ */
+export function moveElbowSegment(points: number[], segment: number, point: Point): number[] {
+  let list = toPointList(points)
+  if (segment < 0 || segment >= list.length - 1) return points
+  const horizontal = list[segment].y === list[segment + 1].y
+  if (segment === list.length - 2) list = [...list, list[list.length - 1]]
+  if (segment === 0) {
+    list = [list[0], ...list]
+    segment = 1
+  }
+  if (horizontal) {
+    list[segment] = { x: list[segment].x, y: point.y }
+    list[segment + 1] = { x: list[segment + 1].x, y: point.y }
+  } else {
+    list[segment] = { x: point.x, y: list[segment].y }
+    list[segment + 1] = { x: point.x, y: list[segment + 1].y }
+  }
+  return flatten(simplifyOrthogonal(list))
+}
+
+// Replace the first or last point, keeping the bends
+export function withEndPoint(points: number[], end: 'start' | 'end', point: Point): number[] {
+  const result = [...points]
+  const i = end === 'start' ? 0 : points.length - 2
+  result[i] = point.x
+  result[i + 1] = point.y
+  return result
+}
+
+// Bend points of straight / curved connectors
+export function insertBend(points: number[], segment: number, point: Point): number[] {
+  const at = (segment + 1) * 2
+  return [...points.slice(0, at), point.x, point.y, ...points.slice(at)]
+}
+
+export function moveBend(points: number[], index: number, point: Point): number[] {
+  const result = [...points]
+  result[index * 2] = point.x
+  result[index * 2 + 1] = point.y
+  return result
+}
+
+export function removeBend(points: number[], index: number): number[] {
+  if (index <= 0 || index >= points.length / 2 - 1) return points
+  return [...points.slice(0, index * 2), ...points.slice(index * 2 + 2)]
+}
+
+/**
+ * Cubic Bézier segments through the points, in Konva's `bezier` layout: p0, c1, c2, p1, c1, c2, p2…
+ * Attached ends leave / arrive along their anchor direction.
+ */
+export function curveControlPoints(points: number[], startDirection?: Direction | null, endDirection?: Direction | null): number[] {
+  const list = toPointList(points)
+  if (list.length < 2) return [...points]
+  const n = list.length
+  const tangents = list.map((p, i) => {
+    if (i > 0 && i < n - 1) {
+      return { x: (list[i + 1].x - list[i - 1].x) / 2, y: (list[i + 1].y - list[i - 1].y) / 2 }
+    }
+    const neighbour = i === 0 ? list[1] : list[n - 2]
+    const length = Math.hypot(neighbour.x - p.x, neighbour.y - p.y)
+    const direction = i === 0 ? startDirection : endDirection
+    if (direction) {
+      // Leaving the start along its direction; arriving at the end against its direction
+      const sign = i === 0 ? 1 : -1
+      return { x: direction.x * length * 1.5 * sign, y: direction.y * length * 1.5 * sign }
+    }
+    return i === 0 ? { x: neighbour.x - p.x, y: neighbour.y - p.y } : { x: p.x - neighbour.x, y: p.y - neighbour.y }
+  })
+
+  const result = [list[0].x, list[0].y]
+  for (let i = 0; i < n - 1; i++) {
+    result.push(
+      list[i].x + tangents[i].x / 3, list[i].y + tangents[i].y / 3,
+      list[i + 1].x - tangents[i + 1].x / 3, list[i + 1].y - tangents[i + 1].y / 3,
+      list[i + 1].x, list[i + 1].y
+    )
+  }
+  return result
+}
+
+// Polyline approximation of Bézier segments in the layout above
+export function sampleCurve(bezier: number[], samples = CURVE_SAMPLES): number[] {
+  const result = [bezier[0], bezier[1]]
+  for (let i = 0; i + 7 < bezier.length; i += 6) {
+    const [x0, y0, x1, y1, x2, y2, x3, y3] = bezier.slice(i, i + 8)
+    for (let s = 1; s <= samples; s++) {
+      const t = s / samples
+      const u = 1 - t
+      result.push(
+        u * u * u * x0 + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * x3,
+        u * u * u * y0 + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * y3
+      )
+    }
+  }
+  return result
+}
+
+type RoutedConnector = {
+  fromId: string
+  toId: string
+  fromAnchor?: AnchorPosition
+  toAnchor?: AnchorPosition
+  points: number[]
+  routing?: ConnectorRouting
+}
+
+// Direction an end leaves its element in (null when the end is free)
+export function endDirection(
+  connector: RoutedConnector,
+  end: 'start' | 'end',
+  elements: { id: string; rotation?: number }[] = []
+): Direction | null {
+  const [id, anchor] = end === 'start' ? [connector.fromId, connector.fromAnchor] : [connector.toId, connector.toAnchor]
+  if (!id || !anchor) return null
+  return anchorDirection(anchor, elements.find(e => e.id === id)?.rotation ?? 0)
+}
+
+/**
+ * What to draw: `bezier` holds the curve for curved connectors (null otherwise);
+ * `path` is a polyline along the drawn line (for labels and hit tests).
+ */
+export function connectorGeometry(
+  connector: RoutedConnector,
+  elements: { id: string; rotation?: number }[] = []
+): { path: number[]; bezier: number[] | null } {
+  if (connector.routing !== 'curved' || connector.points.length < 4) {
+    return { path: connector.points, bezier: null }
+  }
+  const bezier = curveControlPoints(
+    connector.points,
+    endDirection(connector, 'start', elements),
+    endDirection(connector, 'end', elements)
+  )
+  return { path: sampleCurve(bezier), bezier }
+}
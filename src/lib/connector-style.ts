@@ -0,0 +1,110 @@
+/**
+ * Connector styling shared by the canvas and the exporters.
+ * Style fields are optional on the connector; anything missing falls back to the defaults below.
+ */
+import type { ConnectorDash, ConnectorMarker } from '@/types'
+
+export type ConnectorStyle = {
+  stroke: string
+  strokeWidth: number
+  dash: ConnectorDash
+  startMarker: ConnectorMarker
+  endMarker: ConnectorMarker
+}
+
+export const DEFAULT_CONNECTOR_STYLE: ConnectorStyle = {
+  stroke: '#666',
+  strokeWidth: 2,
+  dash: 'solid',
+  startMarker: 'none',
+  endMarker: 'arrow'
+}
+
+export const CONNECTOR_DASHES: ConnectorDash[] = ['solid', 'dashed', 'dotted']
+export const CONNECTOR_MARKERS: ConnectorMarker[] = ['none', 'arrow', 'open-arrow', 'circle', 'diamond', 'bar']
+
+export function connectorStyle(connector: Partial<ConnectorStyle>): ConnectorStyle {
+  return {
+    stroke: connector.stroke ?? DEFAULT_CONNECTOR_STYLE.stroke,
+    strokeWidth: connector.strokeWidth ?? DEFAULT_CONNECTOR_STYLE.strokeWidth,
+    dash: connector.dash ?? DEFAULT_CONNECTOR_STYLE.dash,
+    startMarker: connector.startMarker ?? DEFAULT_CONNECTOR_STYLE.startMarker,
+    endMarker: connector.endMarker ?? DEFAULT_CONNECTOR_STYLE.endMarker
+  }
+}
+
+// Dash lengths scale with the line so thick lines don't look solid
+export function dashPattern(dash: ConnectorDash, strokeWidth: number): number[] {
+  if (dash === 'dashed') return [strokeWidth * 4, strokeWidth * 3]
+  if (dash === 'dotted') return [strokeWidth, strokeWidth * 2]
+  return []
+}
+
+/**
+ * Marker outline in its own coordinates: the tip sits at the origin and the line arrives from -x.
+ * `filled` shapes are painted with the line color, the others are stroked with it.
+ */
+export type MarkerShape =
+  | { kind: 'path'; points: number[]; closed: boolean; filled: boolean }
+  | { kind: 'circle'; x: number; y: number; radius: number }
+
+// Size of a marker for a given line width (the default 2px line gets the old 6×4 arrowhead)
+function markerSize(strokeWidth: number) {
+  const length = Math.max(6, strokeWidth * 3)
+  return { length, width: (length * 2) / 3 }
+}
+
+export function markerShape(marker: ConnectorMarker, strokeWidth: number): MarkerShape | null {
+  const { length, width } = markerSize(strokeWidth)
+  switch (marker) {
+    case 'arrow':
+      return { kind: 'path', points: [0, 0, -length, width / 2, -length, -width / 2], closed: true, filled: true }
+    case 'open-arrow':
+      return { kind: 'path', points: [-length, width, 0, 0, -length, -width], closed: false, filled: false }
+    case 'circle':
+      return { kind: 'circle', x: -length / 2, y: 0, radius: length / 2 }
+    case 'diamond':
+      return { kind: 'path', points: [0, 0, -length / 2, width / 2, -length, 0, -length / 2, -width / 2], closed: true, filled: true }
+    case 'bar':
+      return { kind: 'path', points: [0, -width, 0, width], closed: false, filled: false }
+    default:
+      return null
+  }
+}
+
+// How far the line stops short of its end so it doesn't poke through a solid marker
+export function markerInset(marker: ConnectorMarker, strokeWidth: number): number {
+  if (marker === 'arrow' || marker === 'circle' || marker === 'diamond') return markerSize(strokeWidth).length
+  return 0
+}
+
+/**
+ * Where a marker goes: the end point, rotated (degrees) to point away from the line
+ */
+export function markerPose(points: number[], end: 'start' | 'end'): { x: number; y: number; rotation: number } {
+  const n = points.length
+  const [x, y, fromX, fromY] = end === 'start'
+    ? [points[0], points[1], points[2], points[3]]
+    : [points[n - 2], points[n - 1], points[n - 4], points[n - 3]]
+  return { x, y, rotation: (Math.atan2(y - fromY, x - fromX) * 180) / Math.PI }
+}
+
+/**
+ * The line's points pulled back from each end by the marker insets (never past the neighbouring point)
+ */
+export function insetPoints(points: number[], startInset: number, endInset: number): number[] {
+  const result = [...points]
+  const pull = (at: number, toward: number, distance: number) => {
+    const dx = points[toward] - points[at]
+    const dy = points[toward + 1] - points[at + 1]
+    const length = Math.hypot(dx, dy)
+    if (!distance || !length) return
+    const t = Math.min(distance, length) / length
+    result[at] = points[at] + dx * t
+    result[at + 1] = points[at + 1] + dy * t
+  }
+  pull(0, 2, startInset)
+  pull(points.length - 2, points.length - 4, endInset)
+  return result
+}
+
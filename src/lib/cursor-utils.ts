@@ -1,17 +1,20 @@
 import type { ResizeDirection } from '@/canvas/shapes/ResizeHandle'
 
 /**
- * Get CSS cursor corresponding to resize direction (for corner handles)
+ * Get CSS cursor corresponding to resize direction (corner handles, plus edges of the selection box)
  */
 export const getCursorForDirection = (direction: ResizeDirection): string => {
-  // Only corner handles are supported
-  const cornerCursorMap: Record<string, string> = {
+  const cursorMap: Record<string, string> = {
     'nw': 'nw-resize',
     'ne': 'ne-resize',
     'sw': 'sw-resize',
-    'se': 'se-resize'
+    'se': 'se-resize',
+    'n': 'n-resize',
+    'e': 'e-resize',
+    's': 's-resize',
+    'w': 'w-resize'
   }
-  return cornerCursorMap[direction] || 'default'
+  return cursorMap[direction] || 'default'
 }
 
 /**
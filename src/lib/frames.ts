@@ -0,0 +1,133 @@
+/**
+ * Frames: titled areas that own the elements placed inside them.
+ * Each child stores its frame in `frameId`, so membership travels with the elements.
+ */
+import type { CanvasElement, ElementID, FrameElement, Viewport } from '@/types'
+import { clampZoom } from './coordinates'
+
+type Box = { x: number; y: number; width: number; height: number }
+
+export const DEFAULT_FRAME_SIZE = { width: 800, height: 600 }
+export const FRAME_FILL = '#FFFFFF'
+export const FRAME_STROKE = '#D0D0D0'
+export const FRAME_TITLE_COLOR = '#666666'
+export const FRAME_TITLE_FONT_SIZE = 14
+// Gap between the title baseline area and the frame's top edge
+export const FRAME_TITLE_OFFSET = 20
+
+export const isFrame = (element: Pick<CanvasElement, 'type'>): element is FrameElement => element.type === 'frame'
+
+const area = (box: Box) => box.width * box.height
+
+export const isCenterInside = (frame: Box, box: Box) => {
+  const x = box.x + box.width / 2
+  const y = box.y + box.height / 2
+  return x >= frame.x && x <= frame.x + frame.width && y >= frame.y && y <= frame.y + frame.height
+}
+
+/**
+ * The frame that should own an element: the smallest frame around its center.
+ * A frame only sits in a larger frame, which keeps the hierarchy free of cycles.
+ */
+export function findContainingFrame(
+  elements: CanvasElement[],
+  element: Box & { id?: ElementID; type: CanvasElement['type'] }
+): FrameElement | null {
+  const candidates = elements.filter((e): e is FrameElement =>
+    isFrame(e) && e.id !== element.id && isCenterInside(e, element) &&
+    (!isFrame(element) || area(e) > area(element)))
+  return candidates.sort((a, b) => area(a) - area(b))[0] ?? null
+}
+
+/**
+ * Everything inside a frame, including the contents of nested frames.
+ * `skip` leaves out an element together with its own contents.
+ */
+export function frameDescendants(
+  elements: CanvasElement[],
+  frameId: ElementID,
+  skip: (element: CanvasElement) => boolean = () => false
+): CanvasElement[] {
+  const result: CanvasElement[] = []
+  const visit = (parentId: ElementID) => {
+    elements.forEach(e => {
+      if (e.frameId !== parentId || skip(e) || result.includes(e)) return
+      result.push(e)
+      if (isFrame(e)) visit(e.id)
+    })
+  }
+  visit(frameId)
+  return result
+}
+
+// Number of frames around an element (0 = top level)
+export function frameDepth(elements: CanvasElement[], element: CanvasElement): number {
+  let depth = 0
+  let current = element.frameId ? elements.find(e => e.id === element.frameId) : undefined
+  while (current && depth < elements.length) {
+    depth++
+    current = current.frameId ? elements.find(e => e.id === current!.frameId) : undefined
+  }
+  return depth
+}
+
+/**
+ * Visible area of an element inside clipping frames (intersection of all of them),
+ * or null when no enclosing frame clips
+ */
+export function frameClipBox(elements: CanvasElement[], element: CanvasElement): Box | null {
+  let clip: Box | null = null
+  let current = element.frameId ? elements.find(e => e.id === element.frameId) : undefined
+  for (let i = 0; current && i < elements.length; i++) {
+    if (isFrame(current) && current.clip) {
+      if (!clip) {
+        clip = { x: current.x, y: current.y, width: current.width, height: current.height }
+      } else {
+        const x = Math.max(clip.x, current.x)
+        const y = Math.max(clip.y, current.y)
+        clip = {
+          x,
+          y,
+          width: Math.max(0, Math.min(clip.x + clip.width, current.x + current.width) - x),
+          height: Math.max(0, Math.min(clip.y + clip.height, current.y + current.height) - y)
+        }
+      }
+    }
+    current = current.frameId ? elements.find(e => e.id === current!.frameId) : undefined
+  }
+  return clip
+}
+
+/**
+ * Frames in navigation (and presentation) order: top to bottom, left to right
+ */
+export function sortFrames(elements: CanvasElement[]): FrameElement[] {
+  return elements.filter(isFrame).sort((a, b) => a.y - b.y || a.x - b.x)
+}
+
+/**
+ * Viewport that shows the whole box centered in a `size` pixel stage
+ */
+export function fitViewportToBox(box: Box, size: { width: number; height: number }, padding = 48): Viewport {
+  const zoom = clampZoom(Math.min(
+    (size.width - padding * 2) / Math.max(box.width, 1),
+    (size.height - padding * 2) / Math.max(box.height, 1)
+  ))
+  return {
+    zoom,
+    panX: size.width / 2 - (box.x + box.width / 2) * zoom,
+    panY: size.height / 2 - (box.y + box.height / 2) * zoom
+  }
+}
+
+/**
+ * Drawing order: frames behind everything (outer frames first), then the rest by zIndex
+ */
+export function paintOrder<T extends CanvasElement>(elements: T[]): T[] {
+  const frames = elements.filter(isFrame)
+    .map(frame => ({ frame, depth: frameDepth(elements, frame) }))
+    .sort((a, b) => a.depth - b.depth || a.frame.zIndex - b.frame.zIndex)
+    .map(({ frame }) => frame as CanvasElement as T)
+  const rest = elements.filter(e => !isFrame(e)).sort((a, b) => a.zIndex - b.zIndex)
+  return [...frames, ...rest]
+}
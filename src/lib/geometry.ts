@@ -1,3 +1,6 @@
+import type { AnchorPosition } from '@/types'
+import { rotateWithElement } from './rotation'
+
 type Rectangle = {
   x: number
   y: number
@@ -53,6 +56,47 @@ export function anchorForConnection(from: Rectangle, to: Rectangle) {
   return { fromPoint, toPoint }
 }
 
+// Sides of two rectangles that face each other (same rule as anchorForConnection)
+export function facingAnchors(from: Rectangle, to: Rectangle): { fromAnchor: AnchorPosition; toAnchor: AnchorPosition } {
+  const fromCenter = getCenter(from)
+  const toCenter = getCenter(to)
+
+  const dx = toCenter.x - fromCenter.x
+  const dy = toCenter.y - fromCenter.y
+
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0 ? { fromAnchor: 'right', toAnchor: 'left' } : { fromAnchor: 'left', toAnchor: 'right' }
+  }
+  return dy > 0 ? { fromAnchor: 'bottom', toAnchor: 'top' } : { fromAnchor: 'top', toAnchor: 'bottom' }
+}
+
+const ANCHORS: AnchorPosition[] = ['top', 'right', 'bottom', 'left']
+
+/**
+ * Side of a (possibly rotated) element whose middle is closest to `target`,
+ * used by connectors that pick their sides automatically
+ */
+export function nearestAnchor(element: Rectangle & { rotation?: number }, target: Point): AnchorPosition {
+  const { x, y, width, height } = element
+  const middles: Record<AnchorPosition, Point> = {
+    top: { x: x + width / 2, y },
+    right: { x: x + width, y: y + height / 2 },
+    bottom: { x: x + width / 2, y: y + height },
+    left: { x, y: y + height / 2 }
+  }
+  let best: AnchorPosition = 'right'
+  let bestDistance = Infinity
+  ANCHORS.forEach(anchor => {
+    const point = rotateWithElement(element, middles[anchor])
+    const distance = Math.hypot(point.x - target.x, point.y - target.y)
+    if (distance < bestDistance) {
+      best = anchor
+      bestDistance = distance
+    }
+  })
+  return best
+}
+
 export function recalcConnectorPoints(
   connector: { fromId: string; toId: string },
   elements: Array<{ id: string; x: number; y: number; width: number; height: number }>
@@ -0,0 +1,114 @@
+/**
+ * Persistent (nestable) element groups.
+ * Each element lists the groups it belongs to in `groupIds`, outermost first,
+ * so groups need no records of their own and travel with the elements (JSON export, clipboard).
+ */
+import type { ElementID } from '@/types'
+
+type Groupable = { id: ElementID; groupIds?: ElementID[] }
+
+/**
+ * The group a click on the element selects: the outermost group below the entered one,
+ * or null when the element is selected on its own
+ */
+export function selectableGroupOf(element: Groupable, enteredGroupId: ElementID | null): ElementID | null {
+  const groupIds = element.groupIds ?? []
+  const depth = enteredGroupId ? groupIds.indexOf(enteredGroupId) : -1
+  return groupIds[depth + 1] ?? null
+}
+
+export function isInGroup(element: Groupable, groupId: ElementID): boolean {
+  return element.groupIds?.includes(groupId) ?? false
+}
+
+/**
+ * Widen a selection so every selected element brings along the rest of its selectable group
+ */
+export function expandToGroups(elements: Groupable[], ids: ElementID[], enteredGroupId: ElementID | null): ElementID[] {
+  const selected = new Set(ids)
+  const groups = new Set<ElementID>()
+  elements.forEach(e => {
+    const group = selected.has(e.id) ? selectableGroupOf(e, enteredGroupId) : null
+    if (group) groups.add(group)
+  })
+  if (groups.size === 0) return ids
+
+  const members = elements.filter(e => !selected.has(e.id) && [...groups].some(g => isInGroup(e, g)))
+  return [...ids, ...members.map(e => e.id)]
+}
+
+/**
+ * New `groupIds` for the elements of `ids` after wrapping them in group `groupId`.
+ * Inside an entered group the new group nests right below it.
+ */
+export function addGroup(
+  elements: Groupable[],
+  ids: ElementID[],
+  groupId: ElementID,
+  enteredGroupId: ElementID | null
+): Map<ElementID, ElementID[]> {
+  const updates = new Map<ElementID, ElementID[]>()
+  elements.filter(e => ids.includes(e.id)).forEach(e => {
+    const groupIds = e.groupIds ?? []
+    const depth = enteredGroupId ? groupIds.indexOf(enteredGroupId) + 1 : 0
+    updates.set(e.id, [...groupIds.slice(0, depth), groupId, ...groupIds.slice(depth)])
+  })
+  return updates
+}
+
+/**
+ * New `groupIds` after dissolving the selectable groups of the elements of `ids`
+ * (one level; nested groups inside stay intact)
+ */
+export function removeGroups(
+  elements: Groupable[],
+  ids: ElementID[],
+  enteredGroupId: ElementID | null
+): Map<ElementID, ElementID[]> {
+  const dissolved = new Set<ElementID>()
+  elements.forEach(e => {
+    const group = ids.includes(e.id) ? selectableGroupOf(e, enteredGroupId) : null
+    if (group) dissolved.add(group)
+  })
+
+  const updates = new Map<ElementID, ElementID[]>()
+  elements.forEach(e => {
+    if (!e.groupIds?.some(g => dissolved.has(g))) return
+    updates.set(e.id, e.groupIds.filter(g => !dissolved.has(g)))
+  })
+  return updates
+}
+
+/**
+ * Drop groups with fewer than two members, e.g. after deleting part of a group (mutates; works on drafts)
+ */
+export function pruneGroups(elements: Groupable[]): void {
+  const counts = new Map<ElementID, number>()
+  elements.forEach(e => e.groupIds?.forEach(g => counts.set(g, (counts.get(g) ?? 0) + 1)))
+
+  elements.forEach(e => {
+    if (!e.groupIds) return
+    const groupIds = e.groupIds.filter(g => counts.get(g)! > 1)
+    if (groupIds.length === e.groupIds.length) return
+    if (groupIds.length > 0) {
+      e.groupIds = groupIds
+    } else {
+      delete e.groupIds
+    }
+  })
+}
+
+/**
+ * Give copied elements their own groups so pasted copies do not join the originals (mutates)
+ */
+export function renameGroups(elements: Groupable[], createId: () => ElementID): void {
+  pruneGroups(elements)
+  const renamed = new Map<ElementID, ElementID>()
+  elements.forEach(e => {
+    if (!e.groupIds) return
+    e.groupIds = e.groupIds.map(g => {
+      if (!renamed.has(g)) renamed.set(g, createId())
+      return renamed.get(g)!
+    })
+  })
+}
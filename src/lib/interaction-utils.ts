@@ -9,6 +9,7 @@
  */
 
 import type { Viewport } from '@/types'
+import { isPointInElement } from './rotation'
 
 /**
  * Configuration constants for interaction areas
@@ -74,26 +75,14 @@ export function calculateInteractionRadius(
 }
 
 /**
- * Check if a point is within an element's hover buffer zone
+ * Check if a point is within an element's hover buffer zone (follows the element's rotation)
  */
 export function isWithinHoverBuffer(
   point: { x: number; y: number },
-  element: { x: number; y: number; width: number; height: number },
+  element: { x: number; y: number; width: number; height: number; rotation?: number },
   bufferSize: number = INTERACTION_CONFIG.HOVER_BUFFER
 ): boolean {
-  const expandedBounds = {
-    left: element.x - bufferSize,
-    right: element.x + element.width + bufferSize,
-    top: element.y - bufferSize,
-    bottom: element.y + element.height + bufferSize
-  }
-  
-  return (
-    point.x >= expandedBounds.left && 
-    point.x <= expandedBounds.right &&
-    point.y >= expandedBounds.top &&
-    point.y <= expandedBounds.bottom
-  )
+  return isPointInElement(point, element, bufferSize)
 }
 
 /**
@@ -0,0 +1,123 @@
+/**
+ * Streaming helpers shared by the streaming LLM route and its client
+ */
+
+// Line the model writes between the markdown answer and the trailing metadata JSON
+export const STREAM_META_DELIMITER = '===META==='
+
+export type LLMStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'done'; text: string; summary: string }
+  | { type: 'error'; error: string }
+
+/**
+ * Encode one event as a server-sent event frame
+ */
+export function encodeSSE(event: LLMStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * Incremental SSE parser: feed decoded chunks, get complete events back
+ */
+export function createSSEParser() {
+  let buffer = ''
+
+  return {
+    push(chunk: string): LLMStreamEvent[] {
+      buffer += chunk
+      const events: LLMStreamEvent[] = []
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+
+        const data = frame
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n')
+
+        if (data) {
+          try {
+            events.push(JSON.parse(data) as LLMStreamEvent)
+          } catch {
+            // Ignore malformed frames (e.g. proxies injecting comments)
+          }
+        }
+        boundary = buffer.indexOf('\n\n')
+      }
+
+      return events
+    }
+  }
+}
+
+/**
+ * Splits streamed model output into the visible answer and the trailing metadata.
+ * Text that could be the start of the delimiter is held back until it is resolved.
+ */
+export function createAnswerStreamSplitter(delimiter: string = STREAM_META_DELIMITER) {
+  let pending = ''
+  let answer = ''
+  let meta = ''
+  let inMeta = false
+
+  return {
+    // Returns the part of the chunk that can be shown to the user now
+    push(chunk: string): string {
+      if (inMeta) {
+        meta += chunk
+        return ''
+      }
+
+      pending += chunk
+      const index = pending.indexOf(delimiter)
+      if (index !== -1) {
+        const visible = pending.slice(0, index)
+        meta += pending.slice(index + delimiter.length)
+        pending = ''
+        inMeta = true
+        answer += visible
+        return visible
+      }
+
+      const safeLength = Math.max(0, pending.length - (delimiter.length - 1))
+      const visible = pending.slice(0, safeLength)
+      pending = pending.slice(safeLength)
+      answer += visible
+      return visible
+    },
+
+    // Flushes held-back text (when no delimiter ever arrived) and returns the full result
+    finish(): { rest: string; answer: string; meta: string } {
+      const rest = inMeta ? '' : pending
+      answer += rest
+      pending = ''
+      return { rest, answer: answer.trimEnd(), meta: meta.trim() }
+    }
+  }
+}
+
+/**
+ * Parse the metadata JSON written after the delimiter.
+ * Falls back to a truncated answer when the model skipped or mangled it.
+ */
+export function parseStreamMeta(meta: string, answer: string): { summary: string; nextStudy: string } {
+  const fallback = { summary: answer.slice(0, 300), nextStudy: '' }
+
+  const start = meta.indexOf('{')
+  const end = meta.lastIndexOf('}')
+  if (start === -1 || end <= start) return fallback
+
+  try {
+    const parsed = JSON.parse(meta.slice(start, end + 1))
+    return {
+      summary: typeof parsed.summary === 'string' && parsed.summary ? parsed.summary : fallback.summary,
+      nextStudy: typeof parsed.nextStudy === 'string' ? parsed.nextStudy : ''
+    }
+  } catch {
+    return fallback
+  }
+}
@@ -1,15 +1,19 @@
 /**
  * LLM API client (LangChain backend)
  */
+import { createSSEParser } from './llm-stream'
+import type { MindMap } from '@/types'
 
 export type LLMRequest = {
   prompt: string
   mainTheme?: string
+  format?: 'text' | 'map'
 }
 
 export type LLMResponse = {
   text: string
   summary: string
+  map?: MindMap // Only for format: 'map'
 }
 
 export type LLMError = {
@@ -20,13 +24,14 @@ export type LLMError = {
 /**
  * Call LLM API and get response
  */
-export async function callLLM(request: LLMRequest): Promise<LLMResponse> {
+export async function callLLM(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
   const response = await fetch('/api/llm', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify(request)
+    body: JSON.stringify(request),
+    signal
   })
 
   const data = await response.json()
@@ -80,13 +85,99 @@ export type LLMState = {
  * Call LLM API with context and get response
  */
 export async function callLLMWithContext(request: LLMRequest, context: string, mainTheme?: string): Promise<LLMResponse> {
-  let promptWithContext = request.prompt
+  return callLLM(withContext(request, context, mainTheme))
+}
+
+/**
+ * Ask for a mind map of the prompt (with context); fails when the model returned no usable tree
+ */
+export async function generateMindMapWithContext(
+  request: LLMRequest,
+  context: string,
+  mainTheme?: string,
+  signal?: AbortSignal
+): Promise<LLMResponse & { map: MindMap }> {
+  const response = await callLLM(withContext({ ...request, format: 'map' }, context, mainTheme), signal)
+
+  if (!response.map || !response.map.root.trim()) {
+    throw new LLMAPIError('Could not generate a mind map', 502)
+  }
+
+  return response as LLMResponse & { map: MindMap }
+}
+
+export type StreamLLMOptions = {
+  // Called for every streamed chunk with the chunk and the accumulated answer
+  onToken?: (token: string, text: string) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Call the streaming LLM API; resolves with the final response once the stream completes
+ */
+export async function streamLLM(request: LLMRequest, options: StreamLLMOptions = {}): Promise<LLMResponse> {
+  const response = await fetch('/api/llm/stream', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+    signal: options.signal
+  })
 
-  promptWithContext = `${context}New question: ${request.prompt}`
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}))
+    throw new LLMAPIError(data.error || 'LLM API call failed', response.status, data.details)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  const parser = createSSEParser()
+  let text = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    for (const event of parser.push(decoder.decode(value, { stream: true }))) {
+      if (event.type === 'token') {
+        text += event.text
+        options.onToken?.(event.text, text)
+      } else if (event.type === 'done') {
+        return { text: event.text, summary: event.summary }
+      } else {
+        throw new LLMAPIError(event.error, 503)
+      }
+    }
+  }
+
+  throw new LLMAPIError('LLM stream ended unexpectedly', 502)
+}
+
+/**
+ * Streaming variant of callLLMWithContext
+ */
+export async function streamLLMWithContext(
+  request: LLMRequest,
+  context: string,
+  mainTheme: string | undefined,
+  options: StreamLLMOptions = {}
+): Promise<LLMResponse> {
+  return streamLLM(withContext(request, context, mainTheme), options)
+}
 
-  return callLLM({
+/**
+ * Whether an error comes from aborting a request (e.g. the user pressed stop)
+ */
+export function isAbortError(error: unknown): boolean {
+  // DOMException is not always an Error subclass (depends on the runtime)
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError'
+}
+
+function withContext(request: LLMRequest, context: string, mainTheme?: string): LLMRequest {
+  return {
     ...request,
-    prompt: promptWithContext,
+    prompt: `${context}New question: ${request.prompt}`,
     mainTheme: mainTheme || ''
-  })
+  }
 }
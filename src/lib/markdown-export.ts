@@ -0,0 +1,171 @@
+/**
+ * Export board content as a Markdown outline
+ */
+import type { CanvasElement, ChatMessage, Connector, ElementID, MainTheme, RectElement, StickyElement, TextElement } from '@/types'
+import { sortFrames } from './frames'
+
+export type MarkdownExportSource = {
+  elements: CanvasElement[]
+  connectors: Connector[]
+  chatHistory: ChatMessage[]
+  mainTheme: MainTheme | null
+  // Title fallback when there is no main theme
+  boardName?: string
+}
+
+type TextualElement = StickyElement | TextElement
+
+const isTextual = (element: CanvasElement): element is TextualElement =>
+  (element.type === 'sticky' || element.type === 'text') && element.text.trim() !== ''
+
+const area = (rect: RectElement) => rect.width * rect.height
+
+// Top to bottom, left to right
+const readingOrder = <T extends CanvasElement>(items: T[]) => [...items].sort((a, b) => a.y - b.y || a.x - b.x)
+
+// Whether a note's center lies inside the rectangle
+const containsCenter = (rect: RectElement, element: CanvasElement) => {
+  const x = element.x + element.width / 2
+  const y = element.y + element.height / 2
+  return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height
+}
+
+// Continuation lines are indented so they stay inside the list item
+const indentLines = (text: string, indent: string) =>
+  text.split('\n').map((line, i) => (i === 0 || line === '' ? line : `${indent}${line}`)).join('\n')
+
+/**
+ * Nested bullets following connector direction (from → to).
+ * Notes without an incoming connector start a tree; notes reached twice are listed once.
+ */
+function renderOutline(notes: TextualElement[], connectors: Connector[]): string[] {
+  const ids = new Set(notes.map(n => n.id))
+  const order = new Map(notes.map((n, i) => [n.id, i]))
+  const children = new Map<ElementID, TextualElement[]>()
+  const hasParent = new Set<ElementID>()
+  // Connector label of the edge a child was reached through
+  const edgeLabels = new Map<string, string>()
+
+  connectors.forEach(c => {
+    if (!ids.has(c.fromId) || !ids.has(c.toId) || c.fromId === c.toId) return
+    const child = notes[order.get(c.toId)!]
+    children.set(c.fromId, [...(children.get(c.fromId) ?? []), child])
+    hasParent.add(c.toId)
+    if (c.label?.trim()) edgeLabels.set(`${c.fromId}>${c.toId}`, c.label.replace(/\s+/g, ' ').trim())
+  })
+
+  const blocks: string[] = []
+  const visited = new Set<ElementID>()
+
+  const visit = (note: TextualElement, depth: number, parentId?: ElementID) => {
+    visited.add(note.id)
+    const kids = (children.get(note.id) ?? [])
+      .filter(child => !visited.has(child.id))
+      .sort((a, b) => order.get(a.id)! - order.get(b.id)!)
+    const text = note.isMarkdown ? note.text.trim() : note.text.trim().replace(/\n{2,}/g, '\n')
+
+    if (note.isMarkdown && depth === 0 && kids.length === 0) {
+      // Stand-alone Markdown notes are embedded as they are
+      blocks.push(text)
+      return
+    }
+
+    const indent = '  '.repeat(depth)
+    const edgeLabel = parentId ? edgeLabels.get(`${parentId}>${note.id}`) : undefined
+    blocks.push(`${indent}- ${edgeLabel ? `*${edgeLabel}:* ` : ''}${indentLines(text, `${indent}  `)}`)
+    kids.forEach(child => {
+      if (!visited.has(child.id)) visit(child, depth + 1, note.id)
+    })
+  }
+
+  notes.filter(n => !hasParent.has(n.id)).forEach(n => visit(n, 0))
+  // Whatever is only reachable through a cycle
+  notes.forEach(n => {
+    if (!visited.has(n.id)) visit(n, 0)
+  })
+
+  // Blank lines around embedded Markdown so it is not merged into a list
+  return blocks.reduce<string[]>((lines, block, i) => {
+    const isBullet = /^\s*- /.test(block)
+    const previousIsBullet = i > 0 && /^\s*- /.test(blocks[i - 1])
+    if (i > 0 && !(isBullet && previousIsBullet)) lines.push('')
+    lines.push(block)
+    return lines
+  }, [])
+}
+
+/**
+ * Build a Markdown document from the board:
+ * title from the main theme, notes as nested bullets following connectors,
+ * frames and rectangles as sections with the notes inside them, and the chat transcript as an appendix.
+ */
+export function exportBoardAsMarkdown(source: MarkdownExportSource): string {
+  // Frames are explicit sections: their notes are listed under the frame title
+  const frames = sortFrames(source.elements)
+  const frameIds = new Set(frames.map(f => f.id))
+  const framed = new Map<ElementID, TextualElement[]>(frames.map(f => [f.id, []]))
+  const notes: TextualElement[] = []
+  readingOrder(source.elements.filter(isTextual)).forEach(note => {
+    if (note.frameId && frameIds.has(note.frameId)) {
+      framed.get(note.frameId)!.push(note)
+    } else {
+      notes.push(note)
+    }
+  })
+  const rects = readingOrder(source.elements.filter((e): e is RectElement => e.type === 'rect'))
+
+  // Each note belongs to the smallest rectangle around it
+  const sections = new Map<ElementID, TextualElement[]>(rects.map(r => [r.id, []]))
+  const loose: TextualElement[] = []
+  notes.forEach(note => {
+    const owner = rects
+      .filter(rect => containsCenter(rect, note))
+      .sort((a, b) => area(a) - area(b))[0]
+    if (owner) {
+      sections.get(owner.id)!.push(note)
+    } else {
+      loose.push(note)
+    }
+  })
+
+  const title = source.mainTheme?.content.trim().split('\n')[0] || source.boardName || 'Board'
+  const lines = [`# ${title}`]
+
+  if (loose.length > 0) {
+    lines.push('', ...renderOutline(loose, source.connectors))
+  }
+
+  frames.forEach(frame => {
+    const members = framed.get(frame.id)!
+    lines.push('', `## ${frame.title.trim() || 'Frame'}`)
+    if (members.length > 0) {
+      lines.push('', ...renderOutline(members, source.connectors))
+    }
+  })
+
+  rects.forEach((rect, index) => {
+    const members = sections.get(rect.id)!
+    if (members.length === 0) return
+
+    // A plain single-line text box without connectors at the top of the section names it
+    const [first] = members
+    const isHeading = first.type === 'text' && !first.isMarkdown && !first.text.trim().includes('\n') &&
+      !source.connectors.some(c => c.fromId === first.id || c.toId === first.id)
+    const heading = isHeading ? first.text.trim() : `Section ${index + 1}`
+    const body = isHeading ? members.slice(1) : members
+
+    lines.push('', `## ${heading}`)
+    if (body.length > 0) {
+      lines.push('', ...renderOutline(body, source.connectors))
+    }
+  })
+
+  if (source.chatHistory.length > 0) {
+    lines.push('', '## Appendix: Chat transcript')
+    source.chatHistory.forEach(message => {
+      lines.push('', `### ${message.role === 'user' ? 'You' : 'Assistant'}`, '', message.content.trim())
+    })
+  }
+
+  return `${lines.join('\n')}\n`
+}
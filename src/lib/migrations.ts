@@ -0,0 +1,356 @@
+/**
+ * Versioned schema migrations for persisted and imported boards
+ */
+import { z } from 'zod'
+import type { CanvasElement, Connector, ChatMessage, MainTheme, Viewport } from '@/types'
+
+export const CURRENT_DATA_VERSION = '1.1.0'
+
+// Data written before versioning existed (e.g. early exportAsJSON output)
+const UNVERSIONED = '0.0.0'
+
+// Zod schemas for the current board schema
+// (passthrough keeps fields added by newer code instead of silently stripping them)
+const BaseElementSchema = z.object({
+  id: z.string().min(1),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  rotation: z.number().optional(),
+  zIndex: z.number(),
+  locked: z.boolean().optional(),
+  groupIds: z.array(z.string().min(1)).optional(),
+  frameId: z.string().min(1).optional(),
+  createdAt: z.number(),
+  updatedAt: z.number()
+})
+
+const TextAlignSchema = z.enum(['left', 'center', 'right']).optional()
+const VerticalAlignSchema = z.enum(['top', 'middle', 'bottom']).optional()
+const AnchorSchema = z.enum(['top', 'right', 'bottom', 'left'])
+const MarkerSchema = z.enum(['none', 'arrow', 'open-arrow', 'circle', 'diamond', 'bar']).optional()
+
+const ElementSchema = z.discriminatedUnion('type', [
+  BaseElementSchema.extend({
+    type: z.literal('sticky'),
+    text: z.string(),
+    color: z.string(),
+    isMarkdown: z.boolean().optional(),
+    textAlign: TextAlignSchema,
+    verticalAlign: VerticalAlignSchema
+  }).passthrough(),
+  BaseElementSchema.extend({
+    type: z.literal('text'),
+    text: z.string(),
+    fontSize: z.number().positive(),
+    fontFamily: z.string(),
+    isMarkdown: z.boolean().optional(),
+    textAlign: TextAlignSchema,
+    verticalAlign: VerticalAlignSchema
+  }).passthrough(),
+  BaseElementSchema.extend({
+    type: z.literal('rect'),
+    fill: z.string(),
+    stroke: z.string(),
+    strokeWidth: z.number(),
+    radius: z.number().optional()
+  }).passthrough(),
+  BaseElementSchema.extend({
+    type: z.literal('image'),
+    src: z.string().min(1),
+    originalWidth: z.number(),
+    originalHeight: z.number()
+  }).passthrough(),
+  BaseElementSchema.extend({
+    type: z.literal('frame'),
+    title: z.string(),
+    clip: z.boolean().optional()
+  }).passthrough()
+])
+
+const ConnectorSchema = z.object({
+  id: z.string().min(1),
+  fromId: z.string(),
+  toId: z.string(),
+  fromAnchor: AnchorSchema.optional(),
+  toAnchor: AnchorSchema.optional(),
+  points: z.array(z.number()).min(4),
+  stroke: z.string().optional(),
+  strokeWidth: z.number().positive().optional(),
+  dash: z.enum(['solid', 'dashed', 'dotted']).optional(),
+  startMarker: MarkerSchema,
+  endMarker: MarkerSchema,
+  label: z.string().optional(),
+  labelPosition: z.number().min(0).max(1).optional(),
+  routing: z.enum(['straight', 'elbow', 'curved']).optional(),
+  customRoute: z.boolean().optional(),
+  anchorMode: z.enum(['fixed', 'auto']).optional(),
+  zIndex: z.number(),
+  createdAt: z.number(),
+  updatedAt: z.number()
+}).passthrough()
+
+const ChatMessageSchema = z.object({
+  id: z.string().min(1),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  summary: z.string().optional(),
+  timestamp: z.number(),
+  excludedFromContext: z.boolean().optional()
+}).passthrough()
+
+const MainThemeSchema = z.object({
+  id: z.string().min(1),
+  content: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number()
+}).passthrough()
+
+const ViewportSchema = z.object({
+  zoom: z.number().positive(),
+  panX: z.number(),
+  panY: z.number()
+})
+
+// Migrated board data (viewport is only present in JSON exports)
+export type MigratedBoardData = {
+  elements: CanvasElement[]
+  connectors: Connector[]
+  chatHistory: ChatMessage[]
+  mainTheme: MainTheme | null
+  viewport?: Viewport
+  version: string
+  savedAt: number
+}
+
+export type DroppedRecord = {
+  kind: 'element' | 'connector' | 'chatMessage' | 'mainTheme' | 'viewport'
+  id?: string
+  reason: string
+}
+
+// What a migration run changed or dropped
+export type MigrationReport = {
+  fromVersion: string
+  toVersion: string
+  applied: string[]
+  changes: string[]
+  dropped: DroppedRecord[]
+}
+
+type Migration = {
+  from: string
+  to: string
+  description: string
+  migrate: (data: Record<string, any>, report: MigrationReport) => Record<string, any>
+}
+
+/**
+ * Migration error class
+ */
+export class BoardDataMigrationError extends Error {
+  constructor(message: string, public version?: string) {
+    super(message)
+    this.name = 'BoardDataMigrationError'
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Fill a missing field and count how many records needed it
+function fillDefault(
+  records: Record<string, any>[],
+  field: string,
+  value: (record: Record<string, any>, index: number) => unknown,
+  predicate: (record: Record<string, any>) => boolean = () => true
+): number {
+  let count = 0
+  records.forEach((record, index) => {
+    if (predicate(record) && record[field] === undefined) {
+      record[field] = value(record, index)
+      count++
+    }
+  })
+  return count
+}
+
+// Registry of step-by-step upgrades, in order
+const MIGRATIONS: Migration[] = [
+  {
+    from: UNVERSIONED,
+    to: '1.0.0',
+    description: 'Add version stamp and fill element/connector defaults',
+    migrate: (data, report) => {
+      const timestamp = typeof data.savedAt === 'number' ? data.savedAt : Date.now()
+      const elements: Record<string, any>[] = Array.isArray(data.elements) ? data.elements.filter(isObject) : []
+      const connectors: Record<string, any>[] = Array.isArray(data.connectors) ? data.connectors.filter(isObject) : []
+
+      const filled = [
+        ['zIndex', fillDefault(elements, 'zIndex', (_, i) => i + 1)],
+        ['createdAt', fillDefault(elements, 'createdAt', () => timestamp)],
+        ['updatedAt', fillDefault(elements, 'updatedAt', () => timestamp)],
+        ['sticky color', fillDefault(elements, 'color', () => '#FFF2B2', e => e.type === 'sticky')],
+        ['text fontSize', fillDefault(elements, 'fontSize', () => 16, e => e.type === 'text')],
+        ['text fontFamily', fillDefault(elements, 'fontFamily', () => 'Arial', e => e.type === 'text')],
+        ['rect fill', fillDefault(elements, 'fill', () => 'transparent', e => e.type === 'rect')],
+        ['rect stroke', fillDefault(elements, 'stroke', () => '#000000', e => e.type === 'rect')],
+        ['rect strokeWidth', fillDefault(elements, 'strokeWidth', () => 2, e => e.type === 'rect')],
+        ['connector zIndex', fillDefault(connectors, 'zIndex', (_, i) => elements.length + i + 1)],
+        ['connector fromId', fillDefault(connectors, 'fromId', () => '')],
+        ['connector toId', fillDefault(connectors, 'toId', () => '')],
+        ['connector createdAt', fillDefault(connectors, 'createdAt', () => timestamp)],
+        ['connector updatedAt', fillDefault(connectors, 'updatedAt', () => timestamp)]
+      ] as const
+
+      filled.forEach(([field, count]) => {
+        if (count > 0) report.changes.push(`Filled missing ${field} on ${count} record(s)`)
+      })
+
+      return { ...data, elements, connectors, savedAt: timestamp }
+    }
+  },
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Add chat history and main theme',
+    migrate: (data, report) => {
+      const next = { ...data }
+      if (!Array.isArray(next.chatHistory)) {
+        next.chatHistory = []
+        report.changes.push('Added empty chat history')
+      }
+      if (next.mainTheme === undefined) {
+        next.mainTheme = null
+        report.changes.push('Added empty main theme')
+      }
+      return next
+    }
+  }
+]
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || 'value'}: ${issue.message}`).join('; ')
+
+// Validate each record on its own so one bad sticky does not discard the whole board
+function validateRecords<T>(
+  records: unknown,
+  schema: z.ZodTypeAny,
+  kind: DroppedRecord['kind'],
+  report: MigrationReport
+): T[] {
+  if (!Array.isArray(records)) return []
+
+  const valid: T[] = []
+  for (const record of records) {
+    const result = schema.safeParse(record)
+    if (result.success) {
+      valid.push(result.data as T)
+    } else {
+      report.dropped.push({
+        kind,
+        id: isObject(record) && typeof record.id === 'string' ? record.id : undefined,
+        reason: describeIssues(result.error)
+      })
+    }
+  }
+  return valid
+}
+
+/**
+ * Upgrade board data of any known version to the current schema and validate it
+ */
+export function migrateBoardData(input: unknown): { data: MigratedBoardData; report: MigrationReport } {
+  if (!isObject(input)) {
+    throw new BoardDataMigrationError('Board data must be an object')
+  }
+
+  const fromVersion = typeof input.version === 'string' ? input.version : UNVERSIONED
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: CURRENT_DATA_VERSION,
+    applied: [],
+    changes: [],
+    dropped: []
+  }
+
+  let data: Record<string, any> = { ...input }
+  let version = fromVersion
+
+  while (version !== CURRENT_DATA_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === version)
+    if (!migration) {
+      throw new BoardDataMigrationError(`Unsupported board data version: ${version}`, version)
+    }
+    data = migration.migrate(data, report)
+    report.applied.push(`${migration.from} → ${migration.to}: ${migration.description}`)
+    version = migration.to
+  }
+
+  const elements = validateRecords<CanvasElement>(data.elements, ElementSchema, 'element', report)
+  const elementIds = new Set(elements.map(e => e.id))
+
+  const connectors = validateRecords<Connector>(data.connectors, ConnectorSchema, 'connector', report)
+    .filter(connector => {
+      const missing = [connector.fromId, connector.toId].find(id => id !== '' && !elementIds.has(id))
+      if (missing) {
+        report.dropped.push({ kind: 'connector', id: connector.id, reason: `references missing element ${missing}` })
+        return false
+      }
+      return true
+    })
+
+  const chatHistory = validateRecords<ChatMessage>(data.chatHistory, ChatMessageSchema, 'chatMessage', report)
+
+  let mainTheme: MainTheme | null = null
+  if (data.mainTheme != null) {
+    const result = MainThemeSchema.safeParse(data.mainTheme)
+    if (result.success) {
+      mainTheme = result.data as MainTheme
+    } else {
+      report.dropped.push({ kind: 'mainTheme', reason: describeIssues(result.error) })
+    }
+  }
+
+  let viewport: Viewport | undefined
+  if (data.viewport != null) {
+    const result = ViewportSchema.safeParse(data.viewport)
+    if (result.success) {
+      viewport = result.data
+    } else {
+      report.dropped.push({ kind: 'viewport', reason: describeIssues(result.error) })
+    }
+  }
+
+  return {
+    data: {
+      elements,
+      connectors,
+      chatHistory,
+      mainTheme,
+      ...(viewport ? { viewport } : {}),
+      version: CURRENT_DATA_VERSION,
+      savedAt: typeof data.savedAt === 'number' ? data.savedAt : Date.now()
+    },
+    report
+  }
+}
+
+/**
+ * Whether a migration run changed anything worth telling the user about
+ */
+export function hasMigrationChanges(report: MigrationReport): boolean {
+  return report.applied.length > 0 || report.changes.length > 0 || report.dropped.length > 0
+}
+
+/**
+ * Human-readable one-line-per-entry summary of a migration report
+ */
+export function formatMigrationReport(report: MigrationReport): string {
+  const lines = [`Migrated board data ${report.fromVersion} → ${report.toVersion}`]
+  report.applied.forEach(step => lines.push(`- applied ${step}`))
+  report.changes.forEach(change => lines.push(`- ${change}`))
+  report.dropped.forEach(d => lines.push(`- dropped ${d.kind}${d.id ? ` ${d.id}` : ''}: ${d.reason}`))
+  return lines.join('\n')
+}
@@ -0,0 +1,108 @@
+/**
+ * Radial layout for LLM-generated mind maps
+ */
+import type { AnchorPosition, MindMap } from '@/types'
+import { facingAnchors } from './geometry'
+
+type Point = { x: number; y: number }
+type Size = { width: number; height: number }
+
+export type MindMapLayoutNode = {
+  key: string
+  label: string
+  level: 0 | 1 | 2
+  // Top-left corner of the sticky
+  x: number
+  y: number
+}
+
+export type MindMapLayoutEdge = {
+  from: string
+  to: string
+  fromAnchor: AnchorPosition
+  toAnchor: AnchorPosition
+}
+
+export type MindMapLayout = {
+  nodes: MindMapLayoutNode[]
+  edges: MindMapLayoutEdge[]
+}
+
+const DEFAULT_NODE_SIZE: Size = { width: 200, height: 150 }
+const NODE_GAP = 60
+const MIN_BRANCH_RADIUS = 320
+const LEAF_RING_OFFSET = 300
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase()
+
+/**
+ * Place the root at `center`, branches on a ring around it and leaves fanned out behind their branch.
+ * Relations (cross links by label) become extra edges when both ends exist.
+ */
+export function layoutMindMap(map: MindMap, center: Point, nodeSize: Size = DEFAULT_NODE_SIZE): MindMapLayout {
+  const centers = new Map<string, Point>()
+  const nodes: MindMapLayoutNode[] = []
+  const edges: MindMapLayoutEdge[] = []
+  const keysByLabel = new Map<string, string>()
+
+  const boxAt = (center: Point) => ({
+    x: center.x - nodeSize.width / 2,
+    y: center.y - nodeSize.height / 2,
+    ...nodeSize
+  })
+
+  const place = (key: string, label: string, level: MindMapLayoutNode['level'], point: Point) => {
+    centers.set(key, point)
+    const { x, y } = boxAt(point)
+    nodes.push({ key, label, level, x, y })
+    if (!keysByLabel.has(normalizeLabel(label))) {
+      keysByLabel.set(normalizeLabel(label), key)
+    }
+  }
+
+  const connect = (from: string, to: string) => {
+    if (from === to || edges.some(e => (e.from === from && e.to === to) || (e.from === to && e.to === from))) return
+    edges.push({ from, to, ...facingAnchors(boxAt(centers.get(from)!), boxAt(centers.get(to)!)) })
+  }
+
+  place('root', map.root, 0, center)
+
+  const branches = map.children.filter(branch => branch.label.trim())
+  const step = nodeSize.width + NODE_GAP
+  // Big enough that neighbouring branches do not overlap
+  const branchRadius = Math.max(MIN_BRANCH_RADIUS, (branches.length * step) / (2 * Math.PI))
+  const leafRadius = branchRadius + LEAF_RING_OFFSET
+  const sector = (2 * Math.PI) / Math.max(branches.length, 1)
+
+  branches.forEach((branch, i) => {
+    // Start at 12 o'clock and go clockwise
+    const angle = -Math.PI / 2 + i * sector
+    const branchKey = `branch-${i}`
+    place(branchKey, branch.label, 1, {
+      x: center.x + branchRadius * Math.cos(angle),
+      y: center.y + branchRadius * Math.sin(angle)
+    })
+    connect('root', branchKey)
+
+    const leaves = branch.children.filter(label => label.trim())
+    // Angular distance between leaves, squeezed to stay inside this branch's sector
+    const leafStep = Math.min(step / leafRadius, (sector * 0.9) / Math.max(leaves.length, 1))
+    leaves.forEach((label, j) => {
+      const leafAngle = angle + (j - (leaves.length - 1) / 2) * leafStep
+      const leafKey = `${branchKey}-${j}`
+      place(leafKey, label, 2, {
+        x: center.x + leafRadius * Math.cos(leafAngle),
+        y: center.y + leafRadius * Math.sin(leafAngle)
+      })
+      connect(branchKey, leafKey)
+    })
+  })
+
+  map.relations.forEach(relation => {
+    const from = keysByLabel.get(normalizeLabel(relation.from))
+    const to = keysByLabel.get(normalizeLabel(relation.to))
+    if (from && to) connect(from, to)
+  })
+
+  return { nodes, edges }
+}
@@ -0,0 +1,149 @@
+/**
+ * Parse Markdown outlines (headings + nested bullets) or indented plain text into a tree
+ * and lay it out as connected stickies
+ */
+import type { AnchorPosition } from '@/types'
+import { computeLayout, type LayoutNode } from './auto-layout'
+import { facingAnchors } from './geometry'
+
+export type OutlineNode = {
+  label: string
+  children: OutlineNode[]
+}
+
+export type OutlineLayoutNode = {
+  key: string
+  label: string
+  // Top-left corner of the sticky
+  x: number
+  y: number
+}
+
+export type OutlineLayoutEdge = {
+  from: string
+  to: string
+  fromAnchor: AnchorPosition
+  toAnchor: AnchorPosition
+}
+
+export type OutlineLayout = {
+  nodes: OutlineLayoutNode[]
+  edges: OutlineLayoutEdge[]
+}
+
+const DEFAULT_NODE_SIZE = { width: 200, height: 150 }
+const TAB_WIDTH = 4
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+// "-", "*", "+", "1." or "1)" with an optional task checkbox
+const BULLET = /^(?:[-*+]|\d+[.)])(?:\s+|$)(?:\[[ xX]\]\s+)?(.*)$/
+const FENCE = /^(```|~~~)/
+const RULE = /^([-*_])(\s*\1){2,}$/
+
+const indentOf = (line: string) =>
+  line.match(/^[ \t]*/)![0].split('').reduce((width, char) => width + (char === '\t' ? TAB_WIDTH : 1), 0)
+
+/**
+ * Build a forest from headings, bullets and indentation.
+ * Headings nest by level, bullets and plain lines nest by indentation under the latest heading.
+ * A plain line indented deeper than the bullet above it continues that bullet.
+ */
+export function parseOutline(text: string): OutlineNode[] {
+  const roots: OutlineNode[] = []
+  const headings: { level: number; node: OutlineNode }[] = []
+  let items: { indent: number; node: OutlineNode; isBullet: boolean }[] = []
+  let inFence = false
+
+  const attach = (node: OutlineNode, parent: OutlineNode | undefined) => {
+    (parent ? parent.children : roots).push(node)
+  }
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    if (FENCE.test(line.trim())) {
+      inFence = !inFence
+      return
+    }
+    if (inFence || line.trim() === '' || RULE.test(line.trim())) return
+
+    const content = line.trim()
+    const indent = indentOf(line)
+    const heading = content.match(HEADING)
+    // Indented by a tab or more, "#" is code in Markdown
+    if (heading && indent < TAB_WIDTH) {
+      const level = heading[1].length
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop()
+      const node = { label: heading[2], children: [] }
+      attach(node, headings[headings.length - 1]?.node)
+      headings.push({ level, node })
+      items = []
+      return
+    }
+
+    const bullet = content.match(BULLET)
+    const last = items[items.length - 1]
+
+    if (!bullet && last?.isBullet && indent > last.indent) {
+      last.node.label += `\n${content}`
+      return
+    }
+
+    while (items.length > 0 && items[items.length - 1].indent >= indent) items.pop()
+    const node = { label: bullet ? bullet[1].trim() : content, children: [] }
+    attach(node, items[items.length - 1]?.node ?? headings[headings.length - 1]?.node)
+    items.push({ indent, node, isBullet: !!bullet })
+  })
+
+  // Empty bullets ("- ") carry no text but may still group children
+  const prune = (nodes: OutlineNode[]): OutlineNode[] => nodes.flatMap(node => {
+    const children = prune(node.children)
+    return node.label ? [{ label: node.label, children }] : children
+  })
+  return prune(roots)
+}
+
+const countNodes = (nodes: OutlineNode[]): number =>
+  nodes.reduce((sum, node) => sum + 1 + countNodes(node.children), 0)
+
+/**
+ * Whether text has enough structure to become a tree (at least one parent/child pair).
+ * Used to tell outlines apart from ordinary pasted text.
+ */
+export function isOutlineText(text: string): boolean {
+  const roots = parseOutline(text)
+  return countNodes(roots) > 1 && roots.some(root => root.children.length > 0)
+}
+
+/**
+ * Lay the outline out as a left-to-right tree whose top-left corner is `origin`
+ */
+export function layoutOutline(
+  roots: OutlineNode[],
+  origin: { x: number; y: number },
+  nodeSize: { width: number; height: number } = DEFAULT_NODE_SIZE
+): OutlineLayout {
+  const nodes: OutlineLayoutNode[] = []
+  const edges: { from: string; to: string }[] = []
+  const layoutNodes: LayoutNode[] = []
+
+  // Seed positions encode depth and document order, which the tree layout keeps
+  const walk = (node: OutlineNode, key: string, depth: number, parent?: string) => {
+    nodes.push({ key, label: node.label, x: origin.x, y: origin.y })
+    layoutNodes.push({ id: key, x: origin.x + depth * nodeSize.width, y: origin.y + layoutNodes.length, ...nodeSize })
+    if (parent) edges.push({ from: parent, to: key })
+    node.children.forEach((child, i) => walk(child, `${key}-${i}`, depth + 1, key))
+  }
+  roots.forEach((root, i) => walk(root, `n${i}`, 0))
+
+  const positions = computeLayout('tree-right', layoutNodes, edges)
+  nodes.forEach(node => Object.assign(node, positions.get(node.key)))
+
+  const boxOf = (key: string) => {
+    const { x, y } = nodes.find(n => n.key === key)!
+    return { x, y, ...nodeSize }
+  }
+
+  return {
+    nodes,
+    edges: edges.map(edge => ({ ...edge, ...facingAnchors(boxOf(edge.from), boxOf(edge.to)) }))
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Minimal PDF writer: pages that each show one JPEG image
+ */
+
+// CSS pixels → PDF points
+export const PX_TO_PT = 72 / 96
+
+const encoder = new TextEncoder()
+
+export type PdfImagePage = {
+  jpeg: Uint8Array
+  // The JPEG's own dimensions (it may be rendered at a higher scale than the page)
+  pixelWidth: number
+  pixelHeight: number
+  // Page size in points
+  pageWidth: number
+  pageHeight: number
+}
+
+/**
+ * Build a one-page PDF whose page is `pageWidth` × `pageHeight` points, filled by the JPEG.
+ * `pixelWidth`/`pixelHeight` are the JPEG's own dimensions (it may be rendered at a higher scale).
+ */
+export function createImagePdf(
+  jpeg: Uint8Array,
+  pixelWidth: number,
+  pixelHeight: number,
+  pageWidth: number,
+  pageHeight: number
+): Uint8Array {
+  return createImagesPdf([{ jpeg, pixelWidth, pixelHeight, pageWidth, pageHeight }])
+}
+
+/**
+ * Build a PDF with one page per image, in order
+ */
+export function createImagesPdf(pages: PdfImagePage[]): Uint8Array {
+  // Objects 1 and 2 are the catalog and page tree; each page adds page, image and content objects
+  const pageObject = (index: number) => 3 + index * 3
+  const kids = pages.map((_, i) => `${pageObject(i)} 0 R`).join(' ')
+
+  // Objects in order; image stream bodies are spliced in as binary
+  const objects: (string | [string, Uint8Array, string])[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`
+  ]
+  pages.forEach((page, i) => {
+    const w = page.pageWidth.toFixed(2)
+    const h = page.pageHeight.toFixed(2)
+    const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`
+    const image = pageObject(i) + 1
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 ${image} 0 R >> >> /Contents ${image + 1} 0 R >>`,
+      [
+        `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+        page.jpeg,
+        '\nendstream'
+      ],
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  const chunks: Uint8Array[] = []
+  let length = 0
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk
+    chunks.push(bytes)
+    length += bytes.length
+  }
+
+  push('%PDF-1.4\n')
+  const offsets: number[] = []
+  objects.forEach((object, i) => {
+    offsets.push(length)
+    push(`${i + 1} 0 obj\n`)
+    if (typeof object === 'string') {
+      push(object)
+    } else {
+      object.forEach(push)
+    }
+    push('\nendobj\n')
+  })
+
+  const xrefOffset = length
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`)
+  offsets.forEach(offset => push(`${String(offset).padStart(10, '0')} 00000 n \n`))
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  const pdf = new Uint8Array(length)
+  let position = 0
+  chunks.forEach(chunk => {
+    pdf.set(chunk, position)
+    position += chunk.length
+  })
+  return pdf
+}
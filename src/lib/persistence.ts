@@ -1,171 +1,461 @@
-import type { CanvasElement, Connector, Viewport } from '@/types'
+import type { CanvasElement, Connector, Viewport, ChatMessage, MainTheme } from '@/types'
+import { nanoid } from 'nanoid'
 import { logger } from '@/lib/logger'
+import { CURRENT_DATA_VERSION, migrateBoardData, hasMigrationChanges, formatMigrationReport } from '@/lib/migrations'
 
-// localStorage keys
-const STORAGE_KEY = 'llm-whiteboard-data'
-const VIEWPORT_KEY = 'llm-whiteboard-viewport'
+// IndexedDB database layout
+const DB_NAME = 'llm-whiteboard'
+const DB_VERSION = 1
+const BOARDS_STORE = 'boards'
+const BOARD_DATA_STORE = 'boardData'
+const VIEWPORTS_STORE = 'viewports'
 
-// Type for data to persist
-export interface PersistedBoardData {
+type StoreName = typeof BOARDS_STORE | typeof BOARD_DATA_STORE | typeof VIEWPORTS_STORE
+
+// Pointer to the last opened board (small value, kept in localStorage)
+const ACTIVE_BOARD_KEY = 'llm-whiteboard-active-board'
+
+// Legacy single-board localStorage keys (migrated on first load)
+const LEGACY_STORAGE_KEY = 'llm-whiteboard-data'
+const LEGACY_VIEWPORT_KEY = 'llm-whiteboard-viewport'
+
+export const DEFAULT_BOARD_NAME = 'Untitled board'
+
+// Board list entry
+export interface BoardMeta {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  lastOpenedAt: number
+}
+
+// Board content that is saved on every change
+export interface BoardSnapshot {
   elements: CanvasElement[]
   connectors: Connector[]
+  chatHistory?: ChatMessage[]
+  mainTheme?: MainTheme | null
+}
+
+// Type for data to persist
+export interface PersistedBoardData extends BoardSnapshot {
   version: string
   savedAt: number
 }
 
 // Viewport information type (Konva-based)
-export interface PersistedViewport {
-  zoom: number
-  panX: number
-  panY: number
+export interface PersistedViewport extends Viewport {
   savedAt: number
 }
 
-// Save data to localStorage
-export function saveBoardData(elements: CanvasElement[], connectors: Connector[]): void {
-  // Execute only on client-side
-  if (typeof window === 'undefined') return
+// Minimal key-value backend so IndexedDB can be swapped for memory (SSR, tests)
+interface StorageBackend {
+  get<T>(store: StoreName, key: string): Promise<T | undefined>
+  getAll<T>(store: StoreName): Promise<T[]>
+  put<T>(store: StoreName, key: string, value: T): Promise<void>
+  delete(store: StoreName, key: string): Promise<void>
+}
 
-  try {
-    const data: PersistedBoardData = {
-      elements,
-      connectors,
-      version: '1.0.0',
-      savedAt: Date.now()
+function cloneValue<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function createMemoryBackend(): StorageBackend {
+  const stores = new Map<StoreName, Map<string, unknown>>()
+  const getStore = (name: StoreName) => {
+    let store = stores.get(name)
+    if (!store) {
+      store = new Map()
+      stores.set(name, store)
     }
+    return store
+  }
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data))
-  } catch (error) {
-    logger.warn('Failed to save board data to localStorage', error)
+  return {
+    async get<T>(store: StoreName, key: string) {
+      const value = getStore(store).get(key)
+      return value === undefined ? undefined : cloneValue(value as T)
+    },
+    async getAll<T>(store: StoreName) {
+      return Array.from(getStore(store).values()).map(value => cloneValue(value as T))
+    },
+    async put<T>(store: StoreName, key: string, value: T) {
+      getStore(store).set(key, cloneValue(value))
+    },
+    async delete(store: StoreName, key: string) {
+      getStore(store).delete(key)
+    }
+  }
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function createIndexedDBBackend(factory: IDBFactory): StorageBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const openDatabase = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = factory.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          for (const name of [BOARDS_STORE, BOARD_DATA_STORE, VIEWPORTS_STORE]) {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name)
+            }
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          dbPromise = null
+          reject(request.error)
+        }
+      })
+    }
+    return dbPromise
+  }
+
+  const withStore = async <T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDatabase()
+    const transaction = db.transaction(store, mode)
+    return promisifyRequest(fn(transaction.objectStore(store)))
+  }
+
+  return {
+    async get<T>(store: StoreName, key: string) {
+      return withStore<T | undefined>(store, 'readonly', s => s.get(key))
+    },
+    async getAll<T>(store: StoreName) {
+      return withStore<T[]>(store, 'readonly', s => s.getAll())
+    },
+    async put<T>(store: StoreName, key: string, value: T) {
+      await withStore(store, 'readwrite', s => s.put(value, key))
+    },
+    async delete(store: StoreName, key: string) {
+      await withStore(store, 'readwrite', s => s.delete(key))
+    }
+  }
+}
+
+let backend: StorageBackend | null = null
+
+function getBackend(): StorageBackend {
+  if (!backend) {
+    backend = typeof indexedDB !== 'undefined'
+      ? createIndexedDBBackend(indexedDB)
+      : createMemoryBackend()
   }
+  return backend
+}
+
+// Storage backend in use, for reading and writing raw records (tests only)
+export function _getStorageBackend(): StorageBackend {
+  return getBackend()
+}
+
+// Reset storage backend (tests only)
+export function _resetStorageBackend(): void {
+  cancelPendingSaves()
+  backend = null
 }
 
-// Restore data from localStorage
-export function loadBoardData(): PersistedBoardData | null {
-  // Execute only on client-side
+// Active board pointer
+export function getActiveBoardId(): string | null {
   if (typeof window === 'undefined') return null
 
   try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (!stored) return null
+    return localStorage.getItem(ACTIVE_BOARD_KEY)
+  } catch {
+    return null
+  }
+}
 
-    const data = JSON.parse(stored) as PersistedBoardData
+export function setActiveBoardId(boardId: string): void {
+  if (typeof window === 'undefined') return
 
-    // Version check (for future migrations)
-    if (!data.version || !data.elements || !data.connectors) {
-      logger.warn('Invalid board data format, ignoring stored data')
-      return null
-    }
+  try {
+    localStorage.setItem(ACTIVE_BOARD_KEY, boardId)
+  } catch (error) {
+    logger.warn('Failed to remember active board', error)
+  }
+}
 
-    return data
+// List boards, most recently opened first
+export async function listBoards(): Promise<BoardMeta[]> {
+  try {
+    const boards = await getBackend().getAll<BoardMeta>(BOARDS_STORE)
+    return boards.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt)
   } catch (error) {
-    logger.warn('Failed to load board data from localStorage', error)
+    logger.warn('Failed to list boards', error)
+    return []
+  }
+}
+
+export async function getBoardMeta(boardId: string): Promise<BoardMeta | null> {
+  try {
+    return (await getBackend().get<BoardMeta>(BOARDS_STORE, boardId)) ?? null
+  } catch (error) {
+    logger.warn('Failed to read board metadata', error)
     return null
   }
 }
 
-// Clear data from localStorage
-export function clearBoardData(): void {
-  // Execute only on client-side
-  if (typeof window === 'undefined') return
+// Create a new board, optionally seeded with content
+export async function createBoard(
+  name: string = DEFAULT_BOARD_NAME,
+  snapshot?: BoardSnapshot,
+  viewport?: Viewport
+): Promise<BoardMeta> {
+  const now = Date.now()
+  const meta: BoardMeta = {
+    id: nanoid(),
+    name: name.trim() || DEFAULT_BOARD_NAME,
+    createdAt: now,
+    updatedAt: now,
+    lastOpenedAt: now
+  }
+
+  await getBackend().put(BOARDS_STORE, meta.id, meta)
+  await saveBoardData(meta.id, snapshot ?? { elements: [], connectors: [], chatHistory: [], mainTheme: null })
+  if (viewport) {
+    await saveViewport(meta.id, { ...viewport, savedAt: now })
+  }
+  return meta
+}
+
+export async function renameBoard(boardId: string, name: string): Promise<BoardMeta | null> {
+  const meta = await getBoardMeta(boardId)
+  if (!meta) return null
+
+  const renamed: BoardMeta = {
+    ...meta,
+    name: name.trim() || meta.name,
+    updatedAt: Date.now()
+  }
+  await getBackend().put(BOARDS_STORE, boardId, renamed)
+  return renamed
+}
+
+// Copy a board's content and viewport into a new board
+export async function duplicateBoard(boardId: string, name?: string): Promise<BoardMeta | null> {
+  const meta = await getBoardMeta(boardId)
+  if (!meta) return null
+
+  await flushPendingSaves()
+  const data = await loadBoardData(boardId)
+  const viewport = await loadViewport(boardId)
+
+  return createBoard(
+    name ?? `${meta.name} (copy)`,
+    data ?? { elements: [], connectors: [] },
+    viewport ?? undefined
+  )
+}
+
+export async function deleteBoard(boardId: string): Promise<void> {
+  cancelPendingSaves(boardId)
 
   try {
-    localStorage.removeItem(STORAGE_KEY)
+    const store = getBackend()
+    await store.delete(BOARDS_STORE, boardId)
+    await store.delete(BOARD_DATA_STORE, boardId)
+    await store.delete(VIEWPORTS_STORE, boardId)
   } catch (error) {
-    logger.warn('Failed to clear board data from localStorage', error)
+    logger.warn('Failed to delete board', error)
+  }
+
+  if (getActiveBoardId() === boardId && typeof window !== 'undefined') {
+    try {
+      localStorage.removeItem(ACTIVE_BOARD_KEY)
+    } catch {}
   }
 }
 
-// Save viewport information (Konva-based)
-export function saveViewport(viewport: PersistedViewport): void {
-  // Execute only on client-side
-  if (typeof window === 'undefined') return
+// Mark board as opened (drives the "recent" ordering)
+export async function touchBoard(boardId: string): Promise<void> {
+  const meta = await getBoardMeta(boardId)
+  if (!meta) return
 
   try {
-    const dataToSave = {
-      ...viewport,
-      savedAt: Date.now()
+    await getBackend().put(BOARDS_STORE, boardId, { ...meta, lastOpenedAt: Date.now() })
+  } catch (error) {
+    logger.warn('Failed to update board access time', error)
+  }
+}
+
+// Save board content
+export async function saveBoardData(boardId: string, snapshot: BoardSnapshot): Promise<void> {
+  try {
+    const now = Date.now()
+    const data: PersistedBoardData = {
+      elements: snapshot.elements,
+      connectors: snapshot.connectors,
+      chatHistory: snapshot.chatHistory ?? [],
+      mainTheme: snapshot.mainTheme ?? null,
+      version: CURRENT_DATA_VERSION,
+      savedAt: now
     }
 
-    const jsonString = JSON.stringify(dataToSave)
-    localStorage.setItem(VIEWPORT_KEY, jsonString)
+    const store = getBackend()
+    await store.put(BOARD_DATA_STORE, boardId, data)
+
+    const meta = await store.get<BoardMeta>(BOARDS_STORE, boardId)
+    if (meta) {
+      await store.put(BOARDS_STORE, boardId, { ...meta, updatedAt: now })
+    }
   } catch (error) {
-    logger.warn('Failed to save viewport to localStorage', error)
+    logger.warn('Failed to save board data', error)
   }
 }
 
-// Restore viewport information
-export function loadViewport(): PersistedViewport | null {
-  // Execute only on client-side
-  if (typeof window === 'undefined') return null
-
+// Restore board content (older schema versions are migrated on read).
+// Throws when the stored data cannot be read (e.g. written by a newer version); the record is left as it is.
+export async function loadBoardData(boardId: string): Promise<PersistedBoardData | null> {
   try {
-    const stored = localStorage.getItem(VIEWPORT_KEY)
+    const stored = await getBackend().get<unknown>(BOARD_DATA_STORE, boardId)
+    if (!stored) return null
 
-    if (!stored) {
-      return null
+    const { data, report } = migrateBoardData(stored)
+    if (hasMigrationChanges(report)) {
+      logger.info(formatMigrationReport(report))
     }
 
-    const viewport = JSON.parse(stored) as PersistedViewport
-    return viewport
+    return {
+      elements: data.elements,
+      connectors: data.connectors,
+      chatHistory: data.chatHistory,
+      mainTheme: data.mainTheme,
+      version: data.version,
+      savedAt: data.savedAt
+    }
   } catch (error) {
-    logger.warn('Failed to load viewport from localStorage', error)
+    logger.warn('Failed to load board data', error)
+    throw error
+  }
+}
+
+// Save viewport information (Konva-based)
+export async function saveViewport(boardId: string, viewport: PersistedViewport): Promise<void> {
+  try {
+    await getBackend().put(VIEWPORTS_STORE, boardId, {
+      zoom: viewport.zoom,
+      panX: viewport.panX,
+      panY: viewport.panY,
+      savedAt: Date.now()
+    })
+  } catch (error) {
+    logger.warn('Failed to save viewport', error)
+  }
+}
+
+// Restore viewport information
+export async function loadViewport(boardId: string): Promise<PersistedViewport | null> {
+  try {
+    return (await getBackend().get<PersistedViewport>(VIEWPORTS_STORE, boardId)) ?? null
+  } catch (error) {
+    logger.warn('Failed to load viewport', error)
     return null
   }
 }
 
-// Clear viewport information
-export function clearViewport(): void {
-  // Execute only on client-side
-  if (typeof window === 'undefined') return
+// Move the pre-workspace single board out of localStorage into its own board
+export async function migrateLegacyStorage(): Promise<BoardMeta | null> {
+  if (typeof window === 'undefined') return null
 
   try {
-    localStorage.removeItem(VIEWPORT_KEY)
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY)
+    if (!stored) return null
+
+    const { data: legacy, report } = migrateBoardData(JSON.parse(stored))
+    if (hasMigrationChanges(report)) {
+      logger.info(formatMigrationReport(report))
+    }
+    const storedViewport = localStorage.getItem(LEGACY_VIEWPORT_KEY)
+    const viewport = storedViewport ? (JSON.parse(storedViewport) as PersistedViewport) : undefined
+
+    const meta = await createBoard(
+      'My board',
+      { elements: legacy.elements, connectors: legacy.connectors },
+      viewport ? { zoom: viewport.zoom, panX: viewport.panX, panY: viewport.panY } : undefined
+    )
+
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
+    localStorage.removeItem(LEGACY_VIEWPORT_KEY)
+    return meta
   } catch (error) {
-    logger.warn('Failed to clear viewport from localStorage', error)
+    logger.warn('Failed to migrate legacy board data', error)
+    return null
   }
 }
 
-// Timer management for debouncing
-let saveTimer: NodeJS.Timeout | null = null
-let viewportTimer: NodeJS.Timeout | null = null
+// Timer management for debouncing (one pending save per board)
+type PendingSave = { timer: ReturnType<typeof setTimeout>; run: () => Promise<void> }
+const pendingBoardSaves = new Map<string, PendingSave>()
+const pendingViewportSaves = new Map<string, PendingSave>()
+
+function schedule(
+  pending: Map<string, PendingSave>,
+  boardId: string,
+  run: () => Promise<void>,
+  delayMs: number
+) {
+  const existing = pending.get(boardId)
+  if (existing) {
+    clearTimeout(existing.timer)
+  }
+
+  const timer = setTimeout(() => {
+    pending.delete(boardId)
+    void run()
+  }, delayMs)
+  pending.set(boardId, { timer, run })
+}
 
 // Debounced save (wait 1 second before saving)
 export function debouncedSaveBoardData(
-  elements: CanvasElement[],
-  connectors: Connector[],
+  boardId: string,
+  snapshot: BoardSnapshot,
   delayMs: number = 1000
 ): void {
-  // Clear existing timer
-  if (saveTimer) {
-    clearTimeout(saveTimer)
-  }
-
-  // Set new timer
-  saveTimer = setTimeout(() => {
-    saveBoardData(elements, connectors)
-    saveTimer = null
-  }, delayMs)
+  schedule(pendingBoardSaves, boardId, () => saveBoardData(boardId, snapshot), delayMs)
 }
 
 // Debounced viewport save (Konva-based)
 export function debouncedSaveViewport(
+  boardId: string,
   viewport: PersistedViewport,
   delayMs: number = 200
 ): void {
-  // Clear existing timer
-  if (viewportTimer) {
-    clearTimeout(viewportTimer)
-  }
+  schedule(pendingViewportSaves, boardId, () => saveViewport(boardId, viewport), delayMs)
+}
 
-  // Set new timer
-  viewportTimer = setTimeout(() => {
-    saveViewport(viewport)
-    viewportTimer = null
-  }, delayMs)
+// Run all pending debounced saves now (before switching boards, duplicating, etc.)
+export async function flushPendingSaves(): Promise<void> {
+  const runs: Array<() => Promise<void>> = []
+  for (const pending of [pendingBoardSaves, pendingViewportSaves]) {
+    pending.forEach(({ timer, run }) => {
+      clearTimeout(timer)
+      runs.push(run)
+    })
+    pending.clear()
+  }
+  await Promise.all(runs.map(run => run()))
 }
 
-// Save viewport immediately (no debounce)
-export function saveViewportImmediate(viewport: PersistedViewport): void {
-  saveViewport(viewport)
-}
\ No newline at end of file
+// Drop pending saves without running them
+function cancelPendingSaves(boardId?: string): void {
+  for (const pending of [pendingBoardSaves, pendingViewportSaves]) {
+    pending.forEach(({ timer }, id) => {
+      if (boardId === undefined || id === boardId) {
+        clearTimeout(timer)
+        pending.delete(id)
+      }
+    })
+  }
+}
@@ -1,4 +1,5 @@
 import type { AnchorPosition } from '@/types'
+import { rotateWithElement } from './rotation'
 
 export type ProximityThresholds = {
   /** Primary anchors distance (px) - always visible within this range */
@@ -23,6 +24,7 @@ export type ElementBounds = {
   y: number
   width: number
   height: number
+  rotation?: number
 }
 
 export type AnchorPoint = {
@@ -45,15 +47,15 @@ export function getAnchorCoordinates(
   
   switch (anchor) {
     case 'top':
-      return { x: x + width / 2, y }
+      return rotateWithElement(element, { x: x + width / 2, y })
     case 'right':
-      return { x: x + width, y: y + height / 2 }
+      return rotateWithElement(element, { x: x + width, y: y + height / 2 })
     case 'bottom':
-      return { x: x + width / 2, y: y + height }
+      return rotateWithElement(element, { x: x + width / 2, y: y + height })
     case 'left':
-      return { x, y: y + height / 2 }
+      return rotateWithElement(element, { x, y: y + height / 2 })
     default:
-      return { x: x + width / 2, y: y + height / 2 }
+      return rotateWithElement(element, { x: x + width / 2, y: y + height / 2 })
   }
 }
 
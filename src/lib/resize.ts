@@ -0,0 +1,69 @@
+/**
+ * Resize math shared by the element handles and the selection box.
+ * Deltas are cumulative since the drag started and given in the box's own (unrotated) axes.
+ */
+import type { CornerDirection, EdgeDirection } from '@/types'
+
+type Box = { x: number; y: number; width: number; height: number }
+
+export type ResizeOptions = {
+  // Keep width / height at `aspect` (Shift)
+  keepAspect?: boolean
+  // Grow or shrink symmetrically around the center (Alt)
+  fromCenter?: boolean
+  minWidth?: number
+  minHeight?: number
+  // Ratio to keep; defaults to the box's own
+  aspect?: number
+}
+
+/**
+ * Box after dragging one of its handles by (dx, dy).
+ * The opposite side stays put; an edge handle that also changes the other dimension (aspect lock)
+ * keeps that dimension centered. Corners with the aspect locked follow the larger drag.
+ */
+export function resizeBox(
+  box: Box,
+  direction: CornerDirection | EdgeDirection,
+  dx: number,
+  dy: number,
+  options: ResizeOptions = {}
+): Box {
+  const { keepAspect = false, fromCenter = false, minWidth = 1, minHeight = 1 } = options
+  const west = direction.includes('w')
+  const east = direction.includes('e')
+  const north = direction.includes('n')
+  const south = direction.includes('s')
+  // From the center both sides move, so the size changes twice as fast
+  const factor = fromCenter ? 2 : 1
+
+  // A handle dragged past the opposite side stops at the minimum size
+  let width = Math.max(minWidth, box.width + (east ? dx : west ? -dx : 0) * factor)
+  let height = Math.max(minHeight, box.height + (south ? dy : north ? -dy : 0) * factor)
+
+  const aspect = options.aspect ?? (box.height > 0 ? box.width / box.height : 0)
+  if (keepAspect && aspect > 0 && Number.isFinite(aspect)) {
+    const horizontal = east || west
+    const vertical = north || south
+    if (horizontal && (!vertical || Math.abs(dx) > Math.abs(dy))) {
+      height = width / aspect
+    } else {
+      width = height * aspect
+    }
+    // Grow both sides together until neither is below its minimum
+    const scale = Math.max(1, minWidth / width, minHeight / height)
+    width *= scale
+    height *= scale
+  }
+
+  const place = (start: number, size: number, next: number, fromEnd: boolean, fromStart: boolean) => {
+    if (fromCenter || (!fromEnd && !fromStart)) return start + (size - next) / 2
+    return fromEnd ? start + size - next : start
+  }
+  return {
+    x: place(box.x, box.width, width, west, east),
+    y: place(box.y, box.height, height, north, south),
+    width,
+    height
+  }
+}
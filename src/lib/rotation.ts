@@ -0,0 +1,142 @@
+/**
+ * Rotation helpers.
+ * Elements rotate like Konva groups: around their top-left corner (x, y), in degrees, clockwise.
+ */
+
+type Point = { x: number; y: number }
+type Box = { x: number; y: number; width: number; height: number }
+type Rotated = { rotation?: number }
+type RotatedBox = Box & Rotated
+
+// Shift + drag on the rotation handle snaps to this step
+export const ROTATION_SNAP_DEGREES = 15
+// Distance (screen px) between the top edge and the rotation handle
+export const ROTATION_HANDLE_OFFSET = 24
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+export function rotatePoint(point: Point, origin: Point, degrees: number): Point {
+  if (!degrees) return { x: point.x, y: point.y }
+  const cos = Math.cos(toRadians(degrees))
+  const sin = Math.sin(toRadians(degrees))
+  const dx = point.x - origin.x
+  const dy = point.y - origin.y
+  return { x: origin.x + dx * cos - dy * sin, y: origin.y + dx * sin + dy * cos }
+}
+
+/**
+ * Where a point given in the element's unrotated coordinates ends up on the canvas
+ */
+export function rotateWithElement(element: Point & Rotated, point: Point): Point {
+  return rotatePoint(point, element, element.rotation ?? 0)
+}
+
+// Corners in drawing order: top-left, top-right, bottom-right, bottom-left
+export function elementCorners(element: RotatedBox): Point[] {
+  const { x, y, width, height } = element
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height }
+  ].map(corner => rotateWithElement(element, corner))
+}
+
+/**
+ * Axis-aligned box around the rotated element
+ */
+export function rotatedBounds(element: RotatedBox): Box {
+  if (!element.rotation) return { x: element.x, y: element.y, width: element.width, height: element.height }
+  const corners = elementCorners(element)
+  const xs = corners.map(c => c.x)
+  const ys = corners.map(c => c.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+/**
+ * Whether a canvas point falls on the rotated element, optionally grown by `buffer` on every side
+ */
+export function isPointInElement(point: Point, element: RotatedBox, buffer = 0): boolean {
+  const local = rotatePoint(point, element, -(element.rotation ?? 0))
+  return (
+    local.x >= element.x - buffer &&
+    local.x <= element.x + element.width + buffer &&
+    local.y >= element.y - buffer &&
+    local.y <= element.y + element.height + buffer
+  )
+}
+
+/**
+ * Whether the rotated element overlaps an axis-aligned rectangle (separating axis test)
+ */
+export function isElementIntersectingRect(element: RotatedBox, rect: Box): boolean {
+  const corners = elementCorners(element)
+  const rectCorners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height }
+  ]
+  const radians = toRadians(element.rotation ?? 0)
+  const axes = [
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: Math.cos(radians), y: Math.sin(radians) },
+    { x: -Math.sin(radians), y: Math.cos(radians) }
+  ]
+  return axes.every(axis => {
+    const a = corners.map(c => c.x * axis.x + c.y * axis.y)
+    const b = rectCorners.map(c => c.x * axis.x + c.y * axis.y)
+    return Math.max(...a) >= Math.min(...b) && Math.max(...b) >= Math.min(...a)
+  })
+}
+
+// Angle in [0, 360)
+export function normalizeRotation(degrees: number): number {
+  const result = ((degrees % 360) + 360) % 360
+  return Math.abs(result - 360) < 1e-9 ? 0 : result
+}
+
+export function snapRotation(degrees: number, step = ROTATION_SNAP_DEGREES): number {
+  return normalizeRotation(Math.round(degrees / step) * step)
+}
+
+/**
+ * Rotation the handle should apply when dragged to `pointer`: the handle sits straight above the center,
+ * so the angle is measured from "up"
+ */
+export function rotationFromPointer(element: RotatedBox, pointer: Point, snap = false): number {
+  const center = rotateWithElement(element, { x: element.x + element.width / 2, y: element.y + element.height / 2 })
+  const degrees = (Math.atan2(pointer.y - center.y, pointer.x - center.x) * 180) / Math.PI + 90
+  return snap ? snapRotation(degrees) : normalizeRotation(degrees)
+}
+
+/**
+ * New position and rotation that turn the element around its visual center instead of its top-left corner
+ */
+export function rotateAboutCenter(element: RotatedBox, rotation: number): { x: number; y: number; rotation: number } {
+  const center = rotateWithElement(element, { x: element.x + element.width / 2, y: element.y + element.height / 2 })
+  const next = normalizeRotation(rotation)
+  // Top-left corner sits at -half size from the center in the element's own axes
+  const origin = rotatePoint({ x: center.x - element.width / 2, y: center.y - element.height / 2 }, center, next)
+  return { x: origin.x, y: origin.y, rotation: next }
+}
+
+/**
+ * Maps a resize computed in the element's unrotated axes (new x/y relative to the old top-left)
+ * back onto the canvas so the opposite corner stays where it was
+ */
+export function rotateResize<T extends Partial<Box>>(element: Point & Rotated, next: T): T {
+  if (!element.rotation) return next
+  const origin = rotateWithElement(element, { x: next.x ?? element.x, y: next.y ?? element.y })
+  return { ...next, x: origin.x, y: origin.y }
+}
+
+/**
+ * Pointer drag (canvas axes) expressed in the element's own axes, for resize handles
+ */
+export function toElementAxes(delta: Point, rotation = 0): Point {
+  return rotatePoint(delta, { x: 0, y: 0 }, -rotation)
+}
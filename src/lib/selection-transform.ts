@@ -0,0 +1,92 @@
+/**
+ * Shared transform box for a multi-selection: one bounding box around the selected elements
+ * and connectors, moved or scaled as a whole.
+ */
+import type { CanvasElement, Connector, TextElement } from '@/types'
+import { rotateWithElement, rotatedBounds } from './rotation'
+
+type Box = { x: number; y: number; width: number; height: number }
+
+// Smallest box the selection can be squeezed to (canvas px)
+export const MIN_TRANSFORM_SIZE = 10
+// Handle id the selection box resizes under (see resizingId in the store)
+export const SELECTION_BOX_ID = 'selection'
+
+/**
+ * Box around the elements (with their rotated outline) and the connector points, or null for nothing
+ */
+export function selectionBounds(elements: CanvasElement[], connectors: Pick<Connector, 'points'>[] = []): Box | null {
+  const xs: number[] = []
+  const ys: number[] = []
+  elements.forEach(element => {
+    const box = rotatedBounds(element)
+    xs.push(box.x, box.x + box.width)
+    ys.push(box.y, box.y + box.height)
+  })
+  connectors.forEach(connector => {
+    connector.points.forEach((value, i) => (i % 2 === 0 ? xs : ys).push(value))
+  })
+  if (xs.length === 0) return null
+
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+const scaleOf = (from: number, to: number) => (from > 0 ? to / from : 1)
+
+/**
+ * Map a point from one box onto another
+ */
+export function transformPoint(point: { x: number; y: number }, from: Box, to: Box) {
+  return {
+    x: to.x + (point.x - from.x) * scaleOf(from.width, to.width),
+    y: to.y + (point.y - from.y) * scaleOf(from.height, to.height)
+  }
+}
+
+/**
+ * New geometry for an element when its selection box goes from `from` to `to`.
+ * The center follows the box and the size scales with it; rotated elements keep their angle.
+ * Text elements also scale their font size when `scaleText` is set.
+ */
+export function transformElement(
+  element: CanvasElement,
+  from: Box,
+  to: Box,
+  scaleText = false
+): Partial<CanvasElement> {
+  const sx = scaleOf(from.width, to.width)
+  const sy = scaleOf(from.height, to.height)
+  // Plain move
+  if (sx === 1 && sy === 1) return { x: element.x + to.x - from.x, y: element.y + to.y - from.y }
+
+  const width = Math.max(1, element.width * sx)
+  const height = Math.max(1, element.height * sy)
+
+  const center = transformPoint(
+    rotateWithElement(element, { x: element.x + element.width / 2, y: element.y + element.height / 2 }),
+    from,
+    to
+  )
+  // Top-left corner sits at -half size from the center in the element's own axes
+  const origin = rotateWithElement(
+    { x: center.x, y: center.y, rotation: element.rotation },
+    { x: center.x - width / 2, y: center.y - height / 2 }
+  )
+
+  const updates: Partial<CanvasElement> = { x: origin.x, y: origin.y, width, height }
+  if (scaleText && element.type === 'text') {
+    (updates as Partial<TextElement>).fontSize = Math.max(1, Math.round(element.fontSize * Math.min(sx, sy)))
+  }
+  return updates
+}
+
+export function transformConnectorPoints(points: number[], from: Box, to: Box): number[] {
+  const result: number[] = []
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    const point = transformPoint({ x: points[i], y: points[i + 1] }, from, to)
+    result.push(point.x, point.y)
+  }
+  return result
+}
@@ -8,6 +8,10 @@ if (typeof window !== 'undefined') {
 
 const GUIDELINE_OFFSET = 5
 
+// Box the shape occupies on the stage. Konva returns the axis-aligned box around a rotated node;
+// shadows and strokes are left out so a rotated note snaps by its paper, not its shadow.
+const getSnapBox = (node: any) => node.getClientRect({ skipShadow: true, skipStroke: true })
+
 type Snap = 'start' | 'center' | 'end'
 type SnappingEdges = {
   vertical: Array<{
@@ -35,7 +39,7 @@ export const getLineGuideStops = (skipShape: any) => {
     if (guideItem === skipShape) {
       return
     }
-    const box = guideItem.getClientRect()
+    const box = getSnapBox(guideItem)
     // Can snap to all edges of the shape
     vertical.push(box.x, box.x + box.width, box.x + box.width / 2)
     horizontal.push(box.y, box.y + box.height, box.y + box.height / 2)
@@ -47,7 +51,7 @@ export const getLineGuideStops = (skipShape: any) => {
 }
 
 export const getObjectSnappingEdges = (node: any): SnappingEdges => {
-  const box = node.getClientRect()
+  const box = getSnapBox(node)
   const absPos = node.absolutePosition()
 
   return {
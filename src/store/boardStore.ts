@@ -1,22 +1,58 @@
 import { create } from 'zustand'
 import { immer } from 'zustand/middleware/immer'
+import { applyPatches } from 'immer'
 import { nanoid } from 'nanoid'
-import { debouncedSaveBoardData, loadBoardData, debouncedSaveViewport, loadViewport } from '@/lib/persistence'
+import {
+  debouncedSaveBoardData,
+  loadBoardData,
+  debouncedSaveViewport,
+  loadViewport,
+  listBoards,
+  createBoard as createStoredBoard,
+  renameBoard as renameStoredBoard,
+  duplicateBoard as duplicateStoredBoard,
+  deleteBoard as deleteStoredBoard,
+  touchBoard,
+  getActiveBoardId,
+  setActiveBoardId,
+  migrateLegacyStorage,
+  flushPendingSaves,
+  type BoardMeta
+} from '@/lib/persistence'
+import { CURRENT_DATA_VERSION, migrateBoardData, hasMigrationChanges, formatMigrationReport, type MigrationReport } from '@/lib/migrations'
 import { calculateStickySize, estimateStickySize } from '@/lib/textMeasurement'
+import { serializeSelectionContext, type SelectionContextOptions } from '@/lib/board-context'
+import { exportBoardAsMarkdown } from '@/lib/markdown-export'
+import { layoutMindMap } from '@/lib/mindmap-layout'
+import { layoutOutline, type OutlineNode } from '@/lib/outline-import'
+import { computeLayout, type LayoutKind } from '@/lib/auto-layout'
+import { computeArrangement, unitBounds, type ArrangeCommand } from '@/lib/arrange'
+import { facingAnchors, nearestAnchor } from '@/lib/geometry'
+import type { ConnectorStyle } from '@/lib/connector-style'
+import { elbowRoute, endDirection, isAutoRouted, moveElbowEnd, removeBend, withEndPoint } from '@/lib/connector-routing'
+import { affectedConnectors, buildBoardIndex, findIndexedElement, updateBoardIndex, type BoardIndex } from '@/lib/connector-index'
+import { rotateAboutCenter, rotateWithElement, rotatedBounds } from '@/lib/rotation'
+import { selectionBounds, transformConnectorPoints, transformElement } from '@/lib/selection-transform'
+import { DEFAULT_FRAME_SIZE, findContainingFrame, frameDescendants, isCenterInside, isFrame } from '@/lib/frames'
+import { addGroup, expandToGroups, isInGroup, pruneGroups, removeGroups, renameGroups, selectableGroupOf } from '@/lib/groups'
 // Removed old autoResizeElement - now using Konva-based measurement
-import { debugLog } from '@/lib/logger'
-import type { CanvasElement, ElementID, Tool, StickyElement, RectElement, TextElement, Connector, AnchorPosition, Viewport, Mode, TextAlignment, VerticalAlignment, ChatMessage, MainTheme } from '@/types'
+import { debugLog, logger } from '@/lib/logger'
+import { patchHistory, createHistoryEntry, trimHistory, describeElements, describeUpdate, DEFAULT_HISTORY_LIMIT, type HistoryEntry, type HistoryState } from './history'
+import type { CanvasElement, ElementID, Tool, StickyElement, RectElement, TextElement, Connector, ConnectorAnchorMode, ConnectorRouting, AnchorPosition, Viewport, Mode, TextAlignment, VerticalAlignment, ChatMessage, MainTheme, MindMap } from '@/types'
+
+type Box = { x: number; y: number; width: number; height: number }
 
 // New simple state management (stability-focused)
 type BoardStore = {
   // Basic state only
   elements: CanvasElement[]
   connectors: Connector[]
+  // Lookups derived from elements/connectors, kept in step by patchHistory
+  boardIndex: BoardIndex
   selectedTool: Tool
-  history: {
-    past: { elements: CanvasElement[]; connectors: Connector[] }[]
-    future: { elements: CanvasElement[]; connectors: Connector[] }[]
-  }
+  // Undo/redo entries (immer patches of elements/connectors)
+  history: HistoryState
+  historyLimit: number
   selectedConnectorIds: ElementID[]
   isDraggingConnector: boolean
   connectorDrag: { isActive: boolean; connectorId: ElementID | null; end: 'from' | 'to' | null }
@@ -26,11 +62,18 @@ type BoardStore = {
   hoveredElementId: ElementID | null
   // Current mouse cursor position (canvas coordinate system, for proximity anchor display)
   cursorPosition: { x: number; y: number } | null
+  // Element (or 'selection' for the multi-selection box) being resized, for the size readout
+  resizingId: ElementID | null
 
   // Figma/Google Slides-style mode management
   mode: Mode
   selectedIds: ElementID[]
   editingTextId?: ElementID
+  // Group entered by double-click; clicks inside it select its members
+  enteredGroupId: ElementID | null
+  // Scaling a multi-selection also scales the font size of its text elements
+  transformScalesText: boolean
+  setTransformScalesText: (value: boolean) => void
 
   // Viewport (zoom/pan)
   viewport: Viewport
@@ -48,6 +91,12 @@ type BoardStore = {
   // Main theme
   mainTheme: MainTheme | null
 
+  // Workspace (multiple named boards)
+  currentBoardId: string | null
+  boards: BoardMeta[]
+  // Last board that could not be opened (its stored data is left untouched)
+  boardLoadError: { boardId: string; message: string } | null
+
   // Clipboard
   clipboard: {
     elements: CanvasElement[]
@@ -72,15 +121,40 @@ type BoardStore = {
   selectConnector: (id: ElementID) => void
   selectConnectors: (ids: ElementID[]) => void
   selectShapesAndConnectors: (shapeIds: ElementID[], connectorIds: ElementID[]) => void
+  // Every element and connector on the board (locked elements are left out, as with the marquee)
+  selectAll: () => void
   startEditingText: (id: ElementID) => void
   stopEditingText: () => void
 
+  // Groups (nestable, stored as groupIds on elements)
+  groupSelected: () => ElementID | null
+  ungroupSelected: () => void
+  // Enter the group a click on `id` would select; false when it is not grouped
+  enterGroup: (id: ElementID) => boolean
+  // Leave the entered group and select it
+  exitGroup: () => void
+
+  // Locked elements cannot be dragged, resized, edited or deleted
+  setLocked: (ids: ElementID[], locked: boolean) => void
+  // Lock the selection, or unlock it when everything in it is locked already
+  toggleLockSelected: () => void
+
   // Convenience actions (for compatibility)
   addSticky: (params: { x: number; y: number; text?: string; isFromLLM?: boolean }) => string
   addRect: (params: { x: number; y: number }) => string
   addText: (params: { x: number; y: number; text?: string }) => string
   addImage: (params: { x: number; y: number; src: string; originalWidth: number; originalHeight: number; maxWidth?: number; maxHeight?: number }) => string
+  // Frame at (x, y); elements already inside it are adopted
+  addFrame: (params: { x: number; y: number; width?: number; height?: number; title?: string }) => string
   moveElement: (id: ElementID, position: { x: number; y: number }) => void
+  // Move the selection by (dx, dy); quick repeats on the same selection share one undo step
+  nudgeSelected: (dx: number, dy: number) => void
+  // Turn an element around its center (degrees); frames and locked elements stay put
+  rotateElement: (id: ElementID, rotation: number, skipHistory?: boolean) => void
+  // Rearrange the selected elements (one undo step); animates on the stage when requested
+  applyLayout: (kind: LayoutKind, options?: { animate?: boolean }) => void
+  // Align / distribute / tidy up the selection (one undo step); groups move as a block, locked elements stay
+  arrangeSelected: (command: ArrangeCommand) => void
   bringToFront: (id: ElementID) => void
   sendToBack: (id: ElementID) => void
 
@@ -92,12 +166,30 @@ type BoardStore = {
 
   // Connectors
   addConnector: (from: { id: ElementID; anchor: AnchorPosition }, to: { id: ElementID; anchor: AnchorPosition }) => void
+  // Place a mind map as stickies + connectors centered on a canvas point (one undo step)
+  addMindMap: (map: MindMap, center: { x: number; y: number }) => ElementID[]
+  // Place a parsed outline as a left-to-right tree of stickies starting at a canvas point (one undo step)
+  addOutline: (roots: OutlineNode[], origin: { x: number; y: number }) => ElementID[]
   deleteConnector: (id: ElementID) => void
   addFreeConnectorAt: (params: { x: number; y: number; length?: number }) => string
   updateConnectorPoints: (id: ElementID, points: number[]) => void
+  updateConnectorStyle: (ids: ElementID[], style: Partial<ConnectorStyle>) => void
+  // Switching routing drops the bends and lays out a fresh route
+  setConnectorRouting: (ids: ElementID[], routing: ConnectorRouting) => void
+  // Bend drag: begin records one history entry (and keeps an elbow route as shaped), then updateConnectorPoints
+  beginConnectorBendDrag: (id: ElementID) => void
+  removeConnectorBend: (id: ElementID, index: number) => void
+  // 'auto' ends switch to whichever side faces the other end whenever the elements move
+  setConnectorAnchorMode: (ids: ElementID[], mode: ConnectorAnchorMode) => void
+  // An empty label removes it; `position` (0–1 along the line) places the label
+  updateConnectorLabel: (id: ElementID, label: string, position?: number) => void
+  // Label drag: begin records one history entry, move slides the label along the line
+  beginConnectorLabelDrag: (id: ElementID) => void
+  moveConnectorLabel: (id: ElementID, position: number) => void
   attachConnectorEnd: (id: ElementID, end: 'from' | 'to', elementId: ElementID, anchor: AnchorPosition) => void
   detachConnectorEnd: (id: ElementID, end: 'from' | 'to') => void
-  updateConnectors: () => void
+  // Re-attach connector ends to their anchors; with `elementIds` only connectors attached to those elements (or inside those frames)
+  updateConnectors: (elementIds?: ElementID[]) => void
   startConnection: (fromElementId: ElementID, fromAnchor: AnchorPosition) => void
   completeConnection: (toElementId: ElementID, toAnchor: AnchorPosition) => void
   createPartialConnection: (toPoint: { x: number; y: number }) => void
@@ -113,22 +205,45 @@ type BoardStore = {
   setConnectorHoverTarget: (target: { elementId: ElementID; anchor: AnchorPosition } | null) => void
   setHoveredElementId: (elementId: ElementID | null) => void
   setCursorPosition: (position: { x: number; y: number } | null) => void
+  setResizingId: (id: ElementID | null) => void
 
-  // History (simplified)
+  // History
   undo: () => void
   redo: () => void
   canUndo: () => boolean
   canRedo: () => boolean
+  // Undo/redo until `position` entries are applied (0 = the state before the first entry)
+  jumpToHistory: (position: number) => void
+  setHistoryLimit: (limit: number) => void
+  // Run `fn` as one undo step and one autosave; board changes are rolled back if it throws.
+  // `fn` must be synchronous. Nested transactions join the outer one.
+  transaction: <T>(label: string, fn: () => T) => T
 
-  // Clear all
-  clearAll: () => void
+  // Clear all (chat history and main theme are kept unless explicitly requested)
+  clearAll: (options?: { includeChat?: boolean }) => void
 
-  // For drag operations (save history snapshot only once)
+  // For drag operations (record one history entry)
   beginElementDrag: () => void
+  // Put dropped elements into the frame under them
+  endElementDrag: () => void
+  // Multi-selection transform box: begin records one history entry, update maps the selection
+  // from its starting box onto `box`, end puts the elements into the frames under them
+  beginSelectionTransform: (kind: 'move' | 'resize') => void
+  updateSelectionTransform: (box: { x: number; y: number; width: number; height: number }) => void
+  endSelectionTransform: () => void
 
   // Persistence
-  loadFromStorage: () => void
+  loadFromStorage: (boardId?: string) => Promise<void>
   _triggerAutoSave: () => void
+  _triggerViewportSave: () => void
+
+  // Workspace
+  refreshBoards: () => Promise<void>
+  openBoard: (boardId: string) => Promise<void>
+  createBoard: (name?: string) => Promise<string>
+  renameBoard: (boardId: string, name: string) => Promise<void>
+  duplicateBoard: (boardId: string) => Promise<string | null>
+  deleteBoard: (boardId: string) => Promise<void>
 
   // Helpers
   getElementById: (id: ElementID) => CanvasElement | undefined
@@ -139,12 +254,15 @@ type BoardStore = {
 
   // Export/Import
   exportAsJSON: () => string
-  importFromJSON: (json: string) => void
+  exportAsMarkdown: () => string
+  importFromJSON: (json: string) => MigrationReport | null
   resetViewport: () => void
 
   // Chat related
   addChatMessage: (message: Omit<ChatMessage, 'id'>) => void
   getChatContext: () => string
+  getSelectionContext: (options?: SelectionContextOptions) => string
+  setMessagesContextInclusion: (ids: string[], included: boolean) => void
   clearChatHistory: () => void
 
   // Main theme related
@@ -157,38 +275,47 @@ type BoardStore = {
   copySelected: () => void
   cutSelected: () => void
   paste: () => void
+  // Copy the selection next to itself, keeping the connectors between copied elements
+  duplicateSelected: () => void
 }
 
 // Performance optimization: Create store with devtools and subscribeWithSelector middleware
 export const useBoardStore = create<BoardStore>()(
-  immer((set, get) => ({
+  immer(patchHistory((set, get) => ({
     // Initial state
     elements: [],
     connectors: [],
+    boardIndex: buildBoardIndex([], []),
     selectedTool: 'select',
     history: { past: [], future: [] },
+    historyLimit: DEFAULT_HISTORY_LIMIT,
     selectedConnectorIds: [],
     isDraggingConnector: false,
     connectorDrag: { isActive: false, connectorId: null, end: null },
     connectorHoverTarget: null,
     hoveredElementId: null,
     cursorPosition: null,
+    resizingId: null,
 
     // Figma/Google Slides-style Mode management
     mode: 'idle',
     selectedIds: [],
     editingTextId: undefined,
+    enteredGroupId: null,
+    transformScalesText: false,
 
     viewport: { zoom: 1, panX: 0, panY: 0 },
     connectionMode: { isActive: false, fromElementId: null, fromAnchor: null },
     chatHistory: [],
     mainTheme: null,
+    currentBoardId: null,
+    boards: [],
+    boardLoadError: null,
     clipboard: { elements: [], connectors: [] },
 
     // Add element
     addElement: (elementData) => {
-      // Save current snapshot to history
-      pushHistorySnapshot(get, set)
+      pushHistoryEntry(get, set, `Add ${describeElements([elementData])}`)
       const id = nanoid()
       const now = Date.now()
       const zIndex = get().getNextZIndex()
@@ -200,6 +327,10 @@ export const useBoardStore = create<BoardStore>()(
         createdAt: now,
         updatedAt: now
       } as CanvasElement
+      if (element.frameId === undefined) {
+        const frame = findContainingFrame(get().elements, element)
+        if (frame) element.frameId = frame.id
+      }
 
       set((state) => {
         state.elements.push(element)
@@ -211,21 +342,33 @@ export const useBoardStore = create<BoardStore>()(
 
     // Update element
     updateElement: (id, updates, skipConnectorUpdate = false, skipHistory = false) => {
-      // History snapshot (only when needed)
-      if (!skipHistory) {
-        pushHistorySnapshot(get, set)
+      // History entry (only when needed)
+      const target = get().elements.find(e => e.id === id)
+      if (!skipHistory && target) {
+        pushHistoryEntry(get, set, describeUpdate(target, updates))
       }
       set((state) => {
         const element = state.elements.find(e => e.id === id)
         if (element) {
+          const dx = updates.x !== undefined ? updates.x - element.x : 0
+          const dy = updates.y !== undefined ? updates.y - element.y : 0
           Object.assign(element, updates)
           element.updatedAt = Date.now()
+
+          // A moved (not resized) frame carries its contents; selected ones are moved by the caller
+          const isMove = updates.width === undefined && updates.height === undefined
+          if (isFrame(element) && isMove && (dx !== 0 || dy !== 0)) {
+            frameDescendants(state.elements, id, e => state.selectedIds.includes(e.id)).forEach(child => {
+              child.x += dx
+              child.y += dy
+            })
+          }
         }
       })
 
       // Skip connector update when called frequently (e.g. during drag)
       if (!skipConnectorUpdate) {
-        get().updateConnectors()
+        get().updateConnectors([id])
       }
       get()._triggerAutoSave()
     },
@@ -236,15 +379,36 @@ export const useBoardStore = create<BoardStore>()(
     },
 
     deleteElements: (ids) => {
-      // Save current snapshot to history
-      pushHistorySnapshot(get, set)
+      const { elements } = get()
+      // Frames take their contents with them; locked elements stay
+      const removed = new Set(ids)
+      elements.forEach(e => {
+        if (isFrame(e) && removed.has(e.id)) frameDescendants(elements, e.id).forEach(child => removed.add(child.id))
+      })
+      elements.forEach(e => {
+        if (e.locked) removed.delete(e.id)
+      })
+      if (removed.size === 0) return
+
+      pushHistoryEntry(get, set, `Delete ${describeElements(elements.filter(e => ids.includes(e.id) && removed.has(e.id)))}`)
       set((state) => {
         // Delete elements
-        state.elements = state.elements.filter(e => !ids.includes(e.id))
+        state.elements = state.elements.filter(e => !removed.has(e.id))
+        pruneGroups(state.elements)
+        // Locked contents of a deleted frame move up to the next frame around them
+        state.elements.forEach(e => {
+          if (!e.frameId || !removed.has(e.frameId)) return
+          const frame = findContainingFrame(state.elements, e)
+          if (frame) {
+            e.frameId = frame.id
+          } else {
+            delete e.frameId
+          }
+        })
 
         // Delete related connectors
         state.connectors = state.connectors.filter(c =>
-          !ids.includes(c.fromId) && !ids.includes(c.toId)
+          !removed.has(c.fromId) && !removed.has(c.toId)
         )
       })
 
@@ -293,9 +457,14 @@ export const useBoardStore = create<BoardStore>()(
     },
 
     selectShape: (id) => {
+      const { elements, enteredGroupId } = get()
+      const element = elements.find(e => e.id === id)
+      // Clicking outside the entered group leaves it
+      const entered = element && enteredGroupId && isInGroup(element, enteredGroupId) ? enteredGroupId : null
       set((state) => {
         state.mode = 'select'
-        state.selectedIds = [id]
+        state.selectedIds = expandToGroups(elements, [id], entered)
+        state.enteredGroupId = entered
         state.editingTextId = undefined
         state.selectedConnectorIds = []
       })
@@ -304,7 +473,7 @@ export const useBoardStore = create<BoardStore>()(
     selectShapes: (ids) => {
       set((state) => {
         state.mode = 'select'
-        state.selectedIds = ids
+        state.selectedIds = expandToGroups(state.elements, ids, state.enteredGroupId)
         state.editingTextId = undefined
         state.selectedConnectorIds = []
       })
@@ -314,6 +483,7 @@ export const useBoardStore = create<BoardStore>()(
       set((state) => {
         state.mode = 'idle'
         state.selectedIds = []
+        state.enteredGroupId = null
         state.editingTextId = undefined
         state.selectedConnectorIds = []
       })
@@ -337,13 +507,24 @@ export const useBoardStore = create<BoardStore>()(
 
     selectShapesAndConnectors: (shapeIds, connectorIds) => {
       set((state) => {
-        state.selectedIds = shapeIds
+        state.selectedIds = expandToGroups(state.elements, shapeIds, state.enteredGroupId)
         state.selectedConnectorIds = connectorIds
         state.mode = (shapeIds.length > 0 || connectorIds.length > 0) ? 'select' : 'idle'
       })
     },
 
+    selectAll: () => {
+      set((state) => {
+        state.selectedIds = state.elements.filter(e => !e.locked).map(e => e.id)
+        state.selectedConnectorIds = state.connectors.map(c => c.id)
+        state.enteredGroupId = null
+        state.editingTextId = undefined
+        state.mode = (state.selectedIds.length > 0 || state.selectedConnectorIds.length > 0) ? 'select' : 'idle'
+      })
+    },
+
     startEditingText: (id) => {
+      if (get().getElementById(id)?.locked) return
       set((state) => {
         state.mode = 'editingText'
         state.selectedIds = [id]
@@ -351,6 +532,98 @@ export const useBoardStore = create<BoardStore>()(
       })
     },
 
+    groupSelected: () => {
+      const { elements, selectedIds, enteredGroupId } = get()
+      if (selectedIds.length < 2) return null
+
+      const groupId = nanoid()
+      const updates = addGroup(elements, selectedIds, groupId, enteredGroupId)
+      pushHistoryEntry(get, set, `Group ${describeElements(elements.filter(e => updates.has(e.id)))}`)
+      set((state) => {
+        state.elements.forEach(e => {
+          const groupIds = updates.get(e.id)
+          if (groupIds) e.groupIds = groupIds
+        })
+      })
+      get()._triggerAutoSave()
+      return groupId
+    },
+
+    ungroupSelected: () => {
+      const { elements, selectedIds, enteredGroupId } = get()
+      const updates = removeGroups(elements, selectedIds, enteredGroupId)
+      if (updates.size === 0) return
+
+      pushHistoryEntry(get, set, 'Ungroup')
+      set((state) => {
+        state.elements.forEach(e => {
+          const groupIds = updates.get(e.id)
+          if (!groupIds) return
+          if (groupIds.length > 0) {
+            e.groupIds = groupIds
+          } else {
+            delete e.groupIds
+          }
+        })
+      })
+      get()._triggerAutoSave()
+    },
+
+    setLocked: (ids, locked) => {
+      const targets = get().elements.filter(e => ids.includes(e.id) && !!e.locked !== locked)
+      if (targets.length === 0) return
+
+      pushHistoryEntry(get, set, `${locked ? 'Lock' : 'Unlock'} ${describeElements(targets)}`)
+      set((state) => {
+        state.elements.forEach(e => {
+          if (!targets.some(t => t.id === e.id)) return
+          if (locked) {
+            e.locked = true
+          } else {
+            delete e.locked
+          }
+        })
+      })
+      get()._triggerAutoSave()
+    },
+
+    toggleLockSelected: () => {
+      const { elements, selectedIds } = get()
+      const selected = elements.filter(e => selectedIds.includes(e.id))
+      if (selected.length === 0) return
+      get().setLocked(selectedIds, !selected.every(e => e.locked))
+    },
+
+    enterGroup: (id) => {
+      const { elements, enteredGroupId } = get()
+      const element = elements.find(e => e.id === id)
+      if (!element) return false
+      const entered = enteredGroupId && isInGroup(element, enteredGroupId) ? enteredGroupId : null
+      const group = selectableGroupOf(element, entered)
+      if (!group) return false
+
+      set((state) => {
+        state.enteredGroupId = group
+        state.selectedIds = expandToGroups(elements, [id], group)
+        state.selectedConnectorIds = []
+        state.mode = 'select'
+      })
+      return true
+    },
+
+    exitGroup: () => {
+      const { elements, enteredGroupId } = get()
+      if (!enteredGroupId) return
+      const members = elements.filter(e => isInGroup(e, enteredGroupId))
+      const groupIds = members[0]?.groupIds ?? []
+
+      set((state) => {
+        state.enteredGroupId = groupIds[groupIds.indexOf(enteredGroupId) - 1] ?? null
+        state.selectedIds = members.map(e => e.id)
+        state.selectedConnectorIds = []
+      })
+    },
+
     stopEditingText: () => {
       set((state) => {
         const wasEditingId = state.editingTextId
@@ -492,25 +765,223 @@ export const useBoardStore = create<BoardStore>()(
       } as any)
     },
 
+    addFrame: (params) => {
+      const title = params.title ?? `Frame ${get().elements.filter(isFrame).length + 1}`
+      return runTransaction(get, set, 'Add frame', () => {
+        const id = get().addElement({
+          type: 'frame',
+          x: params.x,
+          y: params.y,
+          width: params.width ?? DEFAULT_FRAME_SIZE.width,
+          height: params.height ?? DEFAULT_FRAME_SIZE.height,
+          title
+        } as any)
+        const frame = get().getElementById(id)!
+        assignFrames(set, get().elements.filter(e => e.id !== id && isCenterInside(frame, e)).map(e => e.id))
+        return id
+      })
+    },
+
     moveElement: (id, position) => {
       get().updateElement(id, position)
     },
 
+    nudgeSelected: (dx, dy) => {
+      const { elements, connectors, selectedIds, selectedConnectorIds, history } = get()
+      const targets = elements.filter(e => selectedIds.includes(e.id) && !e.locked)
+      // Connectors attached at both ends stay on their anchors, so they can't be nudged on their own
+      const lines = connectors.filter(c => selectedConnectorIds.includes(c.id) && !(c.fromId && c.toId))
+      if (targets.length === 0 && lines.length === 0) return
+
+      // 同じ選択を続けて動かしている間は直前の履歴に合流する
+      const key = [...targets, ...lines].map(item => item.id).join(',')
+      const now = Date.now()
+      const last = history.past[history.past.length - 1]
+      const continues = !!lastNudge && last?.id === lastNudge.entryId && history.future.length === 0 &&
+        lastNudge.key === key && now - lastNudge.at < NUDGE_COALESCE_MS
+      if (continues) {
+        set((state) => {
+          state.history.recording = true
+        })
+      } else {
+        const label = targets.length > 0
+          ? `Move ${describeElements(targets)}`
+          : lines.length > 1 ? `Move ${lines.length} connectors` : 'Move connector'
+        pushHistoryEntry(get, set, label)
+      }
+      lastNudge = { entryId: get().history.past[get().history.past.length - 1]?.id, key, at: now }
 
+      targets.forEach(element => {
+        get().updateElement(element.id, { x: element.x + dx, y: element.y + dy }, true, true)
+      })
+      set((state) => {
+        state.connectors.forEach(connector => {
+          if (!lines.some(line => line.id === connector.id)) return
+          connector.points = connector.points.map((value, i) => value + (i % 2 === 0 ? dx : dy))
+          connector.updatedAt = now
+        })
+      })
+      // Attached ends snap back onto their (possibly moved) anchors, also those of the moved connectors
+      get().updateConnectors([...targets.map(e => e.id), ...lines.flatMap(c => [c.fromId, c.toId]).filter(Boolean)])
+      assignFrames(set, targets.map(e => e.id))
+      get()._triggerAutoSave()
+    },
+
+    rotateElement: (id, rotation, skipHistory = false) => {
+      const target = get().getElementById(id)
+      if (!target || target.locked || isFrame(target)) return
+      const next = rotateAboutCenter(target, rotation)
+      // A rotation drag: the first step starts the entry, the rest of the drag joins it
+      if (!skipHistory) pushHistoryEntry(get, set, describeUpdate(target, next), true)
+      set((state) => {
+        const element = state.elements.find(e => e.id === id)
+        if (!element) return
+        element.x = next.x
+        element.y = next.y
+        if (next.rotation) {
+          element.rotation = next.rotation
+        } else {
+          delete element.rotation
+        }
+        element.updatedAt = Date.now()
+      })
+      get().updateConnectors([id])
+      get()._triggerAutoSave()
+    },
+
+    applyLayout: (kind, options = {}) => {
+      const { elements, connectors, selectedIds } = get()
+      const selected = new Set(selectedIds)
+      // Locked elements stay where they are
+      const nodes = elements.filter(e => selected.has(e.id) && !e.locked)
+      const edges = connectors
+        .filter(c => selected.has(c.fromId) && selected.has(c.toId))
+        .map(c => ({ from: c.fromId, to: c.toId }))
+
+      const targets = computeLayout(kind, nodes, edges)
+      if (targets.size === 0) return
+
+      // Frames carry their contents (selected contents are laid out themselves)
+      const moves = new Map(targets)
+      nodes.filter(isFrame).forEach(frame => {
+        const target = targets.get(frame.id)
+        if (!target) return
+        frameDescendants(elements, frame.id, e => selected.has(e.id)).forEach(child => {
+          moves.set(child.id, { x: child.x + target.x - frame.x, y: child.y + target.y - frame.y })
+        })
+      })
+
+      cancelLayoutAnimation()
+      const starts = new Map(elements.filter(e => moves.has(e.id)).map(e => [e.id, { x: e.x, y: e.y }]))
+      const moveTo = (progress: number) => {
+        set((state) => {
+          state.elements.forEach(element => {
+            const start = starts.get(element.id)
+            const target = moves.get(element.id)
+            if (start && target) {
+              element.x = start.x + (target.x - start.x) * progress
+              element.y = start.y + (target.y - start.y) * progress
+            }
+          })
+        })
+        get().updateConnectors([...moves.keys()])
+      }
+
+      // One step with the final positions; the animation below only plays it
+      runTransaction(get, set, `Auto layout ${describeElements(nodes)}`, () => {
+        // Re-route connectors inside the selection to the sides that face each other after the move
+        set((state) => {
+          state.connectors.forEach(connector => {
+            const from = targets.get(connector.fromId)
+            const to = targets.get(connector.toId)
+            const fromElement = nodes.find(n => n.id === connector.fromId)
+            const toElement = nodes.find(n => n.id === connector.toId)
+            if (from && to && fromElement && toElement) {
+              Object.assign(connector, facingAnchors({ ...fromElement, ...from }, { ...toElement, ...to }))
+            }
+          })
+        })
+        moveTo(1)
+        set((state) => {
+          const now = Date.now()
+          state.elements.forEach(element => {
+            if (moves.has(element.id)) element.updatedAt = now
+          })
+        })
+        assignFrames(set, nodes.map(n => n.id))
+        get()._triggerAutoSave()
+      })
+
+      if (!options.animate || typeof requestAnimationFrame === 'undefined') return
+
+      // The entry is closed, so the frames are not recorded; they end where the entry ends
+      moveTo(0)
+      const startTime = performance.now()
+      const step = (now: number) => {
+        const t = Math.min(1, (now - startTime) / LAYOUT_ANIMATION_MS)
+        if (t >= 1) {
+          layoutAnimationFrame = null
+          moveTo(1)
+          return
+        }
+        // easeInOutCubic
+        moveTo(t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+        layoutAnimationFrame = requestAnimationFrame(step)
+      }
+      layoutAnimationFrame = requestAnimationFrame(step)
+      finishLayoutAnimation = () => moveTo(1)
+    },
+
+    arrangeSelected: (command) => {
+      const { elements, selectedIds, enteredGroupId } = get()
+      const units = new Map<ElementID, CanvasElement[]>()
+      selectedIds.forEach(id => {
+        const element = elements.find(e => e.id === id)
+        if (!element || element.locked) return
+        const key = selectableGroupOf(element, enteredGroupId) ?? element.id
+        units.set(key, [...(units.get(key) ?? []), element])
+      })
+
+      const offsets = computeArrangement(command, [...units].map(([id, members]) => ({ id, ...unitBounds(members) })))
+      if (offsets.size === 0) return
+
+      const verb = command.kind === 'align' ? 'Align' : command.kind === 'distribute' ? 'Distribute' : 'Tidy up'
+      runTransaction(get, set, `${verb} ${describeElements([...units.values()].flat())}`, () => {
+        units.forEach((members, key) => {
+          const offset = offsets.get(key)
+          if (!offset || (offset.x === 0 && offset.y === 0)) return
+          members.forEach(member => {
+            get().updateElement(member.id, { x: member.x + offset.x, y: member.y + offset.y }, true, true)
+          })
+        })
+        const moved = [...units.values()].flat().map(member => member.id)
+        // Frames have carried their contents; moved elements may have left or entered a frame
+        get().updateConnectors(moved)
+        assignFrames(set, moved)
+      })
+    },
+
+    // Grouped elements move as a block, keeping their order within the group
     bringToFront: (id) => {
-      pushHistorySnapshot(get, set)
-      const maxZ = get().getNextZIndex()
-      get().updateElement(id, { zIndex: maxZ })
+      runTransaction(get, set, 'Bring to front', () => {
+        const members = groupMembersByZ(get(), id)
+        const maxZ = get().getNextZIndex()
+        members.forEach((member, i) => get().updateElement(member.id, { zIndex: maxZ + i }))
+      })
     },
 
     sendToBack: (id) => {
-      pushHistorySnapshot(get, set)
-      get().updateElement(id, { zIndex: 1 })
+      runTransaction(get, set, 'Send to back', () => {
+        const members = groupMembersByZ(get(), id)
+        const others = get().elements.filter(e => !members.includes(e))
+        const minZ = others.length > 0 ? Math.min(...others.map(e => e.zIndex)) : 1
+        members.forEach((member, i) => get().updateElement(member.id, { zIndex: minZ - members.length + i }))
+      })
     },
 
     // Text alignment implementation
     updateTextAlignment: (ids, align) => {
-      pushHistorySnapshot(get, set)
+      pushHistoryEntry(get, set, 'Align text')
       set((state) => {
         ids.forEach(id => {
           const element = state.elements.find(e => e.id === id)
@@ -524,7 +995,7 @@ export const useBoardStore = create<BoardStore>()(
     },
 
     updateVerticalAlignment: (ids, align) => {
-      pushHistorySnapshot(get, set)
+      pushHistoryEntry(get, set, 'Align text vertically')
       set((state) => {
         ids.forEach(id => {
           const element = state.elements.find(e => e.id === id)
@@ -538,7 +1009,7 @@ export const useBoardStore = create<BoardStore>()(
     },
 
     updateElementColor: (ids, color) => {
-      pushHistorySnapshot(get, set)
+      pushHistoryEntry(get, set, 'Change color')
       set((state) => {
         ids.forEach(id => {
           const element = state.elements.find(e => e.id === id)
@@ -556,7 +1027,7 @@ export const useBoardStore = create<BoardStore>()(
     },
 
     updateFontSize: (ids, fontSize) => {
-      pushHistorySnapshot(get, set)
+      pushHistoryEntry(get, set, 'Change font size')
       set((state) => {
         ids.forEach(id => {
           const element = state.elements.find(e => e.id === id)
@@ -571,8 +1042,7 @@ export const useBoardStore = create<BoardStore>()(
 
     // Connectors
     addConnector: (from, to) => {
-      // Save current snapshot to history
-      pushHistorySnapshot(get, set)
+      pushHistoryEntry(get, set, 'Add connector')
       const id = nanoid()
       const now = Date.now()
 
@@ -604,9 +1074,52 @@ export const useBoardStore = create<BoardStore>()(
       get()._triggerAutoSave()
     },
 
+    addMindMap: (map, center) => {
+      const layout = layoutMindMap(map, center)
+
+      const createdIds = runTransaction(get, set, 'Add mind map', () => {
+        const idsByKey = new Map<string, ElementID>()
+        layout.nodes.forEach(node => {
+          idsByKey.set(node.key, get().addSticky({ x: node.x, y: node.y, text: node.label }))
+        })
+        layout.edges.forEach(edge => {
+          get().addConnector(
+            { id: idsByKey.get(edge.from)!, anchor: edge.fromAnchor },
+            { id: idsByKey.get(edge.to)!, anchor: edge.toAnchor }
+          )
+        })
+        return Array.from(idsByKey.values())
+      })
+
+      // Select the new map so it can be moved as a whole
+      get().selectShapes(createdIds)
+      return createdIds
+    },
+
+    addOutline: (roots, origin) => {
+      const layout = layoutOutline(roots, origin)
+      if (layout.nodes.length === 0) return []
+
+      const createdIds = runTransaction(get, set, 'Import outline', () => {
+        const idsByKey = new Map<string, ElementID>()
+        layout.nodes.forEach(node => {
+          idsByKey.set(node.key, get().addSticky({ x: node.x, y: node.y, text: node.label }))
+        })
+        layout.edges.forEach(edge => {
+          get().addConnector(
+            { id: idsByKey.get(edge.from)!, anchor: edge.fromAnchor },
+            { id: idsByKey.get(edge.to)!, anchor: edge.toAnchor }
+          )
+        })
+        return Array.from(idsByKey.values())
+      })
+
+      get().selectShapes(createdIds)
+      return createdIds
+    },
+
     deleteConnector: (id) => {
-      // Save current snapshot to history
-      pushHistorySnapshot(get, set)
+      pushHistoryEntry(get, set, 'Delete connector')
       set((state) => {
         state.connectors = state.connectors.filter(c => c.id !== id)
       })
@@ -628,6 +1141,7 @@ export const useBoardStore = create<BoardStore>()(
         createdAt: now,
         updatedAt: now
       }
+      pushHistoryEntry(get, set, 'Add connector')
       set((state) => {
         state.connectors.push(connector)
       })
@@ -636,10 +1150,15 @@ export const useBoardStore = create<BoardStore>()(
     },
 
     updateConnectorPoints: (id, points) => {
+      const connector = get().connectors.find(c => c.id === id)
+      // An automatic elbow route is laid out again between the new ends
+      const nextPoints = connector && isAutoRouted(connector)
+        ? routeBetween(connector, get().elements, points.slice(0, 2), points.slice(-2), elbowObstacles(get().elements))
+        : points
       set((state) => {
         const c = state.connectors.find(c => c.id === id)
         if (c) {
-          c.points = points
+          c.points = nextPoints
           c.updatedAt = Date.now()
         }
       })
@@ -647,21 +1166,132 @@ export const useBoardStore = create<BoardStore>()(
       get()._triggerAutoSave()
     },
 
+    updateConnectorStyle: (ids, style) => {
+      if (ids.length === 0) return
+      pushHistoryEntry(get, set, ids.length > 1 ? `Style ${ids.length} connectors` : 'Style connector')
+      set((state) => {
+        state.connectors.forEach(connector => {
+          if (!ids.includes(connector.id)) return
+          Object.assign(connector, style)
+          connector.updatedAt = Date.now()
+        })
+      })
+      get()._triggerAutoSave()
+    },
+
+    setConnectorRouting: (ids, routing) => {
+      if (ids.length === 0) return
+      pushHistoryEntry(get, set, ids.length > 1 ? `Route ${ids.length} connectors` : 'Route connector')
+      const elements = get().elements
+      const obstacles = elbowObstacles(elements)
+      set((state) => {
+        state.connectors.forEach(connector => {
+          if (!ids.includes(connector.id)) return
+          const { points } = connector
+          connector.routing = routing
+          delete connector.customRoute
+          connector.points = routing === 'elbow'
+            ? routeBetween(connector, elements, points.slice(0, 2), points.slice(-2), obstacles)
+            : [points[0], points[1], points[points.length - 2], points[points.length - 1]]
+          connector.updatedAt = Date.now()
+        })
+      })
+      get()._triggerAutoSave()
+    },
+
+    beginConnectorBendDrag: (id) => {
+      const connector = get().connectors.find(c => c.id === id)
+      if (!connector) return
+      pushHistoryEntry(get, set, 'Edit connector route', true)
+      if (connector.routing === 'elbow') {
+        set((state) => {
+          const target = state.connectors.find(c => c.id === id)
+          if (target) target.customRoute = true
+        })
+      }
+    },
+
+    removeConnectorBend: (id, index) => {
+      const connector = get().connectors.find(c => c.id === id)
+      if (!connector || connector.routing === 'elbow') return
+      const points = removeBend(connector.points, index)
+      if (points === connector.points) return
+      pushHistoryEntry(get, set, 'Remove bend')
+      set((state) => {
+        const target = state.connectors.find(c => c.id === id)
+        if (!target) return
+        target.points = points
+        target.updatedAt = Date.now()
+      })
+      get()._triggerAutoSave()
+    },
+
+    setConnectorAnchorMode: (ids, mode) => {
+      if (ids.length === 0) return
+      pushHistoryEntry(get, set, mode === 'auto' ? 'Auto-attach connector sides' : 'Fix connector sides')
+      set((state) => {
+        state.connectors.forEach(connector => {
+          if (!ids.includes(connector.id)) return
+          if (mode === 'auto') {
+            connector.anchorMode = 'auto'
+          } else {
+            delete connector.anchorMode
+          }
+          connector.updatedAt = Date.now()
+        })
+      })
+      // Move auto ends to their sides right away
+      get().updateConnectors()
+      get()._triggerAutoSave()
+    },
+
+    updateConnectorLabel: (id, label, position) => {
+      const connector = get().connectors.find(c => c.id === id)
+      if (!connector) return
+      const text = label.trim() === '' ? undefined : label
+      // Nothing to add, or the same text at the same place
+      if (text === connector.label && (text === undefined || position === undefined)) return
+      pushHistoryEntry(get, set, text === undefined ? 'Remove connector label' : 'Edit connector label')
+      set((state) => {
+        const target = state.connectors.find(c => c.id === id)
+        if (!target) return
+        if (text === undefined) {
+          delete target.label
+          delete target.labelPosition
+        } else {
+          target.label = text
+          if (position !== undefined) target.labelPosition = position
+        }
+        target.updatedAt = Date.now()
+      })
+      get()._triggerAutoSave()
+    },
+
+    beginConnectorLabelDrag: (id) => {
+      if (!get().connectors.some(c => c.id === id)) return
+      pushHistoryEntry(get, set, 'Move connector label', true)
+    },
+
+    moveConnectorLabel: (id, position) => {
+      set((state) => {
+        const connector = state.connectors.find(c => c.id === id)
+        if (!connector) return
+        connector.labelPosition = Math.min(1, Math.max(0, position))
+        connector.updatedAt = Date.now()
+      })
+      get()._triggerAutoSave()
+    },
+
     attachConnectorEnd: (id, end, elementId, anchor) => {
       set((state) => {
         const connector = state.connectors.find(c => c.id === id)
         const element = state.elements.find(e => e.id === elementId)
         if (!connector || !element) return
         const setPointToAnchor = (el: any, which: 'start' | 'end') => {
-          const ax = anchor === 'left' ? el.x : anchor === 'right' ? el.x + el.width : el.x + el.width / 2
-          const ay = anchor === 'top' ? el.y : anchor === 'bottom' ? el.y + el.height : el.y + el.height / 2
-          if (which === 'start') {
-            connector.points[0] = ax
-            connector.points[1] = ay
-          } else {
-            connector.points[2] = ax
-            connector.points[3] = ay
-          }
+          const { x: ax, y: ay } = getAnchorPoint(el, anchor)
+          const i = which === 'start' ? 0 : connector.points.length - 2
+          connector.points[i] = ax
+          connector.points[i + 1] = ay
         }
         if (end === 'from') {
           connector.fromId = elementId
@@ -675,7 +1305,7 @@ export const useBoardStore = create<BoardStore>()(
         connector.updatedAt = Date.now()
       })
       // If both ends are connected to elements, updateConnectors will follow from now on
-      get().updateConnectors()
+      get().updateConnectors([elementId])
       get()._triggerAutoSave()
     },
 
@@ -695,19 +1325,45 @@ export const useBoardStore = create<BoardStore>()(
       get()._triggerAutoSave()
     },
 
-    updateConnectors: () => {
+    updateConnectors: (elementIds) => {
+      const board = get()
+      const { elements, connectors } = board
+      // Drag frames call this with the moved elements only, so look up just the connectors around them
+      const moved = new Map<ElementID, CanvasElement>()
+      elementIds?.forEach(id => {
+        const element = findIndexedElement(board, id)
+        if (!element) return
+        moved.set(id, element)
+        if (isFrame(element)) frameDescendants(elements, id).forEach(child => moved.set(child.id, child))
+      })
+      const positions = elementIds ? affectedConnectors(board, [...moved.values()]) : connectors.map((_, i) => i)
+      // Where the elements were is needed until the connectors around them have followed
+      const settled = elementIds ? [...moved.keys()].filter(id => board.boardIndex.movedFrom[id]) : Object.keys(board.boardIndex.movedFrom)
+      if (positions.length === 0 && settled.length === 0) return
+
+      const obstacles = elbowObstacles(elements)
       set((state) => {
-        state.connectors.forEach(connector => {
-          const fromElement = state.elements.find(e => e.id === connector.fromId)
-          const toElement = state.elements.find(e => e.id === connector.toId)
+        positions.forEach(i => {
+          const connector = state.connectors[i]
+          const fromElement = findIndexedElement(board, connector.fromId)
+          const toElement = findIndexedElement(board, connector.toId)
 
           if (fromElement && toElement && connector.fromAnchor && connector.toAnchor) {
+            if (connector.anchorMode === 'auto') {
+              const anchors = facingSides(connector, fromElement, toElement)
+              // A hand-shaped elbow no longer fits once an end changes sides
+              if (anchors.fromAnchor !== connector.fromAnchor || anchors.toAnchor !== connector.toAnchor) {
+                delete connector.customRoute
+              }
+              Object.assign(connector, anchors)
+            }
             const fromPoint = getAnchorPoint(fromElement, connector.fromAnchor)
             const toPoint = getAnchorPoint(toElement, connector.toAnchor)
-            connector.points = [fromPoint.x, fromPoint.y, toPoint.x, toPoint.y]
+            connector.points = routeBetween(connector, [fromElement, toElement], [fromPoint.x, fromPoint.y], [toPoint.x, toPoint.y], obstacles)
             connector.updatedAt = Date.now()
           }
         })
+        settled.forEach(id => delete state.boardIndex.movedFrom[id])
       })
     },
 
@@ -745,8 +1401,7 @@ export const useBoardStore = create<BoardStore>()(
     createPartialConnection: (toPoint) => {
       const { connectionMode } = get()
       if (connectionMode.isActive && connectionMode.fromElementId && connectionMode.fromAnchor) {
-        // Save current snapshot to history
-        pushHistorySnapshot(get, set)
+        pushHistoryEntry(get, set, 'Add connector')
 
         const id = nanoid()
         const now = Date.now()
@@ -800,13 +1455,7 @@ export const useBoardStore = create<BoardStore>()(
       })
 
       // Auto-save viewport changes
-      const { viewport: newViewport } = get()
-      debouncedSaveViewport({
-        zoom: newViewport.zoom,
-        panX: newViewport.panX,
-        panY: newViewport.panY,
-        savedAt: Date.now()
-      })
+      get()._triggerViewportSave()
     },
 
     setZoom: (zoom) => {
@@ -815,13 +1464,7 @@ export const useBoardStore = create<BoardStore>()(
       })
 
       // Auto-save viewport changes
-      const { viewport } = get()
-      debouncedSaveViewport({
-        zoom: viewport.zoom,
-        panX: viewport.panX,
-        panY: viewport.panY,
-        savedAt: Date.now()
-      })
+      get()._triggerViewportSave()
     },
 
     setPan: (panX, panY) => {
@@ -831,13 +1474,7 @@ export const useBoardStore = create<BoardStore>()(
       })
 
       // Auto-save viewport changes
-      const { viewport } = get()
-      debouncedSaveViewport({
-        zoom: viewport.zoom,
-        panX: viewport.panX,
-        panY: viewport.panY,
-        savedAt: Date.now()
-      })
+      get()._triggerViewportSave()
     },
 
     // Flag: Dragging connector endpoint
@@ -873,43 +1510,59 @@ export const useBoardStore = create<BoardStore>()(
       })
     },
 
-    // 履歴（簡略版 - 実装は後で）
-    undo: () => {
-      const { history } = get()
-      if (history.past.length === 0) return
+    setResizingId: (id) => {
+      if (get().resizingId === id) return
       set((state) => {
-        const current = {
-          elements: deepClone(state.elements),
-          connectors: deepClone(state.connectors)
-        }
-        const previous = state.history.past.pop()!
-        state.history.future.push(current)
-        state.elements = deepClone(previous.elements)
-        state.connectors = deepClone(previous.connectors)
-        state.selectedIds = []
-        state.editingTextId = undefined
+        state.resizingId = id
       })
-      get()._triggerAutoSave()
+    },
+
+    // 履歴（immerパッチで前後に移動）
+    undo: () => {
+      get().jumpToHistory(get().history.past.length - 1)
     },
 
     redo: () => {
-      const { history } = get()
-      if (history.future.length === 0) return
+      get().jumpToHistory(get().history.past.length + 1)
+    },
+
+    jumpToHistory: (position) => {
+      // Land a running layout animation first so it does not move elements after the restore
+      cancelLayoutAnimation()
+      const { past, future } = get().history
+      const target = Math.max(0, Math.min(position, past.length + future.length))
+      if (target === past.length) return
+
       set((state) => {
-        const current = {
-          elements: deepClone(state.elements),
-          connectors: deepClone(state.connectors)
+        if (target < past.length) {
+          // Undo newest first
+          const undone = past.slice(target)
+          undone.slice().reverse().forEach(entry => applyPatches(state, entry.inversePatches))
+          state.history.past = past.slice(0, target)
+          state.history.future = [...future, ...undone.reverse()]
+        } else {
+          // Redo oldest first
+          const redone = future.slice(past.length + future.length - target).reverse()
+          redone.forEach(entry => applyPatches(state, entry.patches))
+          state.history.past = [...past, ...redone]
+          state.history.future = future.slice(0, past.length + future.length - target)
         }
-        const next = state.history.future.pop()!
-        state.history.past.push(current)
-        state.elements = deepClone(next.elements)
-        state.connectors = deepClone(next.connectors)
+        state.history.recording = false
         state.selectedIds = []
         state.editingTextId = undefined
       })
       get()._triggerAutoSave()
     },
 
+    setHistoryLimit: (limit) => {
+      set((state) => {
+        state.historyLimit = Math.max(1, Math.floor(limit))
+        trimHistory(state.history, state.historyLimit)
+      })
+    },
+
+    transaction: (label, fn) => runTransaction(get, set, label, fn),
+
     canUndo: () => {
       return get().history.past.length > 0
     },
@@ -918,10 +1571,14 @@ export const useBoardStore = create<BoardStore>()(
       return get().history.future.length > 0
     },
 
-    clearAll: () => {
+    clearAll: (options) => {
       set((state) => {
         state.elements = []
         state.connectors = []
+        if (options?.includeChat) {
+          state.chatHistory = []
+          state.mainTheme = null
+        }
         state.selectedIds = []
         state.editingTextId = undefined
         state.history.past = []
@@ -934,39 +1591,149 @@ export const useBoardStore = create<BoardStore>()(
 
     // ドラッグ開始時に一度だけ履歴を積む
     beginElementDrag: () => {
-      pushHistorySnapshot(get, set)
+      const { elements, selectedIds } = get()
+      pushHistoryEntry(get, set, `Move ${describeElements(elements.filter(e => selectedIds.includes(e.id)))}`, true)
     },
 
-    // Persistence
-    loadFromStorage: () => {
-      try {
-        // Restore board data
-        const data = loadBoardData()
-        if (data && data.elements) {
-          set((state) => {
-            state.elements = data.elements || []
-            state.connectors = data.connectors || []
-          })
-        }
+    // ドロップ先のフレームに取り込む（移動と同じ履歴に入る）
+    endElementDrag: () => {
+      assignFrames(set, get().selectedIds)
+      endGesture(set)
+      get()._triggerAutoSave()
+    },
 
-        // Restore viewport
-        const viewport = loadViewport()
-        if (viewport) {
-          debugLog('🔄 Restoring viewport from localStorage', viewport)
-          set((state) => {
-            state.viewport.zoom = viewport.zoom
-            state.viewport.panX = viewport.panX
-            state.viewport.panY = viewport.panY
-          })
-        }
-      } catch (error) {
-        console.warn('Failed to load from storage:', error)
+    setTransformScalesText: (value) => {
+      set((state) => {
+        state.transformScalesText = value
+      })
+    },
+
+    // 開始時の形を覚えておき、以降は常にそこから変形する（誤差が積もらない）
+    beginSelectionTransform: (kind) => {
+      const { elements, connectors, selectedIds, selectedConnectorIds } = get()
+      const selected = elements.filter(e => selectedIds.includes(e.id) && !e.locked)
+      const box = selectionBounds(selected, connectors.filter(c => selectedConnectorIds.includes(c.id)))
+      if (!box) return
+
+      // Frames carry their contents along
+      const ids = new Set(selected.map(e => e.id))
+      selected.filter(isFrame).forEach(frame => frameDescendants(elements, frame.id).forEach(child => ids.add(child.id)))
+      pushHistoryEntry(get, set, `${kind === 'move' ? 'Move' : 'Resize'} ${describeElements(selected)}`, true)
+      selectionTransform = {
+        box,
+        elements: elements.filter(e => ids.has(e.id) && !e.locked),
+        connectors: connectors.filter(c => selectedConnectorIds.includes(c.id))
       }
     },
 
+    updateSelectionTransform: (box) => {
+      const snapshot = selectionTransform
+      if (!snapshot) return
+      const scaleText = get().transformScalesText
+      set((state) => {
+        const now = Date.now()
+        snapshot.elements.forEach(start => {
+          const element = state.elements.find(e => e.id === start.id)
+          if (!element) return
+          Object.assign(element, transformElement(start, snapshot.box, box, scaleText))
+          element.updatedAt = now
+        })
+        snapshot.connectors.forEach(start => {
+          const connector = state.connectors.find(c => c.id === start.id)
+          if (!connector) return
+          connector.points = transformConnectorPoints(start.points, snapshot.box, box)
+          connector.updatedAt = now
+        })
+      })
+      get().updateConnectors(snapshot.elements.map(e => e.id))
+    },
+
+    endSelectionTransform: () => {
+      const snapshot = selectionTransform
+      if (!snapshot) return
+      selectionTransform = null
+      assignFrames(set, snapshot.elements.map(e => e.id))
+      endGesture(set)
+      get()._triggerAutoSave()
+    },
+
+    // Persistence
+    loadFromStorage: (boardId) => {
+      // Concurrent calls share the running load (or wait for it), so an empty storage gets one board
+      if (pendingLoad && pendingLoad.boardId === boardId) return pendingLoad.promise
+      const previous = pendingLoad?.promise ?? Promise.resolve()
+      const promise: Promise<void> = previous.then(() => loadStoredBoard(get, set, boardId)).finally(() => {
+        if (pendingLoad?.promise === promise) pendingLoad = null
+      })
+      pendingLoad = { boardId, promise }
+      return promise
+    },
+
     _triggerAutoSave: () => {
-      const { elements, connectors } = get()
-      debouncedSaveBoardData(elements, connectors)
+      // Saved once when the transaction ends
+      if (transactionDepth > 0) {
+        autoSavePending = true
+        return
+      }
+      const { currentBoardId, elements, connectors, chatHistory, mainTheme } = get()
+      if (!currentBoardId) return
+      debouncedSaveBoardData(currentBoardId, { elements, connectors, chatHistory, mainTheme })
+    },
+
+    _triggerViewportSave: () => {
+      const { currentBoardId, viewport } = get()
+      if (!currentBoardId) return
+      debouncedSaveViewport(currentBoardId, {
+        zoom: viewport.zoom,
+        panX: viewport.panX,
+        panY: viewport.panY,
+        savedAt: Date.now()
+      })
+    },
+
+    // Workspace
+    refreshBoards: async () => {
+      const boards = await listBoards()
+      set((state) => {
+        state.boards = boards
+      })
+    },
+
+    openBoard: async (boardId) => {
+      if (boardId === get().currentBoardId) return
+      await get().loadFromStorage(boardId)
+    },
+
+    createBoard: async (name) => {
+      await flushPendingSaves()
+      const meta = await createStoredBoard(name)
+      await get().loadFromStorage(meta.id)
+      return meta.id
+    },
+
+    renameBoard: async (boardId, name) => {
+      await renameStoredBoard(boardId, name)
+      await get().refreshBoards()
+    },
+
+    duplicateBoard: async (boardId) => {
+      const meta = await duplicateStoredBoard(boardId)
+      if (!meta) return null
+      await get().loadFromStorage(meta.id)
+      return meta.id
+    },
+
+    deleteBoard: async (boardId) => {
+      const isCurrent = boardId === get().currentBoardId
+      await deleteStoredBoard(boardId)
+
+      if (isCurrent) {
+        // Fall back to the most recent remaining board (a fresh one is created if none is left)
+        const remaining = await listBoards()
+        await get().loadFromStorage(remaining[0]?.id)
+      } else {
+        await get().refreshBoards()
+      }
     },
 
     // ヘルパー
@@ -983,20 +1750,41 @@ export const useBoardStore = create<BoardStore>()(
     },
 
     exportAsJSON: () => {
-      const { elements, connectors, viewport } = get()
+      const { elements, connectors, viewport, chatHistory, mainTheme } = get()
       return JSON.stringify({
+        version: CURRENT_DATA_VERSION,
         elements,
         connectors,
-        viewport
+        viewport,
+        chatHistory,
+        mainTheme
       })
     },
 
+    exportAsMarkdown: () => {
+      const { elements, connectors, chatHistory, mainTheme, boards, currentBoardId } = get()
+      return exportBoardAsMarkdown({
+        elements,
+        connectors,
+        chatHistory,
+        mainTheme,
+        boardName: boards.find(b => b.id === currentBoardId)?.name
+      })
+    },
+
+    // Accepts any historical export shape; returns what the migration changed or dropped
     importFromJSON: (json: string) => {
       try {
-        const data = JSON.parse(json)
+        const { data, report } = migrateBoardData(JSON.parse(json))
+        if (hasMigrationChanges(report)) {
+          logger.info(formatMigrationReport(report))
+        }
+
         set((state) => {
-          state.elements = data.elements || []
-          state.connectors = data.connectors || []
+          state.elements = data.elements
+          state.connectors = data.connectors
+          state.chatHistory = data.chatHistory
+          state.mainTheme = data.mainTheme
           state.viewport = data.viewport || { zoom: 1, panX: 0, panY: 0 }
           state.selectedIds = []
           state.editingTextId = undefined
@@ -1004,8 +1792,10 @@ export const useBoardStore = create<BoardStore>()(
           state.history.future = []
         })
         get()._triggerAutoSave()
+        return report
       } catch (error) {
         console.error('Failed to import JSON:', error)
+        return null
       }
     },
 
@@ -1030,7 +1820,8 @@ export const useBoardStore = create<BoardStore>()(
       const result = calculateKonvaOptimalHeight(element, text, viewport.zoom, 2000)
 
       if (result.shouldResize) {
-        updateElement(id, { height: result.newHeight })
+        // Follow-up to the edit that changed the text, not an undo step of its own
+        updateElement(id, { height: result.newHeight }, false, true)
         return true
       }
 
@@ -1046,14 +1837,15 @@ export const useBoardStore = create<BoardStore>()(
         }
         state.chatHistory.push(newMessage)
       })
+      get()._triggerAutoSave()
     },
 
     getChatContext: () => {
       const { chatHistory } = get()
 
-      // Build context using only summaries of last 5 assistant messages
+      // Build context using only summaries of last 5 assistant messages the user kept in context
       const recentAssistantMessages = chatHistory
-        .filter(msg => msg.role === 'assistant' && msg.summary)
+        .filter(msg => msg.role === 'assistant' && msg.summary && !msg.excludedFromContext)
         .slice(-5)
 
       if (recentAssistantMessages.length === 0) {
@@ -1067,10 +1859,27 @@ export const useBoardStore = create<BoardStore>()(
       return `Summary of past conversations:\n${contextLines.join('\n')}\n\n`
     },
 
+    getSelectionContext: (options) => {
+      const { elements, connectors, selectedIds } = get()
+      return serializeSelectionContext(elements, connectors, selectedIds, options)
+    },
+
+    setMessagesContextInclusion: (ids, included) => {
+      set((state) => {
+        state.chatHistory.forEach(msg => {
+          if (ids.includes(msg.id)) {
+            msg.excludedFromContext = !included
+          }
+        })
+      })
+      get()._triggerAutoSave()
+    },
+
     clearChatHistory: () => {
       set((state) => {
         state.chatHistory = []
       })
+      get()._triggerAutoSave()
     },
 
     // メインテーマ関連
@@ -1084,6 +1893,7 @@ export const useBoardStore = create<BoardStore>()(
           updatedAt: now
         }
       })
+      get()._triggerAutoSave()
     },
 
     updateMainTheme: (content) => {
@@ -1093,12 +1903,14 @@ export const useBoardStore = create<BoardStore>()(
           state.mainTheme.updatedAt = Date.now()
         }
       })
+      get()._triggerAutoSave()
     },
 
     removeMainTheme: () => {
       set((state) => {
         state.mainTheme = null
       })
+      get()._triggerAutoSave()
     },
 
     getMainTheme: () => {
@@ -1149,7 +1961,7 @@ export const useBoardStore = create<BoardStore>()(
       })
 
       // Then delete
-      deleteElements(selectedIds)
+      runTransaction(get, set, `Cut ${describeElements(selectedElements)}`, () => deleteElements(selectedIds))
     },
 
     paste: () => {
@@ -1159,8 +1971,7 @@ export const useBoardStore = create<BoardStore>()(
 
       if (clipboard.elements.length === 0) return
 
-      // Save history before paste
-      pushHistorySnapshot(get, set)
+      pushHistoryEntry(get, set, `Paste ${describeElements(clipboard.elements)}`)
 
       // Calculate position offset
       let offsetX: number, offsetY: number
@@ -1192,113 +2003,362 @@ export const useBoardStore = create<BoardStore>()(
         offsetY = 10
       }
 
-      // Create ID mapping for new elements
-      const idMap = new Map<ElementID, ElementID>()
-      const newElements: CanvasElement[] = []
+      insertCopies(get, set, clipboard.elements, clipboard.connectors, { x: offsetX, y: offsetY })
+      get()._triggerAutoSave()
+    },
 
-      // Create new elements with calculated offset
-      clipboard.elements.forEach(el => {
-        const newId = nanoid()
-        idMap.set(el.id, newId)
+    duplicateSelected: () => {
+      const { selectedIds, elements, connectors } = get()
+      const sources = elements.filter(e => selectedIds.includes(e.id))
+      if (sources.length === 0) return
 
-        const now = Date.now()
-        const newElement: CanvasElement = {
-          ...deepClone(el),
-          id: newId,
-          x: el.x + offsetX,
-          y: el.y + offsetY,
-          zIndex: get().getNextZIndex(),
-          createdAt: now,
-          updatedAt: now
-        }
-        newElements.push(newElement)
-      })
+      pushHistoryEntry(get, set, `Duplicate ${describeElements(sources)}`)
+      const innerConnectors = connectors.filter(c => selectedIds.includes(c.fromId) && selectedIds.includes(c.toId))
+      insertCopies(get, set, sources, innerConnectors, { x: DUPLICATE_OFFSET, y: DUPLICATE_OFFSET })
+      get()._triggerAutoSave()
+    }
+  }), { onBoardChange: updateBoardIndex }))
+)
 
-      // Create new connectors with updated IDs
-      const newConnectors: Connector[] = []
-      clipboard.connectors.forEach(conn => {
-        const newFromId = idMap.get(conn.fromId)
-        const newToId = idMap.get(conn.toId)
+// Add copies of elements (and the connectors between them) shifted by `offset` and select them.
+// Copies get new ids and their own groups; connectors to elements that were not copied are dropped.
+function insertCopies(
+  get: any,
+  set: any,
+  sources: CanvasElement[],
+  sourceConnectors: Connector[],
+  offset: { x: number; y: number }
+): CanvasElement[] {
+  // Create ID mapping for new elements
+  const idMap = new Map<ElementID, ElementID>()
+  const newElements: CanvasElement[] = []
+
+  // Create new elements with calculated offset
+  sources.forEach(el => {
+    const newId = nanoid()
+    idMap.set(el.id, newId)
+
+    const now = Date.now()
+    const newElement: CanvasElement = {
+      ...deepClone(el),
+      id: newId,
+      x: el.x + offset.x,
+      y: el.y + offset.y,
+      zIndex: get().getNextZIndex(),
+      createdAt: now,
+      updatedAt: now
+    }
+    newElements.push(newElement)
+  })
 
-        if (newFromId && newToId) {
-          const now = Date.now()
-          const newConnector: Connector = {
-            ...deepClone(conn),
-            id: nanoid(),
-            fromId: newFromId,
-            toId: newToId,
-            zIndex: get().getNextZIndex(),
-            createdAt: now,
-            updatedAt: now
-          }
+  // Copies form their own groups
+  renameGroups(newElements, nanoid)
+
+  // Copies stay in copied frames; the rest joins the frame they are pasted into
+  newElements.forEach(el => {
+    const copiedFrameId = el.frameId && idMap.get(el.frameId)
+    const frameId = copiedFrameId || findContainingFrame([...get().elements, ...newElements], el)?.id
+    if (frameId) {
+      el.frameId = frameId
+    } else {
+      delete el.frameId
+    }
+  })
 
-          // Recalculate connector points based on new element positions
-          const fromElement = newElements.find(e => e.id === newFromId)
-          const toElement = newElements.find(e => e.id === newToId)
+  // Create new connectors with updated IDs
+  const newConnectors: Connector[] = []
+  sourceConnectors.forEach(conn => {
+    const newFromId = idMap.get(conn.fromId)
+    const newToId = idMap.get(conn.toId)
 
-          if (fromElement && toElement && newConnector.fromAnchor && newConnector.toAnchor) {
-            const fromPoint = getAnchorPoint(fromElement, newConnector.fromAnchor)
-            const toPoint = getAnchorPoint(toElement, newConnector.toAnchor)
-            newConnector.points = [fromPoint.x, fromPoint.y, toPoint.x, toPoint.y]
-          }
+    if (newFromId && newToId) {
+      const now = Date.now()
+      const newConnector: Connector = {
+        ...deepClone(conn),
+        id: nanoid(),
+        fromId: newFromId,
+        toId: newToId,
+        zIndex: get().getNextZIndex(),
+        createdAt: now,
+        updatedAt: now
+      }
 
-          newConnectors.push(newConnector)
-        }
-      })
+      // The copies moved by the offset, and so does the whole route with its bends
+      newConnector.points = conn.points.map((value, i) => value + (i % 2 === 0 ? offset.x : offset.y))
 
-      // Add new elements and connectors to state
-      set((state) => {
-        state.elements.push(...newElements)
-        state.connectors.push(...newConnectors)
+      newConnectors.push(newConnector)
+    }
+  })
 
-        // Select newly pasted elements and switch to select mode
-        state.selectedIds = newElements.map(e => e.id)
-        state.selectedTool = 'select'
-        state.mode = 'select'
-      })
+  // Add new elements and connectors to state
+  set((state: any) => {
+    state.elements.push(...newElements)
+    state.connectors.push(...newConnectors)
 
-      get()._triggerAutoSave()
-    }
-  }))
-)
+    // Select the copies and switch to select mode
+    state.selectedIds = newElements.map(e => e.id)
+    state.selectedConnectorIds = []
+    state.selectedTool = 'select'
+    state.mode = 'select'
+  })
+  return newElements
+}
+
+// Re-evaluate which frame each element belongs to from its current position
+function assignFrames(set: any, ids: ElementID[]) {
+  set((s: any) => {
+    ids.forEach(id => {
+      const element = s.elements.find((e: CanvasElement) => e.id === id)
+      if (!element) return
+      const frame = findContainingFrame(s.elements, element)
+      if (frame) {
+        element.frameId = frame.id
+      } else {
+        delete element.frameId
+      }
+    })
+  })
+}
 
-// Optimized history management with max history limit
-const MAX_HISTORY_SIZE = 20
+// The element plus the rest of its selectable group, back to front
+function groupMembersByZ(state: BoardStore, id: ElementID): CanvasElement[] {
+  const ids = expandToGroups(state.elements, [id], state.enteredGroupId)
+  return state.elements.filter(e => ids.includes(e.id)).sort((a, b) => a.zIndex - b.zIndex)
+}
 
 function deepClone<T>(obj: T): T {
   return JSON.parse(JSON.stringify(obj))
 }
 
-function pushHistorySnapshot(get: any, set: any) {
-  const state = get()
-  const snapshot = {
-    elements: deepClone(state.elements),
-    connectors: deepClone(state.connectors)
+// Running layout animation (applyLayout); finished immediately when another one starts
+const LAYOUT_ANIMATION_MS = 350
+let layoutAnimationFrame: number | null = null
+let finishLayoutAnimation: (() => void) | null = null
+
+function cancelLayoutAnimation() {
+  if (layoutAnimationFrame !== null) {
+    cancelAnimationFrame(layoutAnimationFrame)
+    layoutAnimationFrame = null
+    finishLayoutAnimation?.()
+  }
+  finishLayoutAnimation = null
+}
+
+// Selection as it was when the transform box started moving (beginSelectionTransform)
+let selectionTransform: {
+  box: { x: number; y: number; width: number; height: number }
+  elements: CanvasElement[]
+  connectors: Connector[]
+} | null = null
+
+// Last keyboard nudge, so quick repeats extend its history entry instead of adding new ones
+const NUDGE_COALESCE_MS = 1000
+let lastNudge: { entryId: number | undefined; key: string; at: number } | null = null
+
+// Offset (canvas px) of duplicated elements from their originals
+const DUPLICATE_OFFSET = 20
+
+// While > 0, new entries and autosaves are held so a compound action is one undo step and one save
+let transactionDepth = 0
+let autoSavePending = false
+
+function runTransaction<T>(get: any, set: any, label: string, fn: () => T): T {
+  // Nested: part of the outer transaction
+  if (transactionDepth > 0) return fn()
+
+  // A failed transaction leaves the redo stack as it was
+  const { future } = get().history
+  pushHistoryEntry(get, set, label)
+  const entryId: number = get().history.past[get().history.past.length - 1].id
+  const endTransaction = () => {
+    transactionDepth--
+    const shouldSave = autoSavePending
+    autoSavePending = false
+    if (shouldSave) get()._triggerAutoSave()
+  }
+
+  transactionDepth++
+  try {
+    const result = fn()
+    set((s: any) => {
+      // Nothing changed: do not leave an empty step in the timeline
+      if (s.history.past.some((e: HistoryEntry) => e.id === entryId && e.patches.length === 0)) {
+        s.history.past = s.history.past.filter((e: HistoryEntry) => e.id !== entryId)
+      }
+      s.history.recording = false
+    })
+    endTransaction()
+    return result
+  } catch (error) {
+    const entry = get().history.past.find((e: HistoryEntry) => e.id === entryId)
+    set((s: any) => {
+      if (entry) applyPatches(s, entry.inversePatches)
+      s.history.past = s.history.past.filter((e: HistoryEntry) => e.id !== entryId)
+      s.history.future = future
+      s.history.recording = false
+    })
+    logger.warn(`Transaction "${label}" failed and was rolled back`, error)
+    endTransaction()
+    throw error
+  }
+}
+
+// Board load in progress (see loadFromStorage)
+let pendingLoad: { boardId: string | undefined; promise: Promise<void> } | null = null
+
+async function loadStoredBoard(get: any, set: any, boardId?: string) {
+  try {
+    // Make sure edits to the board being left are written first
+    await flushPendingSaves()
+    await migrateLegacyStorage()
+
+    let boards = await listBoards()
+    if (boards.length === 0) {
+      boards = [await createStoredBoard()]
+    }
+
+    const requestedId = boardId ?? getActiveBoardId()
+    const target = boards.find(b => b.id === requestedId) ?? boards[0]
+
+    // Restore board data and viewport
+    let data: Awaited<ReturnType<typeof loadBoardData>>
+    try {
+      data = await loadBoardData(target.id)
+    } catch (error) {
+      // Not opened: the current board stays (none on startup), so autosave never writes over the stored data
+      set((state: BoardStore) => {
+        state.boardLoadError = { boardId: target.id, message: error instanceof Error ? error.message : String(error) }
+      })
+      await get().refreshBoards()
+      return
+    }
+    const viewport = await loadViewport(target.id)
+    if (viewport) {
+      debugLog('🔄 Restoring viewport from storage', viewport)
+    }
+
+    set((state: BoardStore) => {
+      state.currentBoardId = target.id
+      state.boardLoadError = null
+      state.elements = data?.elements || []
+      state.connectors = data?.connectors || []
+      state.chatHistory = data?.chatHistory || []
+      state.mainTheme = data?.mainTheme ?? null
+      state.viewport = viewport
+        ? { zoom: viewport.zoom, panX: viewport.panX, panY: viewport.panY }
+        : { zoom: 1, panX: 0, panY: 0 }
+      state.selectedIds = []
+      state.selectedConnectorIds = []
+      state.editingTextId = undefined
+      state.mode = 'idle'
+      state.history.past = []
+      state.history.future = []
+    })
+
+    setActiveBoardId(target.id)
+    await touchBoard(target.id)
+    await get().refreshBoards()
+  } catch (error) {
+    console.warn('Failed to load from storage:', error)
   }
+}
+
+// Start a labeled undo step; board changes are recorded into it until the action returns
+// (a gesture keeps recording across actions until endGesture or the next step)
+function pushHistoryEntry(get: any, set: any, label: string, gesture = false) {
+  if (transactionDepth > 0) return
+  // A running layout animation lands in its own entry first
+  cancelLayoutAnimation()
+
   set((s: any) => {
-    // Limit history size to prevent memory bloat
-    if (s.history.past.length >= MAX_HISTORY_SIZE) {
-      // Remove oldest history items, keeping most recent
-      s.history.past = s.history.past.slice(-(MAX_HISTORY_SIZE - 1))
+    const last = s.history.past[s.history.past.length - 1]
+    // An entry that never changed anything (e.g. a click that did not move) is replaced
+    if (last && s.history.recording && last.patches.length === 0) {
+      s.history.past.pop()
     }
-    s.history.past.push(snapshot)
+    s.history.past.push(createHistoryEntry(label))
+    trimHistory(s.history, get().historyLimit ?? DEFAULT_HISTORY_LIMIT)
     // Clear future history on new action
     s.history.future = []
+    s.history.recording = true
+    s.history.gesture = gesture
   })
 }
 
-// Calculate anchor point coordinates
-function getAnchorPoint(element: { x: number; y: number; width: number; height: number }, anchor: AnchorPosition) {
+function endGesture(set: any) {
+  set((s: any) => {
+    if (!s.history.gesture) return
+    s.history.gesture = false
+    s.history.recording = false
+  })
+}
+
+// Boxes automatic elbows go around; built on first use, so one update routing many elbows builds them once
+function elbowObstacles(elements: CanvasElement[]): () => Box[] {
+  let boxes: Box[] | null = null
+  return () => boxes ??= elements.filter(e => !isFrame(e)).map(e => rotatedBounds(e))
+}
+
+/**
+ * Points for a connector whose ends are now at `start` / `end`.
+ * Automatic elbows are routed around the `obstacles`; otherwise the bends stay,
+ * moving along when both ends moved together and staying at right angles on an elbow.
+ * `elements` needs to hold the elements the connector is attached to.
+ */
+function routeBetween(
+  connector: Connector,
+  elements: CanvasElement[],
+  start: number[],
+  end: number[],
+  obstacles: () => Box[]
+): number[] {
+  const [startPoint, endPoint] = [{ x: start[0], y: start[1] }, { x: end[0], y: end[1] }]
+  if (isAutoRouted(connector)) {
+    return elbowRoute(
+      startPoint, endDirection(connector, 'start', elements),
+      endPoint, endDirection(connector, 'end', elements),
+      obstacles()
+    )
+  }
+  const { points } = connector
+  const n = points.length
+  const dx = start[0] - points[0]
+  const dy = start[1] - points[1]
+  if (n > 4 && dx === end[0] - points[n - 2] && dy === end[1] - points[n - 1]) {
+    return points.map((value, i) => value + (i % 2 === 0 ? dx : dy))
+  }
+  if (connector.routing === 'elbow') {
+    return moveElbowEnd(moveElbowEnd(points, 'start', startPoint), 'end', endPoint)
+  }
+  return withEndPoint(withEndPoint(points, 'start', startPoint), 'end', endPoint)
+}
+
+/**
+ * Sides an auto-anchored connector attaches to: each end takes the side closest to
+ * where the line heads next (its first bend, or else the other element's center)
+ */
+function facingSides(connector: Connector, fromElement: CanvasElement, toElement: CanvasElement) {
+  const { points } = connector
+  const n = points.length
+  const hasBends = connector.routing !== 'elbow' && n > 4
+  const center = (e: CanvasElement) => rotateWithElement(e, { x: e.x + e.width / 2, y: e.y + e.height / 2 })
+  const fromTarget = hasBends ? { x: points[2], y: points[3] } : center(toElement)
+  const toTarget = hasBends ? { x: points[n - 4], y: points[n - 3] } : center(fromElement)
+  return { fromAnchor: nearestAnchor(fromElement, fromTarget), toAnchor: nearestAnchor(toElement, toTarget) }
+}
+
+// Calculate anchor point coordinates (anchors turn with a rotated element)
+function getAnchorPoint(element: { x: number; y: number; width: number; height: number; rotation?: number }, anchor: AnchorPosition) {
   const { x, y, width, height } = element
 
   switch (anchor) {
     case 'top':
-      return { x: x + width / 2, y }
+      return rotateWithElement(element, { x: x + width / 2, y })
     case 'right':
-      return { x: x + width, y: y + height / 2 }
+      return rotateWithElement(element, { x: x + width, y: y + height / 2 })
     case 'bottom':
-      return { x: x + width / 2, y: y + height }
+      return rotateWithElement(element, { x: x + width / 2, y: y + height })
     case 'left':
-      return { x, y: y + height / 2 }
+      return rotateWithElement(element, { x, y: y + height / 2 })
   }
 }
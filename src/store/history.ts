@@ -0,0 +1,224 @@
+/**
+ * Undo/redo history built on immer patches.
+ * Each entry keeps only what changed (patches + inverse patches) instead of a copy of the board.
+ */
+import { enablePatches, produce, produceWithPatches, type Patch } from 'immer'
+import type { StateCreator } from 'zustand'
+import type { CanvasElement } from '@/types'
+
+enablePatches()
+
+export type HistoryEntry = {
+  id: number
+  label: string
+  timestamp: number
+  patches: Patch[]
+  inversePatches: Patch[]
+}
+
+export type HistoryState = {
+  past: HistoryEntry[]
+  // Next redo is the last item
+  future: HistoryEntry[]
+  // Whether changes are still collected into the last past entry
+  recording?: boolean
+  // The last entry belongs to a gesture (drag, rotation...) made of many actions; it keeps recording until the gesture ends
+  gesture?: boolean
+}
+
+export const DEFAULT_HISTORY_LIMIT = 500
+
+// Only board content is undoable; selection, viewport, chat etc. never enter history
+const TRACKED_KEYS = ['elements', 'connectors']
+
+// Fallback label for structural edits made without an explicit history entry
+const UNLABELED_EDIT = 'Edit board'
+
+let nextEntryId = 1
+
+export function createHistoryEntry(label: string): HistoryEntry {
+  return { id: nextEntryId++, label, timestamp: Date.now(), patches: [], inversePatches: [] }
+}
+
+const isTracked = (patch: Patch) => TRACKED_KEYS.includes(patch.path[0] as string)
+
+// Adding/removing items shifts array indices, so later index-based patches depend on it
+// (adding or removing a field of an item shifts nothing, like a replace)
+const isStructural = (patch: Patch) =>
+  patch.path.length === 1 || patch.path[1] === 'length' || (patch.path.length === 2 && patch.op !== 'replace')
+
+const samePath = (a: Patch, b: Patch) =>
+  a.path.length === b.path.length && a.path.every((key, i) => key === b.path[i])
+
+// One path contains the other, e.g. ['elements', 0] and ['elements', 0, 'x']
+const overlaps = (a: Patch, b: Patch) => {
+  const length = Math.min(a.path.length, b.path.length)
+  return a.path.slice(0, length).every((key, i) => key === b.path[i])
+}
+
+/**
+ * Add the patches of one state update to an entry (mutates a draft).
+ * Repeated updates of the same fields (drag frames) are merged so an entry stays small.
+ */
+export function appendPatches(entry: HistoryEntry, patches: Patch[], inversePatches: Patch[]): void {
+  // Replace ops after the last structural op can be merged by path
+  let runStart = entry.patches.length
+  while (runStart > 0 && entry.patches[runStart - 1].op === 'replace') runStart--
+  const run = entry.patches.slice(runStart)
+
+  // A later patch touching the same data would override the merged value
+  const matchIndex = (patch: Patch) => {
+    const index = run.findIndex(existing => samePath(existing, patch))
+    return index >= 0 && !run.slice(index + 1).some(later => overlaps(later, patch)) ? index : -1
+  }
+
+  const mergeable = patches.every(patch => patch.op === 'replace' && matchIndex(patch) >= 0)
+  if (mergeable) {
+    patches.forEach(patch => {
+      entry.patches[runStart + matchIndex(patch)].value = patch.value
+    })
+    // The existing inverse patches already restore the oldest values
+    return
+  }
+
+  entry.patches.push(...patches)
+  entry.inversePatches.unshift(...inversePatches)
+}
+
+/**
+ * Drop the oldest entries beyond the limit (mutates a draft)
+ */
+export function trimHistory(history: HistoryState, limit: number): void {
+  if (history.past.length > limit) {
+    history.past.splice(0, history.past.length - limit)
+  }
+}
+
+type ImmerStateCreator<T> = StateCreator<T, [['zustand/immer', never]], [], T>
+
+export type PatchHistoryOptions<T> = {
+  // Keeps state derived from the board (e.g. indexes) in step: gets a draft after every board change,
+  // the change's patches on board content and the state before it
+  onBoardChange?: (draft: T, patches: Patch[], previous: T) => void
+}
+
+/**
+ * Middleware (inside `immer`) that records board changes into `state.history`.
+ * While `history.recording` is on, tracked patches go into the last past entry.
+ * Recording ends when the outermost action returns, unless the entry belongs to a gesture.
+ * Structural changes made while not recording get their own entry so later patches keep valid indices.
+ */
+export function patchHistory<T extends { history: HistoryState }>(
+  creator: ImmerStateCreator<T>,
+  { onBoardChange }: PatchHistoryOptions<NoInfer<T>> = {}
+): ImmerStateCreator<T> {
+  return (set, get, api) => {
+    const recordingSet = ((updater: unknown, replace?: boolean) => {
+      const previous = get()
+      if (typeof updater !== 'function') {
+        // Plain objects (setState from outside) are not recorded, but replaced board content is still reported
+        const values = updater as Partial<T>
+        const replaced = TRACKED_KEYS.filter(key => key in values && values[key as keyof T] !== previous[key as keyof T])
+        const next = onBoardChange && replaced.length > 0
+          ? produce({ ...previous, ...values }, (draft: T) => onBoardChange(
+            draft,
+            replaced.map(key => ({ op: 'replace' as const, path: [key], value: values[key as keyof T] })),
+            previous
+          ))
+          : values
+        return (set as (state: unknown, replace?: boolean) => void)(next, replace)
+      }
+
+      const [nextState, allPatches, allInversePatches] = produceWithPatches(previous, updater as (draft: T) => void)
+      const patches = allPatches.filter(isTracked)
+      // Updates that manage history themselves (undo, load, reset) are left alone
+      const touchesHistory = allPatches.some(patch => patch.path[0] === 'history')
+
+      let state = nextState
+      if (patches.length > 0 && onBoardChange) {
+        state = produce(state, (draft: T) => onBoardChange(draft, patches, previous))
+      }
+      if (patches.length > 0 && !touchesHistory) {
+        const inversePatches = allInversePatches.filter(isTracked)
+        const { history } = state
+        const recording = history.recording && history.past.length > 0
+
+        if (recording || patches.some(isStructural)) {
+          state = produce(state, (draft: T) => {
+            if (!recording) {
+              draft.history.past.push(createHistoryEntry(UNLABELED_EDIT))
+              draft.history.future = []
+              draft.history.recording = true
+              draft.history.gesture = false
+            }
+            appendPatches(draft.history.past[draft.history.past.length - 1], patches, inversePatches)
+          })
+        }
+      }
+
+      return (set as (state: T, replace?: boolean) => void)(state, replace)
+    }) as typeof set
+
+    // Actions call each other; only the outermost one ends the entry
+    let depth = 0
+    const endAction = () => {
+      const { history } = get()
+      if (!history.recording || history.gesture) return
+      set((draft) => {
+        draft.history.recording = false
+      })
+    }
+
+    // setState from outside goes through the same path
+    api.setState = recordingSet
+    const state = creator(recordingSet, get, api)
+    const actions = Object.fromEntries(
+      Object.entries(state as object)
+        .filter(([, value]) => typeof value === 'function')
+        .map(([key, action]) => [key, (...args: unknown[]) => {
+          depth++
+          try {
+            return action(...args)
+          } finally {
+            depth--
+            if (depth === 0) endAction()
+          }
+        }])
+    )
+    return { ...state, ...actions }
+  }
+}
+
+// ---- Labels ----
+
+const NOUNS: Record<CanvasElement['type'], [string, string]> = {
+  sticky: ['sticky', 'stickies'],
+  text: ['text', 'texts'],
+  rect: ['rectangle', 'rectangles'],
+  image: ['image', 'images'],
+  frame: ['frame', 'frames']
+}
+
+/**
+ * "sticky", "3 stickies" or "2 elements" for mixed types
+ */
+export function describeElements(elements: Pick<CanvasElement, 'type'>[]): string {
+  if (elements.length === 0) return 'elements'
+  const types = new Set(elements.map(e => e.type))
+  const [singular, plural] = types.size === 1 ? NOUNS[elements[0].type] : ['element', 'elements']
+  return elements.length === 1 ? singular : `${elements.length} ${plural}`
+}
+
+/**
+ * Label for an element update based on which fields change
+ */
+export function describeUpdate(element: Pick<CanvasElement, 'type'>, updates: Partial<CanvasElement>): string {
+  const noun = describeElements([element])
+  const keys = Object.keys(updates)
+  if (keys.includes('text')) return `Edit ${noun}`
+  if (keys.some(key => key === 'color' || key === 'fill' || key === 'stroke')) return 'Change color'
+  if (keys.includes('width') || keys.includes('height')) return `Resize ${noun}`
+  if (keys.includes('rotation')) return `Rotate ${noun}`
+  if (keys.includes('x') || keys.includes('y')) return `Move ${noun}`
+  return `Edit ${noun}`
+}
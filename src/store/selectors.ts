@@ -2,6 +2,7 @@
 import { useMemo } from 'react'
 import { useBoardStore } from './boardStore'
 import type { CanvasElement, Connector, ElementID } from '@/types'
+import { paintOrder } from '@/lib/frames'
 
 // Memoized selectors to prevent unnecessary re-renders
 export const useElements = () => useBoardStore(state => state.elements)
@@ -15,6 +16,7 @@ export const useConnectionMode = () => useBoardStore(state => state.connectionMo
 export const useConnectorDrag = () => useBoardStore(state => state.connectorDrag)
 export const useHoveredElementId = () => useBoardStore(state => state.hoveredElementId)
 export const useCursorPosition = () => useBoardStore(state => state.cursorPosition)
+export const useTransformScalesText = () => useBoardStore(state => state.transformScalesText)
 
 // Optimized derived state selectors with memoization
 export const useSelectedElements = () => {
@@ -28,6 +30,17 @@ export const useSelectedElements = () => {
   }, [elements, selectedIds])
 }
 
+export const useSelectedConnectors = () => {
+  const connectors = useConnectors()
+  const selectedConnectorIds = useBoardStore(state => state.selectedConnectorIds)
+
+  return useMemo(() => {
+    if (selectedConnectorIds.length === 0) return []
+    const selected = new Set(selectedConnectorIds)
+    return connectors.filter(connector => selected.has(connector.id))
+  }, [connectors, selectedConnectorIds])
+}
+
 export const useElementsInViewport = () => {
   const elements = useElements()
   const viewport = useViewport()
@@ -56,9 +69,8 @@ export const useElementsInViewport = () => {
 export const useSortedElements = () => {
   const elements = useElementsInViewport()
   
-  return useMemo(() => {
-    return elements.slice().sort((a, b) => a.zIndex - b.zIndex)
-  }, [elements])
+  // Frames stay behind their contents whatever their zIndex
+  return useMemo(() => paintOrder(elements), [elements])
 }
 
 export const useElementById = (id: ElementID) => {
@@ -77,6 +89,9 @@ export const useIsElementSelected = (id: ElementID) => {
   }, [selectedIds, id])
 }
 
+// More than one item selected: the shared transform box replaces the per-element handles
+export const useIsMultiSelection = () => useBoardStore(state => state.selectedIds.length + state.selectedConnectorIds.length > 1)
+
 export const useCanUndo = () => useBoardStore(state => state.canUndo())
 export const useCanRedo = () => useBoardStore(state => state.canRedo())
 
@@ -91,6 +106,8 @@ export const useStoreActions = () => useBoardStore(state => ({
   deleteElement: state.deleteElement,
   deleteElements: state.deleteElements,
   moveElement: state.moveElement,
+  applyLayout: state.applyLayout,
+  arrangeSelected: state.arrangeSelected,
   
   // Selection actions
   selectShape: state.selectShape,
@@ -118,16 +135,22 @@ export const useStoreActions = () => useBoardStore(state => ({
   // History actions
   undo: state.undo,
   redo: state.redo,
+  transaction: state.transaction,
   
   // Text formatting actions
   updateTextAlignment: state.updateTextAlignment,
   updateVerticalAlignment: state.updateVerticalAlignment,
   updateElementColor: state.updateElementColor,
   updateFontSize: state.updateFontSize,
+  updateConnectorStyle: state.updateConnectorStyle,
+  setConnectorRouting: state.setConnectorRouting,
+  setConnectorAnchorMode: state.setConnectorAnchorMode,
 
   // Utility actions
   bringToFront: state.bringToFront,
   sendToBack: state.sendToBack,
+  toggleLockSelected: state.toggleLockSelected,
+  setTransformScalesText: state.setTransformScalesText,
   beginElementDrag: state.beginElementDrag,
   _triggerAutoSave: state._triggerAutoSave,
   setHoveredElementId: state.setHoveredElementId,
@@ -2,7 +2,7 @@ export type ElementID = string
 
 export type BaseElement = {
   id: ElementID
-  type: 'sticky' | 'text' | 'rect' | 'image'
+  type: 'sticky' | 'text' | 'rect' | 'image' | 'frame'
   x: number
   y: number
   width: number
@@ -10,6 +10,10 @@ export type BaseElement = {
   rotation?: number
   zIndex: number
   locked?: boolean
+  // Groups this element belongs to, outermost first (see lib/groups)
+  groupIds?: ElementID[]
+  // Frame that contains this element (see lib/frames)
+  frameId?: ElementID
   createdAt: number
   updatedAt: number
 }
@@ -48,7 +52,15 @@ export type ImageElement = BaseElement & {
   originalHeight: number
 }
 
-export type CanvasElement = StickyElement | TextElement | RectElement | ImageElement
+// Titled area that owns the elements placed inside it
+export type FrameElement = BaseElement & {
+  type: 'frame'
+  title: string
+  // Hide the parts of children outside the frame
+  clip?: boolean
+}
+
+export type CanvasElement = StickyElement | TextElement | RectElement | ImageElement | FrameElement
 
 // Connection anchor positions (edge centers)
 export type AnchorPosition = 'top' | 'right' | 'bottom' | 'left'
@@ -59,13 +71,33 @@ export type CornerDirection = 'nw' | 'ne' | 'sw' | 'se'
 // Edge directions (for connection points)
 export type EdgeDirection = 'n' | 'e' | 's' | 'w'
 
+// Connector line styles (see lib/connector-style for the defaults)
+export type ConnectorDash = 'solid' | 'dashed' | 'dotted'
+export type ConnectorMarker = 'none' | 'arrow' | 'open-arrow' | 'circle' | 'diamond' | 'bar'
+// How the line runs between its ends (see lib/connector-routing)
+export type ConnectorRouting = 'straight' | 'elbow' | 'curved'
+// fixed: ends stay on the side they were attached to; auto: ends move to the side facing the other end
+export type ConnectorAnchorMode = 'fixed' | 'auto'
+
 export type Connector = {
   id: ElementID
   fromId: ElementID
   toId: ElementID
   fromAnchor?: AnchorPosition
   toAnchor?: AnchorPosition
-  points: number[] // [x1,y1,x2,y2]（描画時に再計算可）
+  points: number[] // [x1,y1,...折れ点,xn,yn]
+  routing?: ConnectorRouting
+  // Bends were placed by hand: keep them when the ends move instead of re-routing
+  customRoute?: boolean
+  anchorMode?: ConnectorAnchorMode
+  stroke?: string
+  strokeWidth?: number
+  dash?: ConnectorDash
+  startMarker?: ConnectorMarker
+  endMarker?: ConnectorMarker
+  // Text shown on the line, centered at `labelPosition` (0–1 along the path, default the middle)
+  label?: string
+  labelPosition?: number
   zIndex: number
   createdAt: number
   updatedAt: number
@@ -93,7 +125,7 @@ export type BoardState = {
   }
 }
 
-export type Tool = 'select' | 'pan' | 'sticky' | 'text' | 'rect' | 'connector' | 'line' | 'image'
+export type Tool = 'select' | 'pan' | 'sticky' | 'text' | 'rect' | 'frame' | 'connector' | 'line' | 'image'
 
 // Figma/Google Slides風のモード管理
 export type Mode = 'idle' | 'select' | 'transform' | 'editingText' | 'placing' | 'panning'
@@ -114,6 +146,7 @@ export type ChatMessage = {
   content: string     // 全文（表示用）
   summary?: string    // サマリ（assistantのみ）
   timestamp: number
+  excludedFromContext?: boolean // ユーザーがコンテキストから除外したメッセージ
 }
 
 // メインテーマ型
@@ -128,4 +161,15 @@ export type MainTheme = {
 export type LLMResponse = {
   text: string
   summary: string
-}
\ No newline at end of file
+}
+// マインドマップ型（LLMが生成する構造化ツリー、関係はラベルで参照）
+export type MindMapBranch = {
+  label: string
+  children: string[]
+}
+
+export type MindMap = {
+  root: string
+  children: MindMapBranch[]
+  relations: { from: string; to: string }[]
+}
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { useBoardStore } from '../../src/store/boardStore'
+import { migrateBoardData, CURRENT_DATA_VERSION, BoardDataMigrationError } from '../../src/lib/migrations'
+import { _getStorageBackend, _resetStorageBackend, createBoard, flushPendingSaves } from '../../src/lib/persistence'
+import unversionedExport from './fixtures/unversioned-export.json'
+import v100LocalStorage from './fixtures/v1.0.0-local-storage.json'
+import v110Board from './fixtures/v1.1.0-board.json'
 
 describe('リファクタリング後の検証test', () => {
   beforeEach(() => {
@@ -188,4 +193,102 @@ describe('リファクタリング後の検証test', () => {
       expect(keptCode.length).toBe(6)
     })
   })
-})
\ No newline at end of file
+
+  describe('保存データのスキーマmigration', () => {
+    const fixtures = [
+      { name: 'unversioned export', data: unversionedExport },
+      { name: 'v1.0.0 localStorage', data: v100LocalStorage },
+      { name: 'v1.1.0 board', data: v110Board }
+    ]
+
+    it.each(fixtures)('$name は現行スキーマにupgradeされる', ({ data }) => {
+      const { data: migrated, report } = migrateBoardData(data)
+
+      expect(migrated.version).toBe(CURRENT_DATA_VERSION)
+      expect(report.toVersion).toBe(CURRENT_DATA_VERSION)
+      expect(Array.isArray(migrated.chatHistory)).toBe(true)
+      migrated.elements.forEach(el => {
+        expect(typeof el.zIndex).toBe('number')
+        expect(typeof el.createdAt).toBe('number')
+        expect(typeof el.updatedAt).toBe('number')
+      })
+    })
+
+    it('unversioned export: defaultを補完し不正なデータを報告してdropする', () => {
+      const { data, report } = migrateBoardData(unversionedExport)
+
+      expect(report.fromVersion).toBe('0.0.0')
+      expect(report.applied).toHaveLength(2)
+      expect(data.elements.map(e => e.id)).toEqual(['sticky-1', 'text-1', 'rect-1'])
+
+      const text = data.elements.find(e => e.id === 'text-1') as any
+      expect(text.fontFamily).toBe('Arial')
+      const rect = data.elements.find(e => e.id === 'rect-1') as any
+      expect(rect).toMatchObject({ fill: 'transparent', stroke: '#000000', strokeWidth: 2 })
+
+      expect(data.connectors.map(c => c.id)).toEqual(['conn-1'])
+      expect(report.dropped).toEqual(expect.arrayContaining([
+        expect.objectContaining({ kind: 'element', reason: expect.stringContaining('id') }),
+        expect.objectContaining({ kind: 'connector', id: 'conn-2' })
+      ]))
+      expect(data.viewport).toEqual({ zoom: 1.25, panX: -40, panY: 20 })
+    })
+
+    it('v1.0.0: chat historyとmain themeが追加され、free connectorは保持される', () => {
+      const { data, report } = migrateBoardData(v100LocalStorage)
+
+      expect(report.applied).toEqual([expect.stringContaining('1.0.0 → 1.1.0')])
+      expect(report.dropped).toHaveLength(0)
+      expect(data.chatHistory).toEqual([])
+      expect(data.mainTheme).toBeNull()
+      expect(data.connectors.map(c => c.id)).toEqual(['conn-1', 'free-1'])
+    })
+
+    it('v1.1.0: 変更なしでそのまま通る', () => {
+      const { data, report } = migrateBoardData(v110Board)
+
+      expect(report.applied).toHaveLength(0)
+      expect(report.changes).toHaveLength(0)
+      expect(report.dropped).toHaveLength(0)
+      expect(data.chatHistory).toHaveLength(2)
+      expect(data.mainTheme?.content).toBe('Product discovery')
+    })
+
+    it('未知のversionはエラーになる', () => {
+      expect(() => migrateBoardData({ ...v110Board, version: '9.0.0' })).toThrow(BoardDataMigrationError)
+      expect(() => migrateBoardData('not a board')).toThrow(BoardDataMigrationError)
+    })
+
+    it('未知のversionの保存済みboardは開かず、データをそのまま残す', async () => {
+      _resetStorageBackend()
+      useBoardStore.setState({ currentBoardId: null, boards: [], boardLoadError: null })
+      const board = await createBoard('Future board')
+      const stored = { ...v110Board, version: '9.0.0' }
+      await _getStorageBackend().put('boardData', board.id, stored)
+
+      await useBoardStore.getState().loadFromStorage(board.id)
+      const state = useBoardStore.getState()
+      expect(state.currentBoardId).toBeNull()
+      expect(state.boardLoadError?.message).toContain('Unsupported board data version: 9.0.0')
+
+      state.addRect({ x: 0, y: 0 })
+      await flushPendingSaves()
+      expect(await _getStorageBackend().get('boardData', board.id)).toEqual(stored)
+    })
+
+    it('importFromJSON は旧形式のexportをmigrateしてreportを返す', () => {
+      const report = useBoardStore.getState().importFromJSON(JSON.stringify(unversionedExport))
+
+      const state = useBoardStore.getState()
+      expect(report?.dropped.length).toBeGreaterThan(0)
+      expect(state.elements).toHaveLength(3)
+      expect(state.connectors).toHaveLength(1)
+      expect(state.viewport.zoom).toBe(1.25)
+    })
+
+    it('exportAsJSON は現行versionを含む', () => {
+      const exported = JSON.parse(useBoardStore.getState().exportAsJSON())
+      expect(exported.version).toBe(CURRENT_DATA_VERSION)
+    })
+  })
+})
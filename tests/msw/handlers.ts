@@ -10,4 +10,20 @@ export const handlers = [
 
     return HttpResponse.json(mockResponse)
   }),
+
+  http.post('/api/llm/stream', () => {
+    const events = [
+      { type: 'token', text: '(Mock) Organized into 3 points: ' },
+      { type: 'token', text: '1) Background 2) Issues 3) Next steps' },
+      {
+        type: 'done',
+        text: '(Mock) Organized into 3 points: 1) Background 2) Issues 3) Next steps',
+        summary: '(Mock) 3 points'
+      }
+    ]
+
+    return new HttpResponse(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join(''), {
+      headers: { 'Content-Type': 'text/event-stream' }
+    })
+  }),
 ]
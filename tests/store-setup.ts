@@ -0,0 +1,26 @@
+import { afterEach, beforeEach, vi } from 'vitest'
+import { useBoardStore } from '@/store/boardStore'
+
+type BoardState = Partial<ReturnType<typeof useBoardStore.getState>>
+
+/**
+ * Start every test of the suite on an empty board with fake timers
+ * (addSticky schedules a text auto-resize that needs Konva; fake timers keep it from running)
+ */
+export function setupEmptyBoard(state: BoardState = {}) {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    useBoardStore.getState().clearAll()
+    useBoardStore.setState({
+      history: { past: [], future: [] },
+      clipboard: { elements: [], connectors: [] },
+      cursorPosition: null,
+      ...state
+    })
+  })
+
+  afterEach(() => {
+    vi.clearAllTimers()
+    vi.useRealTimers()
+  })
+}
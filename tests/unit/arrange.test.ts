@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { computeArrangement, type ArrangeCommand } from '@/lib/arrange'
+import type { LayoutNode } from '@/lib/auto-layout'
+import { useBoardStore } from '@/store/boardStore'
+import type { CanvasElement } from '@/types'
+import { setupEmptyBoard } from '../store-setup'
+
+const node = (id: string, x: number, y: number, width = 100, height = 100): LayoutNode => ({ id, x, y, width, height })
+
+const units = [node('a', 0, 0, 100, 50), node('b', 300, 40, 50, 100), node('c', 120, 200, 80, 80)]
+
+const placed = (command: ArrangeCommand, list: LayoutNode[] = units) => {
+  const offsets = computeArrangement(command, list)
+  return Object.fromEntries(list.map(u => {
+    const offset = offsets.get(u.id) ?? { x: 0, y: 0 }
+    return [u.id, { x: u.x + offset.x, y: u.y + offset.y }]
+  }))
+}
+
+describe('arrange - computeArrangement', () => {
+  it('aligns edges and centers to the selection bounds', () => {
+    expect(placed({ kind: 'align', edge: 'left' })).toEqual({ a: { x: 0, y: 0 }, b: { x: 0, y: 40 }, c: { x: 0, y: 200 } })
+    expect(placed({ kind: 'align', edge: 'right' })).toMatchObject({ a: { x: 250 }, c: { x: 270 } })
+    // Bounds run from y=0 to y=280, so the middle is 140
+    expect(placed({ kind: 'align', edge: 'middle' })).toMatchObject({ a: { y: 115 }, b: { y: 90 }, c: { y: 100 } })
+  })
+
+  it('aligns to the first selected unit', () => {
+    expect(placed({ kind: 'align', edge: 'bottom', relativeTo: 'first' }))
+      .toEqual({ a: { x: 0, y: 0 }, b: { x: 300, y: -50 }, c: { x: 120, y: -30 } })
+  })
+
+  it('distributes with equal gaps and keeps the outer units', () => {
+    const row = [node('a', 0, 0, 100), node('b', 150, 0, 40), node('c', 400, 0, 100)]
+    // 500 wide, 240 of boxes: two gaps of 130
+    expect(placed({ kind: 'distribute', axis: 'horizontal' }, row)).toMatchObject({ a: { x: 0 }, b: { x: 230 }, c: { x: 400 } })
+    expect(computeArrangement({ kind: 'distribute', axis: 'vertical' }, row.slice(0, 2)).size).toBe(0)
+  })
+
+  it('tidies up into an even grid in reading order', () => {
+    const pile = [node('d', 210, 190), node('a', 5, 0), node('c', 0, 180), node('b', 220, 10)]
+    expect(placed({ kind: 'tidy' }, pile)).toEqual({
+      a: { x: 0, y: 0 },
+      b: { x: 140, y: 0 },
+      c: { x: 0, y: 140 },
+      d: { x: 140, y: 140 }
+    })
+  })
+})
+
+describe('boardStore - arrangeSelected', () => {
+  setupEmptyBoard()
+
+  const get = (id: string) => useBoardStore.getState().getElementById(id)!
+  const rect = (x: number, y: number) => {
+    const id = useBoardStore.getState().addRect({ x, y })
+    useBoardStore.getState().updateElement(id, { x, y }, false, true)
+    return id
+  }
+
+  it('aligns in one undo step and keeps connectors attached', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 300)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    useBoardStore.getState().selectShapes([a, b])
+    const steps = useBoardStore.getState().history.past.length
+
+    useBoardStore.getState().arrangeSelected({ kind: 'align', edge: 'top' })
+    expect(get(b).y).toBe(0)
+    expect(useBoardStore.getState().history.past).toHaveLength(steps + 1)
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Align 2 rectangles')
+    const [, , toX, toY] = useBoardStore.getState().connectors[0].points
+    expect([toX, toY]).toEqual([get(b).x, get(b).y + get(b).height / 2])
+
+    useBoardStore.getState().undo()
+    expect(get(b).y).toBe(300)
+  })
+
+  it('moves groups as one block and leaves locked elements alone', () => {
+    const a = rect(0, 0)
+    const b = rect(0, 200)
+    const grouped = rect(500, 100)
+    const partner = rect(500, 300)
+    const locked = rect(800, 50)
+    useBoardStore.getState().selectShapes([grouped, partner])
+    useBoardStore.getState().groupSelected()
+    useBoardStore.getState().setLocked([locked], true)
+
+    useBoardStore.getState().selectShapes([a, b, grouped, partner, locked])
+    useBoardStore.getState().arrangeSelected({ kind: 'align', edge: 'top' })
+
+    expect(get(b).y).toBe(0)
+    expect([get(grouped).y, get(partner).y]).toEqual([0, 200])
+    expect(get(locked).y).toBe(50)
+  })
+
+  it('ignores selections that are too small', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 300)
+    useBoardStore.getState().selectShapes([a, b])
+    const before = useBoardStore.getState().elements as CanvasElement[]
+
+    useBoardStore.getState().arrangeSelected({ kind: 'distribute', axis: 'horizontal' })
+    expect(useBoardStore.getState().elements).toBe(before)
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { computeLayout, resolveOverlaps, LAYOUT_GAP, type LayoutKind, type LayoutNode } from '@/lib/auto-layout'
+import { useBoardStore } from '@/store/boardStore'
+import type { CanvasElement, Connector } from '@/types'
+
+const node = (id: string, x: number, y: number, width = 200, height = 150): LayoutNode => ({ id, x, y, width, height })
+
+// Messy pile: everything stacked near the same spot
+const nodes: LayoutNode[] = [
+  node('root', 10, 10),
+  node('a', 30, 20, 120, 80),
+  node('b', 15, 40, 260, 200),
+  node('c', 40, 35),
+  node('d', 20, 25, 180, 120)
+]
+const edges = [
+  { from: 'root', to: 'a' },
+  { from: 'root', to: 'b' },
+  { from: 'a', to: 'c' },
+  { from: 'a', to: 'd' }
+]
+
+const placed = (positions: Map<string, { x: number; y: number }>) =>
+  nodes.map(n => ({ ...n, ...positions.get(n.id)! }))
+
+const overlapping = (boxes: LayoutNode[]) =>
+  boxes.some((a, i) => boxes.slice(i + 1).some(b =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height))
+
+describe('auto-layout - computeLayout', () => {
+  it.each<LayoutKind>(['tree-down', 'tree-right', 'force', 'grid', 'circle'])('%s positions every node without overlap', (kind) => {
+    const positions = computeLayout(kind, nodes, edges)
+
+    expect(positions.size).toBe(nodes.length)
+    expect(overlapping(placed(positions))).toBe(false)
+  })
+
+  it('keeps the top-left corner of the selection', () => {
+    const boxes = placed(computeLayout('grid', nodes))
+
+    expect(Math.min(...boxes.map(b => b.x))).toBe(10)
+    expect(Math.min(...boxes.map(b => b.y))).toBe(10)
+  })
+
+  it('puts children below their parent in a top-down tree', () => {
+    const positions = computeLayout('tree-down', nodes, edges)
+    const bottom = (id: string) => positions.get(id)!.y + nodes.find(n => n.id === id)!.height
+
+    expect(positions.get('a')!.y).toBeGreaterThanOrEqual(bottom('root'))
+    expect(positions.get('c')!.y).toBeGreaterThanOrEqual(bottom('a'))
+    // Children keep their original left-to-right order
+    expect(positions.get('a')!.x).toBeGreaterThan(positions.get('b')!.x)
+  })
+
+  it('puts children right of their parent in a left-right tree', () => {
+    const positions = computeLayout('tree-right', nodes, edges)
+
+    expect(positions.get('a')!.x).toBeGreaterThanOrEqual(positions.get('root')!.x + 200)
+  })
+
+  it('survives cycles', () => {
+    const cyclic = [...edges, { from: 'c', to: 'root' }]
+    expect(computeLayout('tree-down', nodes, cyclic).size).toBe(nodes.length)
+  })
+
+  it('does nothing for fewer than two nodes', () => {
+    expect(computeLayout('grid', [node('only', 0, 0)]).size).toBe(0)
+  })
+
+  it('separates boxes with identical positions', () => {
+    const boxes = [node('x', 0, 0), node('y', 0, 0)]
+    resolveOverlaps(boxes, LAYOUT_GAP)
+    expect(overlapping(boxes)).toBe(false)
+  })
+})
+
+describe('boardStore - applyLayout', () => {
+  beforeEach(() => {
+    useBoardStore.getState().clearAll()
+    useBoardStore.setState({ history: { past: [], future: [] } })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const loadPile = () => {
+    const elements = nodes.map((n, i) => ({
+      ...n,
+      type: 'sticky',
+      text: n.id,
+      color: '#FFF2B2',
+      zIndex: i + 1,
+      createdAt: 0,
+      updatedAt: 0
+    })) as CanvasElement[]
+    const connectors: Connector[] = [{
+      id: 'c1', fromId: 'root', toId: 'a', fromAnchor: 'left', toAnchor: 'left',
+      points: [0, 0, 0, 0], zIndex: 10, createdAt: 0, updatedAt: 0
+    }]
+    useBoardStore.setState({ elements, connectors })
+    useBoardStore.getState().selectShapes(nodes.map(n => n.id))
+  }
+  const positions = () => useBoardStore.getState().elements.map(e => [e.x, e.y])
+
+  it('moves the selection, re-routes connectors and undoes in one step', () => {
+    loadPile()
+    useBoardStore.getState().applyLayout('tree-down')
+
+    let state = useBoardStore.getState()
+    expect(overlapping(state.elements as LayoutNode[])).toBe(false)
+    expect(state.connectors[0]).toMatchObject({ fromAnchor: 'bottom', toAnchor: 'top' })
+    const root = state.elements.find(e => e.id === 'root')!
+    expect(state.connectors[0].points.slice(0, 2)).toEqual([root.x + root.width / 2, root.y + root.height])
+    expect(state.history.past).toHaveLength(1)
+
+    state.undo()
+    state = useBoardStore.getState()
+    expect(state.elements.map(e => [e.x, e.y])).toEqual(nodes.map(n => [n.x, n.y]))
+  })
+
+  it('records an animated layout as one step before it plays', () => {
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame', 'performance'] })
+    loadPile()
+    useBoardStore.getState().applyLayout('tree-down')
+    const laidOut = positions()
+    useBoardStore.getState().undo()
+    useBoardStore.setState({ history: { past: [], future: [] } })
+    useBoardStore.getState().selectShapes(nodes.map(n => n.id))
+
+    useBoardStore.getState().applyLayout('tree-down', { animate: true })
+    expect(positions()).toEqual(nodes.map(n => [n.x, n.y]))
+    vi.advanceTimersByTime(100)
+    expect(positions()).not.toEqual(laidOut)
+    vi.advanceTimersByTime(400)
+    expect(positions()).toEqual(laidOut)
+    expect(useBoardStore.getState().history.past.map(e => e.label)).toEqual(['Auto layout 5 stickies'])
+
+    // Undo in the middle of the animation lands it first, then restores the pile
+    useBoardStore.getState().undo()
+    useBoardStore.getState().selectShapes(nodes.map(n => n.id))
+    useBoardStore.getState().applyLayout('tree-down', { animate: true })
+    vi.advanceTimersByTime(100)
+    useBoardStore.getState().undo()
+    expect(useBoardStore.getState().history.past).toHaveLength(0)
+    vi.advanceTimersByTime(400)
+    expect(positions()).toEqual(nodes.map(n => [n.x, n.y]))
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { serializeSelectionContext } from '@/lib/board-context'
+import { useBoardStore } from '@/store/boardStore'
+import type { CanvasElement, Connector } from '@/types'
+
+const base = { width: 100, height: 100, zIndex: 1, createdAt: 0, updatedAt: 0 }
+
+const elements: CanvasElement[] = [
+  { ...base, id: 'b', type: 'sticky', x: 200, y: 0, text: 'Second idea', color: '#FFF2B2' },
+  { ...base, id: 'a', type: 'sticky', x: 0, y: 0, text: 'First\nidea', color: '#FFF2B2' },
+  { ...base, id: 't', type: 'text', x: 0, y: 300, text: 'A heading', fontSize: 16, fontFamily: 'Arial' },
+  { ...base, id: 'r', type: 'rect', x: -10, y: -10, width: 500, height: 150, fill: 'transparent', stroke: '#000', strokeWidth: 2 }
+]
+
+const connector = (id: string, fromId: string, toId: string): Connector => ({
+  id,
+  fromId,
+  toId,
+  points: [0, 0, 10, 10],
+  zIndex: 10,
+  createdAt: 0,
+  updatedAt: 0
+})
+
+describe('board-context - serializeSelectionContext', () => {
+  it('lists selected notes in reading order with relationships between them', () => {
+    const connectors = [connector('c1', 'a', 'b'), connector('c2', 'b', 't')]
+
+    const context = serializeSelectionContext(elements, connectors, ['a', 'b'])
+
+    expect(context).toBe([
+      'Selected board content:',
+      'Notes:',
+      '- [N1] (sticky) First idea',
+      '- [N2] (sticky) Second idea',
+      'Relationships:',
+      '- [N1] → [N2]',
+      '',
+      ''
+    ].join('\n'))
+  })
+
+  it('names relationships with connector labels', () => {
+    const connectors = [{ ...connector('c1', 'a', 'b'), label: 'leads\nto' }]
+
+    expect(serializeSelectionContext(elements, connectors, ['a', 'b'])).toContain('- [N1] → [N2]: leads to\n')
+  })
+
+  it('describes rectangle groups only when asked', () => {
+    const selected = ['a', 'b', 't']
+
+    expect(serializeSelectionContext(elements, [], selected)).not.toContain('Groups')
+    expect(serializeSelectionContext(elements, [], selected, { includeGroups: true }))
+      .toContain('- Group 1: [N1], [N2]')
+  })
+
+  it('returns an empty string when no notes are selected', () => {
+    expect(serializeSelectionContext(elements, [], ['r'])).toBe('')
+  })
+})
+
+describe('boardStore - getSelectionContext', () => {
+  beforeEach(() => {
+    useBoardStore.getState().clearAll()
+  })
+
+  it('serializes the current selection', () => {
+    useBoardStore.setState({ elements })
+    useBoardStore.getState().selectShape('b')
+
+    const context = useBoardStore.getState().getSelectionContext()
+
+    expect(context).toContain('Second idea')
+    expect(context).not.toContain('First idea')
+  })
+})
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildExportScene,
+  drawScene,
+  estimateTextWidth,
+  renderSceneToSVG,
+  wrapText,
+  EXPORT_PADDING,
+  type ExportSource
+} from '@/lib/board-export'
+import { createImagePdf, PX_TO_PT } from '@/lib/pdf'
+import type { CanvasElement, Connector } from '@/types'
+
+// The native binding is not always built; skip the raster tests then
+const nodeCanvas = await import('canvas').catch(() => null)
+
+const base = { rotation: 0, createdAt: 0, updatedAt: 0 }
+
+const elements: CanvasElement[] = [
+  { ...base, id: 's1', type: 'sticky', x: 0, y: 0, width: 200, height: 150, zIndex: 1, text: 'Hello <world>', color: '#FFF2B2' },
+  { ...base, id: 't1', type: 'text', x: 300, y: 0, width: 160, height: 40, zIndex: 2, text: 'Caption', fontSize: 16, fontFamily: 'Arial' },
+  { ...base, id: 'r1', type: 'rect', x: 0, y: 300, width: 100, height: 80, zIndex: 3, fill: '#E3F2FD', stroke: '#1976D2', strokeWidth: 2, radius: 8 },
+  { ...base, id: 'i1', type: 'image', x: 1000, y: 1000, width: 50, height: 50, zIndex: 4, src: 'data:image/png;base64,AAAA', originalWidth: 50, originalHeight: 50 }
+]
+
+const connectors: Connector[] = [
+  { id: 'c1', fromId: 's1', toId: 't1', points: [200, 75, 300, 20], zIndex: 5, createdAt: 0, updatedAt: 0 },
+  { id: 'c2', fromId: 's1', toId: 'r1', points: [100, 150, 50, 300], zIndex: 6, createdAt: 0, updatedAt: 0 }
+]
+
+const source = (overrides: Partial<ExportSource> = {}): ExportSource => ({
+  elements,
+  connectors,
+  selectedIds: [],
+  viewport: { zoom: 1, panX: 0, panY: 0 },
+  ...overrides
+})
+
+describe('board-export - buildExportScene', () => {
+  it('exports the whole board with padding', () => {
+    const scene = buildExportScene(source(), 'board')!
+
+    expect(scene.elements).toHaveLength(4)
+    expect(scene.connectors).toHaveLength(2)
+    expect(scene.bounds).toEqual({
+      x: -EXPORT_PADDING,
+      y: -EXPORT_PADDING,
+      width: 1050 + EXPORT_PADDING * 2,
+      height: 1050 + EXPORT_PADDING * 2
+    })
+  })
+
+  it('exports only the selection and connectors between selected elements', () => {
+    const scene = buildExportScene(source({ selectedIds: ['s1', 't1'] }), 'selection')!
+
+    expect(scene.elements.map(e => e.id)).toEqual(['s1', 't1'])
+    expect(scene.connectors.map(c => c.id)).toEqual(['c1'])
+    expect(scene.bounds.width).toBe(460 + EXPORT_PADDING * 2)
+  })
+
+  it('exports the visible canvas area for the viewport scope', () => {
+    const scene = buildExportScene(
+      source({ viewport: { zoom: 2, panX: -100, panY: -40 } }),
+      'viewport',
+      { width: 800, height: 600 }
+    )!
+
+    expect(scene.bounds).toEqual({ x: 50, y: 20, width: 400, height: 300 })
+    expect(scene.elements.map(e => e.id)).toEqual(['s1', 't1', 'r1'])
+  })
+
+  it('returns null when there is nothing to export', () => {
+    expect(buildExportScene(source({ elements: [], connectors: [] }), 'board')).toBeNull()
+    expect(buildExportScene(source(), 'selection')).toBeNull()
+  })
+})
+
+describe('board-export - wrapText', () => {
+  const measure = (text: string) => text.length * 10
+
+  it('wraps on word boundaries and keeps explicit line breaks', () => {
+    expect(wrapText('one two three\nfour', 80, measure)).toEqual(['one two', 'three', 'four'])
+  })
+
+  it('breaks long words and CJK text by character', () => {
+    expect(wrapText('abcdefghij', 40, measure)).toEqual(['abcd', 'efgh', 'ij'])
+    expect(wrapText('あいうえおか', 30, measure)).toEqual(['あいう', 'えおか'])
+  })
+})
+
+describe('board-export - renderSceneToSVG', () => {
+  const svg = renderSceneToSVG(buildExportScene(source(), 'board')!, { measureText: estimateTextWidth })
+
+  it('draws every element kind with escaped text', () => {
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/)
+    expect(svg).toContain('viewBox="-24 -24 1098 1098"')
+    expect(svg).toContain('fill="#FFF2B2"')
+    expect(svg).toContain('Hello &lt;world&gt;')
+    expect(svg).toContain('font-family="Arial"')
+    expect(svg).toContain('rx="8" fill="#E3F2FD" stroke="#1976D2" stroke-width="2"')
+    expect(svg).toContain('href="data:image/png;base64,AAAA"')
+  })
+
+  it('draws connectors above elements with arrowheads', () => {
+    expect(svg).toContain('<marker id="arrowhead"')
+    expect(svg).toContain('<polyline points="200,75 300,20"')
+    expect(svg.lastIndexOf('<g ')).toBeLessThan(svg.indexOf('<polyline'))
+    expect(svg.match(/marker-end="url\(#arrowhead\)"/g)).toHaveLength(2)
+  })
+
+  it('draws connector styles and markers', () => {
+    const styled: Connector = { ...connectors[0], stroke: '#E53935', strokeWidth: 4, dash: 'dashed', startMarker: 'circle', endMarker: 'none' }
+    const out = renderSceneToSVG(buildExportScene(source({ connectors: [styled] }), 'board')!, { measureText: estimateTextWidth })
+    expect(out).toContain('stroke="#E53935" stroke-width="4" stroke-dasharray="16 12" marker-start="url(#marker-0)"/>')
+    expect(out).toContain('<circle cx="-6" cy="0" r="6" fill="#E53935"/>')
+    expect(out).not.toContain('marker-end=')
+  })
+
+  it('draws routed connectors along their bends', () => {
+    const elbow: Connector = { ...connectors[0], fromId: '', toId: '', points: [0, 0, 50, 0, 50, 80, 100, 80], routing: 'elbow' }
+    const curved: Connector = { ...connectors[0], id: 'c2', fromId: '', toId: '', points: [0, 0, 100, 0], routing: 'curved' }
+    const out = renderSceneToSVG(buildExportScene(source({ connectors: [elbow, curved] }), 'board')!, { measureText: estimateTextWidth })
+    expect(out).toContain('<polyline points="0,0 50,0 50,80 100,80"')
+    expect(out).toMatch(/<path d="M0 0 C[\d. -]+"/)
+  })
+
+  it('draws connector labels upright over the lines', () => {
+    const labeled: Connector = { ...connectors[0], points: [300, 20, 200, 20], label: 'a < b', labelPosition: 0.25 }
+    const out = renderSceneToSVG(buildExportScene(source({ connectors: [labeled] }), 'board')!, { measureText: estimateTextWidth })
+    expect(out).toContain('<text transform="rotate(0 275 20)"')
+    expect(out).toContain('<tspan x="275" y="20">a &lt; b</tspan>')
+    expect(out.indexOf('<polyline')).toBeLessThan(out.indexOf('<tspan x="275"'))
+  })
+
+  it('omits the background when transparent', () => {
+    const transparent = renderSceneToSVG(buildExportScene(source(), 'board')!, { background: null, measureText: estimateTextWidth })
+    expect(svg).toContain('fill="#FFFFFF"')
+    expect(transparent).not.toContain('fill="#FFFFFF"')
+  })
+})
+
+describe('board-export - createImagePdf', () => {
+  const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9])
+  const pdf = new TextDecoder('latin1').decode(createImagePdf(jpeg, 200, 100, 100 * PX_TO_PT, 50 * PX_TO_PT))
+
+  it('writes a single page sized in points', () => {
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf).toContain('/MediaBox [0 0 75.00 37.50]')
+    expect(pdf).toContain('/Width 200 /Height 100')
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+  })
+
+  it('points the xref table at every object', () => {
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1])
+    expect(pdf.slice(xrefOffset).startsWith('xref')).toBe(true)
+
+    const offsets = Array.from(pdf.matchAll(/^(\d{10}) 00000 n $/gm), m => Number(m[1]))
+    expect(offsets).toHaveLength(5)
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true)
+    })
+  })
+})
+
+describe.skipIf(!nodeCanvas)('board-export - drawScene with node canvas', () => {
+  it('renders the scene to pixels', () => {
+    const scene = buildExportScene(source({ selectedIds: ['s1', 't1'] }), 'selection')!
+    const canvas = nodeCanvas!.createCanvas(scene.bounds.width, scene.bounds.height)
+    const ctx = canvas.getContext('2d') as unknown as CanvasRenderingContext2D
+
+    drawScene(ctx, scene)
+
+    // Inside the sticky (away from the text) is the sticky colour
+    const [r, g, b] = ctx.getImageData(EXPORT_PADDING + 190, EXPORT_PADDING + 140, 1, 1).data
+    expect([r, g, b]).toEqual([0xff, 0xf2, 0xb2])
+    // Page corner is the white background
+    expect(Array.from(ctx.getImageData(0, 0, 1, 1).data)).toEqual([255, 255, 255, 255])
+  })
+})
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest'
+import { useBoardStore } from '@/store/boardStore'
+import { buildBoardIndex } from '@/lib/connector-index'
+import type { CanvasElement, Connector } from '@/types'
+import { setupEmptyBoard } from '../store-setup'
+
+const link = (id: string, fromId: string, toId: string, extra: Partial<Connector> = {}): Connector =>
+  ({ id, fromId, toId, fromAnchor: 'right', toAnchor: 'left', points: [0, 0, 0, 0], zIndex: 0, createdAt: 0, updatedAt: 0, ...extra })
+
+describe('connector index', () => {
+  it('maps elements to their positions and the connectors attached to them', () => {
+    const elements = ['a', 'b', 'c'].map(id => ({ id }) as CanvasElement)
+    const connectors = [
+      link('c1', 'a', 'b'),
+      link('c2', 'b', 'c', { routing: 'elbow' }),
+      link('c3', 'a', ''),
+      link('c4', 'a', 'a', { routing: 'elbow', customRoute: true })
+    ]
+    const index = buildBoardIndex(elements, connectors)
+
+    expect(index.elements).toEqual({ a: 0, b: 1, c: 2 })
+    expect(index.connectors).toEqual({ a: [0, 2, 3], b: [0, 1], c: [1] })
+    expect(index.autoElbows).toEqual([1])
+  })
+})
+
+describe('boardStore - board index', () => {
+  setupEmptyBoard()
+
+  const index = () => useBoardStore.getState().boardIndex
+
+  it('follows adds, deletes, attaches, detaches and undo', () => {
+    const a = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    const b = useBoardStore.getState().addRect({ x: 400, y: 0 })
+    const c = useBoardStore.getState().addRect({ x: 800, y: 0 })
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    const id = useBoardStore.getState().connectors[0].id
+    expect(index().connectors).toEqual({ [a]: [0], [b]: [0] })
+
+    useBoardStore.getState().detachConnectorEnd(id, 'to')
+    useBoardStore.getState().attachConnectorEnd(id, 'to', c, 'left')
+    expect(index().connectors).toEqual({ [a]: [0], [c]: [0] })
+
+    useBoardStore.getState().deleteElements([a])
+    expect(index().elements).toEqual({ [b]: 0, [c]: 1 })
+    expect(index().connectors).toEqual({})
+
+    useBoardStore.getState().undo()
+    expect(index().elements).toEqual({ [a]: 0, [b]: 1, [c]: 2 })
+    expect(index().connectors).toEqual({ [a]: [0], [c]: [0] })
+  })
+
+  it('follows boards set from outside', () => {
+    const elements = ['a', 'b'].map(id => ({ id }) as CanvasElement)
+    useBoardStore.setState({ elements, connectors: [link('c1', 'a', 'b')] })
+
+    expect(index()).toMatchObject({ elements: { a: 0, b: 1 }, connectors: { a: [0], b: [0] } })
+  })
+})
+
+describe('boardStore - incremental connector updates', () => {
+  setupEmptyBoard()
+
+  const rect = (x: number, y: number) => {
+    const id = useBoardStore.getState().addRect({ x, y })
+    useBoardStore.getState().updateElement(id, { x, y, width: 100, height: 100 }, false, true)
+    return id
+  }
+
+  // `count` connectors between background elements, plus one from `a` to `b`
+  const board = (count: number) => {
+    const a = rect(0, 0)
+    const b = rect(400, 0)
+    const others = Array.from({ length: 20 }, (_, i) => rect((i % 5) * 200, 400 + Math.floor(i / 5) * 200))
+    const background = Array.from({ length: count }, (_, i) => link(`bg-${i}`, others[i % 20], others[(i + 1) % 20]))
+    useBoardStore.setState({ connectors: [link('dragged', a, b), ...background], history: { past: [], future: [] } })
+    useBoardStore.getState().updateConnectors()
+    return { a, b }
+  }
+
+  // Connectors recomputed by one update (each recomputed connector is a new object)
+  const recomputed = (update: () => void) => {
+    const before = useBoardStore.getState().connectors
+    update()
+    return useBoardStore.getState().connectors.filter((connector, i) => connector !== before[i]).length
+  }
+
+  it('recomputes only the connectors attached to the moved elements', () => {
+    const { a } = board(2000)
+
+    const count = recomputed(() => {
+      useBoardStore.getState().updateElement(a, { x: 0, y: 100 }, true, true)
+      useBoardStore.getState().updateConnectors([a])
+    })
+    expect(count).toBe(1)
+    expect(useBoardStore.getState().connectors[0].points).toEqual([100, 150, 400, 50])
+  })
+
+  it('keeps the work of a drag frame flat as the board grows', () => {
+    // Reads of background connector fields during the same drag frames on a small and a large board
+    const dragVisits = (count: number) => {
+      let visits = 0
+      const { a } = board(count)
+      const [dragged, ...background] = useBoardStore.getState().connectors
+      useBoardStore.setState({
+        connectors: [dragged, ...background.map(connector => new Proxy(connector, {
+          get: (target, key, receiver) => {
+            // Symbol keys are immer's own checks while it copies the array
+            if (typeof key === 'string') visits++
+            return Reflect.get(target, key, receiver)
+          }
+        }))]
+      })
+      const frame = (x: number) => {
+        useBoardStore.getState().updateElement(a, { x, y: 0 }, true, true)
+        useBoardStore.getState().updateConnectors([a])
+      }
+      for (let x = 1; x <= 5; x++) frame(x)
+      visits = 0
+      for (let x = 6; x <= 25; x++) frame(x)
+      expect(useBoardStore.getState().connectors[0].points).toEqual([125, 50, 400, 50])
+      useBoardStore.getState().clearAll()
+      return visits
+    }
+
+    const small = dragVisits(100)
+    const large = dragVisits(2000)
+    expect(large).toBe(small)
+    expect(small).toBe(0)
+  })
+
+  it('re-routes automatic elbows an element moves into or out of the way of', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 0)
+    const obstacle = rect(200, 600)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    useBoardStore.getState().setConnectorRouting([useBoardStore.getState().connectors[0].id], 'elbow')
+    const straight = useBoardStore.getState().connectors[0].points
+    expect(straight).toEqual([100, 50, 400, 50])
+
+    // Far away: nothing to re-route
+    expect(recomputed(() => useBoardStore.getState().updateElement(obstacle, { y: 1200 }))).toBe(0)
+
+    useBoardStore.getState().updateElement(obstacle, { y: 0 })
+    expect(useBoardStore.getState().connectors[0].points).not.toEqual(straight)
+
+    useBoardStore.getState().updateElement(obstacle, { y: 1200 })
+    expect(useBoardStore.getState().connectors[0].points).toEqual(straight)
+  })
+
+  it('follows elements moved along with a frame', () => {
+    const frame = useBoardStore.getState().addFrame({ x: -50, y: -50 })
+    useBoardStore.getState().updateElement(frame, { x: -50, y: -50, width: 300, height: 300 }, false, true)
+    const inside = rect(0, 0)
+    const outside = rect(600, 0)
+    useBoardStore.getState().addConnector({ id: inside, anchor: 'right' }, { id: outside, anchor: 'left' })
+    expect(useBoardStore.getState().getElementById(inside)?.frameId).toBe(frame)
+
+    useBoardStore.getState().updateElement(frame, { x: -50, y: 50 })
+    expect(useBoardStore.getState().connectors[0].points.slice(0, 2)).toEqual([100, 150])
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { labelPlacement, nearestPathFraction, pointAlongPath, readableRotation } from '@/lib/connector-label'
+import { useBoardStore } from '@/store/boardStore'
+import { setupEmptyBoard } from '../store-setup'
+
+describe('connector-label - geometry', () => {
+  // An L-shaped path: 100 right, then 100 down
+  const path = [0, 0, 100, 0, 100, 100]
+
+  it('finds points by fraction of the whole path', () => {
+    expect(pointAlongPath(path, 0.25)).toEqual({ x: 50, y: 0, angle: 0 })
+    expect(pointAlongPath(path, 0.75)).toEqual({ x: 100, y: 50, angle: 90 })
+    expect(pointAlongPath(path, 2)).toMatchObject({ x: 100, y: 100 })
+    expect(nearestPathFraction(path, { x: 130, y: 50 })).toBe(0.75)
+    expect(nearestPathFraction(path, { x: -20, y: -20 })).toBe(0)
+  })
+
+  it('keeps the text upright', () => {
+    expect(readableRotation(180)).toBe(0)
+    expect(readableRotation(-135)).toBe(45)
+    expect(readableRotation(90)).toBe(90)
+    expect(readableRotation(-90)).toBe(90)
+    expect(labelPlacement({ points: [100, 100, 0, 0] })).toEqual({ x: 50, y: 50, rotation: 45 })
+  })
+})
+
+describe('boardStore - connector labels', () => {
+  setupEmptyBoard()
+
+  const connector = () => useBoardStore.getState().connectors[0]
+
+  it('adds, edits and removes labels as undo steps', () => {
+    const id = useBoardStore.getState().addFreeConnectorAt({ x: 0, y: 0, length: 100 })
+    const steps = useBoardStore.getState().history.past.length
+
+    useBoardStore.getState().updateConnectorLabel(id, '   ', 0.3)
+    expect(useBoardStore.getState().history.past).toHaveLength(steps)
+
+    useBoardStore.getState().updateConnectorLabel(id, 'causes', 0.3)
+    expect(connector()).toMatchObject({ label: 'causes', labelPosition: 0.3 })
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Edit connector label')
+
+    useBoardStore.getState().updateConnectorLabel(id, '')
+    expect(connector().label).toBeUndefined()
+    expect(connector().labelPosition).toBeUndefined()
+
+    useBoardStore.getState().undo()
+    expect(connector()).toMatchObject({ label: 'causes', labelPosition: 0.3 })
+  })
+
+  it('records a label drag as one step', () => {
+    const id = useBoardStore.getState().addFreeConnectorAt({ x: 0, y: 0, length: 100 })
+    useBoardStore.getState().updateConnectorLabel(id, 'depends on')
+    const steps = useBoardStore.getState().history.past.length
+
+    useBoardStore.getState().beginConnectorLabelDrag(id)
+    useBoardStore.getState().moveConnectorLabel(id, 0.7)
+    useBoardStore.getState().moveConnectorLabel(id, 1.4)
+    expect(connector().labelPosition).toBe(1)
+    expect(useBoardStore.getState().history.past).toHaveLength(steps + 1)
+
+    useBoardStore.getState().undo()
+    expect(connector().labelPosition).toBeUndefined()
+  })
+})
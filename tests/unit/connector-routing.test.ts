@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest'
+import { useBoardStore } from '@/store/boardStore'
+import {
+  connectorGeometry,
+  curveControlPoints,
+  elbowRoute,
+  insertBend,
+  moveElbowSegment,
+  removeBend,
+  toPointList
+} from '@/lib/connector-routing'
+import { setupEmptyBoard } from '../store-setup'
+
+// Every segment is horizontal or vertical
+const isOrthogonal = (points: number[]) =>
+  toPointList(points).every((p, i, list) => i === 0 || p.x === list[i - 1].x || p.y === list[i - 1].y)
+
+// Whether any segment passes through the inside of the box
+const crossesBox = (points: number[], box: { x: number; y: number; width: number; height: number }) =>
+  toPointList(points).some((p, i, list) => {
+    if (i === 0) return false
+    const q = list[i - 1]
+    const [minX, maxX, minY, maxY] = [Math.min(p.x, q.x), Math.max(p.x, q.x), Math.min(p.y, q.y), Math.max(p.y, q.y)]
+    return minX < box.x + box.width && maxX > box.x && minY < box.y + box.height && maxY > box.y
+  })
+
+describe('connector routing', () => {
+  it('routes elbows at right angles around obstacles', () => {
+    const obstacle = { x: 150, y: 0, width: 100, height: 200 }
+    const points = elbowRoute({ x: 100, y: 100 }, { x: 1, y: 0 }, { x: 300, y: 100 }, { x: -1, y: 0 }, [obstacle])
+
+    expect(points.slice(0, 2)).toEqual([100, 100])
+    expect(points.slice(-2)).toEqual([300, 100])
+    expect(isOrthogonal(points)).toBe(true)
+    expect(crossesBox(points, obstacle)).toBe(false)
+    // Leaves and enters along the anchors
+    expect(points[3]).toBe(100)
+    expect(points[2]).toBeGreaterThan(100)
+    expect(points[points.length - 4]).toBeLessThan(300)
+
+    // Without obstacles a facing pair is a straight line
+    expect(elbowRoute({ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 200, y: 0 }, { x: -1, y: 0 })).toEqual([0, 0, 200, 0])
+  })
+
+  it('edits bends and elbow segments', () => {
+    const line = [0, 0, 100, 0]
+    const bent = insertBend(line, 0, { x: 50, y: 40 })
+    expect(bent).toEqual([0, 0, 50, 40, 100, 0])
+    expect(removeBend(bent, 1)).toEqual(line)
+    // The end points are not bends
+    expect(removeBend(bent, 0)).toBe(bent)
+
+    const elbow = [0, 0, 50, 0, 50, 100, 100, 100]
+    expect(moveElbowSegment(elbow, 1, { x: 70, y: 30 })).toEqual([0, 0, 70, 0, 70, 100, 100, 100])
+    // Moving the first segment keeps the start where it is
+    const shifted = moveElbowSegment(elbow, 0, { x: 20, y: -30 })
+    expect(shifted.slice(0, 2)).toEqual([0, 0])
+    expect(isOrthogonal(shifted)).toBe(true)
+    expect(shifted).toContain(-30)
+  })
+
+  it('curves through the points, leaving along the anchors', () => {
+    const bezier = curveControlPoints([0, 0, 200, 100], { x: 1, y: 0 }, { x: -1, y: 0 })
+    expect(bezier).toHaveLength(8)
+    expect(bezier.slice(0, 2)).toEqual([0, 0])
+    expect(bezier.slice(-2)).toEqual([200, 100])
+    // First control point straight right of the start, last one straight left of the end
+    expect(bezier[3]).toBe(0)
+    expect(bezier[2]).toBeGreaterThan(0)
+    expect(bezier[5]).toBe(100)
+    expect(bezier[4]).toBeLessThan(200)
+
+    const { path } = connectorGeometry({ fromId: '', toId: '', points: [0, 0, 100, 50, 200, 0], routing: 'curved' })
+    expect(path.slice(0, 2)).toEqual([0, 0])
+    expect(path.slice(-2)).toEqual([200, 0])
+    expect(toPointList(path)).toContainEqual({ x: 100, y: 50 })
+  })
+})
+
+describe('boardStore - connector routing', () => {
+  setupEmptyBoard()
+
+  const rect = (x: number, y: number) => {
+    const id = useBoardStore.getState().addRect({ x, y })
+    useBoardStore.getState().updateElement(id, { x, y, width: 100, height: 100 }, false, true)
+    return id
+  }
+  const connector = () => useBoardStore.getState().connectors[0]
+
+  it('re-routes elbow connectors when their ends move', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 0)
+    const obstacle = rect(200, 0)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    useBoardStore.getState().setConnectorRouting([connector().id], 'elbow')
+
+    expect(connector().routing).toBe('elbow')
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Route connector')
+    const box = { x: 200, y: 0, width: 100, height: 100 }
+    expect(isOrthogonal(connector().points)).toBe(true)
+    expect(crossesBox(connector().points, box)).toBe(false)
+
+    useBoardStore.getState().updateElement(b, { y: 300 }, false, true)
+    expect(connector().points.slice(-2)).toEqual([400, 350])
+    expect(isOrthogonal(connector().points)).toBe(true)
+    expect(crossesBox(connector().points, box)).toBe(false)
+
+    // Moving an obstacle away lets the route run through its old place
+    useBoardStore.getState().updateElement(obstacle, { y: 600 }, false, true)
+    useBoardStore.getState().updateElement(b, { y: 0 }, false, true)
+    expect(connector().points).toEqual([100, 50, 400, 50])
+
+    useBoardStore.getState().undo()
+    expect(connector().routing).toBeUndefined()
+  })
+
+  it('keeps hand-placed bends when the ends move', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 0)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    const id = connector().id
+
+    useBoardStore.getState().beginConnectorBendDrag(id)
+    useBoardStore.getState().updateConnectorPoints(id, insertBend(connector().points, 0, { x: 250, y: 200 }))
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Edit connector route')
+
+    // One end moves: the bend stays
+    useBoardStore.getState().updateElement(b, { y: 100 }, false, true)
+    expect(connector().points).toEqual([100, 50, 250, 200, 400, 150])
+
+    // Both ends move together: the bend moves with them
+    useBoardStore.getState().selectShapes([a, b])
+    useBoardStore.getState().nudgeSelected(10, 0)
+    expect(connector().points).toEqual([110, 50, 260, 200, 410, 150])
+
+    // Copies take their bends along
+    useBoardStore.getState().duplicateSelected()
+    expect(useBoardStore.getState().connectors[1].points).toEqual([130, 70, 280, 220, 430, 170])
+
+    useBoardStore.getState().removeConnectorBend(id, 1)
+    expect(connector().points).toEqual([110, 50, 410, 150])
+  })
+
+  it('keeps a reshaped elbow route at right angles until the routing is reset', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 200)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    const id = connector().id
+    useBoardStore.getState().setConnectorRouting([id], 'elbow')
+    const routed = connector().points
+
+    const vertical = toPointList(routed).findIndex((p, i, list) => i > 0 && p.x === list[i - 1].x) - 1
+    useBoardStore.getState().beginConnectorBendDrag(id)
+    useBoardStore.getState().updateConnectorPoints(id, moveElbowSegment(routed, vertical, { x: 180, y: 0 }))
+    expect(connector().customRoute).toBe(true)
+    expect(toPointList(connector().points).filter(p => p.x === 180)).toHaveLength(2)
+
+    useBoardStore.getState().updateElement(b, { y: 260 }, false, true)
+    expect(connector().points.slice(-2)).toEqual([400, 310])
+    expect(isOrthogonal(connector().points)).toBe(true)
+    expect(toPointList(connector().points).filter(p => p.x === 180)).toHaveLength(2)
+
+    useBoardStore.getState().setConnectorRouting([id], 'elbow')
+    expect(connector().customRoute).toBeUndefined()
+    expect(toPointList(connector().points).some(p => p.x === 180)).toBe(false)
+  })
+
+  it('moves auto-anchored ends to the sides that face each other', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 0)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    const id = connector().id
+
+    // Fixed sides stay put and the line wraps around
+    useBoardStore.getState().updateElement(b, { x: 0, y: 400 }, false, true)
+    expect(connector()).toMatchObject({ fromAnchor: 'right', toAnchor: 'left' })
+
+    useBoardStore.getState().setConnectorAnchorMode([id], 'auto')
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Auto-attach connector sides')
+    expect(connector()).toMatchObject({ anchorMode: 'auto', fromAnchor: 'bottom', toAnchor: 'top', points: [50, 100, 50, 400] })
+
+    useBoardStore.getState().updateElement(b, { x: -400, y: 0 }, false, true)
+    expect(connector()).toMatchObject({ fromAnchor: 'left', toAnchor: 'right', points: [0, 50, -300, 50] })
+
+    useBoardStore.getState().setConnectorAnchorMode([id], 'fixed')
+    useBoardStore.getState().updateElement(b, { x: 400, y: 0 }, false, true)
+    expect(connector().anchorMode).toBeUndefined()
+    expect(connector()).toMatchObject({ fromAnchor: 'left', toAnchor: 'right' })
+  })
+})
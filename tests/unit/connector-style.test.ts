@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { connectorStyle, dashPattern, insetPoints, markerInset, markerPose, DEFAULT_CONNECTOR_STYLE } from '@/lib/connector-style'
+import { migrateBoardData } from '@/lib/migrations'
+import { useBoardStore } from '@/store/boardStore'
+import { setupEmptyBoard } from '../store-setup'
+
+describe('connector-style - geometry', () => {
+  it('falls back to the default style', () => {
+    expect(connectorStyle({})).toEqual(DEFAULT_CONNECTOR_STYLE)
+    expect(connectorStyle({ dash: 'dotted', endMarker: 'none' })).toMatchObject({ stroke: '#666', dash: 'dotted', endMarker: 'none' })
+    expect(dashPattern('dashed', 2)).toEqual([8, 6])
+    expect(dashPattern('solid', 2)).toEqual([])
+  })
+
+  it('places markers at the ends and pulls the line back under solid ones', () => {
+    const points = [0, 0, 100, 0]
+    expect(markerPose(points, 'end')).toEqual({ x: 100, y: 0, rotation: 0 })
+    expect(markerPose(points, 'start')).toEqual({ x: 0, y: 0, rotation: 180 })
+    expect(markerInset('open-arrow', 2)).toBe(0)
+    expect(insetPoints(points, markerInset('circle', 4), markerInset('arrow', 2))).toEqual([12, 0, 94, 0])
+  })
+})
+
+describe('boardStore - connector style', () => {
+  setupEmptyBoard()
+
+  it('restyles connectors in one undo step and keeps the style when copied', () => {
+    const a = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    const b = useBoardStore.getState().addRect({ x: 400, y: 0 })
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    const id = useBoardStore.getState().connectors[0].id
+
+    useBoardStore.getState().updateConnectorStyle([id], { stroke: '#1E88E5', dash: 'dashed', startMarker: 'diamond' })
+    expect(useBoardStore.getState().connectors[0]).toMatchObject({ stroke: '#1E88E5', dash: 'dashed', startMarker: 'diamond' })
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Style connector')
+
+    useBoardStore.getState().selectShapes([a, b])
+    useBoardStore.getState().duplicateSelected()
+    expect(useBoardStore.getState().connectors[1]).toMatchObject({ stroke: '#1E88E5', dash: 'dashed', startMarker: 'diamond' })
+
+    useBoardStore.getState().undo()
+    useBoardStore.getState().undo()
+    expect(useBoardStore.getState().connectors[0].stroke).toBeUndefined()
+  })
+
+  it('keeps valid styles when loading and drops unknown markers', () => {
+    const connector = { id: 'c1', fromId: '', toId: '', points: [0, 0, 10, 10], zIndex: 1, createdAt: 0, updatedAt: 0 }
+    const { data, report } = migrateBoardData({
+      version: '1.1.0',
+      elements: [],
+      connectors: [{ ...connector, strokeWidth: 4, endMarker: 'bar' }, { ...connector, id: 'c2', endMarker: 'star' }]
+    })
+    expect(data.connectors).toEqual([expect.objectContaining({ id: 'c1', strokeWidth: 4, endMarker: 'bar' })])
+    expect(report.dropped.map(d => d.id)).toEqual(['c2'])
+  })
+})
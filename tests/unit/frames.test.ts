@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest'
+import { findContainingFrame, frameClipBox, frameDescendants, paintOrder, sortFrames } from '@/lib/frames'
+import { buildFrameScene, estimateTextWidth, frameScenes, renderSceneToSVG, type ExportSource } from '@/lib/board-export'
+import { createImagesPdf } from '@/lib/pdf'
+import { exportBoardAsMarkdown } from '@/lib/markdown-export'
+import { useBoardStore } from '@/store/boardStore'
+import type { CanvasElement } from '@/types'
+import { setupEmptyBoard } from '../store-setup'
+
+const base = { createdAt: 0, updatedAt: 0 }
+
+const frame = (id: string, x: number, y: number, width: number, height: number, extra: Partial<CanvasElement> = {}) =>
+  ({ ...base, id, type: 'frame', x, y, width, height, zIndex: 5, title: id, ...extra }) as CanvasElement
+
+const sticky = (id: string, x: number, y: number, frameId?: string) =>
+  ({ ...base, id, type: 'sticky', x, y, width: 100, height: 100, zIndex: 1, text: id, color: '#FFF2B2', frameId }) as CanvasElement
+
+describe('frames - hierarchy', () => {
+  // outer ⊃ inner ⊃ a; b sits in outer only
+  const elements = [
+    frame('outer', 0, 0, 1000, 1000),
+    frame('inner', 100, 100, 400, 400, { frameId: 'outer', clip: true }),
+    sticky('a', 150, 150, 'inner'),
+    sticky('b', 700, 700, 'outer'),
+    sticky('c', 2000, 0)
+  ]
+
+  it('finds the smallest frame around the center', () => {
+    expect(findContainingFrame(elements, elements[2])?.id).toBe('inner')
+    expect(findContainingFrame(elements, elements[3])?.id).toBe('outer')
+    expect(findContainingFrame(elements, elements[4])).toBeNull()
+    // A frame never ends up inside itself or a smaller frame
+    expect(findContainingFrame(elements, elements[0])).toBeNull()
+  })
+
+  it('collects nested contents and draws frames behind them', () => {
+    expect(frameDescendants(elements, 'outer').map(e => e.id).sort()).toEqual(['a', 'b', 'inner'])
+    expect(frameDescendants(elements, 'outer', e => e.id === 'inner').map(e => e.id)).toEqual(['b'])
+    expect(paintOrder(elements).map(e => e.id)).toEqual(['outer', 'inner', 'a', 'b', 'c'])
+  })
+
+  it('clips to the clipping frames only', () => {
+    expect(frameClipBox(elements, elements[2])).toEqual({ x: 100, y: 100, width: 400, height: 400 })
+    expect(frameClipBox(elements, elements[3])).toBeNull()
+  })
+
+  it('orders frames top to bottom, left to right', () => {
+    expect(sortFrames([frame('b', 500, 0, 10, 10), frame('c', 0, 100, 10, 10), frame('a', 0, 0, 10, 10)]).map(f => f.id))
+      .toEqual(['a', 'b', 'c'])
+  })
+})
+
+describe('frames - export', () => {
+  const source = (elements: CanvasElement[]): ExportSource =>
+    ({ elements, connectors: [], selectedIds: [], viewport: { zoom: 1, panX: 0, panY: 0 } })
+
+  it('exports a frame with its contents cut to the frame', () => {
+    const scene = buildFrameScene(source([frame('f', 0, 0, 300, 200), sticky('a', 10, 10, 'f'), sticky('b', 900, 0)]), 'f')!
+
+    expect(scene.bounds).toEqual({ x: 0, y: 0, width: 300, height: 200 })
+    expect(scene.elements.map(e => e.id)).toEqual(['f', 'a'])
+    expect(renderSceneToSVG(scene, { measureText: estimateTextWidth })).toContain('>f</text>')
+  })
+
+  it('writes one PDF page per frame', () => {
+    const scenes = frameScenes(source([frame('f1', 0, 0, 300, 200), frame('f2', 0, 400, 300, 200)]))
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9])
+    const pdf = new TextDecoder('latin1').decode(createImagesPdf(scenes.map(scene => ({
+      jpeg, pixelWidth: 10, pixelHeight: 10, pageWidth: scene.bounds.width, pageHeight: scene.bounds.height
+    }))))
+
+    expect(pdf).toContain('/Kids [3 0 R 6 0 R] /Count 2')
+    expect(pdf.match(/\/Type \/Page /g)).toHaveLength(2)
+  })
+
+  it('lists frame contents under the frame title in Markdown', () => {
+    const markdown = exportBoardAsMarkdown({
+      elements: [frame('Ideas', 0, 0, 300, 300), sticky('a', 10, 10, 'Ideas'), sticky('b', 900, 0)],
+      connectors: [],
+      chatHistory: [],
+      mainTheme: null
+    })
+    expect(markdown).toBe('# Board\n\n- b\n\n## Ideas\n\n- a\n')
+  })
+})
+
+describe('boardStore - frames', () => {
+  setupEmptyBoard()
+
+  const get = (id: string) => useBoardStore.getState().getElementById(id)!
+
+  it('adopts elements inside a new frame and elements added into it', () => {
+    const inside = useBoardStore.getState().addRect({ x: 100, y: 100 })
+    const outside = useBoardStore.getState().addRect({ x: 2000, y: 0 })
+    const frameId = useBoardStore.getState().addFrame({ x: 0, y: 0 })
+
+    expect(get(frameId)).toMatchObject({ type: 'frame', title: 'Frame 1', width: 800, height: 600 })
+    expect(get(inside).frameId).toBe(frameId)
+    expect(get(outside).frameId).toBeUndefined()
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Add frame')
+
+    const later = useBoardStore.getState().addRect({ x: 300, y: 300 })
+    expect(get(later).frameId).toBe(frameId)
+  })
+
+  it('moves its contents along but not when resized', () => {
+    const child = useBoardStore.getState().addRect({ x: 100, y: 100 })
+    const frameId = useBoardStore.getState().addFrame({ x: 0, y: 0 })
+    const start = { x: get(child).x, y: get(child).y }
+
+    useBoardStore.getState().updateElement(frameId, { x: 50, y: 20 })
+    expect(get(child)).toMatchObject({ x: start.x + 50, y: start.y + 20 })
+
+    useBoardStore.getState().updateElement(frameId, { x: 0, y: 0, width: 900, height: 700 })
+    expect(get(child)).toMatchObject({ x: start.x + 50, y: start.y + 20 })
+
+    // One undo step puts the contents back as well
+    useBoardStore.getState().undo()
+    useBoardStore.getState().undo()
+    expect(get(child)).toMatchObject(start)
+  })
+
+  it('carries its contents through auto layout and arrange', () => {
+    const child = useBoardStore.getState().addRect({ x: 100, y: 100 })
+    const frameId = useBoardStore.getState().addFrame({ x: 0, y: 0 })
+    const rect = useBoardStore.getState().addRect({ x: -2000, y: 0 })
+    const offset = () => ({ x: get(child).x - get(frameId).x, y: get(child).y - get(frameId).y })
+    const start = offset()
+
+    useBoardStore.getState().selectShapes([frameId, rect])
+    useBoardStore.getState().applyLayout('grid')
+    expect(get(frameId).x).not.toBe(0)
+    expect(offset()).toEqual(start)
+
+    useBoardStore.getState().selectShapes([frameId, rect])
+    useBoardStore.getState().arrangeSelected({ kind: 'align', edge: 'bottom' })
+    expect(offset()).toEqual(start)
+    expect(get(child).frameId).toBe(frameId)
+
+    // Aligned onto the frame: the rectangle now sits inside it
+    useBoardStore.getState().updateElement(frameId, { x: -2500, width: 4000 })
+    useBoardStore.getState().selectShapes([frameId, rect])
+    useBoardStore.getState().arrangeSelected({ kind: 'align', edge: 'top' })
+    expect(get(rect).frameId).toBe(frameId)
+  })
+
+  it('picks up and releases dragged elements', () => {
+    const frameId = useBoardStore.getState().addFrame({ x: 0, y: 0 })
+    const rect = useBoardStore.getState().addRect({ x: 2000, y: 0 })
+    useBoardStore.getState().selectShape(rect)
+
+    useBoardStore.getState().beginElementDrag()
+    useBoardStore.getState().updateElement(rect, { x: 200, y: 200 }, true, true)
+    useBoardStore.getState().endElementDrag()
+    expect(get(rect).frameId).toBe(frameId)
+
+    useBoardStore.getState().beginElementDrag()
+    useBoardStore.getState().updateElement(rect, { x: 3000, y: 0 }, true, true)
+    useBoardStore.getState().endElementDrag()
+    expect(get(rect).frameId).toBeUndefined()
+  })
+
+  it('deletes its contents with it', () => {
+    const child = useBoardStore.getState().addRect({ x: 100, y: 100 })
+    const other = useBoardStore.getState().addRect({ x: 2000, y: 0 })
+    const frameId = useBoardStore.getState().addFrame({ x: 0, y: 0 })
+    useBoardStore.getState().addConnector({ id: child, anchor: 'right' }, { id: other, anchor: 'left' })
+
+    useBoardStore.getState().deleteElements([frameId])
+    expect(useBoardStore.getState().elements.map(e => e.id)).toEqual([other])
+    expect(useBoardStore.getState().connectors).toHaveLength(0)
+  })
+
+  it('keeps pasted contents in the pasted frame', () => {
+    const child = useBoardStore.getState().addRect({ x: 100, y: 100 })
+    const frameId = useBoardStore.getState().addFrame({ x: 0, y: 0 })
+    useBoardStore.getState().selectShapes([frameId, child])
+
+    useBoardStore.getState().copySelected()
+    useBoardStore.getState().paste()
+    const [pastedChild, pastedFrame] = useBoardStore.getState().elements.slice(2)
+    const [copyFrame, copyChild] = pastedFrame.type === 'frame' ? [pastedFrame, pastedChild] : [pastedChild, pastedFrame]
+
+    expect(copyChild.frameId).toBe(copyFrame.id)
+    expect(copyFrame.id).not.toBe(frameId)
+  })
+})
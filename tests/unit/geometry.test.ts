@@ -1,4 +1,4 @@
-import { anchorForConnection, recalcConnectorPoints, isPointInRect } from '@/lib/geometry'
+import { anchorForConnection, recalcConnectorPoints, isPointInRect, nearestAnchor } from '@/lib/geometry'
 import { expect, test, describe } from 'vitest'
 
 describe('geometry functions', () => {
@@ -72,4 +72,14 @@ describe('geometry functions', () => {
     expect(isPointInRect({ x: 350, y: 150 }, rect)).toBe(false)
     expect(isPointInRect({ x: 150, y: 300 }, rect)).toBe(false)
   })
-})
\ No newline at end of file
+
+  test('picks the side closest to a target, turning with the element', () => {
+    const rect = { x: 0, y: 0, width: 100, height: 100 }
+    expect(nearestAnchor(rect, { x: 400, y: 60 })).toBe('right')
+    expect(nearestAnchor(rect, { x: 40, y: -300 })).toBe('top')
+    expect(nearestAnchor(rect, { x: -50, y: 300 })).toBe('bottom')
+
+    // Turned 90° clockwise around its top-left corner, the left side now faces up
+    expect(nearestAnchor({ ...rect, rotation: 90 }, { x: -50, y: -300 })).toBe('left')
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { addGroup, expandToGroups, pruneGroups, removeGroups, renameGroups, selectableGroupOf } from '@/lib/groups'
+import { useBoardStore } from '@/store/boardStore'
+import { setupEmptyBoard } from '../store-setup'
+
+const el = (id: string, groupIds?: string[]) => ({ id, groupIds })
+
+describe('groups - selection units', () => {
+  // g1 = { a, g2 = { b, c } }, d is loose
+  const elements = [el('a', ['g1']), el('b', ['g1', 'g2']), el('c', ['g1', 'g2']), el('d')]
+
+  it('selects the outermost group below the entered one', () => {
+    expect(selectableGroupOf(elements[1], null)).toBe('g1')
+    expect(selectableGroupOf(elements[1], 'g1')).toBe('g2')
+    expect(selectableGroupOf(elements[1], 'g2')).toBeNull()
+    // Not inside the entered group: treated as if nothing was entered
+    expect(selectableGroupOf(elements[3], 'g1')).toBeNull()
+  })
+
+  it('expands a selection to whole groups', () => {
+    expect(expandToGroups(elements, ['b'], null).sort()).toEqual(['a', 'b', 'c'])
+    expect(expandToGroups(elements, ['b'], 'g1').sort()).toEqual(['b', 'c'])
+    expect(expandToGroups(elements, ['d'], null)).toEqual(['d'])
+  })
+
+  it('nests new groups below the entered group and dissolves one level', () => {
+    expect(addGroup(elements, ['b', 'c'], 'g3', 'g1').get('b')).toEqual(['g1', 'g3', 'g2'])
+    expect(addGroup(elements, ['a', 'd'], 'g3', null).get('d')).toEqual(['g3'])
+
+    const updates = removeGroups(elements, ['a', 'b', 'c'], null)
+    expect(updates.get('a')).toEqual([])
+    expect(updates.get('b')).toEqual(['g2'])
+    expect(updates.has('d')).toBe(false)
+  })
+
+  it('drops single-member groups and renames copied groups', () => {
+    const copies = [el('x', ['g1', 'g2']), el('y', ['g1', 'g2']), el('z', ['g1', 'g9'])]
+    renameGroups(copies, (() => { let n = 0; return () => `new${n++}` })())
+
+    expect(copies.map(c => c.groupIds)).toEqual([['new0', 'new1'], ['new0', 'new1'], ['new0']])
+
+    const rest = [el('a', ['g1']), el('b', ['g1', 'g2'])]
+    pruneGroups(rest)
+    expect(rest.map(r => r.groupIds)).toEqual([['g1'], ['g1']])
+  })
+})
+
+describe('boardStore - groups', () => {
+  setupEmptyBoard()
+
+  const selected = () => [...useBoardStore.getState().selectedIds].sort()
+
+  const addRects = (count: number) =>
+    Array.from({ length: count }, (_, i) => useBoardStore.getState().addRect({ x: i * 100, y: 0 }))
+
+  it('groups the selection so a click selects the whole group', () => {
+    const [a, b, c] = addRects(3)
+    useBoardStore.getState().selectShapes([a, b])
+    const groupId = useBoardStore.getState().groupSelected()
+
+    expect(groupId).toBeTruthy()
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Group 2 rectangles')
+
+    useBoardStore.getState().selectShape(b)
+    expect(selected()).toEqual([a, b].sort())
+    useBoardStore.getState().selectShape(c)
+    expect(useBoardStore.getState().selectedIds).toEqual([c])
+  })
+
+  it('drills into nested groups and leaves them again', () => {
+    const [a, b, c] = addRects(3)
+    useBoardStore.getState().selectShapes([b, c])
+    useBoardStore.getState().groupSelected()
+    useBoardStore.getState().selectShapes([a, b])
+    useBoardStore.getState().groupSelected()
+
+    useBoardStore.getState().selectShape(c)
+    expect(useBoardStore.getState().selectedIds).toHaveLength(3)
+
+    expect(useBoardStore.getState().enterGroup(c)).toBe(true)
+    expect(selected()).toEqual([b, c].sort())
+    expect(useBoardStore.getState().enterGroup(c)).toBe(true)
+    expect(useBoardStore.getState().selectedIds).toEqual([c])
+    // Nothing left to enter: double-click falls through to editing
+    expect(useBoardStore.getState().enterGroup(c)).toBe(false)
+
+    useBoardStore.getState().exitGroup()
+    expect(selected()).toEqual([b, c].sort())
+
+    // A click outside the entered group leaves it
+    useBoardStore.getState().enterGroup(c)
+    useBoardStore.getState().selectShape(a)
+    expect(useBoardStore.getState().enteredGroupId).toBeNull()
+    expect(useBoardStore.getState().selectedIds).toHaveLength(3)
+  })
+
+  it('ungroups one level at a time', () => {
+    const [a, b, c] = addRects(3)
+    useBoardStore.getState().selectShapes([b, c])
+    useBoardStore.getState().groupSelected()
+    useBoardStore.getState().selectShapes([a, b])
+    useBoardStore.getState().groupSelected()
+
+    useBoardStore.getState().ungroupSelected()
+    useBoardStore.getState().selectShape(b)
+
+    expect(selected()).toEqual([b, c].sort())
+    expect(useBoardStore.getState().getElementById(a)?.groupIds).toBeUndefined()
+  })
+
+  it('pastes copies as a new group and keeps groups through JSON export', () => {
+    const [a, b] = addRects(2)
+    useBoardStore.getState().selectShapes([a, b])
+    const groupId = useBoardStore.getState().groupSelected()!
+
+    useBoardStore.getState().copySelected()
+    useBoardStore.getState().paste()
+    const pasted = useBoardStore.getState().elements.slice(2)
+    expect(pasted[0].groupIds).toHaveLength(1)
+    expect(pasted[0].groupIds).toEqual(pasted[1].groupIds)
+    expect(pasted[0].groupIds).not.toEqual([groupId])
+
+    const json = useBoardStore.getState().exportAsJSON()
+    useBoardStore.getState().clearAll()
+    useBoardStore.getState().importFromJSON(json)
+    expect(useBoardStore.getState().getElementById(a)?.groupIds).toEqual([groupId])
+  })
+
+  it('moves groups in z-order together and dissolves groups emptied by delete', () => {
+    const [a, b, c] = addRects(3)
+    useBoardStore.getState().selectShapes([a, b])
+    useBoardStore.getState().groupSelected()
+
+    useBoardStore.getState().bringToFront(a)
+    const z = (id: string) => useBoardStore.getState().getElementById(id)!.zIndex
+    expect(Math.min(z(a), z(b))).toBeGreaterThan(z(c))
+    expect(z(a)).toBeLessThan(z(b))
+
+    useBoardStore.getState().deleteElements([a])
+    expect(useBoardStore.getState().getElementById(b)?.groupIds).toBeUndefined()
+  })
+})
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useBoardStore } from '@/store/boardStore'
+import { DEFAULT_HISTORY_LIMIT, describeElements, describeUpdate } from '@/store/history'
+import { debouncedSaveBoardData } from '@/lib/persistence'
+import { setupEmptyBoard } from '../store-setup'
+
+vi.mock('@/lib/persistence', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/persistence')>()),
+  debouncedSaveBoardData: vi.fn()
+}))
+
+const labels = () => useBoardStore.getState().history.past.map(entry => entry.label)
+
+describe('history - labels', () => {
+  it('describes elements by type and count', () => {
+    expect(describeElements([{ type: 'sticky' }])).toBe('sticky')
+    expect(describeElements([{ type: 'sticky' }, { type: 'sticky' }, { type: 'sticky' }])).toBe('3 stickies')
+    expect(describeElements([{ type: 'rect' }, { type: 'text' }])).toBe('2 elements')
+  })
+
+  it('describes updates by the fields that change', () => {
+    expect(describeUpdate({ type: 'sticky' }, { text: 'hi' })).toBe('Edit sticky')
+    expect(describeUpdate({ type: 'rect' }, { width: 10 })).toBe('Resize rectangle')
+    expect(describeUpdate({ type: 'rect' }, { x: 10, y: 5 })).toBe('Move rectangle')
+    expect(describeUpdate({ type: 'sticky' }, { color: '#fff' } as never)).toBe('Change color')
+  })
+})
+
+describe('boardStore - patch history', () => {
+  setupEmptyBoard({ historyLimit: DEFAULT_HISTORY_LIMIT })
+
+  it('labels each action and stores patches instead of snapshots', () => {
+    const id = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    useBoardStore.getState().updateElement(id, { width: 300 })
+    useBoardStore.getState().deleteElements([id])
+
+    expect(labels()).toEqual(['Add rectangle', 'Resize rectangle', 'Delete rectangle'])
+    const [, resize] = useBoardStore.getState().history.past
+    expect(resize.patches).toEqual([{ op: 'replace', path: ['elements', 0, 'width'], value: 300 }])
+  })
+
+  it('records a whole drag as one entry', () => {
+    const id = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    useBoardStore.getState().selectShape(id)
+    useBoardStore.getState().beginElementDrag()
+    for (let x = 1; x <= 50; x++) {
+      useBoardStore.getState().updateElement(id, { x, y: x }, false, true)
+    }
+
+    const past = useBoardStore.getState().history.past
+    expect(labels()).toEqual(['Add rectangle', 'Move rectangle'])
+    // Drag frames are merged per field
+    expect(past[1].patches.filter(p => p.path[2] === 'x')).toHaveLength(1)
+
+    useBoardStore.getState().undo()
+    expect(useBoardStore.getState().elements[0]).toMatchObject({ x: 0, y: 0 })
+  })
+
+  it('ends an entry when its action returns and a gesture when it ends', () => {
+    const id = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    useBoardStore.getState().updateElement(id, { width: 300 })
+    expect(useBoardStore.getState().history.recording).toBe(false)
+
+    // A later edit without its own entry (e.g. text auto-size) does not join the resize
+    useBoardStore.getState().updateElement(id, { height: 40 }, false, true)
+    useBoardStore.getState().undo()
+    expect(useBoardStore.getState().elements[0]).toMatchObject({ width: 200, height: 40 })
+
+    useBoardStore.getState().selectShape(id)
+    useBoardStore.getState().beginElementDrag()
+    useBoardStore.getState().updateElement(id, { x: 10 }, false, true)
+    expect(useBoardStore.getState().history.recording).toBe(true)
+    useBoardStore.getState().endElementDrag()
+    useBoardStore.getState().updateElement(id, { y: 20 }, false, true)
+
+    expect(labels()).toEqual(['Add rectangle', 'Move rectangle'])
+    useBoardStore.getState().undo()
+    expect(useBoardStore.getState().elements[0]).toMatchObject({ x: 0, y: 20 })
+  })
+
+  it('leaves unrecorded field additions out of history', () => {
+    const id = useBoardStore.getState().addSticky({ x: 0, y: 0, text: 'note' })
+    useBoardStore.getState().updateElement(id, { x: 5 })
+    useBoardStore.getState().undo()
+
+    // Adds a field the sticky did not have yet
+    useBoardStore.getState().updateElement(id, { isMarkdown: true }, false, true)
+    expect(labels()).toEqual(['Add sticky'])
+    expect(useBoardStore.getState().history.future).toHaveLength(1)
+  })
+
+  it('undoes, redoes and jumps to any point', () => {
+    const a = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    useBoardStore.getState().addRect({ x: 100, y: 0 })
+    useBoardStore.getState().updateElement(a, { x: 50 })
+
+    useBoardStore.getState().undo()
+    expect(useBoardStore.getState().elements[0].x).toBe(0)
+    useBoardStore.getState().redo()
+    expect(useBoardStore.getState().elements[0].x).toBe(50)
+
+    useBoardStore.getState().jumpToHistory(1)
+    let state = useBoardStore.getState()
+    expect(state.elements).toHaveLength(1)
+    expect(state.elements[0].x).toBe(0)
+    expect(state.history.future).toHaveLength(2)
+
+    useBoardStore.getState().jumpToHistory(3)
+    state = useBoardStore.getState()
+    expect(state.elements).toHaveLength(2)
+    expect(state.elements[0].x).toBe(50)
+    expect(state.canRedo()).toBe(false)
+
+    useBoardStore.getState().jumpToHistory(0)
+    expect(useBoardStore.getState().elements).toHaveLength(0)
+  })
+
+  it('drops redo entries when a new action is recorded', () => {
+    useBoardStore.getState().addRect({ x: 0, y: 0 })
+    useBoardStore.getState().undo()
+    useBoardStore.getState().addRect({ x: 10, y: 10 })
+
+    expect(useBoardStore.getState().history.future).toHaveLength(0)
+    expect(labels()).toEqual(['Add rectangle'])
+  })
+
+  it('keeps at most historyLimit entries', () => {
+    useBoardStore.getState().setHistoryLimit(3)
+    for (let i = 0; i < 5; i++) {
+      useBoardStore.getState().addRect({ x: i * 10, y: 0 })
+    }
+
+    expect(useBoardStore.getState().history.past).toHaveLength(3)
+
+    // The oldest kept entry undoes on top of the untracked state
+    for (let i = 0; i < 3; i++) useBoardStore.getState().undo()
+    expect(useBoardStore.getState().elements).toHaveLength(2)
+  })
+
+  it('leaves selection and viewport out of history', () => {
+    const id = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    useBoardStore.getState().selectShape(id)
+    useBoardStore.getState().setViewport({ zoom: 2, panX: 30 })
+
+    expect(labels()).toEqual(['Add rectangle'])
+    useBoardStore.getState().undo()
+    expect(useBoardStore.getState().viewport.zoom).toBe(2)
+  })
+})
+
+describe('boardStore - transaction', () => {
+  setupEmptyBoard({ currentBoardId: 'board-1' })
+
+  beforeEach(() => {
+    vi.mocked(debouncedSaveBoardData).mockClear()
+  })
+
+  afterEach(() => {
+    useBoardStore.setState({ currentBoardId: null })
+  })
+
+  it('groups several actions into one undo step and one autosave', () => {
+    const ids = useBoardStore.getState().transaction('Build diagram', () => {
+      const { addRect, addConnector, updateElementColor } = useBoardStore.getState()
+      const a = addRect({ x: 0, y: 0 })
+      const b = addRect({ x: 300, y: 0 })
+      addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+      updateElementColor([a, b], '#FF0000')
+      return [a, b]
+    })
+
+    let state = useBoardStore.getState()
+    expect(ids).toHaveLength(2)
+    expect(state.connectors).toHaveLength(1)
+    expect(labels()).toEqual(['Build diagram'])
+    expect(debouncedSaveBoardData).toHaveBeenCalledTimes(1)
+
+    state.undo()
+    state = useBoardStore.getState()
+    expect(state.elements).toHaveLength(0)
+    expect(state.connectors).toHaveLength(0)
+  })
+
+  it('joins nested transactions into the outer one', () => {
+    useBoardStore.getState().transaction('Outer', () => {
+      useBoardStore.getState().addRect({ x: 0, y: 0 })
+      useBoardStore.getState().transaction('Inner', () => useBoardStore.getState().addRect({ x: 10, y: 0 }))
+    })
+
+    expect(labels()).toEqual(['Outer'])
+  })
+
+  it('rolls back board changes when the function throws', () => {
+    useBoardStore.getState().addRect({ x: 0, y: 0 })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(() => useBoardStore.getState().transaction('Broken', () => {
+      const id = useBoardStore.getState().addRect({ x: 10, y: 0 })
+      useBoardStore.getState().updateElement(useBoardStore.getState().elements[0].id, { x: 99 })
+      useBoardStore.getState().deleteElements([id])
+      throw new Error('boom')
+    })).toThrow('boom')
+
+    const state = useBoardStore.getState()
+    expect(state.elements).toHaveLength(1)
+    expect(state.elements[0].x).toBe(0)
+    expect(labels()).toEqual(['Add rectangle'])
+  })
+
+  it('keeps the redo stack when the function throws', () => {
+    useBoardStore.getState().addRect({ x: 0, y: 0 })
+    useBoardStore.getState().undo()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(() => useBoardStore.getState().transaction('Broken', () => {
+      useBoardStore.getState().addRect({ x: 10, y: 0 })
+      throw new Error('boom')
+    })).toThrow('boom')
+
+    expect(useBoardStore.getState().history.future).toHaveLength(1)
+    useBoardStore.getState().redo()
+    expect(labels()).toEqual(['Add rectangle'])
+    expect(useBoardStore.getState().elements[0].x).toBe(0)
+  })
+
+  it('leaves no entry when nothing changed', () => {
+    useBoardStore.getState().transaction('Nothing', () => undefined)
+
+    expect(labels()).toEqual([])
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  STREAM_META_DELIMITER,
+  createAnswerStreamSplitter,
+  createSSEParser,
+  encodeSSE,
+  parseStreamMeta,
+  type LLMStreamEvent
+} from '@/lib/llm-stream'
+import { streamLLM, isAbortError, LLMAPIError } from '@/lib/llm'
+
+// Feed text through the splitter in fixed-size chunks
+const split = (text: string, chunkSize: number) => {
+  const splitter = createAnswerStreamSplitter()
+  let visible = ''
+  for (let i = 0; i < text.length; i += chunkSize) {
+    visible += splitter.push(text.slice(i, i + chunkSize))
+  }
+  const result = splitter.finish()
+  return { visible: visible + result.rest, ...result }
+}
+
+const sseResponse = (events: LLMStreamEvent[]) =>
+  new Response(events.map(encodeSSE).join(''), {
+    headers: { 'Content-Type': 'text/event-stream' }
+  })
+
+describe('llm-stream - answer splitter', () => {
+  const output = `## Answer\n\nSome **markdown**\n${STREAM_META_DELIMITER}\n{"summary":"Short","nextStudy":"Dig deeper"}`
+
+  it.each([1, 3, 7, 1000])('never shows the delimiter or metadata (chunk size %i)', (chunkSize) => {
+    const result = split(output, chunkSize)
+
+    expect(result.visible).toBe('## Answer\n\nSome **markdown**\n')
+    expect(result.answer).toBe('## Answer\n\nSome **markdown**')
+    expect(parseStreamMeta(result.meta, result.answer)).toEqual({ summary: 'Short', nextStudy: 'Dig deeper' })
+  })
+
+  it('flushes held-back text when no delimiter arrives', () => {
+    const result = split('Plain answer ending in ===', 4)
+
+    expect(result.visible).toBe('Plain answer ending in ===')
+    expect(result.meta).toBe('')
+    expect(parseStreamMeta(result.meta, result.answer).summary).toBe('Plain answer ending in ===')
+  })
+
+  it('falls back to the answer when metadata is not valid JSON', () => {
+    expect(parseStreamMeta('{not json', 'The answer')).toEqual({ summary: 'The answer', nextStudy: '' })
+  })
+})
+
+describe('llm-stream - SSE parser', () => {
+  it('reassembles events split across chunks', () => {
+    const parser = createSSEParser()
+    const frames = encodeSSE({ type: 'token', text: 'Hel' }) + encodeSSE({ type: 'token', text: 'lo' })
+
+    const events = [
+      ...parser.push(frames.slice(0, 10)),
+      ...parser.push(frames.slice(10, 30)),
+      ...parser.push(frames.slice(30))
+    ]
+
+    expect(events).toEqual([
+      { type: 'token', text: 'Hel' },
+      { type: 'token', text: 'lo' }
+    ])
+  })
+})
+
+describe('llm - streamLLM', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reports tokens as they arrive and resolves with the final response', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([
+      { type: 'token', text: 'Hello ' },
+      { type: 'token', text: 'world' },
+      { type: 'done', text: 'Hello world\n\nNext', summary: 'Greeting\n\nNext' }
+    ])))
+    const onToken = vi.fn()
+
+    const response = await streamLLM({ prompt: 'hi' }, { onToken })
+
+    expect(onToken).toHaveBeenNthCalledWith(1, 'Hello ', 'Hello ')
+    expect(onToken).toHaveBeenNthCalledWith(2, 'world', 'Hello world')
+    expect(response).toEqual({ text: 'Hello world\n\nNext', summary: 'Greeting\n\nNext' })
+  })
+
+  it('throws an LLMAPIError for error events', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([
+      { type: 'error', error: 'Service is temporarily unavailable' }
+    ])))
+
+    await expect(streamLLM({ prompt: 'hi' })).rejects.toBeInstanceOf(LLMAPIError)
+  })
+
+  it('recognizes aborted requests', () => {
+    expect(isAbortError(new DOMException('Aborted', 'AbortError'))).toBe(true)
+    expect(isAbortError(new Error('boom'))).toBe(false)
+  })
+})
@@ -103,4 +103,53 @@ describe('LLM Summary Feature', () => {
     const { chatHistory } = useBoardStore.getState()
     expect(chatHistory).toHaveLength(0)
   })
-})
\ No newline at end of file
+
+  it('should leave messages excluded by the user out of the context', () => {
+    const store = useBoardStore.getState()
+
+    store.addChatMessage({ role: 'assistant', content: '回答A', summary: 'サマリA', timestamp: Date.now() })
+    store.addChatMessage({ role: 'assistant', content: '回答B', summary: 'サマリB', timestamp: Date.now() + 1 })
+
+    const [first] = useBoardStore.getState().chatHistory
+    store.setMessagesContextInclusion([first.id], false)
+
+    expect(useBoardStore.getState().chatHistory[0].excludedFromContext).toBe(true)
+    expect(store.getChatContext()).not.toContain('サマリA')
+    expect(store.getChatContext()).toContain('サマリB')
+
+    store.setMessagesContextInclusion([first.id], true)
+    expect(store.getChatContext()).toContain('サマリA')
+  })
+
+  it('should include chat history and main theme in JSON export and import', () => {
+    const store = useBoardStore.getState()
+    store.setMainTheme('エクスポートのテーマ')
+    store.addChatMessage({ role: 'user', content: '質問', timestamp: 1 })
+
+    const exported = JSON.parse(store.exportAsJSON())
+    expect(exported.chatHistory).toHaveLength(1)
+    expect(exported.mainTheme.content).toBe('エクスポートのテーマ')
+
+    store.clearChatHistory()
+    store.removeMainTheme()
+    store.importFromJSON(JSON.stringify(exported))
+
+    const state = useBoardStore.getState()
+    expect(state.chatHistory).toHaveLength(1)
+    expect(state.mainTheme?.content).toBe('エクスポートのテーマ')
+  })
+
+  it('should keep chat history on clearAll unless asked to clear it', () => {
+    const store = useBoardStore.getState()
+    store.setMainTheme('テーマ')
+    store.addChatMessage({ role: 'user', content: '残る質問', timestamp: 1 })
+
+    store.clearAll()
+    expect(useBoardStore.getState().chatHistory).toHaveLength(1)
+    expect(useBoardStore.getState().mainTheme).not.toBeNull()
+
+    store.clearAll({ includeChat: true })
+    expect(useBoardStore.getState().chatHistory).toHaveLength(0)
+    expect(useBoardStore.getState().mainTheme).toBeNull()
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { useBoardStore } from '@/store/boardStore'
+import { setupEmptyBoard } from '../store-setup'
+
+describe('boardStore - locked elements', () => {
+  setupEmptyBoard()
+
+  const get = (id: string) => useBoardStore.getState().getElementById(id)
+
+  it('locks the selection and unlocks it once everything is locked', () => {
+    const a = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    const b = useBoardStore.getState().addRect({ x: 200, y: 0 })
+    useBoardStore.getState().setLocked([a], true)
+
+    useBoardStore.getState().selectShapes([a, b])
+    useBoardStore.getState().toggleLockSelected()
+    expect(get(b)?.locked).toBe(true)
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Lock rectangle')
+
+    useBoardStore.getState().toggleLockSelected()
+    expect(get(a)?.locked).toBeUndefined()
+    expect(get(b)?.locked).toBeUndefined()
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Unlock 2 rectangles')
+  })
+
+  it('keeps locked elements on delete, also inside a deleted frame', () => {
+    const locked = useBoardStore.getState().addRect({ x: 100, y: 100 })
+    const loose = useBoardStore.getState().addRect({ x: 300, y: 100 })
+    const frameId = useBoardStore.getState().addFrame({ x: 0, y: 0 })
+    useBoardStore.getState().setLocked([locked], true)
+
+    useBoardStore.getState().deleteElements([locked])
+    expect(get(locked)).toBeDefined()
+
+    useBoardStore.getState().deleteElements([frameId])
+    expect(get(loose)).toBeUndefined()
+    expect(get(locked)?.frameId).toBeUndefined()
+  })
+
+  it('leaves locked elements out of auto layout', () => {
+    const a = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    const b = useBoardStore.getState().addRect({ x: 10, y: 10 })
+    const locked = useBoardStore.getState().addRect({ x: 20, y: 20 })
+    useBoardStore.getState().setLocked([locked], true)
+
+    useBoardStore.getState().selectShapes([a, b, locked])
+    useBoardStore.getState().applyLayout('grid')
+    expect(get(locked)).toMatchObject({ x: 20, y: 20 })
+    expect(get(b)?.x).not.toBe(10)
+  })
+
+  it('does not start text editing on a locked element', () => {
+    const id = useBoardStore.getState().addText({ x: 0, y: 0, text: 'Title' })
+    useBoardStore.getState().setLocked([id], true)
+
+    useBoardStore.getState().startEditingText(id)
+    expect(useBoardStore.getState().editingTextId).not.toBe(id)
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { exportBoardAsMarkdown, type MarkdownExportSource } from '@/lib/markdown-export'
+import type { CanvasElement, Connector } from '@/types'
+
+const base = { width: 200, height: 100, createdAt: 0, updatedAt: 0 }
+
+const sticky = (id: string, x: number, y: number, text: string, isMarkdown = false): CanvasElement =>
+  ({ ...base, id, type: 'sticky', x, y, zIndex: 1, text, color: '#FFF2B2', isMarkdown })
+
+const connector = (fromId: string, toId: string): Connector =>
+  ({ id: `${fromId}-${toId}`, fromId, toId, points: [0, 0, 0, 0], zIndex: 10, createdAt: 0, updatedAt: 0 })
+
+const source = (overrides: Partial<MarkdownExportSource>): MarkdownExportSource => ({
+  elements: [],
+  connectors: [],
+  chatHistory: [],
+  mainTheme: null,
+  ...overrides
+})
+
+describe('markdown-export - exportBoardAsMarkdown', () => {
+  it('uses the main theme as title and falls back to the board name', () => {
+    const theme = { id: 't', content: 'Product ideas\nmore details', createdAt: 0, updatedAt: 0 }
+
+    expect(exportBoardAsMarkdown(source({ mainTheme: theme }))).toBe('# Product ideas\n')
+    expect(exportBoardAsMarkdown(source({ boardName: 'Retro' }))).toBe('# Retro\n')
+  })
+
+  it('nests notes following connectors', () => {
+    const markdown = exportBoardAsMarkdown(source({
+      elements: [
+        sticky('root', 0, 0, 'Root'),
+        sticky('b', 300, 200, 'Second child'),
+        sticky('a', 0, 200, 'First child'),
+        sticky('leaf', 0, 400, 'Leaf\nwith two lines'),
+        sticky('other', 600, 0, 'Unconnected')
+      ],
+      connectors: [connector('root', 'b'), connector('root', 'a'), connector('a', 'leaf')]
+    }))
+
+    expect(markdown).toBe([
+      '# Board',
+      '',
+      '- Root',
+      '  - First child',
+      '    - Leaf',
+      '      with two lines',
+      '  - Second child',
+      '- Unconnected',
+      ''
+    ].join('\n'))
+  })
+
+  it('prefixes children with the label of the connector they hang from', () => {
+    const markdown = exportBoardAsMarkdown(source({
+      elements: [sticky('a', 0, 0, 'Rain'), sticky('b', 0, 200, 'Wet roads')],
+      connectors: [{ ...connector('a', 'b'), label: 'causes' }]
+    }))
+
+    expect(markdown).toBe('# Board\n\n- Rain\n  - *causes:* Wet roads\n')
+  })
+
+  it('lists each note once even with cycles', () => {
+    const markdown = exportBoardAsMarkdown(source({
+      elements: [sticky('a', 0, 0, 'A'), sticky('b', 0, 200, 'B')],
+      connectors: [connector('a', 'b'), connector('b', 'a')]
+    }))
+
+    expect(markdown).toBe('# Board\n\n- A\n  - B\n')
+  })
+
+  it('turns rectangles into sections with the notes inside them', () => {
+    const markdown = exportBoardAsMarkdown(source({
+      elements: [
+        { ...base, id: 'frame', type: 'rect', x: -20, y: -20, width: 500, height: 400, zIndex: 0, fill: '#fff', stroke: '#000', strokeWidth: 1 },
+        { ...base, id: 'title', type: 'text', x: 0, y: 0, zIndex: 1, text: 'Risks', fontSize: 16, fontFamily: 'Arial' },
+        sticky('inside', 0, 150, 'Budget'),
+        sticky('outside', 800, 0, 'Loose note'),
+        { ...base, id: 'empty', type: 'rect', x: 800, y: 800, zIndex: 0, fill: '#fff', stroke: '#000', strokeWidth: 1 }
+      ]
+    }))
+
+    expect(markdown).toBe('# Board\n\n- Loose note\n\n## Risks\n\n- Budget\n')
+  })
+
+  it('embeds Markdown notes verbatim', () => {
+    const note = '## Plan\n\n1. Draft\n2. Review'
+    const markdown = exportBoardAsMarkdown(source({
+      elements: [sticky('md', 0, 0, note, true), sticky('plain', 0, 200, 'After')]
+    }))
+
+    expect(markdown).toBe(`# Board\n\n${note}\n\n- After\n`)
+  })
+
+  it('appends the chat transcript', () => {
+    const markdown = exportBoardAsMarkdown(source({
+      chatHistory: [
+        { id: '1', role: 'user', content: 'What next?', timestamp: 0 },
+        { id: '2', role: 'assistant', content: 'Ship it.', summary: 'Ship', timestamp: 1 }
+      ]
+    }))
+
+    expect(markdown).toBe('# Board\n\n## Appendix: Chat transcript\n\n### You\n\nWhat next?\n\n### Assistant\n\nShip it.\n')
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { layoutMindMap } from '@/lib/mindmap-layout'
+import { useBoardStore } from '@/store/boardStore'
+import type { MindMap, StickyElement } from '@/types'
+import { setupEmptyBoard } from '../store-setup'
+
+const map: MindMap = {
+  root: 'Product launch',
+  children: [
+    { label: 'Marketing', children: ['Blog post', 'Newsletter'] },
+    { label: 'Engineering', children: ['Feature freeze'] },
+    { label: 'Support', children: [] }
+  ],
+  relations: [
+    { from: 'Newsletter', to: 'support' },
+    { from: 'Unknown node', to: 'Marketing' }
+  ]
+}
+
+const overlaps = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.abs(a.x - b.x) < 200 && Math.abs(a.y - b.y) < 150
+
+describe('mindmap-layout - layoutMindMap', () => {
+  it('centers the root on the given point and connects every node', () => {
+    const layout = layoutMindMap(map, { x: 1000, y: 500 })
+
+    const root = layout.nodes.find(n => n.level === 0)!
+    expect(root).toMatchObject({ label: 'Product launch', x: 900, y: 425 })
+    expect(layout.nodes).toHaveLength(7)
+    // 6 tree edges + 1 resolvable relation (matched case-insensitively)
+    expect(layout.edges).toHaveLength(7)
+  })
+
+  it('does not overlap nodes', () => {
+    const { nodes } = layoutMindMap(map, { x: 0, y: 0 })
+
+    nodes.forEach((a, i) => {
+      nodes.slice(i + 1).forEach(b => expect(overlaps(a, b)).toBe(false))
+    })
+  })
+
+  it('uses facing anchors for branches above the root', () => {
+    const layout = layoutMindMap(map, { x: 0, y: 0 })
+
+    // First branch sits at 12 o'clock
+    expect(layout.edges[0]).toMatchObject({ from: 'root', to: 'branch-0', fromAnchor: 'top', toAnchor: 'bottom' })
+  })
+})
+
+describe('boardStore - addMindMap', () => {
+  setupEmptyBoard()
+
+  it('adds stickies and connectors as a single undo step', () => {
+    const ids = useBoardStore.getState().addMindMap(map, { x: 0, y: 0 })
+
+    let state = useBoardStore.getState()
+    expect(ids).toHaveLength(7)
+    expect(state.elements).toHaveLength(7)
+    expect(state.connectors).toHaveLength(7)
+    expect(state.selectedIds).toEqual(ids)
+    expect((state.elements[0] as StickyElement).text).toBe('Product launch')
+    expect(state.history.past).toHaveLength(1)
+
+    state.undo()
+    state = useBoardStore.getState()
+    expect(state.elements).toHaveLength(0)
+    expect(state.connectors).toHaveLength(0)
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest'
+import { useBoardStore } from '@/store/boardStore'
+import { setupEmptyBoard } from '../store-setup'
+
+describe('boardStore - nudge, duplicate and select all', () => {
+  setupEmptyBoard()
+
+  const get = (id: string) => useBoardStore.getState().getElementById(id)!
+  const rect = (x: number, y: number) => {
+    const id = useBoardStore.getState().addRect({ x, y })
+    useBoardStore.getState().updateElement(id, { x, y }, false, true)
+    return id
+  }
+
+  it('nudges the selection and merges quick repeats into one undo step', () => {
+    const a = rect(0, 0)
+    const locked = rect(300, 0)
+    useBoardStore.getState().setLocked([locked], true)
+    useBoardStore.getState().selectShapes([a, locked])
+    const steps = useBoardStore.getState().history.past.length
+
+    useBoardStore.getState().nudgeSelected(1, 0)
+    vi.advanceTimersByTime(200)
+    useBoardStore.getState().nudgeSelected(0, 10)
+    expect(get(a)).toMatchObject({ x: 1, y: 10 })
+    expect(get(locked)).toMatchObject({ x: 300, y: 0 })
+    expect(useBoardStore.getState().history.past).toHaveLength(steps + 1)
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Move rectangle')
+
+    // After a pause the next nudge is its own step
+    vi.advanceTimersByTime(2000)
+    useBoardStore.getState().nudgeSelected(-1, 0)
+    expect(useBoardStore.getState().history.past).toHaveLength(steps + 2)
+
+    useBoardStore.getState().undo()
+    useBoardStore.getState().undo()
+    expect(get(a)).toMatchObject({ x: 0, y: 0 })
+  })
+
+  it('moves selected connectors and keeps attached ends on their anchors', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 0)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    const line = useBoardStore.getState().addFreeConnectorAt({ x: 0, y: 500, length: 100 })
+    const [attached, free] = useBoardStore.getState().connectors
+    const freeBefore = [...free.points]
+    useBoardStore.getState().selectShapesAndConnectors([a], [attached.id, line])
+
+    useBoardStore.getState().nudgeSelected(0, 10)
+    const [movedAttached, movedFree] = useBoardStore.getState().connectors
+    expect(movedFree.points).toEqual(freeBefore.map((v, i) => v + (i % 2 === 0 ? 0 : 10)))
+    expect(movedAttached.points.slice(0, 2)).toEqual([get(a).x + get(a).width, get(a).y + get(a).height / 2])
+    expect(movedAttached.points.slice(2)).toEqual([get(b).x, get(b).y + get(b).height / 2])
+  })
+
+  it('leaves connectors attached at both ends alone when only connectors are selected', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 0)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    const [line] = useBoardStore.getState().connectors
+    useBoardStore.getState().updateElement(a, { x: 10 })
+    useBoardStore.getState().undo()
+    useBoardStore.getState().selectConnectors([line.id])
+    const { past } = useBoardStore.getState().history
+
+    useBoardStore.getState().nudgeSelected(0, 10)
+    const { connectors, history } = useBoardStore.getState()
+    expect(connectors[0].points).toEqual(line.points)
+    // No step that undoes nothing, and redo survives
+    expect(history.past).toHaveLength(past.length)
+    expect(history.future).toHaveLength(1)
+  })
+
+  it('duplicates with an offset, keeping connectors inside the selection', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 0)
+    const outside = rect(800, 0)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    useBoardStore.getState().addConnector({ id: b, anchor: 'right' }, { id: outside, anchor: 'left' })
+    useBoardStore.getState().selectShapes([a, b])
+
+    useBoardStore.getState().duplicateSelected()
+    const { selectedIds, connectors, elements, history } = useBoardStore.getState()
+    expect(elements).toHaveLength(5)
+    expect(selectedIds).toHaveLength(2)
+    expect(selectedIds).not.toContain(a)
+    expect(selectedIds.map(id => get(id).x).sort((p, q) => p - q)).toEqual([20, 420])
+    expect(connectors).toHaveLength(3)
+    expect(connectors[2]).toMatchObject({ fromId: selectedIds[0], toId: selectedIds[1] })
+    expect(history.past.at(-1)?.label).toBe('Duplicate 2 rectangles')
+
+    useBoardStore.getState().undo()
+    expect(useBoardStore.getState().elements).toHaveLength(3)
+  })
+
+  it('selects all unlocked elements and every connector', () => {
+    const a = rect(0, 0)
+    const b = rect(400, 0)
+    const locked = rect(800, 0)
+    useBoardStore.getState().setLocked([locked], true)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+
+    useBoardStore.getState().selectAll()
+    const { selectedIds, selectedConnectorIds, connectors, mode } = useBoardStore.getState()
+    expect(selectedIds).toEqual([a, b])
+    expect(selectedConnectorIds).toEqual([connectors[0].id])
+    expect(mode).toBe('select')
+  })
+})
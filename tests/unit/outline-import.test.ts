@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { parseOutline, isOutlineText, layoutOutline, type OutlineNode } from '@/lib/outline-import'
+import { getClipboardOutline } from '@/lib/clipboard-utils'
+import { useBoardStore } from '@/store/boardStore'
+import type { StickyElement } from '@/types'
+import { setupEmptyBoard } from '../store-setup'
+
+// Labels only, for compact expectations
+const labels = (nodes: OutlineNode[]): unknown[] =>
+  nodes.map(node => (node.children.length > 0 ? { [node.label]: labels(node.children) } : node.label))
+
+describe('outline-import - parseOutline', () => {
+  it('nests bullets under headings', () => {
+    const markdown = [
+      '# Launch',
+      '',
+      '## Marketing',
+      '- Blog post',
+      '  - Draft',
+      '  - Review',
+      '- Social',
+      '## Engineering',
+      '1. Release',
+      '2. [x] Monitor'
+    ].join('\n')
+
+    expect(labels(parseOutline(markdown))).toEqual([
+      {
+        Launch: [
+          { Marketing: [{ 'Blog post': ['Draft', 'Review'] }, 'Social'] },
+          { Engineering: ['Release', 'Monitor'] }
+        ]
+      }
+    ])
+  })
+
+  it('nests plain lines by indentation (spaces or tabs)', () => {
+    const text = 'Trip\n\tFlights\n\t\tOutbound\n\tHotel\nBudget'
+
+    expect(labels(parseOutline(text))).toEqual([{ Trip: [{ Flights: ['Outbound'] }, 'Hotel'] }, 'Budget'])
+  })
+
+  it('joins wrapped bullet text and skips code blocks and rules', () => {
+    const markdown = '- First line\n  continued\n---\n```\n- not a node\n```\n- Second'
+
+    expect(parseOutline(markdown).map(n => n.label)).toEqual(['First line\ncontinued', 'Second'])
+  })
+
+  it('tells outlines from ordinary text', () => {
+    expect(isOutlineText('- a\n  - b')).toBe(true)
+    expect(isOutlineText('# Title\nBody')).toBe(true)
+    expect(isOutlineText('just a sentence')).toBe(false)
+    expect(isOutlineText('- a\n- b')).toBe(false)
+  })
+})
+
+describe('outline-import - layoutOutline', () => {
+  const roots = parseOutline('Root\n  A\n    A1\n  B')
+
+  it('lays the tree out left to right starting at the origin', () => {
+    const layout = layoutOutline(roots, { x: 100, y: 50 })
+    const at = (label: string) => layout.nodes.find(n => n.label === label)!
+
+    expect(layout.nodes).toHaveLength(4)
+    expect(Math.min(...layout.nodes.map(n => n.x))).toBe(100)
+    expect(Math.min(...layout.nodes.map(n => n.y))).toBe(50)
+    expect(at('A').x).toBeGreaterThanOrEqual(at('Root').x + 200)
+    expect(at('A1').x).toBeGreaterThanOrEqual(at('A').x + 200)
+    // Document order is kept among siblings
+    expect(at('A').y).toBeLessThan(at('B').y)
+    expect(layout.edges).toContainEqual({ from: 'n0', to: 'n0-0', fromAnchor: 'right', toAnchor: 'left' })
+  })
+})
+
+describe('clipboard-utils - getClipboardOutline', () => {
+  const clipboard = (text: string) => ({ getData: () => text }) as unknown as DataTransfer
+
+  it('returns an outline only for structured text', () => {
+    expect(getClipboardOutline(clipboard('- a\n  - b'))).toHaveLength(1)
+    expect(getClipboardOutline(clipboard('hello'))).toBeNull()
+    expect(getClipboardOutline(null)).toBeNull()
+  })
+})
+
+describe('boardStore - addOutline', () => {
+  setupEmptyBoard()
+
+  it('adds a sticky per node and a connector per parent/child pair as one undo step', () => {
+    const ids = useBoardStore.getState().addOutline(parseOutline('# Plan\n- Design\n  - Mockups\n- Build'), { x: 0, y: 0 })
+
+    let state = useBoardStore.getState()
+    expect(ids).toHaveLength(4)
+    expect(state.elements.map(e => (e as StickyElement).text)).toEqual(['Plan', 'Design', 'Mockups', 'Build'])
+    expect(state.connectors.map(c => [c.fromId, c.toId])).toEqual([
+      [ids[0], ids[1]],
+      [ids[1], ids[2]],
+      [ids[0], ids[3]]
+    ])
+    expect(state.selectedIds).toEqual(ids)
+    expect(state.history.past).toHaveLength(1)
+
+    state.undo()
+    state = useBoardStore.getState()
+    expect(state.elements).toHaveLength(0)
+    expect(state.connectors).toHaveLength(0)
+  })
+})
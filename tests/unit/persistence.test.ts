@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  _getStorageBackend,
+  _resetStorageBackend,
+  createBoard,
+  listBoards,
+  renameBoard,
+  duplicateBoard,
+  deleteBoard,
+  saveBoardData,
+  loadBoardData,
+  saveViewport,
+  loadViewport,
+  migrateLegacyStorage,
+  debouncedSaveBoardData,
+  flushPendingSaves
+} from '@/lib/persistence'
+import { useBoardStore } from '@/store/boardStore'
+import type { StickyElement } from '@/types'
+
+const sticky = (id: string, text: string): StickyElement => ({
+  id,
+  type: 'sticky',
+  x: 0,
+  y: 0,
+  width: 200,
+  height: 150,
+  zIndex: 1,
+  text,
+  color: '#FFF2B2',
+  createdAt: 0,
+  updatedAt: 0
+})
+
+describe('persistence - multi-board workspace', () => {
+  beforeEach(() => {
+    _resetStorageBackend()
+    window.localStorage.clear()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('creates, lists and renames boards', async () => {
+    const first = await createBoard('Retro')
+    const second = await createBoard('Planning')
+    await renameBoard(first.id, 'Sprint retro')
+
+    const boards = await listBoards()
+    expect(boards.map(b => b.name).sort()).toEqual(['Planning', 'Sprint retro'])
+    expect(boards.find(b => b.id === second.id)).toBeDefined()
+  })
+
+  it('stores content per board', async () => {
+    const a = await createBoard('A')
+    const b = await createBoard('B')
+
+    await saveBoardData(a.id, { elements: [sticky('s1', 'in A')], connectors: [] })
+    await saveBoardData(b.id, {
+      elements: [sticky('s2', 'in B')],
+      connectors: [],
+      chatHistory: [{ id: 'm1', role: 'user', content: 'hello', timestamp: 1 }],
+      mainTheme: { id: 't1', content: 'Theme B', createdAt: 1, updatedAt: 1 }
+    })
+
+    const dataA = await loadBoardData(a.id)
+    const dataB = await loadBoardData(b.id)
+    expect((dataA?.elements[0] as StickyElement).text).toBe('in A')
+    expect(dataA?.chatHistory).toEqual([])
+    expect((dataB?.elements[0] as StickyElement).text).toBe('in B')
+    expect(dataB?.mainTheme?.content).toBe('Theme B')
+  })
+
+  it('duplicates content and viewport into a new board', async () => {
+    const source = await createBoard('Source')
+    await saveBoardData(source.id, { elements: [sticky('s1', 'copy me')], connectors: [] })
+    await saveViewport(source.id, { zoom: 2, panX: 10, panY: 20, savedAt: 0 })
+
+    const copy = await duplicateBoard(source.id)
+    expect(copy?.name).toBe('Source (copy)')
+    expect(copy?.id).not.toBe(source.id)
+
+    const data = await loadBoardData(copy!.id)
+    const viewport = await loadViewport(copy!.id)
+    expect((data?.elements[0] as StickyElement).text).toBe('copy me')
+    expect(viewport).toMatchObject({ zoom: 2, panX: 10, panY: 20 })
+  })
+
+  it('deletes a board with its content', async () => {
+    const board = await createBoard('Temp')
+    await deleteBoard(board.id)
+
+    expect(await listBoards()).toHaveLength(0)
+    expect(await loadBoardData(board.id)).toBeNull()
+  })
+
+  it('flushes debounced saves on demand', async () => {
+    const board = await createBoard('Debounced')
+    debouncedSaveBoardData(board.id, { elements: [sticky('s1', 'pending')], connectors: [] }, 10000)
+
+    await flushPendingSaves()
+
+    const data = await loadBoardData(board.id)
+    expect(data?.elements).toHaveLength(1)
+  })
+
+  it('migrates the legacy single-board localStorage entry', async () => {
+    window.localStorage.setItem('llm-whiteboard-data', JSON.stringify({
+      elements: [sticky('legacy', 'old board')],
+      connectors: [],
+      version: '1.0.0',
+      savedAt: 1
+    }))
+    window.localStorage.setItem('llm-whiteboard-viewport', JSON.stringify({ zoom: 1.5, panX: 5, panY: 6, savedAt: 1 }))
+
+    const migrated = await migrateLegacyStorage()
+
+    expect(migrated).not.toBeNull()
+    expect(window.localStorage.getItem('llm-whiteboard-data')).toBeNull()
+    const data = await loadBoardData(migrated!.id)
+    expect((data?.elements[0] as StickyElement).text).toBe('old board')
+    expect(await loadViewport(migrated!.id)).toMatchObject({ zoom: 1.5 })
+  })
+})
+
+describe('boardStore - board switching', () => {
+  beforeEach(() => {
+    _resetStorageBackend()
+    window.localStorage.clear()
+    useBoardStore.setState({ currentBoardId: null, boards: [], boardLoadError: null })
+    useBoardStore.getState().clearAll()
+  })
+
+  it('creates a default board when storage is empty', async () => {
+    await useBoardStore.getState().loadFromStorage()
+
+    const { currentBoardId, boards } = useBoardStore.getState()
+    expect(currentBoardId).toBeTruthy()
+    expect(boards).toHaveLength(1)
+  })
+
+  it('creates a single board when loads run at the same time', async () => {
+    await Promise.all([useBoardStore.getState().loadFromStorage(), useBoardStore.getState().loadFromStorage()])
+
+    expect(await listBoards()).toHaveLength(1)
+    expect(useBoardStore.getState().boards).toHaveLength(1)
+  })
+
+  it('leaves a board it cannot read unopened and its stored data untouched', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const board = await createBoard('From a newer version')
+    const stored = { elements: [sticky('s1', 'newer')], connectors: [], version: '9.0.0', savedAt: 1 }
+    await _getStorageBackend().put('boardData', board.id, stored)
+
+    await useBoardStore.getState().loadFromStorage()
+    expect(useBoardStore.getState().currentBoardId).toBeNull()
+    expect(useBoardStore.getState().boardLoadError).toMatchObject({ boardId: board.id, message: expect.stringContaining('9.0.0') })
+
+    useBoardStore.getState().addSticky({ x: 0, y: 0, text: 'edit' })
+    await flushPendingSaves()
+    expect(await _getStorageBackend().get('boardData', board.id)).toEqual(stored)
+  })
+
+  it('keeps each board content separate when switching', async () => {
+    const store = useBoardStore.getState()
+    await store.loadFromStorage()
+    const firstId = useBoardStore.getState().currentBoardId!
+
+    store.addSticky({ x: 0, y: 0, text: 'first board' })
+    store.setMainTheme('First theme')
+
+    const secondId = await store.createBoard('Second')
+    expect(useBoardStore.getState().currentBoardId).toBe(secondId)
+    expect(useBoardStore.getState().elements).toHaveLength(0)
+    expect(useBoardStore.getState().mainTheme).toBeNull()
+
+    await store.openBoard(firstId)
+    const state = useBoardStore.getState()
+    expect(state.elements).toHaveLength(1)
+    expect(state.mainTheme?.content).toBe('First theme')
+    expect(state.boards.map(b => b.id)).toEqual([firstId, secondId])
+  })
+
+  it('opens another board after deleting the current one', async () => {
+    const store = useBoardStore.getState()
+    await store.loadFromStorage()
+    const firstId = useBoardStore.getState().currentBoardId!
+    const secondId = await store.createBoard('Second')
+
+    await store.deleteBoard(secondId)
+
+    const state = useBoardStore.getState()
+    expect(state.currentBoardId).toBe(firstId)
+    expect(state.boards).toHaveLength(1)
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { resizeBox } from '@/lib/resize'
+
+const box = { x: 0, y: 0, width: 200, height: 100 }
+
+describe('resize - resizeBox', () => {
+  it('stretches freely from corners and edges, keeping the opposite side', () => {
+    expect(resizeBox(box, 'e', 100, 30)).toEqual({ x: 0, y: 0, width: 300, height: 100 })
+    expect(resizeBox(box, 'n', 0, -50)).toEqual({ x: 0, y: -50, width: 200, height: 150 })
+    expect(resizeBox(box, 'nw', 50, 20)).toEqual({ x: 50, y: 20, width: 150, height: 80 })
+    expect(resizeBox(box, 'w', 500, 0, { minWidth: 10 })).toMatchObject({ x: 190, width: 10 })
+  })
+
+  it('locks the aspect ratio with Shift', () => {
+    // Corners follow the larger drag
+    expect(resizeBox(box, 'se', 200, 10, { keepAspect: true })).toEqual({ x: 0, y: 0, width: 400, height: 200 })
+    // Edges grow the other side around its middle
+    expect(resizeBox(box, 'e', 200, 0, { keepAspect: true })).toEqual({ x: 0, y: -50, width: 400, height: 200 })
+    // A fixed ratio (images keep their original one)
+    expect(resizeBox(box, 's', 0, 150, { keepAspect: true, aspect: 1 })).toEqual({ x: -25, y: 0, width: 250, height: 250 })
+  })
+
+  it('resizes around the center with Alt', () => {
+    expect(resizeBox(box, 'e', 50, 0, { fromCenter: true })).toEqual({ x: -50, y: 0, width: 300, height: 100 })
+    expect(resizeBox(box, 'nw', -10, -10, { fromCenter: true, keepAspect: true })).toEqual({ x: -20, y: -10, width: 240, height: 120 })
+  })
+
+  it('keeps the proportions when clamping to the minimum size', () => {
+    expect(resizeBox(box, 'se', -190, 0, { keepAspect: true, minWidth: 20, minHeight: 20 })).toEqual({ x: 0, y: 0, width: 40, height: 20 })
+    // Dragged past the opposite side
+    expect(resizeBox(box, 'se', -250, 0, { keepAspect: true, minWidth: 20, minHeight: 20 })).toEqual({ x: 0, y: 0, width: 40, height: 20 })
+    expect(resizeBox(box, 'w', 300, 0, { keepAspect: true, minWidth: 20, minHeight: 20 })).toEqual({ x: 160, y: 40, width: 40, height: 20 })
+  })
+})
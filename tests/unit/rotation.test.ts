@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isElementIntersectingRect,
+  isPointInElement,
+  rotateAboutCenter,
+  rotateResize,
+  rotatedBounds,
+  rotationFromPointer,
+  snapRotation,
+  toElementAxes
+} from '@/lib/rotation'
+import { isWithinHoverBuffer } from '@/lib/interaction-utils'
+import { getAnchorCoordinates } from '@/lib/proximity-utils'
+import { useBoardStore } from '@/store/boardStore'
+import { setupEmptyBoard } from '../store-setup'
+
+const close = (point: { x: number; y: number }) => ({ x: Math.round(point.x * 1000) / 1000 + 0, y: Math.round(point.y * 1000) / 1000 + 0 })
+
+describe('rotation - geometry', () => {
+  // 100x50 box turned a quarter around its top-left corner: it now hangs to the left of x=0
+  const box = { x: 0, y: 0, width: 100, height: 50, rotation: 90 }
+
+  it('computes the box around a rotated element', () => {
+    const bounds = rotatedBounds(box)
+    expect(close(bounds)).toEqual({ x: -50, y: 0 })
+    expect(Math.round(bounds.width)).toBe(50)
+    expect(Math.round(bounds.height)).toBe(100)
+  })
+
+  it('hit tests points in the element axes', () => {
+    expect(isPointInElement({ x: -25, y: 80 }, box)).toBe(true)
+    expect(isPointInElement({ x: 25, y: 20 }, box)).toBe(false)
+    expect(isWithinHoverBuffer({ x: 10, y: 50 }, box, 20)).toBe(true)
+    expect(isWithinHoverBuffer({ x: 80, y: 20 }, box, 20)).toBe(false)
+  })
+
+  it('intersects the marquee with the turned shape, not its bounding box', () => {
+    const diamond = { x: 50, y: 0, width: 100, height: 100, rotation: 45 }
+    // Inside the axis-aligned bounds but outside the diamond
+    expect(isElementIntersectingRect(diamond, { x: -20, y: 0, width: 10, height: 10 })).toBe(false)
+    expect(isElementIntersectingRect(diamond, { x: 40, y: 60, width: 10, height: 10 })).toBe(true)
+  })
+
+  it('rotates around the center and snaps to 15 degrees', () => {
+    const turned = rotateAboutCenter({ x: 0, y: 0, width: 100, height: 50 }, 180)
+    expect(close(turned)).toEqual({ x: 100, y: 50 })
+    expect(turned.rotation).toBe(180)
+
+    expect(snapRotation(22)).toBe(15)
+    expect(snapRotation(-5)).toBe(0)
+    expect(snapRotation(-10)).toBe(345)
+    // Dragging straight right of the center reads as 90°
+    expect(rotationFromPointer({ x: 0, y: 0, width: 100, height: 100 }, { x: 200, y: 50 })).toBe(90)
+    expect(rotationFromPointer({ x: 0, y: 0, width: 100, height: 100 }, { x: 200, y: 60 }, true)).toBe(90)
+  })
+
+  it('keeps the opposite corner fixed when resizing a rotated element', () => {
+    // Dragging right on screen grows a 90° element along its height axis
+    expect(close(toElementAxes({ x: 0, y: 10 }, 90))).toEqual({ x: 10, y: 0 })
+    expect(close(rotateResize({ x: 0, y: 0, rotation: 90 }, { x: 10, y: 0, width: 90 }))).toEqual({ x: 0, y: 10 })
+    expect(rotateResize({ x: 0, y: 0 }, { x: 10, width: 90 })).toEqual({ x: 10, width: 90 })
+  })
+
+  it('places anchors on the rotated sides', () => {
+    expect(close(getAnchorCoordinates({ id: 'a', ...box }, 'right'))).toEqual({ x: -25, y: 100 })
+  })
+})
+
+describe('boardStore - rotateElement', () => {
+  setupEmptyBoard()
+
+  const get = (id: string) => useBoardStore.getState().getElementById(id)!
+
+  it('turns around the center in one undo step', () => {
+    const id = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    const start = { ...get(id) }
+
+    useBoardStore.getState().rotateElement(id, 30)
+    useBoardStore.getState().rotateElement(id, 90, true)
+    expect(get(id).rotation).toBe(90)
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Rotate rectangle')
+
+    const center = { x: start.x + start.width / 2, y: start.y + start.height / 2 }
+    const bounds = rotatedBounds(get(id))
+    expect(close({ x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 })).toEqual(center)
+
+    useBoardStore.getState().undo()
+    expect(get(id)).toMatchObject({ x: start.x, y: start.y })
+    expect(get(id).rotation).toBeUndefined()
+  })
+
+  it('moves connector ends with the rotated anchors', () => {
+    const a = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    const b = useBoardStore.getState().addRect({ x: 1000, y: 0 })
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+
+    useBoardStore.getState().rotateElement(a, 180)
+    const rect = get(a)
+    const [fromX, fromY] = useBoardStore.getState().connectors[0].points
+    // The right side now faces left
+    expect(close({ x: fromX, y: fromY })).toEqual(close({ x: rect.x - rect.width, y: rect.y - rect.height / 2 }))
+  })
+
+  it('leaves locked elements and frames unrotated', () => {
+    const id = useBoardStore.getState().addRect({ x: 0, y: 0 })
+    const frameId = useBoardStore.getState().addFrame({ x: 2000, y: 0 })
+    useBoardStore.getState().setLocked([id], true)
+
+    useBoardStore.getState().rotateElement(id, 45)
+    useBoardStore.getState().rotateElement(frameId, 45)
+    expect(get(id).rotation).toBeUndefined()
+    expect(get(frameId).rotation).toBeUndefined()
+  })
+})
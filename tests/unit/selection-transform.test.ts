@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { selectionBounds, transformConnectorPoints, transformElement } from '@/lib/selection-transform'
+import { useBoardStore } from '@/store/boardStore'
+import type { CanvasElement, TextElement } from '@/types'
+import { setupEmptyBoard } from '../store-setup'
+
+const box = { x: 0, y: 0, width: 200, height: 100 }
+
+describe('selection-transform - geometry', () => {
+  it('covers elements and connector points', () => {
+    const element = { id: 'a', type: 'rect', x: 10, y: 20, width: 50, height: 50 } as CanvasElement
+    expect(selectionBounds([element], [{ points: [0, 100, 300, 40] }])).toEqual({ x: 0, y: 20, width: 300, height: 80 })
+    expect(selectionBounds([])).toBeNull()
+  })
+
+  it('scales positions, sizes and optionally font sizes', () => {
+    const text = { id: 't', type: 'text', x: 100, y: 50, width: 100, height: 50, fontSize: 16 } as TextElement
+    const double = { x: 0, y: 0, width: 400, height: 200 }
+    expect(transformElement(text, box, double)).toEqual({ x: 200, y: 100, width: 200, height: 100 })
+    expect(transformElement(text, box, double, true)).toMatchObject({ fontSize: 32 })
+    expect(transformElement(text, box, { ...box, x: 30 })).toEqual({ x: 130, y: 50 })
+    expect(transformConnectorPoints([0, 0, 200, 100], box, double)).toEqual([0, 0, 400, 200])
+  })
+})
+
+describe('boardStore - selection transform', () => {
+  setupEmptyBoard({ transformScalesText: false })
+
+  const get = (id: string) => useBoardStore.getState().getElementById(id)!
+  const rect = (x: number, y: number) => {
+    const id = useBoardStore.getState().addRect({ x, y })
+    useBoardStore.getState().updateElement(id, { x, y, width: 100, height: 100 }, false, true)
+    return id
+  }
+
+  it('scales the selection in one undo step with connectors following', () => {
+    const a = rect(0, 0)
+    const b = rect(300, 100)
+    useBoardStore.getState().addConnector({ id: a, anchor: 'right' }, { id: b, anchor: 'left' })
+    useBoardStore.getState().selectShapes([a, b])
+    const steps = useBoardStore.getState().history.past.length
+
+    const store = useBoardStore.getState()
+    store.beginSelectionTransform('resize')
+    store.updateSelectionTransform({ x: 0, y: 0, width: 600, height: 300 })
+    store.updateSelectionTransform({ x: 0, y: 0, width: 800, height: 400 })
+    store.endSelectionTransform()
+
+    expect(get(b)).toMatchObject({ x: 600, y: 200, width: 200, height: 200 })
+    expect(useBoardStore.getState().history.past).toHaveLength(steps + 1)
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Resize 2 rectangles')
+    expect(useBoardStore.getState().connectors[0].points).toEqual([200, 100, 600, 300])
+
+    useBoardStore.getState().undo()
+    expect(get(b)).toMatchObject({ x: 300, y: 100, width: 100, height: 100 })
+  })
+
+  it('moves selected free connectors and skips locked elements', () => {
+    const a = rect(0, 0)
+    const locked = rect(500, 0)
+    const line = useBoardStore.getState().addFreeConnectorAt({ x: 200, y: 50, length: 100 })
+    useBoardStore.getState().setLocked([locked], true)
+    useBoardStore.setState({ selectedIds: [a, locked], selectedConnectorIds: [line] })
+    const before = [...useBoardStore.getState().connectors[0].points]
+    // The locked element is not part of the box
+    const start = selectionBounds([get(a)], useBoardStore.getState().connectors)!
+
+    const store = useBoardStore.getState()
+    store.beginSelectionTransform('move')
+    store.updateSelectionTransform({ ...start, x: start.x + 40, y: start.y + 10 })
+    store.endSelectionTransform()
+
+    expect(get(a)).toMatchObject({ x: 40, y: 10 })
+    expect(get(locked)).toMatchObject({ x: 500, y: 0 })
+    expect(useBoardStore.getState().connectors[0].points).toEqual(before.map((v, i) => v + (i % 2 === 0 ? 40 : 10)))
+    expect(useBoardStore.getState().history.past.at(-1)?.label).toBe('Move rectangle')
+  })
+
+  it('scales text font size only when enabled', () => {
+    const a = rect(0, 0)
+    const t = useBoardStore.getState().addText({ x: 100, y: 0 })
+    useBoardStore.getState().updateElement(t, { x: 100, y: 0, width: 100, height: 100, fontSize: 20 } as Partial<TextElement>, false, true)
+    useBoardStore.getState().selectShapes([a, t])
+    useBoardStore.getState().setTransformScalesText(true)
+
+    const store = useBoardStore.getState()
+    store.beginSelectionTransform('resize')
+    store.updateSelectionTransform({ x: 0, y: 0, width: 100, height: 50 })
+    store.endSelectionTransform()
+
+    expect((get(t) as TextElement).fontSize).toBe(10)
+  })
+})
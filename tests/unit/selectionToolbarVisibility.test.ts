@@ -32,6 +32,8 @@ describe('SelectionToolbar Visibility Logic', () => {
         return { ...base, type, fill: '#FFFFFF', stroke: '#000000', strokeWidth: 2 }
       case 'image':
         return { ...base, type, src: 'test.png', originalWidth: 200, originalHeight: 100 }
+      case 'frame':
+        return { ...base, type, title: 'Frame 1' }
     }
   }
 